@@ -5,13 +5,19 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "./components/theme-provider";
 import { ErrorBoundary } from "./components/error-boundary";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Home from "@/pages/home";
+import AuthPage from "@/pages/auth-page";
+import HistoryPage from "@/pages/history";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/history" component={HistoryPage} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -23,8 +29,10 @@ function App() {
       <ThemeProvider defaultTheme="system" storageKey="medical-app-theme">
         <TooltipProvider>
           <ErrorBoundary>
-            <Toaster />
-            <Router />
+            <AuthProvider>
+              <Toaster />
+              <Router />
+            </AuthProvider>
           </ErrorBoundary>
         </TooltipProvider>
       </ThemeProvider>
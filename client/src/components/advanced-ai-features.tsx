@@ -37,7 +37,12 @@ import {
   MessageSquare
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { AIAnalysisResult, PatientInfo } from "../types/medical";
+import { api } from "@/lib/api";
+import type { AIAnalysisResult, DrugInteractionFinding, DrugInteractionReport, PatientInfo } from "../types/medical";
+
+// Splits a comma, semicolon or newline separated list typed into a textarea
+const splitList = (text: string = "") => text.split(/[\n,;]+/).map(item => item.trim()).filter(Boolean);
+const unique = (items: string[]) => items.filter((item, index) => items.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index);
 
 interface AdvancedAIFeaturesProps {
   patientInfo: PatientInfo;
@@ -183,16 +188,34 @@ export const AdvancedAIFeatures = ({ patientInfo, analysis, activeFeature: exter
     };
   };
 
-  const checkDrugInteractions = async (params: any) => {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    return {
-      interactions: [
-        { severity: "High", drugs: "Warfarin + Aspirin", effect: "Increased bleeding risk" },
-        { severity: "Medium", drugs: "Lisinopril + NSAIDs", effect: "Reduced effectiveness" }
-      ],
-      recommendations: "Monitor INR closely. Consider alternative medications."
-    };
+  const checkDrugInteractions = async (params: any): Promise<DrugInteractionReport> => {
+    const inputs = { ...drugInteractionInputs, ...params };
+    const profile = patientInfo.profile;
+    // Whatever is typed here is checked together with the patient's health profile
+    const medications = unique([
+      ...splitList(inputs.medications),
+      ...(profile?.medications.map(medication => medication.name) || [])
+    ]);
+    if (medications.length === 0) {
+      throw new Error("enter at least one medication in Interactive Tools");
+    }
+
+    // Known history and current diagnoses are checked for drug-condition contraindications
+    const conditions = unique([
+      ...splitList(inputs.diagnosis),
+      ...(profile?.chronicConditions || []),
+      ...(patientInfo.medicalHistory ? [patientInfo.medicalHistory] : []),
+      ...(analysis?.diagnoses?.map(diagnosis => diagnosis.name) || [])
+    ]);
+
+    return api.checkDrugInteractions({
+      medications,
+      allergies: unique([
+        ...splitList(inputs.allergies),
+        ...(profile?.allergies.map(allergy => allergy.substance) || [])
+      ]),
+      conditions
+    });
   };
 
   const performRiskStratification = async (params: any) => {
@@ -433,20 +456,23 @@ export const AdvancedAIFeatures = ({ patientInfo, analysis, activeFeature: exter
       case "drug-interactions":
         return (
           <div className="space-y-3">
-            {result.interactions?.map((interaction: any, idx: number) => (
-              <div key={idx} className="p-2 border rounded">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <div className="font-medium text-sm">{interaction.drugs}</div>
-                    <div className="text-sm text-gray-600">{interaction.effect}</div>
-                  </div>
-                  <Badge variant={interaction.severity === 'High' ? 'destructive' : 'secondary'}>
-                    {interaction.severity}
+            <p className="text-sm text-gray-700">{result.summary}</p>
+            {result.findings?.map((finding: DrugInteractionFinding) => (
+              <div key={finding.id} className="p-2 border rounded space-y-1">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="font-medium text-sm capitalize">{finding.pair.join(' + ')}</div>
+                  <Badge variant={finding.severity === 'contraindicated' || finding.severity === 'major' ? 'destructive' : 'secondary'}>
+                    {finding.severity}
                   </Badge>
                 </div>
+                <div className="text-sm text-gray-600">{finding.mechanism}</div>
+                <div className="text-sm font-medium">{finding.recommendation}</div>
+                {finding.explanation && (
+                  <div className="text-xs text-gray-500">{finding.explanation}</div>
+                )}
               </div>
             ))}
-            <p className="text-sm text-gray-600">{result.recommendations}</p>
+            <p className="text-xs text-gray-400">Interaction data version {result.datasetVersion}</p>
           </div>
         );
 
@@ -539,13 +565,42 @@ export const AdvancedAIFeatures = ({ patientInfo, analysis, activeFeature: exter
                     <Label htmlFor="medications">Current Medications</Label>
                     <Textarea
                       id="medications"
-                      placeholder="List current medications..."
+                      placeholder="One per line or comma separated, e.g. warfarin 5mg, ibuprofen"
                       value={drugInteractionInputs.medications}
                       onChange={(e) => setDrugInteractionInputs(prev => ({
                         ...prev,
                         medications: e.target.value
                       }))}
                     />
+                    {!!patientInfo.profile?.medications.length && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Also checked from the health profile: {patientInfo.profile.medications.map(medication => medication.name).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="allergies">Allergies</Label>
+                    <Input
+                      id="allergies"
+                      placeholder="e.g. penicillin, sulfa"
+                      value={drugInteractionInputs.allergies}
+                      onChange={(e) => setDrugInteractionInputs(prev => ({
+                        ...prev,
+                        allergies: e.target.value
+                      }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="conditions">Conditions</Label>
+                    <Input
+                      id="conditions"
+                      placeholder="e.g. asthma, kidney disease, pregnancy"
+                      value={drugInteractionInputs.diagnosis}
+                      onChange={(e) => setDrugInteractionInputs(prev => ({
+                        ...prev,
+                        diagnosis: e.target.value
+                      }))}
+                    />
                   </div>
                   <Button 
                     onClick={() => executeFeature('drug-interactions', drugInteractionInputs)}
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDownRight, ArrowUpRight, GitCompare, Minus, Plus } from "lucide-react";
+import { api } from "@/lib/api";
+import type { AnalysisDiff } from "@/types/medical";
+
+interface AnalysisChangesProps {
+  sessionId: string;
+  // Revision of the analysis on screen; the diff is refetched when it changes
+  revision?: number;
+}
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${delta}%`;
+}
+
+// "What changed since last analysis": nothing is shown for a session's first analysis
+export function AnalysisChanges({ sessionId, revision }: AnalysisChangesProps) {
+  const { data: diff } = useQuery<AnalysisDiff | undefined>({
+    queryKey: ['/api/sessions', sessionId, 'analyses', 'diff', revision],
+    queryFn: () => api.getAnalysisDiff(sessionId, { to: revision }),
+    enabled: !!sessionId && (revision ?? 0) > 1,
+  });
+
+  if (!diff) return null;
+
+  const nothingChanged =
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0 &&
+    diff.redFlags.added.length === 0 &&
+    diff.redFlags.removed.length === 0;
+
+  return (
+    <Card className="max-w-6xl mx-auto border-blue-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <GitCompare className="w-4 h-4 text-blue-600" />
+          What changed since the last analysis
+          <Badge variant="outline" className="ml-auto text-xs font-normal">
+            Revision {diff.from.revision} → {diff.to.revision}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {nothingChanged && (
+          <p className="text-gray-600">The differential and red flags are the same as in the previous analysis.</p>
+        )}
+
+        {diff.added.map((diagnosis) => (
+          <div key={`added-${diagnosis.name}`} className="flex items-center gap-2 text-green-700">
+            <Plus className="w-4 h-4 flex-shrink-0" />
+            <span><span className="font-medium">{diagnosis.name}</span> entered the differential ({diagnosis.confidence}%)</span>
+          </div>
+        ))}
+
+        {diff.removed.map((diagnosis) => (
+          <div key={`removed-${diagnosis.name}`} className="flex items-center gap-2 text-gray-500">
+            <Minus className="w-4 h-4 flex-shrink-0" />
+            <span><span className="font-medium line-through">{diagnosis.name}</span> left the differential (was {diagnosis.confidence}%)</span>
+          </div>
+        ))}
+
+        {diff.changed.map((change) => (
+          <div key={`changed-${change.name}`} className="flex items-center gap-2">
+            {change.delta > 0
+              ? <ArrowUpRight className="w-4 h-4 flex-shrink-0 text-blue-600" />
+              : <ArrowDownRight className="w-4 h-4 flex-shrink-0 text-orange-600" />}
+            <span>
+              <span className="font-medium">{change.name}</span>: {change.from}% → {change.to}%{" "}
+              <span className={change.delta > 0 ? "text-blue-600" : "text-orange-600"}>({formatDelta(change.delta)})</span>
+            </span>
+          </div>
+        ))}
+
+        {(diff.redFlags.added.length > 0 || diff.redFlags.removed.length > 0) && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {diff.redFlags.added.map((flag) => (
+              <Badge key={`flag-added-${flag}`} variant="destructive">New red flag: {flag}</Badge>
+            ))}
+            {diff.redFlags.removed.map((flag) => (
+              <Badge key={`flag-removed-${flag}`} variant="secondary">Resolved: {flag}</Badge>
+            ))}
+          </div>
+        )}
+
+        {diff.overallConfidence.delta !== 0 && (
+          <p className="text-xs text-gray-500">
+            Overall confidence {diff.overallConfidence.from}% → {diff.overallConfidence.to}% ({formatDelta(diff.overallConfidence.delta)})
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -43,7 +43,12 @@ import {
   MessageSquare,
 } from "lucide-react";
 
-import { PatientInfo, ConsultationFlow, FollowUpQA, UserType, QuestionType, FollowUpMCQ, DiagnosisResult, AIAnalysisResult } from "@/types/medical";
+import { AnalysisChanges } from "@/components/analysis-changes";
+import { PatientProfileForm, cleanPatientProfile, emptyPatientProfile } from "@/components/patient-profile-form";
+import { PatientPicker } from "@/components/patient-picker";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { PatientInfo, PatientRecord, ConsultationFlow, FollowUpQA, UserType, QuestionType, FollowUpMCQ, DiagnosisResult, AIAnalysisResult } from "@/types/medical";
 
 interface ConsultationPanelProps {
   patientInfo: PatientInfo;
@@ -54,6 +59,8 @@ interface ConsultationPanelProps {
   flowState: ConsultationFlow;
   onFlowChange: (flow: ConsultationFlow) => void;
   isLoading?: boolean;
+  // Enables the "what changed since last analysis" view
+  sessionId?: string;
 }
 
 const ConsultationPanel = ({
@@ -64,7 +71,8 @@ const ConsultationPanel = ({
   onSkipQuestions,
   flowState,
   onFlowChange,
-  isLoading = false
+  isLoading = false,
+  sessionId
 }: ConsultationPanelProps) => {
   const [currentStep, setCurrentStep] = useState<string>("user-type");
   const [error, setError] = useState<string | null>(null);
@@ -75,6 +83,9 @@ const ConsultationPanel = ({
   const [selectedUserType, setSelectedUserType] = useState<UserType>('patient');
   const [selectedQuestionType, setSelectedQuestionType] = useState<QuestionType>('mcq');
   const [noMedicalHistory, setNoMedicalHistory] = useState(false);
+  // Saved patient record the consultation is filed under (null: new patient)
+  const [selectedPatientId, setSelectedPatientId] = useState<number | null>(null);
+  const [savePatientRecord, setSavePatientRecord] = useState(false);
   const [inputValidation, setInputValidation] = useState<{ [key: string]: boolean }>({});
   const [isProcessingInput, setIsProcessingInput] = useState(false);
   const [currentMCQIndex, setCurrentMCQIndex] = useState(0);
@@ -154,6 +165,18 @@ const ConsultationPanel = ({
     }
   }, [flowState.followUpQuestions, followUpAnswers.length, selectedQuestionType]);
 
+  // A new or resumed session starts from the patient record it is filed under
+  useEffect(() => {
+    setSelectedPatientId(null);
+    setSavePatientRecord(false);
+    if (!sessionId) return;
+    api.getSession(sessionId)
+      .then((session) => setSelectedPatientId(session.patientId ?? null))
+      .catch(() => {
+        // Not created yet; stays a new patient
+      });
+  }, [sessionId]);
+
   // Progress calculation
   useEffect(() => {
     let newProgress = 0;
@@ -216,6 +239,38 @@ const ConsultationPanel = ({
     setCurrentStep("patient-info");
   };
 
+  const handlePatientSelect = (patient: PatientRecord | null) => {
+    setSelectedPatientId(patient?.id ?? null);
+    setSavePatientRecord(false);
+    onPatientInfoChange(patient
+      ? {
+          ...patient.patientInfo,
+          medicalHistory: patient.patientInfo.medicalHistory ?? "",
+          profile: patient.profile ?? emptyPatientProfile(),
+        }
+      : { name: "", age: undefined, gender: undefined, medicalHistory: "" });
+  };
+
+  // Creates or updates the saved record when asked to, then files the session under it
+  const linkPatientRecord = async (info: PatientInfo) => {
+    if (!sessionId) return;
+    let patientId = selectedPatientId;
+    if (savePatientRecord) {
+      const { id: _id, profile, ...details } = info;
+      const record = { patientInfo: { ...details, name: details.name.trim() }, profile };
+      const patient = patientId
+        ? await api.updatePatient(patientId, record)
+        : await api.createPatient(record);
+      patientId = patient.id;
+      setSelectedPatientId(patientId);
+      setSavePatientRecord(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+    }
+    if (patientId) {
+      await api.updateSession(sessionId, { patientId });
+    }
+  };
+
   const handlePatientInfoSubmit = async () => {
     // Enhanced validation for different user types
     const isValidInfo = validateUserModeRequirements(selectedUserType, patientInfo);
@@ -244,6 +299,26 @@ const ConsultationPanel = ({
     }
     
     setError(null);
+    const info = patientInfo.profile
+      ? { ...patientInfo, profile: cleanPatientProfile(patientInfo.profile) }
+      : patientInfo;
+    if (info.profile) {
+      onPatientInfoChange(info);
+      // The profile also goes with every analysis request, so a failed save
+      // only means it is not kept for later
+      if (sessionId) {
+        try {
+          await api.savePatientProfile(sessionId, info.profile);
+        } catch (error) {
+          console.error('Failed to save patient profile:', error);
+        }
+      }
+    }
+    try {
+      await linkPatientRecord(info);
+    } catch (error) {
+      console.error('Failed to save patient record:', error);
+    }
     setCurrentStep("symptoms");
     onFlowChange({ ...flowState, step: "symptoms" });
   };
@@ -623,6 +698,8 @@ const ConsultationPanel = ({
 
               <Card className="max-w-3xl mx-auto bg-white/80 backdrop-blur-sm border-2 border-white/50 shadow-xl">
                 <CardContent className="p-4 sm:p-6 lg:p-8 space-y-4 sm:space-y-6">
+                  <PatientPicker value={selectedPatientId} onSelect={handlePatientSelect} />
+
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
                     <div className="space-y-2">
                       <Label htmlFor="name" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
@@ -700,21 +777,49 @@ const ConsultationPanel = ({
                     </div>
                   </div>
 
+                  <div className="space-y-3 pt-2 border-t border-gray-100">
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-800">Health Profile</h4>
+                      <p className="text-xs text-gray-500">Optional but recommended: helps the analysis account for medications, allergies and existing conditions</p>
+                    </div>
+                    <PatientProfileForm
+                      profile={patientInfo.profile}
+                      onChange={(profile) => onPatientInfoChange({ ...patientInfo, profile })}
+                      gender={patientInfo.gender}
+                      subject={selectedUserType === "patient" ? "Your" : selectedUserType === "parent" ? "Child's" : "Patient's"}
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="medical-history" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
                       <FileText className="w-4 h-4" />
-                      Medical History 
-                      <span className="text-gray-500 text-xs">(Optional but recommended)</span>
+                      Other Medical History
+                      <span className="text-gray-500 text-xs">(Optional)</span>
                     </Label>
                     <Textarea
                       id="medical-history"
-                      placeholder={`${selectedUserType === "parent" ? "Child's medical history" : "Medical history"}: current medications, allergies, previous conditions, recent treatments, etc.`}
+                      placeholder={`${selectedUserType === "parent" ? "Child's medical history" : "Medical history"}: previous surgeries, recent treatments, family history, etc.`}
                       value={patientInfo.medicalHistory}
                       onChange={(e) => onPatientInfoChange({ ...patientInfo, medicalHistory: e.target.value })}
                       className="enhanced-textarea min-h-[80px] sm:min-h-[100px]"
                     />
                   </div>
 
+                  {sessionId && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="save-patient-record"
+                        checked={savePatientRecord}
+                        onCheckedChange={(checked) => setSavePatientRecord(checked === true)}
+                      />
+                      <Label htmlFor="save-patient-record" className="text-sm text-gray-700 cursor-pointer">
+                        {selectedPatientId
+                          ? "Update the saved patient with these details"
+                          : "Save this patient for future consultations"}
+                      </Label>
+                    </div>
+                  )}
+
                   {selectedUserType === "caregiver" && (
                     <div className="p-3 sm:p-4 bg-blue-50 rounded-xl border border-blue-200">
                       <div className="flex items-start gap-3">
@@ -1144,6 +1249,41 @@ const ConsultationPanel = ({
                     <p className="text-gray-600">Comprehensive AI analysis with treatment recommendations</p>
                   </div>
 
+                  {flowState.analysis.triage && (flowState.analysis.triage.urgency === 'emergency' || flowState.analysis.triage.urgency === 'urgent') && (
+                    <Alert variant="destructive" className="max-w-6xl mx-auto border-red-300 bg-red-50">
+                      <TriangleAlert className="h-4 w-4 text-red-700" />
+                      <AlertTitle className="text-red-800">
+                        {flowState.analysis.triage.urgency === 'emergency' ? 'Emergency warning signs detected' : 'Urgent medical attention advised'}
+                      </AlertTitle>
+                      <AlertDescription className="text-red-700 space-y-1">
+                        {flowState.analysis.triage.matchedRules
+                          .filter((rule) => rule.urgency === 'emergency' || rule.urgency === 'urgent')
+                          .map((rule) => (
+                            <p key={rule.id}>
+                              <span className="font-medium">{rule.name}:</span> {rule.advice}
+                            </p>
+                          ))}
+                        {flowState.analysis.triage.shortCircuit && (
+                          <p className="text-xs pt-1">AI analysis was skipped because these signs need immediate care.</p>
+                        )}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {sessionId && (
+                    <AnalysisChanges sessionId={sessionId} revision={flowState.analysis.revision} />
+                  )}
+
+                  {flowState.analysis.source === 'fallback' && (
+                    <Alert className="max-w-6xl mx-auto border-yellow-300 bg-yellow-50">
+                      <TriangleAlert className="h-4 w-4 text-yellow-700" />
+                      <AlertTitle className="text-yellow-800">Showing fallback content</AlertTitle>
+                      <AlertDescription className="text-yellow-700">
+                        The AI model did not return a usable analysis, so these results are generic examples. Do not rely on them for clinical decisions.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   <div className="grid gap-6 max-w-6xl mx-auto">
                     {/* Enhanced AI Features Banner */}
                     <Card className="bg-gradient-to-r from-purple-50 via-blue-50 to-indigo-50 border-2 border-purple-200">
@@ -165,7 +165,7 @@ const featureCategories: Record<string, FeatureCategory> = {
       {
         id: "symptom-tracker",
         name: "Symptom Tracker",
-        description: "Track symptoms over time with visual analytics",
+        description: "Log symptom severity over time and see which are worsening, improving or new",
         icon: Activity,
         userTypes: ['patient', 'parent', 'caregiver'],
         accessibilityLevel: 'basic'
@@ -173,7 +173,7 @@ const featureCategories: Record<string, FeatureCategory> = {
       {
         id: "medication-reminders",
         name: "Medication Reminders",
-        description: "Smart medication scheduling and reminder system",
+        description: "Schedule medications, get reminded when doses are due and track adherence",
         icon: Clock,
         userTypes: ['patient', 'parent', 'caregiver'],
         accessibilityLevel: 'basic'
@@ -1,13 +1,54 @@
-import { Brain, Loader2 } from "lucide-react";
+import { Brain, CheckCircle, Loader2 } from "lucide-react";
+
+export interface LoadingSection {
+  key: string;
+  label: string;
+  status: 'pending' | 'done';
+}
 
 interface LoadingOverlayProps {
   isVisible: boolean;
   message?: string;
+  sections?: LoadingSection[];
+  // Once the first results are on screen the overlay shrinks to a corner card
+  // so the user can read them while the remaining sections finish.
+  compact?: boolean;
+}
+
+function SectionList({ sections }: { sections: LoadingSection[] }) {
+  return (
+    <ul className="space-y-2 text-left">
+      {sections.map((section) => (
+        <li key={section.key} className="flex items-center gap-2 text-sm">
+          {section.status === 'done' ? (
+            <CheckCircle className="w-4 h-4 text-green-600" />
+          ) : (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          )}
+          <span className={section.status === 'done' ? 'text-foreground' : 'text-muted-foreground'}>
+            {section.label}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
 }
 
-export function LoadingOverlay({ isVisible, message = "AI Analysis in Progress" }: LoadingOverlayProps) {
+export function LoadingOverlay({ isVisible, message = "AI Analysis in Progress", sections, compact = false }: LoadingOverlayProps) {
   if (!isVisible) return null;
 
+  if (compact && sections) {
+    return (
+      <div className="fixed bottom-6 left-6 z-50 glass-card p-4 w-64 shadow-xl">
+        <div className="flex items-center gap-2 mb-3">
+          <Brain className="w-4 h-4 text-primary animate-pulse" />
+          <span className="text-sm font-semibold text-foreground">{message}</span>
+        </div>
+        <SectionList sections={sections} />
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-lg z-50 flex items-center justify-center">
       <div className="glass-card p-8 max-w-sm mx-4 text-center">
@@ -24,10 +65,14 @@ export function LoadingOverlay({ isVisible, message = "AI Analysis in Progress"
               AI is analyzing symptoms and generating diagnostic insights...
             </p>
           </div>
-          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            <Loader2 className="w-4 h-4 animate-spin" />
-            <span>Processing medical data</span>
-          </div>
+          {sections ? (
+            <SectionList sections={sections} />
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Processing medical data</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -5,9 +5,9 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import MCQDiagnosticTool from "./mcq-diagnostic-tool";
+import { VitalSignsPanel } from "./vital-signs-panel";
 import { 
   Heart, 
-  Activity, 
   TrendingUp, 
   AlertTriangle, 
   Shield, 
@@ -16,11 +16,9 @@ import {
   FileText,
   Brain,
   Stethoscope,
-  Thermometer,
   Zap,
   Eye,
   Ear,
-  Wind,
   HeartHandshake,
   Settings,
   Bug
@@ -35,21 +33,12 @@ interface MedicalStats {
   urgentAlerts: number;
 }
 
-interface VitalSigns {
-  heartRate: number;
-  bloodPressure: string;
-  temperature: number;
-  oxygenSaturation: number;
-  respiratoryRate: number;
-}
-
 interface MedicalDashboardProps {
   stats: MedicalStats;
-  vitals?: VitalSigns;
   onEmergencyAlert?: () => void;
 }
 
-export function MedicalDashboard({ stats, vitals, onEmergencyAlert }: MedicalDashboardProps) {
+export function MedicalDashboard({ stats, onEmergencyAlert }: MedicalDashboardProps) {
   const [realTimeData, setRealTimeData] = useState<MedicalStats>(stats);
   const [isLoading, setIsLoading] = useState(false);
   const [alertLevel, setAlertLevel] = useState<'low' | 'medium' | 'high' | 'critical'>('low');
@@ -90,18 +79,6 @@ export function MedicalDashboard({ stats, vitals, onEmergencyAlert }: MedicalDas
     }
   };
 
-  const formatVitals = (vitals?: VitalSigns) => {
-    if (!vitals) return null;
-    
-    return [
-      { icon: Heart, label: 'Heart Rate', value: `${vitals.heartRate} BPM`, status: vitals.heartRate > 100 ? 'high' : vitals.heartRate < 60 ? 'low' : 'normal' },
-      { icon: Activity, label: 'Blood Pressure', value: vitals.bloodPressure, status: 'normal' },
-      { icon: Thermometer, label: 'Temperature', value: `${vitals.temperature}°F`, status: vitals.temperature > 99.5 ? 'high' : 'normal' },
-      { icon: Wind, label: 'O2 Saturation', value: `${vitals.oxygenSaturation}%`, status: vitals.oxygenSaturation < 95 ? 'low' : 'normal' },
-      { icon: Activity, label: 'Respiratory Rate', value: `${vitals.respiratoryRate}/min`, status: 'normal' },
-    ];
-  };
-
   return (
     <div className="medical-dashboard space-y-6 p-6">
       {/* Emergency Alert Banner */}
@@ -254,32 +231,7 @@ export function MedicalDashboard({ stats, vitals, onEmergencyAlert }: MedicalDas
         </TabsContent>
 
         <TabsContent value="vitals" className="space-y-4">
-          {vitals && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {formatVitals(vitals)?.map((vital, index) => (
-                <Card key={index} className="medical-card-success">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="flex items-center gap-2 text-lg">
-                      <vital.icon className="h-5 w-5" />
-                      {vital.label}
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="text-2xl font-bold mb-2">{vital.value}</div>
-                    <Badge 
-                      className={
-                        vital.status === 'high' ? 'severity-high' :
-                        vital.status === 'low' ? 'severity-medium' :
-                        'severity-low'
-                      }
-                    >
-                      {vital.status.toUpperCase()}
-                    </Badge>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          )}
+          <VitalSignsPanel />
         </TabsContent>
 
         <TabsContent value="analytics" className="space-y-4">
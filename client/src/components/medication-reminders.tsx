@@ -0,0 +1,345 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarArrowDown, Check, Clock, Pill, Plus, SkipForward, Square, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import type { DoseStatus } from "@shared/api-schemas";
+import type { MedicationAdherence, MedicationDose, MedicationSchedule, PatientListResponse } from "@/types/medical";
+
+const statusStyles: Record<DoseStatus, { label: string; className: string }> = {
+  pending: { label: "Due", className: "bg-blue-100 text-blue-800" },
+  taken: { label: "Taken", className: "bg-green-100 text-green-800" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-700" },
+  missed: { label: "Missed", className: "bg-red-100 text-red-800" },
+};
+
+// Dates and times are the browser's own, which is also the time zone new schedules use
+const localDate = (date = new Date()) => date.toLocaleDateString("en-CA");
+const formatTime = (value: string) => new Date(value).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+const formatRate = (rate: number | null) => (rate === null ? "–" : `${Math.round(rate * 100)}%`);
+
+// Medication schedules of one of the user's saved patients: add and stop
+// schedules, answer today's doses and see adherence over the last 30 days
+export function MedicationReminders() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [patientId, setPatientId] = useState<number | null>(null);
+  const [drug, setDrug] = useState("");
+  const [dose, setDose] = useState("");
+  const [times, setTimes] = useState<string[]>(["08:00"]);
+  const [startDate, setStartDate] = useState(localDate());
+  const [endDate, setEndDate] = useState("");
+  const [instructions, setInstructions] = useState("");
+
+  const { data: patientList } = useQuery<PatientListResponse>({
+    queryKey: ['/api/patients'],
+    queryFn: () => api.listPatients(),
+  });
+  const patients = patientList?.patients ?? [];
+
+  useEffect(() => {
+    if (patientId === null && patients.length > 0) setPatientId(patients[0].id);
+  }, [patients, patientId]);
+
+  const medicationsKey = ['/api/patients', patientId, 'medications'];
+  const today = useMemo(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    return { from: start, to: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }, []);
+
+  const { data: schedules = [] } = useQuery<MedicationSchedule[]>({
+    queryKey: [...medicationsKey, 'schedules'],
+    queryFn: () => api.listMedicationSchedules(patientId!),
+    enabled: patientId !== null,
+  });
+  const { data: todaysDoses = [] } = useQuery<MedicationDose[]>({
+    queryKey: [...medicationsKey, 'doses', today.from.toISOString()],
+    queryFn: () => api.listMedicationDoses(patientId!, today),
+    enabled: patientId !== null,
+    refetchInterval: 60 * 1000,
+  });
+  const { data: adherence } = useQuery<MedicationAdherence>({
+    queryKey: [...medicationsKey, 'adherence'],
+    queryFn: () => api.getMedicationAdherence(patientId!),
+    enabled: patientId !== null,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: medicationsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/medication-reminders'] });
+  };
+
+  const createScheduleMutation = useMutation({
+    mutationFn: () => api.createMedicationSchedule(patientId!, {
+      drug,
+      dose,
+      times,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      startDate,
+      endDate: endDate || undefined,
+      instructions: instructions || undefined,
+    }),
+    onSuccess: (schedule) => {
+      refresh();
+      setDrug("");
+      setDose("");
+      setInstructions("");
+      setEndDate("");
+      toast({ title: "Medication scheduled", description: `${schedule.drug} at ${schedule.times.join(", ")}` });
+    },
+    onError: () => {
+      toast({ title: "Could not schedule medication", description: "Check the times and dates and try again.", variant: "destructive" });
+    },
+  });
+
+  // Stopping keeps the dose history for adherence; deleting removes it
+  const stopScheduleMutation = useMutation({
+    mutationFn: (scheduleId: number) => api.updateMedicationSchedule(patientId!, scheduleId, { endDate: localDate() }),
+    onSuccess: refresh,
+  });
+  const deleteScheduleMutation = useMutation({
+    mutationFn: (scheduleId: number) => api.deleteMedicationSchedule(patientId!, scheduleId),
+    onSuccess: refresh,
+  });
+
+  const recordDoseMutation = useMutation({
+    mutationFn: ({ doseId, status }: { doseId: number; status: 'taken' | 'skipped' }) =>
+      api.recordMedicationDose(patientId!, doseId, { status }),
+    onSuccess: refresh,
+  });
+
+  const exportCalendarMutation = useMutation({
+    mutationFn: () => api.getMedicationCalendar(patientId!),
+    onSuccess: (blob) => {
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `medications-${patientId}.ics`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    },
+    onError: () => {
+      toast({ title: "Export failed", description: "Could not export the medication calendar.", variant: "destructive" });
+    },
+  });
+
+  const schedulesById = useMemo(() => new Map(schedules.map((schedule) => [schedule.id, schedule])), [schedules]);
+  const isRunning = (schedule: MedicationSchedule) => !schedule.endDate || schedule.endDate >= localDate();
+
+  if (patientList && patients.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-gray-600">
+          Medication reminders are kept per saved patient. Tick "Save this patient for future consultations"
+          in the consultation's information step to create one.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center justify-between gap-2 text-base">
+            <span className="flex items-center gap-2">
+              <Pill className="w-4 h-4 text-blue-600" />
+              Medication Reminders
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportCalendarMutation.mutate()}
+              disabled={patientId === null || schedules.length === 0 || exportCalendarMutation.isPending}
+            >
+              <CalendarArrowDown className="w-4 h-4 mr-1" />
+              Add to calendar
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="medication-patient">Patient</Label>
+            <Select value={patientId === null ? undefined : String(patientId)} onValueChange={(value) => setPatientId(Number(value))}>
+              <SelectTrigger id="medication-patient" className="enhanced-input">
+                <SelectValue placeholder="Choose a patient" />
+              </SelectTrigger>
+              <SelectContent>
+                {patients.map((patient) => (
+                  <SelectItem key={patient.id} value={String(patient.id)}>{patient.patientInfo.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="medication-drug">Medication</Label>
+              <Input id="medication-drug" placeholder="e.g. Metformin" value={drug} onChange={(e) => setDrug(e.target.value)} className="enhanced-input" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication-dose">Dose</Label>
+              <Input id="medication-dose" placeholder="e.g. 500 mg" value={dose} onChange={(e) => setDose(e.target.value)} className="enhanced-input" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication-start">Start date</Label>
+              <Input id="medication-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="enhanced-input" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication-end">End date (optional)</Label>
+              <Input id="medication-end" type="date" min={startDate} value={endDate} onChange={(e) => setEndDate(e.target.value)} className="enhanced-input" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Times</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {times.map((time, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <Input
+                    type="time"
+                    aria-label={`Dose time ${index + 1}`}
+                    value={time}
+                    onChange={(e) => setTimes(times.map((value, i) => (i === index ? e.target.value : value)))}
+                    className="enhanced-input w-32"
+                  />
+                  {times.length > 1 && (
+                    <Button variant="ghost" size="icon" aria-label="Remove time" onClick={() => setTimes(times.filter((_, i) => i !== index))}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setTimes([...times, "20:00"])} disabled={times.length >= 12}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add time
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-3 md:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="medication-instructions">Instructions (optional)</Label>
+              <Input
+                id="medication-instructions"
+                placeholder="e.g. with food"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                className="enhanced-input"
+              />
+            </div>
+            <Button
+              onClick={() => createScheduleMutation.mutate()}
+              disabled={patientId === null || !drug.trim() || !dose.trim() || times.some((time) => !time) || createScheduleMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Schedule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {todaysDoses.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Clock className="w-4 h-4" />
+              Today
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {todaysDoses.map((entry) => {
+              const schedule = schedulesById.get(entry.scheduleId);
+              const style = statusStyles[entry.status];
+              const answerable = (entry.status === 'pending' || entry.status === 'missed') && new Date(entry.scheduledFor) <= new Date();
+              return (
+                <div key={entry.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-gray-500">{formatTime(entry.scheduledFor)}</span>
+                    <span className="font-medium">{schedule ? `${schedule.drug} (${schedule.dose})` : "Medication"}</span>
+                    <Badge className={style.className}>{style.label}</Badge>
+                  </div>
+                  {answerable && (
+                    <div className="flex gap-1">
+                      <Button size="sm" onClick={() => recordDoseMutation.mutate({ doseId: entry.id, status: 'taken' })}>
+                        <Check className="w-4 h-4 mr-1" />
+                        Taken
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => recordDoseMutation.mutate({ doseId: entry.id, status: 'skipped' })}>
+                        <SkipForward className="w-4 h-4 mr-1" />
+                        Skip
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {schedules.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center justify-between text-base">
+              <span>Schedules</span>
+              {adherence && (
+                <span className="text-sm font-normal text-gray-600">
+                  Adherence over 30 days: {formatRate(adherence.adherenceRate)}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {schedules.map((schedule) => {
+              const stats = adherence?.schedules.find((entry) => entry.scheduleId === schedule.id);
+              return (
+                <div key={schedule.id} className="py-3 space-y-2 text-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <span className="font-medium">{schedule.drug}</span>
+                      <span className="text-gray-500"> · {schedule.dose} · {schedule.times.join(", ")}</span>
+                      <p className="text-xs text-gray-500">
+                        {schedule.endDate ? `${schedule.startDate} to ${schedule.endDate}` : `From ${schedule.startDate}`}
+                        {schedule.instructions && ` · ${schedule.instructions}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      {isRunning(schedule) && (
+                        <Button variant="ghost" size="icon" aria-label="Stop schedule" onClick={() => stopScheduleMutation.mutate(schedule.id)}>
+                          <Square className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" aria-label="Delete schedule" onClick={() => deleteScheduleMutation.mutate(schedule.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {stats && stats.adherenceRate !== null && (
+                    <div className="flex items-center gap-3">
+                      <Progress value={stats.adherenceRate * 100} className="h-2 flex-1" />
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {stats.taken} taken · {stats.skipped} skipped · {stats.missed} missed
+                      </span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -340,6 +340,17 @@ export const useMedicalNotifications = () => {
         duration: 10000
       }),
     
+    // Stays until one of its actions is chosen, so a due dose is not missed
+    medicationReminder: (patientName: string, medication: string, actions: NonNullable<Notification['actions']>) =>
+      addNotification({
+        type: 'info',
+        title: 'Medication Reminder',
+        message: `${patientName}: time to take ${medication}`,
+        priority: 'high',
+        persistent: true,
+        actions
+      }),
+    
     systemAlert: (message: string, severity: 'low' | 'medium' | 'high' | 'critical' = 'medium') =>
       addNotification({
         type: severity === 'critical' || severity === 'high' ? 'error' : 
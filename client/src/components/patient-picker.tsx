@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users } from "lucide-react";
+import { api } from "@/lib/api";
+import type { PatientListResponse, PatientRecord } from "@/types/medical";
+
+interface PatientPickerProps {
+  // Selected patient record, or null for a new patient
+  value: number | null;
+  onSelect: (patient: PatientRecord | null) => void;
+}
+
+const NEW_PATIENT = "new";
+
+function describeRecord({ patientInfo }: PatientRecord): string {
+  const details = [typeof patientInfo.age === "number" && `${patientInfo.age}y`, patientInfo.gender].filter(Boolean);
+  return details.length ? `${patientInfo.name} (${details.join(", ")})` : patientInfo.name;
+}
+
+// Lets the patient-info step start from one of the user's saved patients;
+// nothing is shown until the user has saved at least one
+export function PatientPicker({ value, onSelect }: PatientPickerProps) {
+  const { data } = useQuery<PatientListResponse>({
+    queryKey: ['/api/patients'],
+    queryFn: () => api.listPatients(),
+  });
+  const patients = data?.patients ?? [];
+
+  if (patients.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="patient-picker" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+        <Users className="w-4 h-4" />
+        Saved Patient
+      </Label>
+      <Select
+        value={value === null ? NEW_PATIENT : String(value)}
+        onValueChange={(next) => onSelect(patients.find((patient) => String(patient.id) === next) ?? null)}
+      >
+        <SelectTrigger id="patient-picker" className="enhanced-input">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NEW_PATIENT}>New patient</SelectItem>
+          {patients.map((patient) => (
+            <SelectItem key={patient.id} value={String(patient.id)}>{describeRecord(patient)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity, AlertTriangle, Pill, Plus, Scale, Stethoscope, X } from "lucide-react";
+import {
+  alcoholUseLevels,
+  allergyReactions,
+  pregnancyStatuses,
+  smokingStatuses,
+} from "@shared/api-schemas";
+import type { PatientProfile } from "@/types/medical";
+
+interface PatientProfileFormProps {
+  profile?: PatientProfile;
+  onChange: (profile: PatientProfile) => void;
+  // Pregnancy status is not asked for male patients
+  gender?: 'male' | 'female' | 'other';
+  // "Your", "Child's" or "Patient's", matching the rest of the step
+  subject?: string;
+}
+
+export const emptyPatientProfile = (): PatientProfile => ({
+  medications: [],
+  allergies: [],
+  chronicConditions: [],
+});
+
+// Drops rows left blank while editing, so the profile passes the shared schema
+export function cleanPatientProfile(profile: PatientProfile): PatientProfile {
+  return {
+    ...profile,
+    medications: profile.medications
+      .filter((medication) => medication.name.trim())
+      .map(({ name, dose, frequency }) => ({
+        name: name.trim(),
+        dose: dose?.trim() || undefined,
+        frequency: frequency?.trim() || undefined,
+      })),
+    allergies: profile.allergies
+      .filter((allergy) => allergy.substance.trim())
+      .map((allergy) => ({ ...allergy, substance: allergy.substance.trim() })),
+    chronicConditions: profile.chronicConditions.map((condition) => condition.trim()).filter(Boolean),
+  };
+}
+
+const label = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+
+const NOT_SET = "not_set";
+
+function OptionSelect<T extends string>({ id, value, options, onChange }: {
+  id: string;
+  value?: T | null;
+  options: readonly T[];
+  onChange: (value: T | null) => void;
+}) {
+  return (
+    <Select value={value ?? NOT_SET} onValueChange={(next) => onChange(next === NOT_SET ? null : next as T)}>
+      <SelectTrigger id={id} className="enhanced-input">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NOT_SET}>Not specified</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>{label(option)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Structured medical background for the patient-info step; every field is optional
+export function PatientProfileForm({ profile = emptyPatientProfile(), onChange, gender, subject = "Patient's" }: PatientProfileFormProps) {
+  const [newCondition, setNewCondition] = useState("");
+  const update = (changes: Partial<PatientProfile>) => onChange({ ...profile, ...changes });
+
+  const parseMeasurement = (value: string) => {
+    const number = parseFloat(value);
+    return Number.isFinite(number) && number > 0 ? number : null;
+  };
+
+  const addCondition = () => {
+    const condition = newCondition.trim();
+    if (!condition || profile.chronicConditions.includes(condition)) return;
+    update({ chronicConditions: [...profile.chronicConditions, condition] });
+    setNewCondition("");
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Pill className="w-4 h-4" />
+          {subject} Current Medications
+        </Label>
+        {profile.medications.map((medication, index) => (
+          <div key={index} className="flex flex-wrap sm:flex-nowrap gap-2">
+            <Input
+              placeholder="Medication name"
+              value={medication.name}
+              onChange={(e) => update({
+                medications: profile.medications.map((item, i) => (i === index ? { ...item, name: e.target.value } : item)),
+              })}
+              className="enhanced-input flex-[2] min-w-[10rem]"
+            />
+            <Input
+              placeholder="Dose, e.g. 500 mg"
+              value={medication.dose ?? ""}
+              onChange={(e) => update({
+                medications: profile.medications.map((item, i) => (i === index ? { ...item, dose: e.target.value } : item)),
+              })}
+              className="enhanced-input flex-1 min-w-[7rem]"
+            />
+            <Input
+              placeholder="How often"
+              value={medication.frequency ?? ""}
+              onChange={(e) => update({
+                medications: profile.medications.map((item, i) => (i === index ? { ...item, frequency: e.target.value } : item)),
+              })}
+              className="enhanced-input flex-1 min-w-[7rem]"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove medication"
+              onClick={() => update({ medications: profile.medications.filter((_, i) => i !== index) })}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ medications: [...profile.medications, { name: "" }] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add medication
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          Allergies
+        </Label>
+        {profile.allergies.map((allergy, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+            <Input
+              placeholder="Substance, e.g. penicillin"
+              value={allergy.substance}
+              onChange={(e) => update({
+                allergies: profile.allergies.map((item, i) => (i === index ? { ...item, substance: e.target.value } : item)),
+              })}
+              className="enhanced-input"
+            />
+            <Select
+              value={allergy.reaction}
+              onValueChange={(reaction) => update({
+                allergies: profile.allergies.map((item, i) => (
+                  i === index ? { ...item, reaction: reaction as typeof allergy.reaction } : item
+                )),
+              })}
+            >
+              <SelectTrigger className="enhanced-input" aria-label="Reaction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {allergyReactions.map((reaction) => (
+                  <SelectItem key={reaction} value={reaction}>{label(reaction)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove allergy"
+              onClick={() => update({ allergies: profile.allergies.filter((_, i) => i !== index) })}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ allergies: [...profile.allergies, { substance: "", reaction: "unknown" }] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add allergy
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="new-condition" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Stethoscope className="w-4 h-4" />
+          Chronic Conditions
+        </Label>
+        {profile.chronicConditions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {profile.chronicConditions.map((condition) => (
+              <Badge key={condition} variant="secondary" className="gap-1">
+                {condition}
+                <button
+                  type="button"
+                  aria-label={`Remove ${condition}`}
+                  onClick={() => update({ chronicConditions: profile.chronicConditions.filter((item) => item !== condition) })}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            id="new-condition"
+            placeholder="e.g. asthma, type 2 diabetes"
+            value={newCondition}
+            onChange={(e) => setNewCondition(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addCondition();
+              }
+            }}
+            className="enhanced-input"
+          />
+          <Button type="button" variant="outline" onClick={addCondition} disabled={!newCondition.trim()}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="weight" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+            <Scale className="w-4 h-4" />
+            Weight (kg)
+          </Label>
+          <Input
+            id="weight"
+            type="number"
+            min="0"
+            step="0.1"
+            value={profile.weightKg ?? ""}
+            onChange={(e) => update({ weightKg: parseMeasurement(e.target.value) })}
+            className="enhanced-input"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="height" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+            <Scale className="w-4 h-4" />
+            Height (cm)
+          </Label>
+          <Input
+            id="height"
+            type="number"
+            min="0"
+            step="0.1"
+            value={profile.heightCm ?? ""}
+            onChange={(e) => update({ heightCm: parseMeasurement(e.target.value) })}
+            className="enhanced-input"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {gender !== "male" && (
+          <div className="space-y-2">
+            <Label htmlFor="pregnancy-status" className="text-sm font-semibold text-gray-700">Pregnancy</Label>
+            <OptionSelect
+              id="pregnancy-status"
+              value={profile.pregnancyStatus}
+              options={pregnancyStatuses}
+              onChange={(pregnancyStatus) => update({ pregnancyStatus })}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="smoking-status" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+            <Activity className="w-4 h-4" />
+            Smoking
+          </Label>
+          <OptionSelect
+            id="smoking-status"
+            value={profile.smokingStatus}
+            options={smokingStatuses}
+            onChange={(smokingStatus) => update({ smokingStatus })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="alcohol-use" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+            <Activity className="w-4 h-4" />
+            Alcohol
+          </Label>
+          <OptionSelect
+            id="alcohol-use"
+            value={profile.alcoholUse}
+            options={alcoholUseLevels}
+            onChange={(alcoholUse) => update({ alcoholUse })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
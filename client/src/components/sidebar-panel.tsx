@@ -27,6 +27,8 @@ interface SidebarPanelProps {
   queriesUsed: number;
   overallConfidence: number;
   onExport: () => void;
+  onExportFhir?: () => void;
+  onRerunAnalysis?: () => void;
 }
 
 export function SidebarPanel({ 
@@ -34,7 +36,9 @@ export function SidebarPanel({
   sessionDuration, 
   queriesUsed, 
   overallConfidence, 
-  onExport 
+  onExport,
+  onExportFhir,
+  onRerunAnalysis
 }: SidebarPanelProps) {
   const [currentTime, setCurrentTime] = useState(new Date());
   const { toast } = useToast();
@@ -158,6 +162,28 @@ export function SidebarPanel({
                 <Download className="w-4 h-4 mr-2" />
                 Export Clinical Notes
               </Button>
+              {onExportFhir && (
+                <Button 
+                  onClick={onExportFhir} 
+                  variant="outline"
+                  className="w-full mt-2"
+                  size="sm"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export FHIR Bundle
+                </Button>
+              )}
+              {onRerunAnalysis && (
+                <Button 
+                  onClick={onRerunAnalysis} 
+                  variant="outline"
+                  className="w-full mt-2"
+                  size="sm"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Run Analysis Again
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
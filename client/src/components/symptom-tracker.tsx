@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Activity, ArrowDownRight, ArrowUpRight, Minus, Plus, Sparkles, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import type { PatientListResponse, SymptomLogResponse, SymptomTrend } from "@/types/medical";
+
+// One line per symptom; the most recently logged ones get a colour first
+const SERIES_COLORS = [
+  "var(--medical-blue)",
+  "var(--medical-red)",
+  "var(--medical-green)",
+  "var(--medical-purple)",
+  "var(--medical-orange)",
+];
+
+const trendStyles: Record<SymptomTrend['trend'], { label: string; icon: typeof Activity; className: string }> = {
+  worsening: { label: "Worsening", icon: ArrowUpRight, className: "bg-red-100 text-red-800" },
+  new_onset: { label: "New onset", icon: Sparkles, className: "bg-amber-100 text-amber-800" },
+  improving: { label: "Improving", icon: ArrowDownRight, className: "bg-green-100 text-green-800" },
+  stable: { label: "Stable", icon: Minus, className: "bg-gray-100 text-gray-700" },
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+// Symptom diary of one of the user's saved patients: log entries, chart them
+// over time and show the trend the server works out for each symptom
+export function SymptomTracker() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [patientId, setPatientId] = useState<number | null>(null);
+  const [symptom, setSymptom] = useState("");
+  const [severity, setSeverity] = useState(5);
+  const [notes, setNotes] = useState("");
+
+  const { data: patientList } = useQuery<PatientListResponse>({
+    queryKey: ['/api/patients'],
+    queryFn: () => api.listPatients(),
+  });
+  const patients = patientList?.patients ?? [];
+
+  useEffect(() => {
+    if (patientId === null && patients.length > 0) setPatientId(patients[0].id);
+  }, [patients, patientId]);
+
+  const { data: log } = useQuery<SymptomLogResponse>({
+    queryKey: ['/api/patients', patientId, 'symptoms'],
+    queryFn: () => api.getSymptomLog(patientId!),
+    enabled: patientId !== null,
+  });
+
+  const logSymptomMutation = useMutation({
+    mutationFn: () => api.logSymptom(patientId!, { symptom, severity, notes: notes || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'symptoms'] });
+      setNotes("");
+      toast({ title: "Symptom logged", description: `${symptom.trim()} at ${severity}/10` });
+    },
+    onError: () => {
+      toast({ title: "Could not log symptom", description: "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (entryId: number) => api.deleteSymptomLogEntry(patientId!, entryId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'symptoms'] }),
+  });
+
+  const charted = useMemo(() => (log?.series ?? []).slice(0, SERIES_COLORS.length), [log]);
+
+  // Chart config keys become CSS variables, so symptoms are keyed by position
+  const chartConfig = useMemo<ChartConfig>(() => Object.fromEntries(
+    charted.map((series, index) => [`s${index}`, { label: series.symptom, color: SERIES_COLORS[index] }])
+  ), [charted]);
+
+  const chartData = useMemo(() => charted
+    .flatMap((series, index) => series.points.map((point) => ({
+      time: new Date(point.recordedAt).getTime(),
+      [`s${index}`]: point.severity,
+    })))
+    .sort((a, b) => a.time - b.time), [charted]);
+
+  const recentEntries = useMemo(() => (log?.series ?? [])
+    .flatMap((series) => series.points.map((point) => ({ ...point, symptom: series.symptom })))
+    .sort((a, b) => new Date(b.recordedAt).getTime() - new Date(a.recordedAt).getTime())
+    .slice(0, 10), [log]);
+
+  if (patientList && patients.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-gray-600">
+          The symptom tracker keeps a diary per saved patient. Tick "Save this patient for future consultations"
+          in the consultation's information step to create one.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Activity className="w-4 h-4 text-blue-600" />
+            Symptom Tracker
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="tracker-patient">Patient</Label>
+            <Select value={patientId === null ? undefined : String(patientId)} onValueChange={(value) => setPatientId(Number(value))}>
+              <SelectTrigger id="tracker-patient" className="enhanced-input">
+                <SelectValue placeholder="Choose a patient" />
+              </SelectTrigger>
+              <SelectContent>
+                {patients.map((patient) => (
+                  <SelectItem key={patient.id} value={String(patient.id)}>{patient.patientInfo.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_3fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="tracker-symptom">Symptom</Label>
+              <Input
+                id="tracker-symptom"
+                list="tracker-symptoms"
+                placeholder="e.g. headache"
+                value={symptom}
+                onChange={(e) => setSymptom(e.target.value)}
+                className="enhanced-input"
+              />
+              <datalist id="tracker-symptoms">
+                {(log?.series ?? []).map((series) => <option key={series.symptom} value={series.symptom} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tracker-severity">Severity: {severity}/10</Label>
+              <Slider
+                id="tracker-severity"
+                min={0}
+                max={10}
+                step={1}
+                value={[severity]}
+                onValueChange={([value]) => setSeverity(value)}
+                className="py-3"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tracker-notes">Notes (optional)</Label>
+              <Input
+                id="tracker-notes"
+                placeholder="What made it better or worse?"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="enhanced-input"
+              />
+            </div>
+            <Button
+              onClick={() => logSymptomMutation.mutate()}
+              disabled={patientId === null || !symptom.trim() || logSymptomMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Log
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {log && log.trends.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          {log.trends.map((trend) => {
+            const style = trendStyles[trend.trend];
+            const Icon = style.icon;
+            return (
+              <Card key={trend.symptom}>
+                <CardContent className="p-4 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium capitalize">{trend.symptom}</span>
+                    <Badge className={style.className}>
+                      <Icon className="w-3 h-3 mr-1" />
+                      {style.label}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {trend.entries > 1 ? `${trend.firstSeverity} → ${trend.latestSeverity}/10` : `${trend.latestSeverity}/10`}
+                    {" · "}peak {trend.peakSeverity}/10 · {trend.entries} {trend.entries === 1 ? "entry" : "entries"}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {chartData.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Severity over time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: -16, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={formatDate}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis domain={[0, 10]} ticks={[0, 2, 4, 6, 8, 10]} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload[0]?.payload.time)} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {charted.map((_, index) => (
+                  <Line
+                    key={index}
+                    dataKey={`s${index}`}
+                    type="monotone"
+                    stroke={`var(--color-s${index})`}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {recentEntries.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Recent entries</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {recentEntries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <div>
+                  <span className="font-medium capitalize">{entry.symptom}</span>
+                  <span className="text-gray-500"> · {entry.severity}/10 · {new Date(entry.recordedAt).toLocaleString()}</span>
+                  {entry.notes && <p className="text-xs text-gray-500">{entry.notes}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete entry"
+                  onClick={() => deleteEntryMutation.mutate(entry.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
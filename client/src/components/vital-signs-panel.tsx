@@ -0,0 +1,321 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Activity, AlertTriangle, Droplet, Heart, Plus, Thermometer, Wind } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { vitalTypes, vitalUnits, type VitalReadingInput, type VitalStatus, type VitalType } from "@shared/api-schemas";
+import type { PatientListResponse, VitalAlert, VitalPoint, VitalSeries, VitalSignsOverview } from "@/types/medical";
+
+// Readings can arrive from devices while the panel is open
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const vitalLabels: Record<VitalType, { label: string; icon: typeof Activity }> = {
+  heart_rate: { label: "Heart Rate", icon: Heart },
+  blood_pressure: { label: "Blood Pressure", icon: Activity },
+  temperature: { label: "Temperature", icon: Thermometer },
+  spo2: { label: "O2 Saturation", icon: Wind },
+  respiratory_rate: { label: "Respiratory Rate", icon: Activity },
+  glucose: { label: "Blood Glucose", icon: Droplet },
+};
+
+const statusStyles: Record<VitalStatus, { label: string; className: string }> = {
+  critical_low: { label: "Critically low", className: "bg-red-100 text-red-800" },
+  low: { label: "Low", className: "bg-amber-100 text-amber-800" },
+  normal: { label: "Normal", className: "bg-green-100 text-green-800" },
+  high: { label: "High", className: "bg-amber-100 text-amber-800" },
+  critical_high: { label: "Critically high", className: "bg-red-100 text-red-800" },
+};
+
+const unitLabel = (unit: string) => (unit === "C" || unit === "F" ? `°${unit}` : unit);
+const formatReading = (point: Pick<VitalPoint, 'value' | 'diastolic'>, unit: string) =>
+  `${point.diastolic === null ? point.value : `${point.value}/${point.diastolic}`}${unit === "%" ? "%" : ` ${unitLabel(unit)}`}`;
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+const chartConfig: ChartConfig = {
+  value: { label: "Reading", color: "var(--medical-blue)" },
+  diastolic: { label: "Diastolic", color: "var(--medical-purple)" },
+};
+
+// Vital signs of one of the user's saved patients: record readings (in any
+// accepted unit), see the latest of each vital against the patient's normal
+// range, chart them over time and list the alerts they raised
+export function VitalSignsPanel() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [patientId, setPatientId] = useState<number | null>(null);
+  const [type, setType] = useState<VitalType>("heart_rate");
+  const [unit, setUnit] = useState<string>(vitalUnits.heart_rate[0]);
+  const [value, setValue] = useState("");
+  const [diastolic, setDiastolic] = useState("");
+  const [charted, setCharted] = useState<VitalType | null>(null);
+
+  const { data: patientList } = useQuery<PatientListResponse>({
+    queryKey: ['/api/patients'],
+    queryFn: () => api.listPatients(),
+  });
+  const patients = patientList?.patients ?? [];
+
+  useEffect(() => {
+    if (patientId === null && patients.length > 0) setPatientId(patients[0].id);
+  }, [patients, patientId]);
+
+  const { data: overview } = useQuery<VitalSignsOverview>({
+    queryKey: ['/api/patients', patientId, 'vitals'],
+    queryFn: () => api.getVitalSigns(patientId!),
+    enabled: patientId !== null,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const { data: alertList } = useQuery<{ alerts: VitalAlert[] }>({
+    queryKey: ['/api/patients', patientId, 'vitals', 'alerts'],
+    queryFn: () => api.getVitalAlerts(patientId!),
+    enabled: patientId !== null,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: () => {
+      // The unit select only offers the units of the chosen vital
+      const reading = (type === "blood_pressure"
+        ? { type, systolic: Number(value), diastolic: Number(diastolic), unit }
+        : { type, value: Number(value), unit }) as VitalReadingInput;
+      return api.recordVitals(patientId!, { ...reading, source: "manual" });
+    },
+    onSuccess: ({ alerts }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'vitals'] });
+      setValue("");
+      setDiastolic("");
+      const critical = alerts.find((alert) => alert.type === "critical");
+      if (alerts.length === 0) {
+        toast({ title: "Reading recorded", description: vitalLabels[type].label });
+      } else {
+        toast({
+          title: critical ? "Critical reading" : "Reading out of range",
+          description: (critical ?? alerts[0]).message,
+          variant: critical ? "destructive" : undefined,
+        });
+      }
+    },
+    onError: () => {
+      toast({ title: "Could not record reading", description: "Check the value and unit and try again.", variant: "destructive" });
+    },
+  });
+
+  const selectType = (next: VitalType) => {
+    setType(next);
+    setUnit(vitalUnits[next][0]);
+  };
+
+  const series = overview?.series ?? [];
+  const chartedSeries: VitalSeries | undefined = series.find((entry) => entry.type === charted) ?? series[0];
+
+  const chartData = useMemo(() => (chartedSeries?.points ?? []).map((point) => ({
+    time: new Date(point.recordedAt).getTime(),
+    value: point.value,
+    diastolic: point.diastolic ?? undefined,
+  })), [chartedSeries]);
+
+  if (patientList && patients.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-gray-600">
+          Vital signs are kept per saved patient. Tick "Save this patient for future consultations"
+          in the consultation's information step to create one.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Heart className="w-4 h-4 text-red-500" />
+            Vital Signs
+            {overview && <span className="text-xs font-normal text-gray-500">ranges for {overview.ageBand}</span>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vitals-patient">Patient</Label>
+            <Select value={patientId === null ? undefined : String(patientId)} onValueChange={(next) => setPatientId(Number(next))}>
+              <SelectTrigger id="vitals-patient" className="enhanced-input">
+                <SelectValue placeholder="Choose a patient" />
+              </SelectTrigger>
+              <SelectContent>
+                {patients.map((patient) => (
+                  <SelectItem key={patient.id} value={String(patient.id)}>{patient.patientInfo.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_2fr_1fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="vitals-type">Vital</Label>
+              <Select value={type} onValueChange={(next) => selectType(next as VitalType)}>
+                <SelectTrigger id="vitals-type" className="enhanced-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {vitalTypes.map((vital) => <SelectItem key={vital} value={vital}>{vitalLabels[vital].label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vitals-value">{type === "blood_pressure" ? "Systolic" : "Value"}</Label>
+              <Input
+                id="vitals-value"
+                type="number"
+                inputMode="decimal"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="enhanced-input"
+              />
+            </div>
+            <div className="space-y-2">
+              {type === "blood_pressure" && (
+                <>
+                  <Label htmlFor="vitals-diastolic">Diastolic</Label>
+                  <Input
+                    id="vitals-diastolic"
+                    type="number"
+                    inputMode="decimal"
+                    value={diastolic}
+                    onChange={(e) => setDiastolic(e.target.value)}
+                    className="enhanced-input"
+                  />
+                </>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vitals-unit">Unit</Label>
+              <Select value={unit} onValueChange={setUnit}>
+                <SelectTrigger id="vitals-unit" className="enhanced-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {vitalUnits[type].map((option) => <SelectItem key={option} value={option}>{unitLabel(option)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={patientId === null || !value || (type === "blood_pressure" && !diastolic) || recordMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Record
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {series.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {series.map((entry) => {
+            const { label, icon: Icon } = vitalLabels[entry.type];
+            const status = entry.latest ? statusStyles[entry.latest.status] : null;
+            return (
+              <Card
+                key={entry.type}
+                className={`cursor-pointer ${entry.type === chartedSeries?.type ? "ring-2 ring-blue-200" : ""}`}
+                onClick={() => setCharted(entry.type)}
+              >
+                <CardContent className="p-4 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 font-medium">
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </span>
+                    {status && <Badge className={status.className}>{status.label}</Badge>}
+                  </div>
+                  {entry.latest && (
+                    <>
+                      <div className="text-2xl font-bold">{formatReading(entry.latest, entry.unit)}</div>
+                      <p className="text-xs text-gray-500">
+                        {formatTime(new Date(entry.latest.recordedAt).getTime())}
+                        {" · "}normal {entry.normal.min}-{entry.normal.max}
+                        {entry.diastolicNormal && `/${entry.diastolicNormal.min}-${entry.diastolicNormal.max}`}
+                      </p>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {chartedSeries && chartData.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">{vitalLabels[chartedSeries.type].label} over time ({unitLabel(chartedSeries.unit)})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: -16, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={formatTime}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis domain={["auto", "auto"]} tickLine={false} axisLine={false} />
+                <ReferenceArea y1={chartedSeries.normal.min} y2={chartedSeries.normal.max} fill="var(--color-value)" fillOpacity={0.08} />
+                {chartedSeries.diastolicNormal && (
+                  <ReferenceArea y1={chartedSeries.diastolicNormal.min} y2={chartedSeries.diastolicNormal.max} fill="var(--color-diastolic)" fillOpacity={0.08} />
+                )}
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload[0]?.payload.time)} />}
+                />
+                <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={{ r: 3 }} />
+                {chartedSeries.type === "blood_pressure" && (
+                  <Line dataKey="diastolic" type="monotone" stroke="var(--color-diastolic)" strokeWidth={2} dot={{ r: 3 }} />
+                )}
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {alertList && alertList.alerts.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="w-4 h-4 text-amber-600" />
+              Recent alerts
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {alertList.alerts.slice(0, 10).map((alert) => (
+              <div key={alert.id} className="py-2 text-sm space-y-1">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-medium">{alert.message}</span>
+                  <Badge className={alert.type === "critical" ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"}>
+                    {alert.timeframe}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {alert.actionRequired} · {new Date(alert.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMedicalNotifications, useNotifications } from "@/components/notification-system";
+import { api } from "@/lib/api";
+import type { DoseStatus } from "@shared/api-schemas";
+import type { MedicationReminder } from "@/types/medical";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Polls for medication doses that are due and shows each one once as a
+// notification with Taken / Skip buttons. Doses nobody answers are marked
+// missed by the server after a few hours and stop being returned.
+export function useMedicationReminders(enabled = true) {
+  const queryClient = useQueryClient();
+  const notifications = useMedicalNotifications();
+  const { removeNotification } = useNotifications();
+  const shown = useRef(new Set<number>());
+
+  const { data } = useQuery<{ reminders: MedicationReminder[] }>({
+    queryKey: ['/api/medication-reminders'],
+    queryFn: () => api.getMedicationReminders(),
+    refetchInterval: POLL_INTERVAL_MS,
+    enabled,
+  });
+
+  useEffect(() => {
+    for (const reminder of data?.reminders ?? []) {
+      if (shown.current.has(reminder.doseId)) continue;
+      shown.current.add(reminder.doseId);
+
+      const answer = (status: Extract<DoseStatus, 'taken' | 'skipped'>) => async () => {
+        removeNotification(notificationId);
+        try {
+          await api.recordMedicationDose(reminder.patientId, reminder.doseId, { status });
+          queryClient.invalidateQueries({ queryKey: ['/api/patients', reminder.patientId, 'medications'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/medication-reminders'] });
+        } catch {
+          notifications.error("Could not record dose", `${reminder.drug} for ${reminder.patientName}`);
+        }
+      };
+      const notificationId = notifications.medicationReminder(reminder.patientName, `${reminder.drug} (${reminder.dose})`, [
+        { label: "Taken", action: answer('taken'), style: 'primary' },
+        { label: "Skip", action: answer('skipped') },
+        { label: "Later", action: () => removeNotification(notificationId) },
+      ]);
+    }
+  }, [data]);
+}
@@ -9,6 +9,8 @@
  * - Offline support
  */
 
+import type { VitalSignsOverview } from "@/types/medical";
+
 class AdvancedAPIService {
   private cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
   private pendingRequests = new Map<string, Promise<any>>();
@@ -362,8 +364,8 @@ class MedicalAPIService extends AdvancedAPIService {
 
   // Specialized medical endpoints with intelligent caching
   async analyzeSymptoms(symptoms: string, mode: string = 'patient', sessionId: string, patientInfo?: any, followUpAnswers?: any[]) {
+    // Not cached here: the server caches LLM responses and stores every analysis as a revision
     return this.post('/analyze', { symptoms, mode, sessionId, patientInfo, followUpAnswers }, {
-      cacheTTL: 600000, // 10 minutes cache for symptom analysis
       timeout: 45000, // Longer timeout for AI analysis
     });
   }
@@ -404,9 +406,9 @@ class MedicalAPIService extends AdvancedAPIService {
     );
   }
 
-  // Real-time vital signs monitoring
-  async getVitalSigns(patientId: string) {
-    return this.get(`/patients/${patientId}/vitals`, {
+  // Latest reading and time series of each vital; see VitalSignsOverview
+  async getVitalSigns(patientId: number) {
+    return this.get<VitalSignsOverview>(`/patients/${patientId}/vitals`, {
       useCache: true,
       cacheTTL: 30000, // 30 seconds cache for vitals
     });
@@ -1,20 +1,138 @@
+import type { z } from "zod";
 import { apiRequest } from "./queryClient";
+import {
+  analyzeBodySchema,
+  createMedicationScheduleBodySchema,
+  createPatientBodySchema,
+  createSessionBodySchema,
+  diagnosisWithSymptomsBodySchema,
+  drugInteractionsBodySchema,
+  educationBodySchema,
+  enhancedAnalysisBodySchema,
+  generateMCQBodySchema,
+  generateQuestionsBodySchema,
+  logSymptomBodySchema,
+  loginBodySchema,
+  patientEducationBodySchema,
+  recordDoseBodySchema,
+  recordVitalsBodySchema,
+  registerBodySchema,
+  savePatientProfileBodySchema,
+  treatmentPathwayBodySchema,
+  updateMedicationScheduleBodySchema,
+  updatePatientBodySchema,
+  updateSessionBodySchema,
+  type AnalyzeBody,
+  type CreateMedicationScheduleBody,
+  type CreatePatientBody,
+  type CreateSessionBody,
+  type DiagnosisWithSymptomsBody,
+  type DrugInteractionsBody,
+  type EducationResponse,
+  type EnhancedAnalysisBody,
+  type ExportQuery,
+  type GenerateMCQBody,
+  type GenerateQuestionsBody,
+  type GenerateQuestionsResponse,
+  type ListMedicationDosesQuery,
+  type ListVitalsQuery,
+  type ListSymptomsQuery,
+  type LogSymptomBody,
+  type PatientEducationBody,
+  type RecordDoseBody,
+  type RecordVitalsBody,
+  type SavePatientProfileBody,
+  type TreatmentPathwayBody,
+  type UpdateMedicationScheduleBody,
+  type UpdatePatientBody,
+  type UpdateSessionBody
+} from "@shared/api-schemas";
 import type { 
   ConsultationSession, 
   AIAnalysisResult, 
+  AnalysisDiff,
+  AnalysisRevision,
+  SessionUsage,
+  TokenBudget,
+  AccessLogResponse,
   ConversationEntry, 
   DiagnosisResult,
   MCQQuestion,
   TreatmentPathway,
   RiskAssessment,
   PatientEducation,
-  ClinicalAlert
+  PatientProfile,
+  PatientListResponse,
+  PatientRecord,
+  PatientTimeline,
+  SymptomLogEntry,
+  SymptomLogResponse,
+  MedicationSchedule,
+  MedicationDose,
+  MedicationAdherence,
+  MedicationReminder,
+  RecordedVitals,
+  VitalAlert,
+  VitalSignsOverview,
+  ClinicalAlert,
+  DrugInteractionReport,
+  EnhancedAnalysisEvent,
+  EnhancedAnalysisResult,
+  AuthUser,
+  AuthCredentials,
+  RegisterData,
+  SessionListFilters,
+  SessionListResponse
 } from "../types/medical";
 
+// Checks the body against the route's shared schema before sending it, so a
+// malformed call fails here rather than as a 400 from the server
+function send<S extends z.ZodTypeAny>(method: string, url: string, schema: S, data: z.input<S>): Promise<Response> {
+  return apiRequest(method, url, schema.parse(data));
+}
+
+// GET that resolves to undefined when the server answers 404
+async function getIfFound<T>(url: string): Promise<T | undefined> {
+  try {
+    const response = await apiRequest("GET", url);
+    return response.json();
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("404:")) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 export const api = {
+  // Authentication
+  register: async (data: RegisterData): Promise<AuthUser> => {
+    const response = await send("POST", "/api/register", registerBodySchema, data);
+    return response.json();
+  },
+
+  login: async (credentials: AuthCredentials): Promise<AuthUser> => {
+    const response = await send("POST", "/api/login", loginBodySchema, credentials);
+    return response.json();
+  },
+
+  logout: async (): Promise<void> => {
+    await apiRequest("POST", "/api/logout");
+  },
+
   // Session management
-  createSession: async (sessionData: Partial<ConsultationSession>): Promise<ConsultationSession> => {
-    const response = await apiRequest("POST", "/api/sessions", sessionData);
+  createSession: async (sessionData: CreateSessionBody): Promise<ConsultationSession> => {
+    const response = await send("POST", "/api/sessions", createSessionBodySchema, sessionData);
+    return response.json();
+  },
+
+  listSessions: async (filters: SessionListFilters = {}): Promise<SessionListResponse> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    }
+    const query = params.toString();
+    const response = await apiRequest("GET", `/api/sessions${query ? `?${query}` : ""}`);
     return response.json();
   },
 
@@ -23,30 +141,207 @@ export const api = {
     return response.json();
   },
 
-  updateSession: async (sessionId: string, updates: Partial<ConsultationSession>): Promise<ConsultationSession> => {
-    const response = await apiRequest("PATCH", `/api/sessions/${sessionId}`, updates);
+  // Stored enhanced-analysis sections, used to rehydrate a completed consultation
+  getSessionArtifacts: async (sessionId: string): Promise<{
+    treatmentPathway?: TreatmentPathway;
+    riskAssessment?: RiskAssessment;
+    patientEducation?: PatientEducation;
+    clinicalAlerts: ClinicalAlert[];
+  }> => {
+    const [treatmentPathway, riskAssessment, patientEducation, clinicalAlerts] = await Promise.all([
+      getIfFound<TreatmentPathway>(`/api/sessions/${sessionId}/treatment-pathway`),
+      getIfFound<RiskAssessment>(`/api/sessions/${sessionId}/risk-assessment`),
+      getIfFound<PatientEducation>(`/api/sessions/${sessionId}/patient-education`),
+      getIfFound<ClinicalAlert[]>(`/api/sessions/${sessionId}/clinical-alerts`),
+    ]);
+    return { treatmentPathway, riskAssessment, patientEducation, clinicalAlerts: clinicalAlerts || [] };
+  },
+
+  // Stored analysis revisions of a session, oldest first
+  listAnalyses: async (sessionId: string): Promise<AnalysisRevision[]> => {
+    const response = await apiRequest("GET", `/api/sessions/${sessionId}/analyses`);
+    return response.json();
+  },
+
+  // Latest revision compared with the one before it; undefined until there are two
+  getAnalysisDiff: async (sessionId: string, range: { from?: number; to?: number } = {}): Promise<AnalysisDiff | undefined> => {
+    const params = new URLSearchParams();
+    if (range.from !== undefined) params.set("from", String(range.from));
+    if (range.to !== undefined) params.set("to", String(range.to));
+    const query = params.toString();
+    return getIfFound<AnalysisDiff>(`/api/sessions/${sessionId}/analyses/diff${query ? `?${query}` : ""}`);
+  },
+
+  // LLM calls made for the session, with tokens, cost and cache hits
+  getSessionUsage: async (sessionId: string): Promise<SessionUsage> => {
+    const response = await apiRequest("GET", `/api/sessions/${sessionId}/usage`);
+    return response.json();
+  },
+
+  // Audited requests against the session, newest first
+  getSessionAccessLog: async (sessionId: string, page = 1): Promise<AccessLogResponse> => {
+    const response = await apiRequest("GET", `/api/sessions/${sessionId}/access-log?page=${page}`);
+    return response.json();
+  },
+
+  // Today's token budgets for the logged-in user; empty when none are configured
+  getTokenBudget: async (): Promise<TokenBudget[]> => {
+    const response = await apiRequest("GET", "/api/usage/budget");
+    const { budgets } = await response.json();
+    return budgets;
+  },
+
+  updateSession: async (sessionId: string, updates: UpdateSessionBody): Promise<ConsultationSession> => {
+    const response = await send("PATCH", `/api/sessions/${sessionId}`, updateSessionBodySchema, updates);
+    return response.json();
+  },
+
+  // Structured patient profile; undefined until one has been saved
+  getPatientProfile: async (sessionId: string): Promise<PatientProfile | undefined> => {
+    return getIfFound<PatientProfile>(`/api/sessions/${sessionId}/profile`);
+  },
+
+  savePatientProfile: async (sessionId: string, profile: SavePatientProfileBody): Promise<PatientProfile> => {
+    const response = await send("PUT", `/api/sessions/${sessionId}/profile`, savePatientProfileBodySchema, profile);
+    return response.json();
+  },
+
+  // Patient records
+  listPatients: async (q?: string): Promise<PatientListResponse> => {
+    const params = new URLSearchParams({ pageSize: "100" });
+    if (q) params.set("q", q);
+    const response = await apiRequest("GET", `/api/patients?${params}`);
+    return response.json();
+  },
+
+  getPatient: async (patientId: number): Promise<PatientRecord> => {
+    const response = await apiRequest("GET", `/api/patients/${patientId}`);
+    return response.json();
+  },
+
+  createPatient: async (patient: CreatePatientBody): Promise<PatientRecord> => {
+    const response = await send("POST", "/api/patients", createPatientBodySchema, patient);
+    return response.json();
+  },
+
+  updatePatient: async (patientId: number, updates: UpdatePatientBody): Promise<PatientRecord> => {
+    const response = await send("PATCH", `/api/patients/${patientId}`, updatePatientBodySchema, updates);
+    return response.json();
+  },
+
+  deletePatient: async (patientId: number): Promise<void> => {
+    await apiRequest("DELETE", `/api/patients/${patientId}`);
+  },
+
+  getPatientTimeline: async (patientId: number): Promise<PatientTimeline> => {
+    const response = await apiRequest("GET", `/api/patients/${patientId}/timeline`);
+    return response.json();
+  },
+
+  // Symptom log of a patient record
+  getSymptomLog: async (patientId: number, filters: Partial<ListSymptomsQuery> = {}): Promise<SymptomLogResponse> => {
+    const params = new URLSearchParams();
+    if (filters.from) params.set("from", filters.from.toISOString());
+    if (filters.to) params.set("to", filters.to.toISOString());
+    if (filters.symptom) params.set("symptom", filters.symptom);
+    const query = params.toString();
+    const response = await apiRequest("GET", `/api/patients/${patientId}/symptoms${query ? `?${query}` : ""}`);
+    return response.json();
+  },
+
+  logSymptom: async (patientId: number, entry: LogSymptomBody): Promise<SymptomLogEntry> => {
+    const response = await send("POST", `/api/patients/${patientId}/symptoms`, logSymptomBodySchema, entry);
+    return response.json();
+  },
+
+  deleteSymptomLogEntry: async (patientId: number, entryId: number): Promise<void> => {
+    await apiRequest("DELETE", `/api/patients/${patientId}/symptoms/${entryId}`);
+  },
+
+  // Medication schedules of a patient record and their doses
+  listMedicationSchedules: async (patientId: number): Promise<MedicationSchedule[]> => {
+    const response = await apiRequest("GET", `/api/patients/${patientId}/medication-schedules`);
+    return response.json();
+  },
+
+  createMedicationSchedule: async (patientId: number, schedule: CreateMedicationScheduleBody): Promise<MedicationSchedule> => {
+    const response = await send("POST", `/api/patients/${patientId}/medication-schedules`, createMedicationScheduleBodySchema, schedule);
+    return response.json();
+  },
+
+  updateMedicationSchedule: async (patientId: number, scheduleId: number, updates: UpdateMedicationScheduleBody): Promise<MedicationSchedule> => {
+    const response = await send("PATCH", `/api/patients/${patientId}/medication-schedules/${scheduleId}`, updateMedicationScheduleBodySchema, updates);
+    return response.json();
+  },
+
+  // Removes the dose history too; set an end date to keep it
+  deleteMedicationSchedule: async (patientId: number, scheduleId: number): Promise<void> => {
+    await apiRequest("DELETE", `/api/patients/${patientId}/medication-schedules/${scheduleId}`);
+  },
+
+  listMedicationDoses: async (patientId: number, filters: Partial<ListMedicationDosesQuery> = {}): Promise<MedicationDose[]> => {
+    const params = new URLSearchParams();
+    if (filters.from) params.set("from", filters.from.toISOString());
+    if (filters.to) params.set("to", filters.to.toISOString());
+    if (filters.status) params.set("status", filters.status);
+    if (filters.scheduleId) params.set("scheduleId", String(filters.scheduleId));
+    const query = params.toString();
+    const response = await apiRequest("GET", `/api/patients/${patientId}/medication-doses${query ? `?${query}` : ""}`);
+    return response.json();
+  },
+
+  recordMedicationDose: async (patientId: number, doseId: number, outcome: RecordDoseBody): Promise<MedicationDose> => {
+    const response = await send("PATCH", `/api/patients/${patientId}/medication-doses/${doseId}`, recordDoseBodySchema, outcome);
+    return response.json();
+  },
+
+  getMedicationAdherence: async (patientId: number, days?: number): Promise<MedicationAdherence> => {
+    const query = days ? `?days=${days}` : "";
+    const response = await apiRequest("GET", `/api/patients/${patientId}/medication-adherence${query}`);
+    return response.json();
+  },
+
+  // iCalendar file with a recurring event per dose time
+  getMedicationCalendar: async (patientId: number): Promise<Blob> => {
+    const response = await apiRequest("GET", `/api/patients/${patientId}/medications.ics`);
+    return response.blob();
+  },
+
+  // Doses of all the user's patients that are due and not yet answered
+  getMedicationReminders: async (): Promise<{ reminders: MedicationReminder[] }> => {
+    const response = await apiRequest("GET", "/api/medication-reminders");
+    return response.json();
+  },
+
+  // Vital sign readings of a patient record; one reading or a batch
+  recordVitals: async (patientId: number, readings: RecordVitalsBody): Promise<RecordedVitals> => {
+    const response = await send("POST", `/api/patients/${patientId}/vitals`, recordVitalsBodySchema, readings);
+    return response.json();
+  },
+
+  getVitalSigns: async (patientId: number, filters: Partial<ListVitalsQuery> = {}): Promise<VitalSignsOverview> => {
+    const params = new URLSearchParams();
+    if (filters.from) params.set("from", filters.from.toISOString());
+    if (filters.to) params.set("to", filters.to.toISOString());
+    if (filters.type) params.set("type", filters.type);
+    const query = params.toString();
+    const response = await apiRequest("GET", `/api/patients/${patientId}/vitals${query ? `?${query}` : ""}`);
+    return response.json();
+  },
+
+  getVitalAlerts: async (patientId: number): Promise<{ alerts: VitalAlert[] }> => {
+    const response = await apiRequest("GET", `/api/patients/${patientId}/vital-alerts`);
     return response.json();
   },
 
   // AI Analysis
-  generateFollowUpQuestions: async (data: {
-    symptoms: string;
-    mode: 'doctor' | 'patient';
-    sessionId: string;
-    patientInfo?: any;
-  }): Promise<{ questions: string[] }> => {
-    const response = await apiRequest("POST", "/api/generate-questions", data);
+  generateFollowUpQuestions: async (data: GenerateQuestionsBody): Promise<GenerateQuestionsResponse> => {
+    const response = await send("POST", "/api/generate-questions", generateQuestionsBodySchema, data);
     return response.json();
   },
 
-  analyzeSymptoms: async (data: {
-    symptoms: string;
-    mode: 'doctor' | 'patient';
-    sessionId: string;
-    patientInfo?: any;
-    followUpAnswers?: Array<{ question: string; answer: string }>;
-  }): Promise<AIAnalysisResult> => {
-    const response = await apiRequest("POST", "/api/analyze", data);
+  analyzeSymptoms: async (data: AnalyzeBody): Promise<AIAnalysisResult> => {
+    const response = await send("POST", "/api/analyze", analyzeBodySchema, data);
     return response.json();
   },
 
@@ -62,83 +357,134 @@ export const api = {
     return response.json();
   },
 
-  // Export
-  exportSession: async (sessionId: string): Promise<Blob> => {
-    const response = await apiRequest("GET", `/api/sessions/${sessionId}/export`);
+  // Removes the session with its diagnoses, conversation and analysis artifacts
+  deleteSession: async (sessionId: string): Promise<void> => {
+    await apiRequest("DELETE", `/api/sessions/${sessionId}`);
+  },
+
+  // Export; the anonymised variant leaves out identity, dates and contact details
+  exportSession: async (sessionId: string, mode: ExportQuery['mode'] = 'full'): Promise<Blob> => {
+    const query = mode === 'anonymised' ? "?mode=anonymised" : "";
+    const response = await apiRequest("GET", `/api/sessions/${sessionId}/export${query}`);
+    return response.blob();
+  },
+
+  // Paginated PDF report; the doctor template is for healthcare professionals
+  getReportPdf: async (sessionId: string, template?: 'doctor' | 'patient'): Promise<Blob> => {
+    const query = template ? `?template=${template}` : "";
+    const response = await apiRequest("GET", `/api/sessions/${sessionId}/report.pdf${query}`);
+    return response.blob();
+  },
+
+  // FHIR R4 transaction Bundle for EHR import
+  exportSessionFhir: async (sessionId: string): Promise<Blob> => {
+    const response = await apiRequest("GET", `/api/sessions/${sessionId}/export/fhir`);
     return response.blob();
   },
 
   // Education
-  getEducationContent: async (diagnosis: string): Promise<{ content: string }> => {
-    const response = await apiRequest("POST", "/api/education", { diagnosis });
+  getEducationContent: async (diagnosis: string): Promise<EducationResponse> => {
+    const response = await send("POST", "/api/education", educationBodySchema, { diagnosis });
     return response.json();
   },
 
   // MCQ Questions
-  generateMCQQuestions: async (data: {
-    diagnosis: string;
-    patientInfo?: any;
-    mode: 'doctor' | 'patient';
-  }): Promise<{ questions: MCQQuestion[] }> => {
-    const response = await apiRequest("POST", "/api/generate-mcq", data);
+  generateMCQQuestions: async (data: GenerateMCQBody): Promise<{ questions: MCQQuestion[] }> => {
+    const response = await send("POST", "/api/generate-mcq", generateMCQBodySchema, data);
     return response.json();
   },
 
   // Enhanced Analysis Features
-  getTreatmentPathway: async (data: {
-    diagnosis: string;
-    patientInfo?: any;
-  }): Promise<TreatmentPathway> => {
-    const response = await apiRequest("POST", "/api/treatment-pathway", data);
+  getTreatmentPathway: async (data: TreatmentPathwayBody): Promise<TreatmentPathway> => {
+    const response = await send("POST", "/api/treatment-pathway", treatmentPathwayBodySchema, data);
     return response.json();
   },
 
-  getRiskAssessment: async (data: {
-    diagnosis: string;
-    symptoms: string;
-    patientInfo?: any;
-  }): Promise<RiskAssessment> => {
-    const response = await apiRequest("POST", "/api/risk-assessment", data);
+  getRiskAssessment: async (data: DiagnosisWithSymptomsBody): Promise<RiskAssessment> => {
+    const response = await send("POST", "/api/risk-assessment", diagnosisWithSymptomsBodySchema, data);
     return response.json();
   },
 
-  getPatientEducation: async (data: {
-    diagnosis: string;
-    educationLevel: string;
-    language: string;
-  }): Promise<PatientEducation> => {
-    const response = await apiRequest("POST", "/api/patient-education", data);
+  getPatientEducation: async (data: PatientEducationBody): Promise<PatientEducation> => {
+    const response = await send("POST", "/api/patient-education", patientEducationBodySchema, data);
     return response.json();
   },
 
-  getClinicalAlerts: async (data: {
-    diagnosis: string;
-    symptoms: string;
-    patientInfo?: any;
-  }): Promise<ClinicalAlert[]> => {
-    const response = await apiRequest("POST", "/api/clinical-alerts", data);
+  getClinicalAlerts: async (data: DiagnosisWithSymptomsBody): Promise<ClinicalAlert[]> => {
+    const response = await send("POST", "/api/clinical-alerts", diagnosisWithSymptomsBodySchema, data);
+    return response.json();
+  },
+
+  checkDrugInteractions: async (data: DrugInteractionsBody): Promise<DrugInteractionReport> => {
+    const response = await send("POST", "/api/drug-interactions", drugInteractionsBodySchema, data);
     return response.json();
   },
 
   // Enhanced Analysis (combines multiple features)
-  getEnhancedAnalysis: async (data: {
-    symptoms: string;
-    mode: 'doctor' | 'patient';
-    sessionId: string;
-    patientInfo?: any;
-    followUpAnswers?: Array<{ question: string; answer: string }>;
-  }): Promise<{
-    analysis: AIAnalysisResult;
-    mcqQuestions?: MCQQuestion[];
-    treatmentPathway?: TreatmentPathway;
-    riskAssessment?: RiskAssessment;
-    patientEducation?: PatientEducation;
-    clinicalAlerts?: ClinicalAlert[];
-  }> => {
-    const response = await apiRequest("POST", "/api/enhanced-analysis", data);
+  getEnhancedAnalysis: async (data: EnhancedAnalysisBody): Promise<EnhancedAnalysisResult> => {
+    const response = await send("POST", "/api/enhanced-analysis", enhancedAnalysisBodySchema, data);
     return response.json();
   },
 
+  // Streaming enhanced analysis: `onEvent` is called for each section as the
+  // server finishes it; resolves with the payload of the final "done" event.
+  streamEnhancedAnalysis: async (
+    data: EnhancedAnalysisBody,
+    onEvent: (event: EnhancedAnalysisEvent) => void
+  ): Promise<EnhancedAnalysisResult> => {
+    const response = await fetch("/api/enhanced-analysis/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify(enhancedAnalysisBodySchema.parse(data)),
+      credentials: "include",
+    });
+
+    if (!response.ok || !response.body) {
+      const text = (await response.text()) || response.statusText;
+      throw new Error(`${response.status}: ${text}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        let eventType = "message";
+        let eventData = "";
+        for (const line of rawEvent.split("\n")) {
+          if (line.startsWith("event: ")) eventType = line.slice(7);
+          else if (line.startsWith("data: ")) eventData += line.slice(6);
+        }
+        if (!eventData) continue;
+
+        const payload = JSON.parse(eventData);
+        if (eventType === "error") {
+          throw new Error(payload.error || "Enhanced analysis failed");
+        }
+
+        const event = { type: eventType, data: payload } as EnhancedAnalysisEvent;
+        onEvent(event);
+        if (event.type === "done") {
+          reader.cancel();
+          return event.data;
+        }
+      }
+    }
+
+    throw new Error("Analysis stream ended before completion");
+  },
+
   // Health check
   checkHealth: async (): Promise<{ status: string; models: any }> => {
     const response = await apiRequest("GET", "/api/health");
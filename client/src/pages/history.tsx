@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft, ChevronLeft, ChevronRight, Eye, GitCompare, History as HistoryIcon, Loader2, PlayCircle, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api } from "../lib/api";
+import type { AppMode, DiagnosisResult, SessionListFilters, SessionSummary } from "../types/medical";
+
+const PAGE_SIZE = 10;
+
+const formatDate = (value?: Date | string) =>
+  value ? new Date(value).toLocaleString() : 'Unknown date';
+
+const sessionTitle = (session: SessionSummary) =>
+  session.patientInfo?.name || session.topDiagnoses[0]?.name || 'Untitled consultation';
+
+function SessionDetail({ session }: { session: SessionSummary }) {
+  const { data: diagnoses = [], isLoading } = useQuery<DiagnosisResult[]>({
+    queryKey: ['/api/sessions', session.sessionId, 'diagnoses'],
+    queryFn: () => api.getDiagnoses(session.sessionId),
+  });
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">{session.mode}</Badge>
+        <Badge variant="outline">{formatDate(session.createdAt)}</Badge>
+      </div>
+      {session.patientInfo && (
+        <div>
+          <h4 className="font-semibold mb-1">Patient</h4>
+          <p className="text-muted-foreground">
+            {[session.patientInfo.name, session.patientInfo.age && `${session.patientInfo.age} years`, session.patientInfo.gender]
+              .filter(Boolean)
+              .join(' · ') || 'Not provided'}
+          </p>
+        </div>
+      )}
+      <div>
+        <h4 className="font-semibold mb-1">Symptoms</h4>
+        <p className="text-muted-foreground whitespace-pre-wrap">{session.symptoms || 'No symptoms recorded'}</p>
+      </div>
+      <div>
+        <h4 className="font-semibold mb-1">Diagnoses</h4>
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : diagnoses.length === 0 ? (
+          <p className="text-muted-foreground">No analysis yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {diagnoses.map((diagnosis, index) => (
+              <li key={diagnosis.id ?? index} className="flex items-center justify-between gap-2">
+                <span>{diagnosis.name}</span>
+                <Badge variant="outline">{diagnosis.confidence ?? '–'}%</Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SessionComparison({ sessions }: { sessions: SessionSummary[] }) {
+  // Diagnoses named in every compared session
+  const shared = new Set(
+    sessions
+      .map((session) => session.topDiagnoses.map((d) => d.name.toLowerCase()))
+      .reduce((common, names) => common.filter((name) => names.includes(name)))
+  );
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {sessions.map((session) => (
+        <Card key={session.sessionId}>
+          <CardHeader>
+            <CardTitle className="text-base">{sessionTitle(session)}</CardTitle>
+            <CardDescription>{formatDate(session.createdAt)}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground line-clamp-4">{session.symptoms || 'No symptoms recorded'}</p>
+            <ul className="space-y-1">
+              {session.topDiagnoses.map((diagnosis) => (
+                <li key={diagnosis.name} className="flex items-center justify-between gap-2">
+                  <span className={shared.has(diagnosis.name.toLowerCase()) ? 'font-semibold' : ''}>
+                    {diagnosis.name}
+                  </span>
+                  <Badge variant="outline">{diagnosis.confidence ?? '–'}%</Badge>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      ))}
+      {shared.size > 0 && (
+        <p className="md:col-span-2 text-xs text-muted-foreground">
+          Diagnoses in bold appear in both consultations.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  const [, navigate] = useLocation();
+  const [filters, setFilters] = useState<SessionListFilters>({ page: 1, pageSize: PAGE_SIZE });
+  const [draft, setDraft] = useState({ q: '', diagnosis: '', mode: 'all', from: '', to: '' });
+  const [viewing, setViewing] = useState<SessionSummary | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['/api/sessions', filters],
+    queryFn: () => api.listSessions(filters),
+    staleTime: 0,
+  });
+
+  const sessions = data?.sessions ?? [];
+  const page = filters.page ?? 1;
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+  const compareSessions = sessions.filter((session) => compareIds.includes(session.sessionId));
+
+  const applyFilters = () => {
+    setFilters({
+      page: 1,
+      pageSize: PAGE_SIZE,
+      q: draft.q || undefined,
+      diagnosis: draft.diagnosis || undefined,
+      mode: draft.mode === 'all' ? undefined : draft.mode as AppMode,
+      from: draft.from ? new Date(`${draft.from}T00:00:00`).toISOString() : undefined,
+      // Inclusive of the whole "to" day
+      to: draft.to ? new Date(`${draft.to}T23:59:59.999`).toISOString() : undefined,
+    });
+    setCompareIds([]);
+  };
+
+  const toggleCompare = (sessionId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(sessionId)
+        ? prev.filter((id) => id !== sessionId)
+        : [...prev, sessionId].slice(-2)
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="icon" title="Back to consultation">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-xl font-bold flex items-center gap-2">
+                <HistoryIcon className="h-5 w-5" />
+                Consultation History
+              </h1>
+              <p className="text-sm text-muted-foreground">Reopen, compare and resume past consultations</p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            disabled={compareIds.length !== 2}
+            onClick={() => setComparing(true)}
+          >
+            <GitCompare className="h-4 w-4 mr-2" />
+            Compare ({compareIds.length}/2)
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form
+              className="grid gap-4 md:grid-cols-6 items-end"
+              onSubmit={(e) => {
+                e.preventDefault();
+                applyFilters();
+              }}
+            >
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="history-q">Symptoms</Label>
+                <Input
+                  id="history-q"
+                  placeholder="e.g. headache"
+                  value={draft.q}
+                  onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="history-diagnosis">Diagnosis</Label>
+                <Input
+                  id="history-diagnosis"
+                  value={draft.diagnosis}
+                  onChange={(e) => setDraft({ ...draft, diagnosis: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Mode</Label>
+                <Select value={draft.mode} onValueChange={(mode) => setDraft({ ...draft, mode })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All modes</SelectItem>
+                    <SelectItem value="unified">Unified</SelectItem>
+                    <SelectItem value="patient">Patient</SelectItem>
+                    <SelectItem value="doctor">Doctor</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="history-from">From</Label>
+                <Input
+                  id="history-from"
+                  type="date"
+                  value={draft.from}
+                  onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="history-to">To</Label>
+                <Input
+                  id="history-to"
+                  type="date"
+                  value={draft.to}
+                  onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-6 flex justify-end">
+                <Button type="submit">
+                  <Search className="h-4 w-4 mr-2" />
+                  Search
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : isError ? (
+          <p className="text-center text-destructive py-12">Failed to load consultation history.</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No consultations match these filters.</p>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <Card key={session.sessionId}>
+                <CardContent className="py-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                  <Checkbox
+                    checked={compareIds.includes(session.sessionId)}
+                    onCheckedChange={() => toggleCompare(session.sessionId)}
+                    aria-label="Select for comparison"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold truncate">{sessionTitle(session)}</span>
+                      <Badge variant="secondary">{session.mode}</Badge>
+                      <span className="text-xs text-muted-foreground">{formatDate(session.createdAt)}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {session.symptoms || 'No symptoms recorded'}
+                    </p>
+                    {session.topDiagnoses.length > 0 && (
+                      <div className="flex gap-1 flex-wrap mt-1">
+                        {session.topDiagnoses.map((diagnosis) => (
+                          <Badge key={diagnosis.name} variant="outline" className="text-xs">
+                            {diagnosis.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setViewing(session)}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      Open
+                    </Button>
+                    <Button size="sm" onClick={() => navigate(`/?resume=${encodeURIComponent(session.sessionId)}`)}>
+                      <PlayCircle className="h-4 w-4 mr-1" />
+                      Resume
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-muted-foreground">
+                {data?.total} consultation{data?.total === 1 ? '' : 's'} · page {page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setFilters({ ...filters, page: page - 1 })}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setFilters({ ...filters, page: page + 1 })}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-lg">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{sessionTitle(viewing)}</DialogTitle>
+                <DialogDescription>Consultation {viewing.sessionId}</DialogDescription>
+              </DialogHeader>
+              <SessionDetail session={viewing} />
+              <div className="flex justify-end">
+                <Button onClick={() => navigate(`/?resume=${encodeURIComponent(viewing.sessionId)}`)}>
+                  <PlayCircle className="h-4 w-4 mr-2" />
+                  Resume consultation
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={comparing && compareSessions.length === 2} onOpenChange={setComparing}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitCompare className="h-4 w-4" />
+              Compare consultations
+            </DialogTitle>
+            <DialogDescription>Top diagnoses side by side</DialogDescription>
+          </DialogHeader>
+          <SessionComparison sessions={compareSessions} />
+          <div className="flex justify-end">
+            <Button variant="ghost" onClick={() => { setCompareIds([]); setComparing(false); }}>
+              <X className="h-4 w-4 mr-2" />
+              Clear selection
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,17 +1,23 @@
 import { useState, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { Stethoscope, Circle, Menu, X, FileText, Download, Printer, Heart, Brain, Shield, Settings, Activity, BarChart3 } from "lucide-react";
+import { Stethoscope, Circle, Menu, X, FileText, Download, Printer, Brain, Shield, Settings, Activity, BarChart3, LogOut, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/hooks/use-auth";
+import { useMedicationReminders } from "@/hooks/use-medication-reminders";
+import { Link } from "wouter";
 import { ThemeToggle } from "../components/theme-toggle";
 import ConsultationPanel from "../components/consultation-panel";
 import { SidebarPanel } from "../components/sidebar-panel";
-import { LoadingOverlay } from "../components/loading-overlay";
+import { LoadingOverlay, type LoadingSection } from "../components/loading-overlay";
 import { MedicalDashboard } from "../components/medical-dashboard";
+import { VitalSignsPanel } from "../components/vital-signs-panel";
 import { EnhancedFeaturesPanel } from "../components/enhanced-features-panel";
 import AdvancedAIFeatures from "../components/advanced-ai-features";
 import EnhancedNavigationSidebar from "../components/enhanced-navigation-sidebar";
 import SidebarToggle from "../components/sidebar-toggle";
+import { SymptomTracker } from "../components/symptom-tracker";
+import { MedicationReminders } from "../components/medication-reminders";
 import { NotificationProvider, useMedicalNotifications } from "../components/notification-system";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -20,7 +26,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { medicalAPI } from "../lib/advanced-api";
 import { api } from "../lib/api";
-import type { AppMode, PatientInfo, AIAnalysisResult, ConsultationSession, FlowState, FollowUpQA, FollowUpMCQ, ConsultationFlow } from "../types/medical";
+import type { AppMode, PatientInfo, AIAnalysisResult, ConsultationSession, FlowState, FollowUpQA, FollowUpMCQ, ConsultationFlow, EnhancedAnalysisEvent, EnhancedAnalysisSection } from "../types/medical";
 
 // Type adapter functions
 const flowStateToConsultationFlow = (flowState: FlowState): ConsultationFlow => ({
@@ -49,10 +55,40 @@ const consultationFlowToFlowState = (flow: ConsultationFlow): FlowState => ({
   analysis: flow.analysis
 });
 
+const ANALYSIS_SECTION_LABELS: Record<EnhancedAnalysisSection, string> = {
+  diagnoses: "Differential diagnoses",
+  treatmentPathway: "Treatment pathway",
+  riskAssessment: "Risk assessment",
+  clinicalAlerts: "Clinical alerts",
+  patientEducation: "Patient education"
+};
+
+// Sections the streaming endpoint sends for each mode, in display order
+const getAnalysisSections = (mode: 'doctor' | 'patient'): LoadingSection[] => {
+  const keys: EnhancedAnalysisSection[] = mode === 'doctor'
+    ? ['diagnoses', 'treatmentPathway', 'riskAssessment', 'clinicalAlerts']
+    : ['diagnoses', 'patientEducation'];
+  return keys.map(key => ({ key, label: ANALYSIS_SECTION_LABELS[key], status: 'pending' }));
+};
+
+// Ensure analysis has required structure
+const normalizeAnalysis = (analysis: any): AIAnalysisResult => ({
+  diagnoses: Array.isArray(analysis?.diagnoses) ? analysis.diagnoses : [],
+  recommendations: Array.isArray(analysis?.recommendations) ? analysis.recommendations : [],
+  followUpQuestions: Array.isArray(analysis?.followUpQuestions) ? analysis.followUpQuestions : [],
+  redFlags: Array.isArray(analysis?.redFlags) ? analysis.redFlags : [],
+  recommendedTests: Array.isArray(analysis?.recommendedTests) ? analysis.recommendedTests : [],
+  overallConfidence: typeof analysis?.overallConfidence === 'number' ? analysis.overallConfidence : 0,
+  additionalNotes: analysis?.additionalNotes || '',
+  ...analysis
+});
+
 function HomeContent() {
+  const { user, logoutMutation } = useAuth();
   const { toast } = useToast();
   const notifications = useMedicalNotifications();
   const isMobile = useIsMobile();
+  useMedicationReminders(!!user);
   const [mode, setMode] = useState<AppMode>('unified');
   const [activeTab, setActiveTab] = useState('consultation');
   const [sessionId, setSessionId] = useState(() => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
@@ -79,6 +115,7 @@ function HomeContent() {
   const [activeEnhancedFeature, setActiveEnhancedFeature] = useState<string | undefined>();
   const [consultationCount, setConsultationCount] = useState(0);
   const [isStandaloneMode, setIsStandaloneMode] = useState(false);
+  const [analysisSections, setAnalysisSections] = useState<LoadingSection[] | undefined>();
 
   // Mock data for dashboard
   const [dashboardData] = useState({
@@ -89,13 +126,6 @@ function HomeContent() {
       accuracyRate: 96,
       patientsToday: 47,
       urgentAlerts: 2
-    },
-    vitals: {
-      heartRate: 72,
-      bloodPressure: "120/80",
-      temperature: 98.6,
-      oxygenSaturation: 98,
-      respiratoryRate: 16
     }
   });
 
@@ -114,15 +144,64 @@ function HomeContent() {
     return () => clearInterval(timer);
   }, [sessionStartTime]);
 
-  // Create session on mount
+  // Create session on mount, or pick up the one passed from the history page
   useEffect(() => {
-    createSessionMutation.mutate({
-      sessionId,
-      mode,
-      patientInfo,
-    });
+    const resumeId = new URLSearchParams(window.location.search).get('resume');
+    if (!resumeId) {
+      createSessionMutation.mutate({
+        sessionId,
+        mode,
+        patientInfo,
+      });
+      return;
+    }
+
+    window.history.replaceState(null, '', window.location.pathname);
+    api.getSession(resumeId)
+      .then(resumeSession)
+      .catch(() => {
+        toast({
+          title: "Session Error",
+          description: "Could not reopen that consultation. Starting a new one instead.",
+          variant: "destructive",
+        });
+        createSessionMutation.mutate({ sessionId, mode, patientInfo });
+      });
   }, []);
 
+  const resumeSession = (session: ConsultationSession) => {
+    // Older sessions stored the analysis as a JSON string
+    const storedAnalysis = typeof session.aiAnalysis === 'string'
+      ? JSON.parse(session.aiAnalysis)
+      : session.aiAnalysis;
+    const analysis = storedAnalysis ? normalizeAnalysis(storedAnalysis) : undefined;
+
+    setSessionId(session.sessionId);
+    setMode(session.mode);
+    if (session.patientInfo) {
+      setPatientInfo(session.patientInfo);
+    }
+    api.getPatientProfile(session.sessionId)
+      .then((profile) => profile && setPatientInfo(prev => ({ ...prev, profile })))
+      .catch((error) => console.error('Failed to load patient profile:', error));
+    setFlowState({
+      step: analysis ? 'complete' : session.symptoms ? 'symptoms' : 'patient-info',
+      symptoms: session.symptoms || '',
+      followUpQuestions: [],
+      followUpAnswers: [],
+      analysis
+    });
+    if (analysis) {
+      api.getSessionArtifacts(session.sessionId)
+        .then((artifacts) => setFlowState(prev => ({ ...prev, ...artifacts })))
+        .catch((error) => console.error('Failed to load stored analysis sections:', error));
+    }
+    toast({
+      title: "Consultation Resumed",
+      description: "Picked up where you left off.",
+    });
+  };
+
   // Health check query
   const { data: healthData } = useQuery({
     queryKey: ['/api/health'],
@@ -180,7 +259,34 @@ function HomeContent() {
     },
   });
 
-  // Enhanced analyze symptoms mutation
+  // Render each streamed section as soon as it arrives
+  const handleAnalysisEvent = (event: EnhancedAnalysisEvent) => {
+    if (event.type === 'done') return;
+
+    setAnalysisSections(prev => prev?.map(section =>
+      section.key === event.type ? { ...section, status: 'done' } : section
+    ));
+
+    switch (event.type) {
+      case 'diagnoses':
+        setFlowState(prev => ({ ...prev, step: 'complete', analysis: normalizeAnalysis(event.data) }));
+        break;
+      case 'treatmentPathway':
+        setFlowState(prev => ({ ...prev, treatmentPathway: event.data }));
+        break;
+      case 'riskAssessment':
+        setFlowState(prev => ({ ...prev, riskAssessment: event.data }));
+        break;
+      case 'clinicalAlerts':
+        setFlowState(prev => ({ ...prev, clinicalAlerts: event.data }));
+        break;
+      case 'patientEducation':
+        setFlowState(prev => ({ ...prev, patientEducation: event.data }));
+        break;
+    }
+  };
+
+  // Enhanced analyze symptoms mutation, streamed section by section
   const analyzeMutation = useMutation({
     mutationFn: (data: { 
       symptoms: string; 
@@ -188,34 +294,25 @@ function HomeContent() {
       sessionId: string; 
       patientInfo?: PatientInfo;
       followUpAnswers?: FollowUpQA[];
+      bypassCache?: boolean;
     }) => {
       // Convert unified mode to patient mode for API compatibility
       const apiMode = data.mode === 'unified' ? 'patient' : data.mode as 'patient' | 'doctor';
-      return api.getEnhancedAnalysis({
+      setAnalysisSections(getAnalysisSections(apiMode));
+      return api.streamEnhancedAnalysis({
         ...data,
         mode: apiMode
-      });
+      }, handleAnalysisEvent);
     },
     onSuccess: (result: any) => {
       try {
-        // Ensure analysis has required structure
-        const analysis = result?.analysis || {};
-        const safeAnalysis = {
-          diagnoses: Array.isArray(analysis.diagnoses) ? analysis.diagnoses : [],
-          recommendations: Array.isArray(analysis.recommendations) ? analysis.recommendations : [],
-          followUpQuestions: Array.isArray(analysis.followUpQuestions) ? analysis.followUpQuestions : [],
-          redFlags: Array.isArray(analysis.redFlags) ? analysis.redFlags : [],
-          recommendedTests: Array.isArray(analysis.recommendedTests) ? analysis.recommendedTests : [],
-          overallConfidence: typeof analysis.overallConfidence === 'number' ? analysis.overallConfidence : 0,
-          additionalNotes: analysis.additionalNotes || '',
-          ...analysis
-        };
+        const safeAnalysis = normalizeAnalysis(result?.analysis || {});
 
         setFlowState(prev => {
           const newState = {
             ...prev,
             step: 'complete' as const,
-            analysis: safeAnalysis as AIAnalysisResult,
+            analysis: safeAnalysis,
             followUpMCQs: Array.isArray(result.followUpMCQs) ? result.followUpMCQs : [],
             mcqQuestions: Array.isArray(result.mcqQuestions) ? result.mcqQuestions : [],
             treatmentPathway: result.treatmentPathway || undefined,
@@ -258,6 +355,30 @@ function HomeContent() {
       console.error('Analysis mutation error:', error);
       notifications.error("Analysis Failed", "Failed to analyze symptoms. Please check AI service connectivity.");
     },
+    onSettled: () => {
+      setAnalysisSections(undefined);
+    },
+  });
+
+  // FHIR R4 Bundle export for pushing results into an EHR
+  const fhirExportMutation = useMutation({
+    mutationFn: () => api.exportSessionFhir(sessionId),
+    onSuccess: (blob) => {
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `consultation-${sessionId}.fhir.json`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      notifications.success("Export Successful", "FHIR bundle has been exported successfully.");
+    },
+    onError: () => {
+      notifications.error("Export Failed", "Failed to export FHIR bundle.");
+    },
   });
 
   // Export session mutation with enhanced API
@@ -325,6 +446,18 @@ function HomeContent() {
     });
   };
 
+  // Ask the model again for the same symptoms and answers instead of reusing a cached answer
+  const handleRerunAnalysis = () => {
+    analyzeMutation.mutate({
+      symptoms: flowState.symptoms,
+      mode,
+      sessionId,
+      patientInfo,
+      followUpAnswers: flowState.followUpAnswers,
+      bypassCache: true,
+    });
+  };
+
   const handleClear = () => {
     // Generate a new session ID for the new consultation
     const newSessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -367,108 +500,47 @@ function HomeContent() {
     exportMutation.mutate();
   };
 
-  const isConnected = (healthData as any)?.models?.reasoner === 'connected' && (healthData as any)?.models?.chat === 'connected' || false;
-
-  // Generate medical report function
-  const generateMedicalReport = () => {
-    if (!flowState.analysis) return null;
-
-    const reportDate = new Date().toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  const handleExportFhir = () => {
+    fhirExportMutation.mutate();
+  };
 
-    const reportTime = new Date().toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  const isConnected = (healthData as any)?.models?.reasoner === 'connected' && (healthData as any)?.models?.chat === 'connected' || false;
 
-    return `
-MEDICAL CONSULTATION REPORT
-=====================================
-
-PATIENT INFORMATION:
--------------------
-Patient ID: ${patientInfo.id || 'N/A'}
-Age: ${patientInfo.age || 'N/A'}
-Gender: ${patientInfo.gender ? patientInfo.gender.charAt(0).toUpperCase() + patientInfo.gender.slice(1) : 'N/A'}
-Consultation Date: ${reportDate}
-Consultation Time: ${reportTime}
-Session Duration: ${sessionDuration}
-Session ID: ${sessionId}
-
-PRESENTING SYMPTOMS:
-------------------
-${flowState.symptoms || 'No symptoms recorded'}
-
-FOLLOW-UP QUESTIONS & ANSWERS:
------------------------------
-${(flowState.followUpAnswers || []).map((qa, index) => `
-Q${index + 1}: ${qa.question}
-A${index + 1}: ${qa.answer || 'Not answered'}
-`).join('')}
-
-DIFFERENTIAL DIAGNOSES:
----------------------
-${(flowState.analysis.diagnoses || []).map((diagnosis, index) => `
-${index + 1}. ${diagnosis.name} (Confidence: ${diagnosis.confidence}%)
-   Category: ${diagnosis.category}
-   Description: ${diagnosis.description}
-   
-   Red Flags:
-   ${(diagnosis.redFlags || []).map(flag => `   • ${flag}`).join('\n')}
-   
-   Recommended Tests:
-   ${(diagnosis.recommendedTests || []).map(test => `   • ${test}`).join('\n')}
-`).join('\n')}
-
-OVERALL ASSESSMENT:
------------------
-Overall Confidence Level: ${flowState.analysis.overallConfidence || 'N/A'}%
-
-CRITICAL RED FLAGS:
------------------
-${(flowState.analysis.redFlags || []).length > 0 ? 
-  (flowState.analysis.redFlags || []).map(flag => `⚠️ ${flag}`).join('\n') : 
-  'No critical red flags identified'}
-
-RECOMMENDED INVESTIGATIONS:
--------------------------
-${(flowState.analysis.recommendedTests || []).length > 0 ? 
-  (flowState.analysis.recommendedTests || []).map(test => `• ${test}`).join('\n') : 
-  'No specific tests recommended'}
-
-CLINICAL NOTES:
---------------
-This consultation was conducted using AI-assisted diagnostic support.
-All findings should be correlated with clinical examination and physician judgment.
-This report is for medical professional review and should not replace clinical assessment.
-
-Report Generated: ${reportDate} at ${reportTime}
-Generated by: AI Healthcare Assistant v1.0
--------------------------------------------
-END OF REPORT
-    `.trim();
-  };
+  // Reports are rendered server-side as PDF; professionals get the clinical template
+  const reportTemplate = user?.role === 'healthcare_professional' ? 'doctor' : 'patient';
 
-  // Download report function
-  const downloadReport = () => {
-    const report = generateMedicalReport();
-    if (!report) {
+  const fetchReport = async (): Promise<Blob | null> => {
+    if (!flowState.analysis) {
       toast({
         title: "No Report Available",
         description: "Complete the consultation to generate a medical report.",
         variant: "destructive",
       });
-      return;
+      return null;
+    }
+
+    try {
+      return await api.getReportPdf(sessionId, reportTemplate);
+    } catch (error) {
+      console.error('Report generation error:', error);
+      toast({
+        title: "Report Failed",
+        description: "Failed to generate the medical report.",
+        variant: "destructive",
+      });
+      return null;
     }
+  };
+
+  // Download report function
+  const downloadReport = async () => {
+    const report = await fetchReport();
+    if (!report) return;
 
-    const blob = new Blob([report], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
+    const url = URL.createObjectURL(report);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `medical-report-${sessionId}-${new Date().toISOString().split('T')[0]}.txt`;
+    a.download = `medical-report-${sessionId}-${new Date().toISOString().split('T')[0]}.pdf`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -481,43 +553,17 @@ END OF REPORT
   };
 
   // Print report function
-  const printReport = () => {
-    const report = generateMedicalReport();
-    if (!report) {
-      toast({
-        title: "No Report Available",
-        description: "Complete the consultation to generate a medical report.",
-        variant: "destructive",
-      });
-      return;
-    }
+  const printReport = async () => {
+    const report = await fetchReport();
+    if (!report) return;
 
-    const printWindow = window.open('', '_blank');
+    // The browser's PDF viewer handles printing
+    const url = URL.createObjectURL(report);
+    const printWindow = window.open(url, '_blank');
     if (printWindow) {
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>Medical Report - ${sessionId}</title>
-            <style>
-              body { 
-                font-family: 'Courier New', monospace; 
-                line-height: 1.6; 
-                margin: 20px; 
-                color: #333;
-              }
-              h1 { text-align: center; border-bottom: 2px solid #333; }
-              .section { margin: 20px 0; }
-              .warning { color: #d73502; font-weight: bold; }
-            </style>
-          </head>
-          <body>
-            <pre>${report}</pre>
-          </body>
-        </html>
-      `);
-      printWindow.document.close();
-      printWindow.print();
+      printWindow.addEventListener('load', () => printWindow.print());
     }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
   };
 
   // New consultation restart function
@@ -1028,6 +1074,12 @@ END OF REPORT
         title: "API Testing Dashboard",
         description: "Access comprehensive API testing tools in the dashboard.",
       });
+    } else if (featureId === 'symptom-tracker' || featureId === 'medication-reminders') {
+      // Have their own tabs, reached from the sidebar only
+      setActiveTab(featureId);
+      if (isMobile) {
+        setEnhancedSidebarOpen(false);
+      }
     } else if (featureId === 'help') {
       // Show help modal or navigate to help section
       toast({
@@ -1074,6 +1126,14 @@ END OF REPORT
               handleExport();
               setSidebarOpen(false);
             }}
+            onExportFhir={() => {
+              handleExportFhir();
+              setSidebarOpen(false);
+            }}
+            onRerunAnalysis={flowState.analysis && !analyzeMutation.isPending ? () => {
+              handleRerunAnalysis();
+              setSidebarOpen(false);
+            } : undefined}
           />
         </div>
       </SheetContent>
@@ -1128,7 +1188,24 @@ END OF REPORT
                   {isConnected ? 'AI Connected' : 'AI Disconnected'}
                 </span>
               </div>
+              {user && (
+                <span className="hidden md:inline text-sm text-muted-foreground">{user.username}</span>
+              )}
+              <Link href="/history">
+                <Button variant="ghost" size="icon" title="Consultation history">
+                  <History className="h-4 w-4" />
+                </Button>
+              </Link>
               <ThemeToggle />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title="Sign out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
               {isMobile && <MobileSidebar />}
             </div>
           </div>
@@ -1175,6 +1252,7 @@ END OF REPORT
                     onFlowChange={(flow: ConsultationFlow) => setFlowState(consultationFlowToFlowState(flow))}
                     onFollowUpSubmit={handleAnswerQuestions}
                     onSkipQuestions={handleSkipQuestions}
+                    sessionId={sessionId}
                   />
                 </div>
 
@@ -1186,6 +1264,8 @@ END OF REPORT
                     queriesUsed={queriesUsed}
                     overallConfidence={flowState.analysis?.overallConfidence || 0}
                     onExport={handleExport}
+                    onExportFhir={handleExportFhir}
+                    onRerunAnalysis={flowState.analysis && !analyzeMutation.isPending ? handleRerunAnalysis : undefined}
                   />
                 </div>
               </div>
@@ -1194,7 +1274,6 @@ END OF REPORT
             <TabsContent value="dashboard">
               <MedicalDashboard
                 stats={dashboardData.stats}
-                vitals={dashboardData.vitals}
                 onEmergencyAlert={() => {
                   notifications.emergencyAlert(
                     "Emergency Response Activated",
@@ -1210,6 +1289,14 @@ END OF REPORT
               />
             </TabsContent>
 
+            <TabsContent value="symptom-tracker">
+              <SymptomTracker />
+            </TabsContent>
+
+            <TabsContent value="medication-reminders">
+              <MedicationReminders />
+            </TabsContent>
+
             <TabsContent value="features">
               <EnhancedFeaturesPanel />
             </TabsContent>
@@ -1230,59 +1317,7 @@ END OF REPORT
 
             <TabsContent value="monitoring">
               <div className="space-y-6">
-                <Card className="medical-card-primary">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2 medical-heading-2">
-                      <Activity className="h-6 w-6 text-primary" />
-                      Real-time Patient Monitoring
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                      <Card className="medical-card-success">
-                        <CardContent className="p-4">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2">
-                              <Heart className="h-5 w-5 text-red-500 pulse-medical" />
-                              <span className="font-medium">Heart Rate</span>
-                            </div>
-                            <span className="text-xl font-bold text-red-500">
-                              {dashboardData.vitals.heartRate} BPM
-                            </span>
-                          </div>
-                        </CardContent>
-                      </Card>
-
-                      <Card className="medical-card-warning">
-                        <CardContent className="p-4">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2">
-                              <Activity className="h-5 w-5 text-blue-500" />
-                              <span className="font-medium">Blood Pressure</span>
-                            </div>
-                            <span className="text-xl font-bold text-blue-500">
-                              {dashboardData.vitals.bloodPressure}
-                            </span>
-                          </div>
-                        </CardContent>
-                      </Card>
-
-                      <Card className="consultation-card">
-                        <CardContent className="p-4">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2">
-                              <Shield className="h-5 w-5 text-green-500" />
-                              <span className="font-medium">O2 Saturation</span>
-                            </div>
-                            <span className="text-xl font-bold text-green-500">
-                              {dashboardData.vitals.oxygenSaturation}%
-                            </span>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    </div>
-                  </CardContent>
-                </Card>
+                <VitalSignsPanel />
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <Card className="medical-card-primary">
@@ -1354,6 +1389,8 @@ END OF REPORT
       <LoadingOverlay 
         isVisible={analyzeMutation.isPending || generateQuestionsMutation.isPending}
         message={generateQuestionsMutation.isPending ? "Generating Follow-up Questions" : "AI Analysis in Progress"}
+        sections={analyzeMutation.isPending ? analysisSections : undefined}
+        compact={analyzeMutation.isPending && analysisSections?.find(section => section.key === 'diagnoses')?.status === 'done'}
       />
     </div>
   );
@@ -1,9 +1,16 @@
+import type { AuditAction, DoseStatus, PatientProfileInput, SymptomTrendDirection, VitalStatus, VitalType } from "@shared/api-schemas";
+
+// Medications, allergies, conditions, pregnancy, weight/height and lifestyle
+export type PatientProfile = PatientProfileInput;
+
 export interface PatientInfo {
   id?: string;
   name: string;
   age?: number;
   gender?: 'male' | 'female' | 'other';
+  // Anything the structured profile does not cover
   medicalHistory: string;
+  profile?: PatientProfile;
 }
 
 export interface ConsultationFlow {
@@ -55,6 +62,128 @@ export interface AIAnalysisResult {
   recommendedTests: string[];
   overallConfidence: number;
   additionalNotes?: string;
+  source?: ResultSource;
+  triage?: TriageResult;
+  provenance?: AnalysisProvenance;
+  // Revision number once the analysis has been stored with the session
+  revision?: number;
+}
+
+export interface AnalysisProvenance {
+  // No model (and no provider for the built-in fallback) when a canned answer was used
+  provider: string | null;
+  model: string | null;
+  promptVersion: string;
+}
+
+export interface AnalysisRevision {
+  id: number;
+  sessionId: string;
+  revision: number;
+  trigger: 'analyze' | 'enhanced-analysis' | 'submit-answers';
+  inputs: {
+    mode: string;
+    symptoms: string;
+    followUpAnswers?: FollowUpQA[];
+    patientInfo?: PatientInfo;
+    symptomHistory?: string;
+  };
+  provider: string | null;
+  model: string | null;
+  promptVersion: string | null;
+  output: AIAnalysisResult;
+  createdAt: string;
+}
+
+export interface AnalysisRevisionSummary {
+  revision: number;
+  trigger: AnalysisRevision['trigger'];
+  provider: string | null;
+  model: string | null;
+  promptVersion: string | null;
+  createdAt: string;
+}
+
+export interface AnalysisDiff {
+  sessionId: string;
+  from: AnalysisRevisionSummary;
+  to: AnalysisRevisionSummary;
+  added: { name: string; confidence: number }[];
+  removed: { name: string; confidence: number }[];
+  changed: { name: string; from: number; to: number; delta: number }[];
+  unchanged: string[];
+  overallConfidence: { from: number; to: number; delta: number };
+  redFlags: { added: string[]; removed: string[] };
+}
+
+// One LLM call recorded for a consultation; cache hits are recorded with zero tokens
+export interface LLMUsageCall {
+  id: number;
+  sessionId: string | null;
+  task: string;
+  provider: string;
+  model: string;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  cached: boolean;
+  fallback: boolean;
+  createdAt: string;
+}
+
+export interface SessionUsage {
+  sessionId: string;
+  totals: { calls: number; cachedCalls: number; totalTokens: number; costUsd: number };
+  calls: LLMUsageCall[];
+}
+
+// One audited request against a consultation
+export interface AccessLogEntry {
+  id: number;
+  userId: number | null;
+  username: string | null;
+  action: AuditAction;
+  resourceType: string;
+  resourceId: string | null;
+  route: string;
+  statusCode: number;
+  createdAt: string;
+}
+
+export interface AccessLogResponse {
+  entries: AccessLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// One daily token budget; only configured budgets are listed
+export interface TokenBudget {
+  scope: 'user' | 'global';
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export type TriageUrgency = 'emergency' | 'urgent' | 'routine' | 'self-care';
+
+export interface TriageMatch {
+  id: string;
+  name: string;
+  urgency: TriageUrgency;
+  critical: boolean;
+  weight: number;
+  advice: string;
+  evidence: string[];
+}
+
+// Result of the rule-based triage that runs before any AI analysis
+export interface TriageResult {
+  rulesetVersion: string;
+  urgency: TriageUrgency;
+  score: number;
+  matchedRules: TriageMatch[];
+  shortCircuit: boolean;
 }
 
 export interface ConversationEntry {
@@ -69,6 +198,8 @@ export interface ConsultationSession {
   sessionId: string;
   mode: AppMode;
   userType?: UserType;
+  // Patient record the consultation is filed under, if any
+  patientId?: number | null;
   patientInfo?: PatientInfo;
   symptoms?: string;
   aiAnalysis?: AIAnalysisResult;
@@ -77,9 +208,219 @@ export interface ConsultationSession {
   updatedAt?: Date;
 }
 
+export interface SessionSummary extends ConsultationSession {
+  topDiagnoses: { name: string; confidence: number | null }[];
+}
+
+export interface SessionListFilters {
+  page?: number;
+  pageSize?: number;
+  from?: string; // ISO date
+  to?: string; // ISO date
+  mode?: AppMode;
+  diagnosis?: string;
+  q?: string; // free-text symptom search
+}
+
+export interface SessionListResponse {
+  sessions: SessionSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// A patient kept across consultations; see the patient picker in ConsultationPanel
+export interface PatientRecord {
+  id: number;
+  patientInfo: Omit<PatientInfo, 'id' | 'profile'>;
+  profile: PatientProfile | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface PatientListResponse {
+  patients: PatientRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface PatientTimelineEntry {
+  sessionId: string;
+  mode: AppMode;
+  createdAt?: Date;
+  symptoms?: string;
+  diagnoses: DiagnosisResult[];
+  alerts: ClinicalAlert[];
+}
+
+export interface PatientTimeline {
+  patient: PatientRecord;
+  // Newest consultation first
+  sessions: PatientTimelineEntry[];
+}
+
+export interface SymptomLogEntry {
+  id: number;
+  patientId: number;
+  symptom: string;
+  severity: number; // 0-10
+  recordedAt: string;
+  notes: string | null;
+  createdAt?: string;
+}
+
+export interface SymptomSeries {
+  symptom: string;
+  // Oldest first
+  points: Pick<SymptomLogEntry, 'id' | 'recordedAt' | 'severity' | 'notes'>[];
+}
+
+// How a symptom logged in the last two weeks has developed
+export interface SymptomTrend {
+  symptom: string;
+  trend: SymptomTrendDirection;
+  firstSeverity: number;
+  latestSeverity: number;
+  peakSeverity: number;
+  changePerDay: number | null;
+  entries: number;
+  firstRecordedAt: string;
+  lastRecordedAt: string;
+}
+
+export interface SymptomLogResponse {
+  // Most recently logged symptom first
+  series: SymptomSeries[];
+  // Worsening first
+  trends: SymptomTrend[];
+}
+
+export interface MedicationSchedule {
+  id: number;
+  patientId: number;
+  drug: string;
+  dose: string;
+  instructions: string | null;
+  times: string[]; // 'HH:MM' in timeZone
+  timeZone: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null; // last day, inclusive
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface MedicationDose {
+  id: number;
+  scheduleId: number;
+  patientId: number;
+  scheduledFor: string;
+  status: DoseStatus;
+  recordedAt: string | null;
+}
+
+export interface DoseCounts {
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  // 0-1 share of due doses that were taken; null until one has come due
+  adherenceRate: number | null;
+}
+
+export interface MedicationAdherence extends DoseCounts {
+  from: string;
+  to: string;
+  schedules: Array<DoseCounts & { scheduleId: number; drug: string; dose: string }>;
+}
+
+// A dose that is due now and has not been marked taken or skipped
+export interface MedicationReminder {
+  doseId: number;
+  scheduleId: number;
+  patientId: number;
+  patientName: string;
+  drug: string;
+  dose: string;
+  instructions: string | null;
+  scheduledFor: string;
+}
+
+// Values are in the canonical unit of the vital (see vitalUnits)
+export interface VitalReading {
+  id: number;
+  patientId: number;
+  type: VitalType;
+  value: number; // systolic for blood pressure
+  diastolic: number | null;
+  unit: string;
+  recordedAt: string;
+  source: string | null;
+  createdAt?: string;
+}
+
+// A clinical alert raised by a vital reading
+export interface VitalAlert extends ClinicalAlert {
+  id: number;
+  patientId: number;
+  readingId: number;
+  code: string; // e.g. 'heart_rate:critical_high', 'spo2:rapid_fall'
+  createdAt: string;
+}
+
+export interface RecordedVitals {
+  readings: VitalReading[];
+  alerts: VitalAlert[];
+}
+
+export interface VitalPoint extends Pick<VitalReading, 'id' | 'recordedAt' | 'value' | 'diastolic' | 'source'> {
+  status: VitalStatus;
+}
+
+export interface VitalSeries {
+  type: VitalType;
+  unit: string;
+  // For the patient's age; the systolic range for blood pressure
+  normal: { min: number; max: number };
+  diastolicNormal: { min: number; max: number } | null;
+  latest: VitalPoint | null;
+  // Oldest first
+  points: VitalPoint[];
+}
+
+export interface VitalSignsOverview {
+  ageBand: string;
+  rangesVersion: string;
+  series: VitalSeries[];
+}
+
 export type AppMode = 'unified' | 'doctor' | 'patient';
+// Whether an AI result came straight from the model, needed a repair re-prompt,
+// or is canned fallback content.
+export type ResultSource = 'model' | 'repaired' | 'fallback' | 'triage';
 export type QuestionType = 'mcq' | 'open_ended';
 export type UserType = 'healthcare_professional' | 'patient' | 'parent' | 'caregiver' | 'not_specified';
+// Roles an account can be registered with; every UserType except 'not_specified'
+export type UserRole = Exclude<UserType, 'not_specified'>;
+// Roles open to self-registration; healthcare professional access is granted by an admin
+export type SelfServiceRole = Exclude<UserRole, 'healthcare_professional'>;
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: UserRole;
+  createdAt?: Date;
+}
+
+export interface AuthCredentials {
+  username: string;
+  password: string;
+}
+
+export interface RegisterData extends AuthCredentials {
+  role: SelfServiceRole;
+}
 
 export interface FollowUpQA {
   questionId: string;
@@ -120,6 +461,7 @@ export interface MCQQuestion {
   category: string;
   followUp?: string;
   explanation?: string;
+  source?: ResultSource;
 }
 
 export interface SpecializedMCQ {
@@ -135,12 +477,12 @@ export interface SpecializedMCQ {
 }
 
 export interface TreatmentPathway {
-  primaryTreatment: string;
-  alternativeOptions: string[];
-  contraindications: string[];
-  expectedDuration: string;
-  monitoringParameters: string[];
+  firstLineTherapy: string[];
+  alternativeTreatments: string[];
+  monitoringRequirements: string[];
   followUpSchedule: string;
+  escalationCriteria: string[];
+  source?: ResultSource;
 }
 
 export interface RiskAssessment {
@@ -149,6 +491,7 @@ export interface RiskAssessment {
   longTermRisk: 'low' | 'medium' | 'high';
   riskFactors: string[];
   mitigationStrategies: string[];
+  source?: ResultSource;
 }
 
 export interface PatientEducation {
@@ -157,6 +500,7 @@ export interface PatientEducation {
   warningSignsToWatch: string[];
   whenToSeekHelp: string[];
   customizedContent: string;
+  source?: ResultSource;
 }
 
 export interface ClinicalAlert {
@@ -165,4 +509,49 @@ export interface ClinicalAlert {
   message: string;
   actionRequired: string;
   timeframe: string;
+  source?: ResultSource;
+}
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export interface DrugInteractionFinding {
+  id: string;
+  kind: 'drug-drug' | 'drug-allergy' | 'drug-condition';
+  pair: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  recommendation: string;
+  explanation?: string;
+}
+
+export interface DrugInteractionReport {
+  datasetVersion: string;
+  medications: { input: string; name: string | null; classes: string[] }[];
+  unrecognized: string[];
+  findings: DrugInteractionFinding[];
+  summary: string;
+  source?: ResultSource;
 }
+
+export interface EnhancedAnalysisResult {
+  analysis: AIAnalysisResult;
+  triage?: TriageResult;
+  followUpMCQs?: FollowUpMCQ[];
+  mcqQuestions?: MCQQuestion[];
+  treatmentPathway?: TreatmentPathway;
+  riskAssessment?: RiskAssessment;
+  patientEducation?: PatientEducation;
+  clinicalAlerts?: ClinicalAlert[];
+}
+
+// Sections streamed by /api/enhanced-analysis/stream, in addition to the final "done" event
+export type EnhancedAnalysisSection = 'diagnoses' | 'treatmentPathway' | 'riskAssessment' | 'clinicalAlerts' | 'patientEducation';
+
+export type EnhancedAnalysisEvent =
+  | { type: 'triage'; data: TriageResult }
+  | { type: 'diagnoses'; data: AIAnalysisResult }
+  | { type: 'treatmentPathway'; data: TreatmentPathway }
+  | { type: 'riskAssessment'; data: RiskAssessment }
+  | { type: 'clinicalAlerts'; data: ClinicalAlert[] }
+  | { type: 'patientEducation'; data: PatientEducation }
+  | { type: 'done'; data: EnhancedAnalysisResult };
@@ -0,0 +1,4 @@
+ALTER TABLE "consultation_sessions" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'patient' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "created_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "consultation_sessions" ADD CONSTRAINT "consultation_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,53 @@
+CREATE TABLE "clinical_alerts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"type" text NOT NULL,
+	"priority" integer NOT NULL,
+	"message" text NOT NULL,
+	"action_required" text,
+	"timeframe" text,
+	"source" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "patient_education" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"diagnosis" text NOT NULL,
+	"simple_explanation" text NOT NULL,
+	"lifestyle_modifications" jsonb,
+	"warning_signs_to_watch" jsonb,
+	"when_to_seek_help" jsonb,
+	"customized_content" text,
+	"source" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "patient_education_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "risk_assessments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"diagnosis" text NOT NULL,
+	"immediate_risk" text NOT NULL,
+	"short_term_risk" text NOT NULL,
+	"long_term_risk" text NOT NULL,
+	"risk_factors" jsonb,
+	"mitigation_strategies" jsonb,
+	"source" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "risk_assessments_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "treatment_pathways" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"diagnosis" text NOT NULL,
+	"first_line_therapy" jsonb NOT NULL,
+	"alternative_treatments" jsonb,
+	"monitoring_requirements" jsonb,
+	"follow_up_schedule" text,
+	"escalation_criteria" jsonb,
+	"source" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "treatment_pathways_session_id_unique" UNIQUE("session_id")
+);
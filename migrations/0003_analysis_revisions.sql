@@ -0,0 +1,16 @@
+CREATE TABLE "analysis_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"revision" integer NOT NULL,
+	"trigger" text NOT NULL,
+	"inputs" jsonb NOT NULL,
+	"provider" text,
+	"model" text,
+	"prompt_version" text,
+	"output" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "analysis_revisions_session_revision_unique" UNIQUE("session_id","revision")
+);
+--> statement-breakpoint
+ALTER TABLE "diagnoses" ADD COLUMN "revision_id" integer;--> statement-breakpoint
+ALTER TABLE "diagnoses" ADD CONSTRAINT "diagnoses_revision_id_analysis_revisions_id_fk" FOREIGN KEY ("revision_id") REFERENCES "public"."analysis_revisions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "llm_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"task" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"content" text NOT NULL,
+	"usage" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"expires_at" timestamp NOT NULL
+);
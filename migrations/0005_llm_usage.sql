@@ -0,0 +1,20 @@
+CREATE TABLE "llm_usage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text,
+	"user_id" integer,
+	"task" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"total_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_usd" double precision DEFAULT 0 NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"cached" boolean DEFAULT false NOT NULL,
+	"fallback" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "llm_usage_session_idx" ON "llm_usage" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "llm_usage_created_at_idx" ON "llm_usage" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "consultation_sessions" ADD COLUMN "anonymised_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "patient_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"medications" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"allergies" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"chronic_conditions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"pregnancy_status" text,
+	"weight_kg" double precision,
+	"height_cm" double precision,
+	"smoking_status" text,
+	"alcohol_use" text,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "patient_profiles_session_id_unique" UNIQUE("session_id")
+);
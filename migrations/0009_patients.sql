@@ -0,0 +1,14 @@
+CREATE TABLE "patients" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"patient_info" jsonb NOT NULL,
+	"profile" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "consultation_sessions" ADD COLUMN "patient_id" integer;--> statement-breakpoint
+ALTER TABLE "patients" ADD CONSTRAINT "patients_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "patients_user_idx" ON "patients" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "consultation_sessions" ADD CONSTRAINT "consultation_sessions_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "consultation_sessions_patient_idx" ON "consultation_sessions" USING btree ("patient_id");
\ No newline at end of file
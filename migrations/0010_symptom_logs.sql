@@ -0,0 +1,12 @@
+CREATE TABLE "symptom_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"patient_id" integer NOT NULL,
+	"symptom" text NOT NULL,
+	"severity" integer NOT NULL,
+	"recorded_at" timestamp NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "symptom_logs" ADD CONSTRAINT "symptom_logs_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "symptom_logs_patient_recorded_idx" ON "symptom_logs" USING btree ("patient_id","recorded_at");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "medication_doses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"schedule_id" integer NOT NULL,
+	"patient_id" integer NOT NULL,
+	"scheduled_for" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"recorded_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "medication_doses_schedule_time_unique" UNIQUE("schedule_id","scheduled_for")
+);
+--> statement-breakpoint
+CREATE TABLE "medication_schedules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"patient_id" integer NOT NULL,
+	"drug" text NOT NULL,
+	"dose" text NOT NULL,
+	"instructions" text,
+	"times" jsonb NOT NULL,
+	"time_zone" text DEFAULT 'UTC' NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"materialised_until" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "medication_doses" ADD CONSTRAINT "medication_doses_schedule_id_medication_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."medication_schedules"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "medication_doses" ADD CONSTRAINT "medication_doses_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "medication_schedules" ADD CONSTRAINT "medication_schedules_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "medication_doses_patient_scheduled_idx" ON "medication_doses" USING btree ("patient_id","scheduled_for");--> statement-breakpoint
+CREATE INDEX "medication_schedules_patient_idx" ON "medication_schedules" USING btree ("patient_id");
\ No newline at end of file
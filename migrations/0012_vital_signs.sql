@@ -0,0 +1,30 @@
+CREATE TABLE "vital_alerts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"patient_id" integer NOT NULL,
+	"reading_id" integer NOT NULL,
+	"code" text NOT NULL,
+	"type" text NOT NULL,
+	"priority" integer NOT NULL,
+	"message" text NOT NULL,
+	"action_required" text NOT NULL,
+	"timeframe" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "vital_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"patient_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"value" double precision NOT NULL,
+	"diastolic" double precision,
+	"unit" text NOT NULL,
+	"recorded_at" timestamp NOT NULL,
+	"source" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "vital_alerts" ADD CONSTRAINT "vital_alerts_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vital_alerts" ADD CONSTRAINT "vital_alerts_reading_id_vital_readings_id_fk" FOREIGN KEY ("reading_id") REFERENCES "public"."vital_readings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vital_readings" ADD CONSTRAINT "vital_readings_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "vital_alerts_patient_created_idx" ON "vital_alerts" USING btree ("patient_id","created_at");--> statement-breakpoint
+CREATE INDEX "vital_readings_patient_type_recorded_idx" ON "vital_readings" USING btree ("patient_id","type","recorded_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "consultation_sessions" ADD COLUMN "symptoms_search" text[];--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "name_search" text[];--> statement-breakpoint
+CREATE INDEX "consultation_sessions_symptoms_search_idx" ON "consultation_sessions" USING gin ("symptoms_search");--> statement-breakpoint
+CREATE INDEX "patients_name_search_idx" ON "patients" USING gin ("name_search");
\ No newline at end of file
@@ -9,14 +9,25 @@ if (!globalThis.fetch) {
   globalThis.Response = fetch.Response;
 }
 
-// Override fetch to use absolute URLs
+// Override fetch to use absolute URLs and keep the login cookie between
+// requests, the way a browser would with credentials: 'include'
 const originalFetch = globalThis.fetch;
-globalThis.fetch = function(url, options) {
+let sessionCookie = '';
+globalThis.fetch = async function(url, options = {}) {
   // Convert relative URLs to absolute URLs
   if (typeof url === 'string' && url.startsWith('/')) {
     url = `http://localhost:3000${url}`;
   }
-  return originalFetch(url, options);
+  const headers = new Headers(options.headers);
+  if (sessionCookie) {
+    headers.set('Cookie', sessionCookie);
+  }
+  const response = await originalFetch(url, { ...options, headers });
+  const setCookie = response.headers.get('set-cookie');
+  if (setCookie) {
+    sessionCookie = setCookie.split(';')[0];
+  }
+  return response;
 };
 
 // Standalone script to run API tests
@@ -0,0 +1,269 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { setUsageSession } from "./services/usage-service";
+import { rateLimiter } from "./services/rate-limiter";
+import { validateRequest } from "./validation";
+import { logger } from "./logger";
+import type { User as SelectUser, UserRole, ConsultationSession, Patient } from "@shared/schema";
+import { loginBodySchema, registerBodySchema, updateUserRoleBodySchema, userIdParamsSchema, type UpdateUserRoleBody } from "@shared/api-schemas";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const log = logger.child('auth');
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash back to the client
+function toPublicUser(user: SelectUser) {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && process.env.NODE_ENV === 'production') {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    // A random secret in development means logins do not survive a restart
+    secret: sessionSecret || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    },
+  };
+
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  // Throttle every API request, logins included; needs req.user for the per-user buckets
+  app.use(rateLimiter.middleware());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", validateRequest({ body: registerBodySchema }), async (req, res, next) => {
+    try {
+      const userData = req.body;
+
+      const existingUser = await storage.getUserByUsername(userData.username);
+      if (existingUser) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      log.error('[POST /api/register] Error', { error });
+      res.status(500).json({ error: "Failed to register user" });
+    }
+  });
+
+  app.post("/api/login", validateRequest({ body: loginBodySchema }), (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Registration only offers the patient-side roles; healthcare professional
+  // access is granted here by an admin
+  app.patch("/api/admin/users/:userId/role", requireAdmin, validateRequest({ params: userIdParamsSchema, body: updateUserRoleBodySchema }), async (req, res) => {
+    try {
+      const { userId } = res.locals.params as { userId: number };
+      const { role } = req.body as UpdateUserRoleBody;
+      const user = await storage.updateUserRole(userId, role);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      log.info('User role changed', { userId, role, by: req.user!.username });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      log.error('[PATCH /api/admin/users/:userId/role] Error', { error });
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
+// Admins are named in ADMIN_USERNAMES (comma-separated) rather than given a
+// role, so admin access can never be picked at registration.
+export function isAdmin(user: Express.User): boolean {
+  const admins = (process.env.ADMIN_USERNAMES || '').split(',').map((name) => name.trim()).filter(Boolean);
+  return admins.includes(user.username);
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (!isAdmin(req.user)) {
+    return res.status(403).json({ error: "Insufficient permissions" });
+  }
+  next();
+}
+
+// Doctor mode exposes clinician-facing output (treatment pathways, risk
+// stratification, clinical alerts), so only healthcare professionals may use it.
+export function requireModeAccess(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (req.body?.mode === 'doctor' && req.user.role !== 'healthcare_professional') {
+    return res.status(403).json({ error: "Doctor mode is only available to healthcare professionals" });
+  }
+  next();
+}
+
+/**
+ * Loads the consultation session named by `:sessionId` (or `sessionId` in the
+ * body) and checks it belongs to the logged-in user. Sessions owned by someone
+ * else are reported as missing so IDs cannot be probed. The session is left on
+ * `res.locals.consultationSession` for the route handler.
+ */
+export async function requireSessionOwner(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  const sessionId = req.params.sessionId ?? req.body?.sessionId;
+  if (!sessionId) {
+    return res.status(400).json({ error: "Missing required fields" });
+  }
+
+  try {
+    const consultationSession = await storage.getSession(sessionId);
+    if (!consultationSession || consultationSession.userId !== req.user.id) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    res.locals.consultationSession = consultationSession as ConsultationSession;
+    setUsageSession(consultationSession.sessionId);
+    next();
+  } catch (error) {
+    log.error('[requireSessionOwner] Error', { error });
+    res.status(500).json({ error: "Failed to retrieve session" });
+  }
+}
+
+// Same check for the patient record named by `:patientId`, left on `res.locals.patient`
+export async function requirePatientOwner(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  const patientId = Number(res.locals.params?.patientId ?? req.params.patientId);
+  if (!Number.isInteger(patientId)) {
+    return res.status(400).json({ error: "Missing required fields" });
+  }
+
+  try {
+    const patient = await storage.getPatient(patientId);
+    if (!patient || patient.userId !== req.user.id) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+    res.locals.patient = patient as Patient;
+    next();
+  } catch (error) {
+    log.error('[requirePatientOwner] Error', { error });
+    res.status(500).json({ error: "Failed to retrieve patient" });
+  }
+}
@@ -1,12 +1,172 @@
+export type ProviderType = 'groq' | 'openai-compatible' | 'demo';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+export interface TaskRoute {
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Every LLM call made by AIService is tagged with one of these tasks so it can
+// be routed to its own provider/model.
+export const LLM_TASKS = [
+  'followUpQuestions',
+  'analysis',
+  'confidenceAnalysis',
+  'treatmentPathway',
+  'drugInteractions',
+  'riskStratification',
+  'patientEducation',
+  'clinicalAlerts',
+  'secondOpinion',
+  'communicationStyle',
+  'connectionTest',
+] as const;
+
+export type LLMTask = typeof LLM_TASKS[number];
+
+const REASONER_MODEL = 'deepseek-r1-distill-llama-70b';
+const CHAT_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct';
+
+const reasonerRoute: TaskRoute = { provider: 'groqReasoner', model: REASONER_MODEL };
+const chatRoute: TaskRoute = { provider: 'groqChat', model: CHAT_MODEL };
+
+// Reads an override such as LLM_ROUTE_TREATMENT_PATHWAY=local:qwen2.5-7b-instruct.
+// The model part is optional; "LLM_ROUTE_ANALYSIS=demo" only swaps the provider.
+function routeFromEnv(task: LLMTask, fallback: TaskRoute): TaskRoute {
+  const envName = `LLM_ROUTE_${task.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+  const value = process.env[envName];
+  if (!value) return fallback;
+
+  const separator = value.indexOf(':');
+  if (separator === -1) {
+    return { ...fallback, provider: value.trim() };
+  }
+  return {
+    ...fallback,
+    provider: value.slice(0, separator).trim(),
+    model: value.slice(separator + 1).trim() || fallback.model,
+  };
+}
+
+const defaultRoutes: Record<LLMTask, TaskRoute> = {
+  followUpQuestions: chatRoute,
+  analysis: reasonerRoute,
+  confidenceAnalysis: reasonerRoute,
+  treatmentPathway: reasonerRoute,
+  drugInteractions: reasonerRoute,
+  riskStratification: reasonerRoute,
+  patientEducation: chatRoute,
+  clinicalAlerts: reasonerRoute,
+  secondOpinion: reasonerRoute,
+  communicationStyle: chatRoute,
+  connectionTest: chatRoute,
+};
+
+// How long a completion for each task may be served from the LLM cache, in
+// seconds; 0 disables caching for that task. LLM_CACHE_TTL_<TASK> overrides.
+// The differential itself is not cached by default: a revised analysis of the
+// same symptoms must reach the model rather than replay the earlier answer.
+const defaultCacheTtls: Record<LLMTask, number> = {
+  followUpQuestions: 3600,
+  analysis: 0,
+  confidenceAnalysis: 3600,
+  treatmentPathway: 86400,
+  drugInteractions: 86400,
+  riskStratification: 3600,
+  patientEducation: 86400,
+  clinicalAlerts: 3600,
+  secondOpinion: 3600,
+  communicationStyle: 86400,
+  connectionTest: 0,
+};
+
+function cacheTtlFromEnv(task: LLMTask): number {
+  const value = process.env[`LLM_CACHE_TTL_${task.replace(/([A-Z])/g, '_$1').toUpperCase()}`];
+  const seconds = value === undefined ? NaN : parseInt(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : defaultCacheTtls[task];
+}
+
+// USD per million tokens, used to price each recorded LLM call. Models not
+// listed here (local servers, demo) are recorded at no cost.
+export interface ModelPricing {
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  [REASONER_MODEL]: { promptPerMillion: 0.75, completionPerMillion: 0.99 },
+  [CHAT_MODEL]: { promptPerMillion: 0.11, completionPerMillion: 0.34 },
+};
+
+export type LLMCacheStoreType = 'memory' | 'postgres';
+
 export const API_CONFIG = {
   groq: {
     reasoner: {
-      model: 'deepseek-r1-distill-llama-70b',
+      model: REASONER_MODEL,
       name: 'DeepSeek R1 Distill Llama 70B',
     },
     chat: {
-      model: 'llama-3.3-70b-versatile',
-      name: 'Llama 3.3 70B Versatile',
+      model: CHAT_MODEL,
+      name: 'Llama 4 Scout 17B Instruct',
+    },
+  },
+  providers: {
+    groqReasoner: {
+      type: 'groq',
+      apiKey: process.env.GROQ_API_KEY_REASONER,
+    },
+    groqChat: {
+      type: 'groq',
+      apiKey: process.env.GROQ_API_KEY_CHAT,
     },
+    // Any server speaking the OpenAI chat completions API (llama.cpp, vLLM, Ollama...)
+    local: {
+      type: 'openai-compatible',
+      baseUrl: process.env.OPENAI_COMPAT_BASE_URL,
+      apiKey: process.env.OPENAI_COMPAT_API_KEY,
+      timeoutMs: parseInt(process.env.OPENAI_COMPAT_TIMEOUT_MS || '60000'),
+    },
+    demo: {
+      type: 'demo',
+    },
+  } as Record<string, ProviderConfig>,
+  defaults: {
+    temperature: 0.3,
+    maxTokens: 2000,
+    topP: 0.9,
+  },
+  validation: {
+    // Re-prompts allowed after a response fails schema validation, before
+    // AIService gives up and returns its canned fallback.
+    maxRepairAttempts: parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2'),
+  },
+  pricing: MODEL_PRICING,
+  // Token budgets per UTC day; 0 means unlimited. Requests to AI endpoints are
+  // refused with 429 once the caller's (or everyone's) usage reaches the limit.
+  budgets: {
+    userDailyTokens: parseInt(process.env.LLM_BUDGET_USER_DAILY_TOKENS || '0'),
+    dailyTokens: parseInt(process.env.LLM_BUDGET_DAILY_TOKENS || '0'),
+  },
+  cache: {
+    enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+    // 'postgres' keeps entries in the llm_cache table (shared between instances
+    // and kept across restarts) behind the in-memory LRU
+    store: (process.env.LLM_CACHE_STORE === 'postgres' ? 'postgres' : 'memory') as LLMCacheStoreType,
+    maxEntries: parseInt(process.env.LLM_CACHE_MAX_ENTRIES || '500'),
+    ttlSeconds: Object.fromEntries(
+      LLM_TASKS.map((task) => [task, cacheTtlFromEnv(task)]),
+    ) as Record<LLMTask, number>,
   },
+  tasks: Object.fromEntries(
+    LLM_TASKS.map((task) => [task, routeFromEnv(task, defaultRoutes[task])]),
+  ) as Record<LLMTask, TaskRoute>,
 };
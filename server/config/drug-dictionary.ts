@@ -0,0 +1,109 @@
+export interface DrugEntry {
+  // Generic name every alias is normalised to
+  name: string;
+  // Pharmacological classes the interaction table can refer to as `class:<name>`
+  classes: string[];
+  // Brand names, international names and common abbreviations
+  aliases?: string[];
+  // Group used for allergy matching (an allergy to one penicillin covers them all)
+  allergyGroup?: string;
+}
+
+export const DRUG_DICTIONARY: DrugEntry[] = [
+  // Anticoagulants and antiplatelets
+  { name: 'warfarin', classes: ['anticoagulant', 'vitamin-k-antagonist'], aliases: ['coumadin', 'jantoven'] },
+  { name: 'apixaban', classes: ['anticoagulant', 'doac'], aliases: ['eliquis'] },
+  { name: 'rivaroxaban', classes: ['anticoagulant', 'doac'], aliases: ['xarelto'] },
+  { name: 'heparin', classes: ['anticoagulant'] },
+  { name: 'aspirin', classes: ['antiplatelet', 'nsaid'], aliases: ['acetylsalicylic acid', 'asa', 'ecotrin'], allergyGroup: 'nsaid' },
+  { name: 'clopidogrel', classes: ['antiplatelet'], aliases: ['plavix'] },
+
+  // Analgesics
+  { name: 'ibuprofen', classes: ['nsaid'], aliases: ['advil', 'motrin', 'nurofen'], allergyGroup: 'nsaid' },
+  { name: 'naproxen', classes: ['nsaid'], aliases: ['aleve', 'naprosyn'], allergyGroup: 'nsaid' },
+  { name: 'diclofenac', classes: ['nsaid'], aliases: ['voltaren'], allergyGroup: 'nsaid' },
+  { name: 'celecoxib', classes: ['nsaid'], aliases: ['celebrex'], allergyGroup: 'nsaid' },
+  { name: 'acetaminophen', classes: ['analgesic'], aliases: ['paracetamol', 'tylenol', 'panadol'] },
+  { name: 'tramadol', classes: ['opioid', 'serotonergic'], aliases: ['ultram'], allergyGroup: 'opioid' },
+  { name: 'oxycodone', classes: ['opioid'], aliases: ['oxycontin', 'percocet'], allergyGroup: 'opioid' },
+  { name: 'morphine', classes: ['opioid'], aliases: ['ms contin'], allergyGroup: 'opioid' },
+  { name: 'codeine', classes: ['opioid'], allergyGroup: 'opioid' },
+
+  // Cardiovascular
+  { name: 'lisinopril', classes: ['ace-inhibitor'], aliases: ['zestril', 'prinivil'] },
+  { name: 'enalapril', classes: ['ace-inhibitor'], aliases: ['vasotec'] },
+  { name: 'ramipril', classes: ['ace-inhibitor'], aliases: ['altace'] },
+  { name: 'losartan', classes: ['arb'], aliases: ['cozaar'] },
+  { name: 'valsartan', classes: ['arb'], aliases: ['diovan'] },
+  { name: 'spironolactone', classes: ['potassium-sparing-diuretic'], aliases: ['aldactone'] },
+  { name: 'hydrochlorothiazide', classes: ['thiazide-diuretic'], aliases: ['hctz', 'microzide'] },
+  { name: 'furosemide', classes: ['loop-diuretic'], aliases: ['lasix'] },
+  { name: 'metoprolol', classes: ['beta-blocker'], aliases: ['lopressor', 'toprol'] },
+  { name: 'propranolol', classes: ['beta-blocker', 'nonselective-beta-blocker'], aliases: ['inderal'] },
+  { name: 'amiodarone', classes: ['antiarrhythmic', 'qt-prolonging'], aliases: ['cordarone', 'pacerone'] },
+  { name: 'digoxin', classes: ['cardiac-glycoside'], aliases: ['lanoxin'] },
+  { name: 'simvastatin', classes: ['statin', 'cyp3a4-statin'], aliases: ['zocor'] },
+  { name: 'atorvastatin', classes: ['statin', 'cyp3a4-statin'], aliases: ['lipitor'] },
+  { name: 'rosuvastatin', classes: ['statin'], aliases: ['crestor'] },
+  { name: 'nitroglycerin', classes: ['nitrate'], aliases: ['glyceryl trinitrate', 'gtn', 'nitrostat'] },
+  { name: 'isosorbide mononitrate', classes: ['nitrate'], aliases: ['isosorbide', 'imdur'] },
+  { name: 'sildenafil', classes: ['pde5-inhibitor'], aliases: ['viagra', 'revatio'] },
+  { name: 'tadalafil', classes: ['pde5-inhibitor'], aliases: ['cialis'] },
+
+  // Endocrine
+  { name: 'metformin', classes: ['biguanide'], aliases: ['glucophage'] },
+  { name: 'glipizide', classes: ['sulfonylurea'], aliases: ['glucotrol'] },
+  { name: 'insulin', classes: ['insulin'], aliases: ['insulin glargine', 'lantus', 'humalog', 'novolog'] },
+  { name: 'levothyroxine', classes: ['thyroid-hormone'], aliases: ['synthroid', 'levoxyl', 'eltroxin'] },
+  { name: 'prednisone', classes: ['corticosteroid'], aliases: ['deltasone'] },
+
+  // Psychiatric and neurological
+  { name: 'sertraline', classes: ['ssri', 'serotonergic'], aliases: ['zoloft'] },
+  { name: 'fluoxetine', classes: ['ssri', 'serotonergic'], aliases: ['prozac'] },
+  { name: 'citalopram', classes: ['ssri', 'serotonergic', 'qt-prolonging'], aliases: ['celexa'] },
+  { name: 'escitalopram', classes: ['ssri', 'serotonergic'], aliases: ['lexapro'] },
+  { name: 'phenelzine', classes: ['maoi', 'serotonergic'], aliases: ['nardil'] },
+  { name: 'selegiline', classes: ['maoi'], aliases: ['emsam', 'eldepryl'] },
+  { name: 'sumatriptan', classes: ['triptan', 'serotonergic'], aliases: ['imitrex'] },
+  { name: 'alprazolam', classes: ['benzodiazepine'], aliases: ['xanax'] },
+  { name: 'diazepam', classes: ['benzodiazepine'], aliases: ['valium'] },
+  { name: 'lorazepam', classes: ['benzodiazepine'], aliases: ['ativan'] },
+  { name: 'lithium', classes: ['mood-stabilizer'], aliases: ['lithobid'] },
+
+  // Anti-infectives
+  { name: 'amoxicillin', classes: ['penicillin-antibiotic'], aliases: ['amoxil'], allergyGroup: 'penicillin' },
+  { name: 'amoxicillin-clavulanate', classes: ['penicillin-antibiotic'], aliases: ['amoxicillin clavulanate', 'augmentin', 'co-amoxiclav'], allergyGroup: 'penicillin' },
+  { name: 'penicillin', classes: ['penicillin-antibiotic'], aliases: ['penicillin v', 'pen vk'], allergyGroup: 'penicillin' },
+  { name: 'cephalexin', classes: ['cephalosporin'], aliases: ['keflex'], allergyGroup: 'cephalosporin' },
+  { name: 'ceftriaxone', classes: ['cephalosporin'], aliases: ['rocephin'], allergyGroup: 'cephalosporin' },
+  { name: 'azithromycin', classes: ['macrolide', 'qt-prolonging'], aliases: ['zithromax', 'z-pak'], allergyGroup: 'macrolide' },
+  { name: 'clarithromycin', classes: ['macrolide', 'strong-cyp3a4-inhibitor', 'qt-prolonging'], aliases: ['biaxin'], allergyGroup: 'macrolide' },
+  { name: 'erythromycin', classes: ['macrolide', 'strong-cyp3a4-inhibitor', 'qt-prolonging'], allergyGroup: 'macrolide' },
+  { name: 'ciprofloxacin', classes: ['fluoroquinolone', 'qt-prolonging'], aliases: ['cipro'], allergyGroup: 'fluoroquinolone' },
+  { name: 'levofloxacin', classes: ['fluoroquinolone', 'qt-prolonging'], aliases: ['levaquin'], allergyGroup: 'fluoroquinolone' },
+  { name: 'trimethoprim-sulfamethoxazole', classes: ['sulfonamide-antibiotic', 'folate-antagonist'], aliases: ['sulfamethoxazole', 'co-trimoxazole', 'bactrim', 'septra', 'tmp-smx'], allergyGroup: 'sulfonamide' },
+  { name: 'trimethoprim', classes: ['folate-antagonist'] },
+  { name: 'metronidazole', classes: ['nitroimidazole'], aliases: ['flagyl'] },
+  { name: 'fluconazole', classes: ['azole-antifungal', 'qt-prolonging'], aliases: ['diflucan'] },
+
+  // Other
+  { name: 'methotrexate', classes: ['antimetabolite'], aliases: ['trexall'] },
+  { name: 'omeprazole', classes: ['ppi', 'cyp2c19-inhibitor'], aliases: ['prilosec', 'losec'] },
+  { name: 'pantoprazole', classes: ['ppi'], aliases: ['protonix'] },
+  { name: 'potassium chloride', classes: ['potassium-supplement'], aliases: ['potassium', 'k-dur', 'klor-con'] },
+  { name: 'calcium carbonate', classes: ['calcium-supplement', 'antacid'], aliases: ['calcium', 'tums'] },
+  { name: 'ferrous sulfate', classes: ['iron-supplement'], aliases: ['iron'] },
+  { name: 'albuterol', classes: ['beta-agonist'], aliases: ['salbutamol', 'ventolin', 'proair'] },
+  { name: 'isotretinoin', classes: ['retinoid'], aliases: ['accutane'] },
+];
+
+// Class-level allergy wording patients commonly use ("allergic to sulfa")
+export const ALLERGY_GROUP_ALIASES: Record<string, string[]> = {
+  penicillin: ['penicillins', 'penicillin', 'pcn'],
+  cephalosporin: ['cephalosporins', 'cephalosporin'],
+  sulfonamide: ['sulfonamides', 'sulfonamide', 'sulfa', 'sulpha'],
+  nsaid: ['nsaids', 'nsaid', 'anti-inflammatories'],
+  macrolide: ['macrolides', 'macrolide'],
+  fluoroquinolone: ['fluoroquinolones', 'fluoroquinolone', 'quinolones', 'quinolone'],
+  opioid: ['opioids', 'opioid', 'opiates', 'opiate'],
+};
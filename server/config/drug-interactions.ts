@@ -0,0 +1,442 @@
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+// Either a generic name from DRUG_DICTIONARY or `class:<name>`
+export type DrugRef = string;
+
+export interface DrugDrugRule {
+  id: string;
+  between: [DrugRef, DrugRef];
+  severity: InteractionSeverity;
+  mechanism: string;
+  recommendation: string;
+}
+
+export interface AllergyCrossReactivityRule {
+  id: string;
+  // Allergy group the patient reports (see ALLERGY_GROUP_ALIASES)
+  allergyGroup: string;
+  // Allergy group of the drug being taken
+  drugGroup: string;
+  severity: InteractionSeverity;
+  mechanism: string;
+  recommendation: string;
+}
+
+export interface DrugConditionRule {
+  id: string;
+  condition: string;
+  patterns: RegExp[];
+  drug: DrugRef;
+  severity: InteractionSeverity;
+  mechanism: string;
+  recommendation: string;
+}
+
+export interface InteractionDataset {
+  version: string;
+  drugDrug: DrugDrugRule[];
+  allergyCrossReactivity: AllergyCrossReactivityRule[];
+  drugCondition: DrugConditionRule[];
+}
+
+// Bump the version whenever an entry changes so results can be traced back to
+// the data that produced them.
+export const INTERACTION_DATASET: InteractionDataset = {
+  version: '2026.10.0',
+  drugDrug: [
+    {
+      id: 'anticoagulant-antiplatelet',
+      between: ['class:anticoagulant', 'class:antiplatelet'],
+      severity: 'major',
+      mechanism: 'Additive inhibition of clotting and platelet function.',
+      recommendation: 'Avoid unless specifically indicated; if combined, monitor closely for bleeding.',
+    },
+    {
+      id: 'anticoagulant-nsaid',
+      between: ['class:anticoagulant', 'class:nsaid'],
+      severity: 'major',
+      mechanism: 'NSAIDs impair platelet function and damage the gastric lining, raising bleeding risk on anticoagulants.',
+      recommendation: 'Prefer acetaminophen for pain; if an NSAID is unavoidable, add gastroprotection and monitor for bleeding.',
+    },
+    {
+      id: 'warfarin-amiodarone',
+      between: ['warfarin', 'amiodarone'],
+      severity: 'major',
+      mechanism: 'Amiodarone inhibits CYP2C9 and raises warfarin levels over several weeks.',
+      recommendation: 'Reduce the warfarin dose (typically by 30-50%) and check INR weekly.',
+    },
+    {
+      id: 'warfarin-azole',
+      between: ['warfarin', 'class:azole-antifungal'],
+      severity: 'major',
+      mechanism: 'Azole antifungals inhibit warfarin metabolism and increase INR.',
+      recommendation: 'Consider an alternative antifungal or monitor INR closely and adjust the dose.',
+    },
+    {
+      id: 'warfarin-metronidazole',
+      between: ['warfarin', 'metronidazole'],
+      severity: 'major',
+      mechanism: 'Metronidazole inhibits warfarin metabolism and markedly increases INR.',
+      recommendation: 'Avoid if possible; otherwise reduce the warfarin dose and check INR within a few days.',
+    },
+    {
+      id: 'warfarin-tmp-smx',
+      between: ['warfarin', 'trimethoprim-sulfamethoxazole'],
+      severity: 'major',
+      mechanism: 'Sulfamethoxazole inhibits CYP2C9 and displaces warfarin from protein binding.',
+      recommendation: 'Choose another antibiotic where possible; otherwise monitor INR closely.',
+    },
+    {
+      id: 'maoi-serotonergic',
+      between: ['class:maoi', 'class:serotonergic'],
+      severity: 'contraindicated',
+      mechanism: 'MAO inhibition combined with another serotonergic drug can cause serotonin syndrome.',
+      recommendation: 'Do not combine. Allow a washout period (at least 2 weeks; 5 weeks after fluoxetine) when switching.',
+    },
+    {
+      id: 'ssri-tramadol',
+      between: ['class:ssri', 'tramadol'],
+      severity: 'major',
+      mechanism: 'Both increase serotonin; tramadol also lowers the seizure threshold.',
+      recommendation: 'Prefer a non-serotonergic analgesic; if combined, watch for agitation, tremor and fever.',
+    },
+    {
+      id: 'ssri-triptan',
+      between: ['class:ssri', 'class:triptan'],
+      severity: 'moderate',
+      mechanism: 'Additive serotonergic effect; serotonin syndrome is rare but possible.',
+      recommendation: 'Can usually be combined; counsel on serotonin syndrome symptoms.',
+    },
+    {
+      id: 'ssri-nsaid',
+      between: ['class:ssri', 'class:nsaid'],
+      severity: 'moderate',
+      mechanism: 'SSRIs deplete platelet serotonin, adding to the GI bleeding risk of NSAIDs.',
+      recommendation: 'Consider gastroprotection with a proton pump inhibitor, especially in older adults.',
+    },
+    {
+      id: 'nsaid-duplicate',
+      between: ['class:nsaid', 'class:nsaid'],
+      severity: 'moderate',
+      mechanism: 'Two NSAIDs add GI bleeding and kidney risk without extra benefit; ibuprofen can also blunt aspirin\'s antiplatelet effect.',
+      recommendation: 'Use a single NSAID; if low-dose aspirin is for heart protection, take it at least 30 minutes before ibuprofen.',
+    },
+    {
+      id: 'ace-arb',
+      between: ['class:ace-inhibitor', 'class:arb'],
+      severity: 'major',
+      mechanism: 'Dual renin-angiotensin blockade increases hyperkalaemia, hypotension and kidney injury.',
+      recommendation: 'Avoid combining; use a single agent.',
+    },
+    {
+      id: 'raas-potassium-sparing',
+      between: ['class:ace-inhibitor', 'class:potassium-sparing-diuretic'],
+      severity: 'major',
+      mechanism: 'Both raise serum potassium.',
+      recommendation: 'Check potassium and kidney function within 1 week of starting and regularly after.',
+    },
+    {
+      id: 'arb-potassium-sparing',
+      between: ['class:arb', 'class:potassium-sparing-diuretic'],
+      severity: 'major',
+      mechanism: 'Both raise serum potassium.',
+      recommendation: 'Check potassium and kidney function within 1 week of starting and regularly after.',
+    },
+    {
+      id: 'raas-potassium-supplement',
+      between: ['class:ace-inhibitor', 'class:potassium-supplement'],
+      severity: 'moderate',
+      mechanism: 'ACE inhibitors reduce potassium excretion, so supplements can cause hyperkalaemia.',
+      recommendation: 'Only supplement potassium with documented hypokalaemia and monitor levels.',
+    },
+    {
+      id: 'ace-nsaid',
+      between: ['class:ace-inhibitor', 'class:nsaid'],
+      severity: 'moderate',
+      mechanism: 'NSAIDs blunt the antihypertensive effect and, with ACE inhibitors, reduce kidney perfusion.',
+      recommendation: 'Limit NSAID use, keep hydrated and check kidney function if used regularly.',
+    },
+    {
+      id: 'arb-nsaid',
+      between: ['class:arb', 'class:nsaid'],
+      severity: 'moderate',
+      mechanism: 'NSAIDs blunt the antihypertensive effect and, with ARBs, reduce kidney perfusion.',
+      recommendation: 'Limit NSAID use, keep hydrated and check kidney function if used regularly.',
+    },
+    {
+      id: 'statin-strong-cyp3a4',
+      between: ['class:cyp3a4-statin', 'class:strong-cyp3a4-inhibitor'],
+      severity: 'contraindicated',
+      mechanism: 'Strong CYP3A4 inhibition greatly raises statin levels, risking myopathy and rhabdomyolysis.',
+      recommendation: 'Pause the statin for the course of the antibiotic or use azithromycin instead.',
+    },
+    {
+      id: 'simvastatin-amiodarone',
+      between: ['simvastatin', 'amiodarone'],
+      severity: 'major',
+      mechanism: 'Amiodarone raises simvastatin levels, increasing myopathy risk.',
+      recommendation: 'Do not exceed simvastatin 20 mg daily, or switch to a statin less affected by CYP3A4.',
+    },
+    {
+      id: 'digoxin-amiodarone',
+      between: ['digoxin', 'amiodarone'],
+      severity: 'major',
+      mechanism: 'Amiodarone reduces digoxin clearance, roughly doubling levels.',
+      recommendation: 'Halve the digoxin dose and monitor levels and heart rate.',
+    },
+    {
+      id: 'pde5-nitrate',
+      between: ['class:pde5-inhibitor', 'class:nitrate'],
+      severity: 'contraindicated',
+      mechanism: 'Both increase nitric-oxide signalling, which can cause profound hypotension.',
+      recommendation: 'Never combine. Nitrates should not be given within 24 hours of sildenafil or 48 hours of tadalafil.',
+    },
+    {
+      id: 'opioid-benzodiazepine',
+      between: ['class:opioid', 'class:benzodiazepine'],
+      severity: 'major',
+      mechanism: 'Additive central nervous system and respiratory depression.',
+      recommendation: 'Avoid combining; if necessary use the lowest doses and counsel on sedation and breathing problems.',
+    },
+    {
+      id: 'methotrexate-folate-antagonist',
+      between: ['methotrexate', 'class:folate-antagonist'],
+      severity: 'major',
+      mechanism: 'Trimethoprim adds to folate antagonism and reduces methotrexate clearance, risking bone-marrow suppression.',
+      recommendation: 'Avoid the combination; choose a different antibiotic.',
+    },
+    {
+      id: 'methotrexate-nsaid',
+      between: ['methotrexate', 'class:nsaid'],
+      severity: 'major',
+      mechanism: 'NSAIDs reduce renal clearance of methotrexate.',
+      recommendation: 'Avoid with high-dose methotrexate; with low weekly doses, monitor blood counts and kidney function.',
+    },
+    {
+      id: 'lithium-nsaid',
+      between: ['lithium', 'class:nsaid'],
+      severity: 'major',
+      mechanism: 'NSAIDs reduce renal lithium excretion and can cause lithium toxicity.',
+      recommendation: 'Avoid regular NSAID use; if needed, check lithium levels within 5 days.',
+    },
+    {
+      id: 'lithium-ace',
+      between: ['lithium', 'class:ace-inhibitor'],
+      severity: 'major',
+      mechanism: 'ACE inhibitors reduce lithium excretion.',
+      recommendation: 'Monitor lithium levels closely when starting or changing the dose.',
+    },
+    {
+      id: 'lithium-thiazide',
+      between: ['lithium', 'class:thiazide-diuretic'],
+      severity: 'major',
+      mechanism: 'Thiazides increase lithium reabsorption, raising levels by up to 40%.',
+      recommendation: 'Prefer another diuretic or reduce the lithium dose and monitor levels.',
+    },
+    {
+      id: 'clopidogrel-omeprazole',
+      between: ['clopidogrel', 'omeprazole'],
+      severity: 'moderate',
+      mechanism: 'Omeprazole inhibits CYP2C19, reducing activation of clopidogrel.',
+      recommendation: 'Use pantoprazole instead if a proton pump inhibitor is needed.',
+    },
+    {
+      id: 'qt-prolonging-duplicate',
+      between: ['class:qt-prolonging', 'class:qt-prolonging'],
+      severity: 'major',
+      mechanism: 'Additive QT prolongation increases the risk of torsades de pointes.',
+      recommendation: 'Avoid combining where possible; otherwise obtain a baseline ECG and correct potassium and magnesium.',
+    },
+    {
+      id: 'levothyroxine-mineral',
+      between: ['levothyroxine', 'class:calcium-supplement'],
+      severity: 'minor',
+      mechanism: 'Calcium binds levothyroxine in the gut and reduces absorption.',
+      recommendation: 'Separate doses by at least 4 hours.',
+    },
+    {
+      id: 'levothyroxine-iron',
+      between: ['levothyroxine', 'class:iron-supplement'],
+      severity: 'minor',
+      mechanism: 'Iron binds levothyroxine in the gut and reduces absorption.',
+      recommendation: 'Separate doses by at least 4 hours.',
+    },
+    {
+      id: 'fluoroquinolone-mineral',
+      between: ['class:fluoroquinolone', 'class:calcium-supplement'],
+      severity: 'moderate',
+      mechanism: 'Calcium chelates fluoroquinolones and can make the antibiotic ineffective.',
+      recommendation: 'Take the antibiotic 2 hours before or 6 hours after calcium or antacids.',
+    },
+    {
+      id: 'sulfonylurea-fluconazole',
+      between: ['class:sulfonylurea', 'fluconazole'],
+      severity: 'moderate',
+      mechanism: 'Fluconazole inhibits sulfonylurea metabolism, increasing hypoglycaemia risk.',
+      recommendation: 'Monitor blood glucose more often during the course.',
+    },
+    {
+      id: 'corticosteroid-nsaid',
+      between: ['class:corticosteroid', 'class:nsaid'],
+      severity: 'moderate',
+      mechanism: 'Combined use substantially increases peptic ulcer and GI bleeding risk.',
+      recommendation: 'Add gastroprotection or avoid the NSAID.',
+    },
+  ],
+  allergyCrossReactivity: [
+    {
+      id: 'penicillin-cephalosporin',
+      allergyGroup: 'penicillin',
+      drugGroup: 'cephalosporin',
+      severity: 'moderate',
+      mechanism: 'Cross-reactivity between penicillins and cephalosporins is low (about 1-2%) but real, mostly with similar side chains.',
+      recommendation: 'Confirm the nature of the penicillin reaction; avoid if it was anaphylaxis or severe, otherwise use with monitoring.',
+    },
+  ],
+  drugCondition: [
+    {
+      id: 'nsaid-kidney-disease',
+      condition: 'Chronic kidney disease',
+      patterns: [/kidney (disease|failure|impairment)/, /renal (disease|failure|impairment|insufficiency)/, /\bckd\b/],
+      drug: 'class:nsaid',
+      severity: 'major',
+      mechanism: 'NSAIDs reduce kidney blood flow and can cause acute kidney injury.',
+      recommendation: 'Avoid NSAIDs; use acetaminophen for pain.',
+    },
+    {
+      id: 'metformin-kidney-disease',
+      condition: 'Chronic kidney disease',
+      patterns: [/kidney (disease|failure|impairment)/, /renal (disease|failure|impairment|insufficiency)/, /\bckd\b/],
+      drug: 'metformin',
+      severity: 'major',
+      mechanism: 'Reduced clearance increases the risk of lactic acidosis.',
+      recommendation: 'Reduce the dose when eGFR is below 45 and stop below 30.',
+    },
+    {
+      id: 'nsaid-peptic-ulcer',
+      condition: 'Peptic ulcer or GI bleeding',
+      patterns: [/(peptic|stomach|gastric|duodenal) ulcer/, /gi bleed\w*/, /gastrointestinal bleed\w*/],
+      drug: 'class:nsaid',
+      severity: 'major',
+      mechanism: 'NSAIDs inhibit protective prostaglandins in the stomach lining.',
+      recommendation: 'Avoid NSAIDs; if essential, combine with a proton pump inhibitor.',
+    },
+    {
+      id: 'anticoagulant-peptic-ulcer',
+      condition: 'Peptic ulcer or GI bleeding',
+      patterns: [/(peptic|stomach|gastric|duodenal) ulcer/, /gi bleed\w*/, /gastrointestinal bleed\w*/],
+      drug: 'class:anticoagulant',
+      severity: 'major',
+      mechanism: 'Anticoagulation increases the risk of a recurrent or severe GI bleed.',
+      recommendation: 'Review the indication with the prescriber and consider gastroprotection.',
+    },
+    {
+      id: 'nsaid-heart-failure',
+      condition: 'Heart failure',
+      patterns: [/heart failure/, /\bchf\b/, /\bhfref\b/],
+      drug: 'class:nsaid',
+      severity: 'major',
+      mechanism: 'NSAIDs cause sodium and fluid retention and can precipitate decompensation.',
+      recommendation: 'Avoid NSAIDs in heart failure.',
+    },
+    {
+      id: 'nonselective-beta-blocker-asthma',
+      condition: 'Asthma',
+      patterns: [/asthma/],
+      drug: 'class:nonselective-beta-blocker',
+      severity: 'contraindicated',
+      mechanism: 'Non-selective beta blockade can trigger severe bronchospasm.',
+      recommendation: 'Avoid; if a beta-blocker is required, use a cardioselective agent with caution.',
+    },
+    {
+      id: 'ace-pregnancy',
+      condition: 'Pregnancy',
+      patterns: [/pregnan\w*/],
+      drug: 'class:ace-inhibitor',
+      severity: 'contraindicated',
+      mechanism: 'ACE inhibitors are fetotoxic, particularly in the second and third trimesters.',
+      recommendation: 'Stop and switch to a pregnancy-safe antihypertensive such as labetalol or nifedipine.',
+    },
+    {
+      id: 'arb-pregnancy',
+      condition: 'Pregnancy',
+      patterns: [/pregnan\w*/],
+      drug: 'class:arb',
+      severity: 'contraindicated',
+      mechanism: 'ARBs are fetotoxic, particularly in the second and third trimesters.',
+      recommendation: 'Stop and switch to a pregnancy-safe antihypertensive such as labetalol or nifedipine.',
+    },
+    {
+      id: 'warfarin-pregnancy',
+      condition: 'Pregnancy',
+      patterns: [/pregnan\w*/],
+      drug: 'warfarin',
+      severity: 'contraindicated',
+      mechanism: 'Warfarin crosses the placenta and is teratogenic.',
+      recommendation: 'Switch to low-molecular-weight heparin under specialist guidance.',
+    },
+    {
+      id: 'statin-pregnancy',
+      condition: 'Pregnancy',
+      patterns: [/pregnan\w*/],
+      drug: 'class:statin',
+      severity: 'contraindicated',
+      mechanism: 'Cholesterol synthesis is needed for fetal development.',
+      recommendation: 'Stop statins during pregnancy.',
+    },
+    {
+      id: 'isotretinoin-pregnancy',
+      condition: 'Pregnancy',
+      patterns: [/pregnan\w*/],
+      drug: 'isotretinoin',
+      severity: 'contraindicated',
+      mechanism: 'Isotretinoin is highly teratogenic.',
+      recommendation: 'Stop immediately and refer to the prescriber.',
+    },
+    {
+      id: 'methotrexate-pregnancy',
+      condition: 'Pregnancy',
+      patterns: [/pregnan\w*/],
+      drug: 'methotrexate',
+      severity: 'contraindicated',
+      mechanism: 'Methotrexate is teratogenic and abortifacient.',
+      recommendation: 'Stop immediately and refer to the prescriber.',
+    },
+    {
+      id: 'acetaminophen-liver-disease',
+      condition: 'Liver disease',
+      patterns: [/liver (disease|failure|cirrhosis)/, /cirrhosis/, /hepatitis/],
+      drug: 'acetaminophen',
+      severity: 'moderate',
+      mechanism: 'Impaired hepatic metabolism increases the risk of liver toxicity.',
+      recommendation: 'Limit to 2 g per day and avoid alcohol.',
+    },
+    {
+      id: 'qt-prolonging-long-qt',
+      condition: 'Long QT syndrome',
+      patterns: [/long qt/, /qt prolongation/, /prolonged qt/],
+      drug: 'class:qt-prolonging',
+      severity: 'contraindicated',
+      mechanism: 'Further QT prolongation risks torsades de pointes.',
+      recommendation: 'Avoid; choose a drug without QT effects.',
+    },
+    {
+      id: 'thiazide-gout',
+      condition: 'Gout',
+      patterns: [/gout/],
+      drug: 'class:thiazide-diuretic',
+      severity: 'moderate',
+      mechanism: 'Thiazides reduce uric acid excretion and can trigger gout flares.',
+      recommendation: 'Consider an alternative antihypertensive such as losartan.',
+    },
+    {
+      id: 'benzodiazepine-sleep-apnea',
+      condition: 'Sleep apnoea',
+      patterns: [/sleep apn(o)?ea/, /\bosa\b/],
+      drug: 'class:benzodiazepine',
+      severity: 'major',
+      mechanism: 'Benzodiazepines relax upper-airway muscles and depress respiratory drive.',
+      recommendation: 'Avoid; consider non-sedating alternatives.',
+    },
+  ],
+};
@@ -0,0 +1,65 @@
+// Keys for encrypting patient-identifying columns at rest. Each key is a
+// 32-byte AES-256 key-encryption key (KEK) with a short ID; the ID is stored
+// with every value so older keys keep decrypting after a rotation.
+//
+//   PHI_ENCRYPTION_KEYS="2026-10:<base64 key>,2025-01:<base64 key>"
+//   PHI_ENCRYPTION_ACTIVE_KEY=2026-10   (defaults to the first key listed)
+//
+// To rotate, add a new key, make it active, run `npm run encrypt:phi` to
+// re-encrypt existing rows, then drop the old key.
+//
+// Encrypted symptoms and patient names are searched through keyed hashes of
+// their words (a blind index), which needs a separate 32-byte key:
+//
+//   PHI_SEARCH_KEY=<base64 key>   (required with PHI_ENCRYPTION_KEYS)
+//
+// Changing it makes existing rows unsearchable until `npm run encrypt:phi`
+// has rebuilt the index.
+
+export interface EncryptionConfig {
+  keys: Map<string, Buffer>;
+  activeKeyId?: string;
+  searchKey?: Buffer;
+}
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const KEY_BYTES = 32;
+
+export function parseEncryptionKeys(spec: string | undefined, activeKeyId?: string, searchKeySpec?: string): EncryptionConfig {
+  const keys = new Map<string, Buffer>();
+  for (const entry of (spec || '').split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    if (separator <= 0 || !KEY_ID_PATTERN.test(id)) {
+      throw new Error(`PHI_ENCRYPTION_KEYS: expected "id:base64key", got an entry with key ID "${id}"`);
+    }
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`PHI_ENCRYPTION_KEYS: key "${id}" must be ${KEY_BYTES} bytes, got ${key.length}`);
+    }
+    if (keys.has(id)) {
+      throw new Error(`PHI_ENCRYPTION_KEYS: key ID "${id}" is listed twice`);
+    }
+    keys.set(id, key);
+  }
+
+  const active = activeKeyId || keys.keys().next().value;
+  if (active && !keys.has(active)) {
+    throw new Error(`PHI_ENCRYPTION_ACTIVE_KEY: no key with ID "${active}" in PHI_ENCRYPTION_KEYS`);
+  }
+
+  const searchKey = searchKeySpec ? Buffer.from(searchKeySpec, 'base64') : undefined;
+  if (searchKey && searchKey.length !== KEY_BYTES) {
+    throw new Error(`PHI_SEARCH_KEY: must be ${KEY_BYTES} bytes, got ${searchKey.length}`);
+  }
+  if (active && !searchKey) {
+    throw new Error('PHI_SEARCH_KEY: required when PHI_ENCRYPTION_KEYS is set, so encrypted columns stay searchable');
+  }
+  return { keys, activeKeyId: active, searchKey };
+}
+
+export const ENCRYPTION_CONFIG = parseEncryptionKeys(
+  process.env.PHI_ENCRYPTION_KEYS,
+  process.env.PHI_ENCRYPTION_ACTIVE_KEY,
+  process.env.PHI_SEARCH_KEY
+);
@@ -0,0 +1,18 @@
+// How the medication scheduler turns schedules into doses. Every run creates
+// the doses due within the lookahead (so reminders can show what is coming
+// up) and marks doses still pending MEDICATION_MISSED_AFTER_HOURS after
+// their time as missed.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function positiveNumber(envName: string, fallback: number): number {
+  const value = parseFloat(process.env[envName] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const MEDICATION_CONFIG = {
+  intervalMs: positiveNumber('MEDICATION_SCHEDULER_INTERVAL_MINUTES', 5) * MINUTE,
+  lookaheadMs: 60 * MINUTE,
+  missedAfterMs: positiveNumber('MEDICATION_MISSED_AFTER_HOURS', 4) * HOUR,
+};
@@ -0,0 +1,51 @@
+import { logger } from "../logger";
+
+// Which version of each prompt template is served. By default a template's
+// newest non-draft version is used; both settings below come from the
+// environment so a version can be pinned or trialled without a deploy.
+
+export interface PromptExperiment {
+  // Version served to `percent`% of traffic; everyone else gets the default
+  candidate: number;
+  percent: number;
+}
+
+export interface PromptSelection {
+  pinnedVersion?: number;
+  experiment?: PromptExperiment;
+}
+
+function envName(prefix: string, template: string): string {
+  return `${prefix}_${template.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+}
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const version = Number(value.trim().replace(/^v/i, ''));
+  return Number.isInteger(version) && version > 0 ? version : undefined;
+}
+
+// PROMPT_VERSION_ANALYSIS=1 pins the analysis template to v1.
+// PROMPT_AB_ANALYSIS=2:20 serves v2 to 20% of sessions and the default to the rest.
+export function getPromptSelection(template: string): PromptSelection {
+  const selection: PromptSelection = {
+    pinnedVersion: parseVersion(process.env[envName('PROMPT_VERSION', template)]),
+  };
+
+  const experiment = process.env[envName('PROMPT_AB', template)];
+  if (experiment) {
+    const [candidate, percent] = experiment.split(':');
+    const candidateVersion = parseVersion(candidate);
+    const candidatePercent = Number(percent);
+    if (candidateVersion && Number.isFinite(candidatePercent)) {
+      selection.experiment = {
+        candidate: candidateVersion,
+        percent: Math.min(100, Math.max(0, candidatePercent)),
+      };
+    } else {
+      logger.warn(`Ignoring ${envName('PROMPT_AB', template)}="${experiment}"; expected "<version>:<percent>"`);
+    }
+  }
+
+  return selection;
+}
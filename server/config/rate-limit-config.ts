@@ -0,0 +1,57 @@
+// Request rate limits. Every /api request is counted against a token bucket
+// per client IP and, once logged in, another per user. AI routes call paid
+// LLMs and get their own, much smaller buckets; everything else is CRUD.
+
+export type RateLimitClass = 'ai' | 'crud';
+
+export interface BucketRule {
+  // Burst size; the bucket refills to this many requests over `windowMs`
+  capacity: number;
+  windowMs: number;
+}
+
+export interface RateLimitRules {
+  perIp: BucketRule;
+  perUser: BucketRule;
+}
+
+const MINUTE = 60 * 1000;
+
+function rule(envName: string, fallback: number): BucketRule {
+  const value = parseInt(process.env[envName] || '');
+  return { capacity: Number.isFinite(value) && value > 0 ? value : fallback, windowMs: MINUTE };
+}
+
+// "METHOD /path" of every route that calls an LLM
+export const AI_ROUTES = new Set([
+  'POST /api/generate-questions',
+  'POST /api/analyze',
+  'POST /api/enhanced-analysis',
+  'POST /api/enhanced-analysis/stream',
+  'POST /api/submit-answers',
+  'POST /api/generate-mcq',
+  'POST /api/treatment-pathway',
+  'POST /api/risk-assessment',
+  'POST /api/patient-education',
+  'POST /api/clinical-alerts',
+  'POST /api/drug-interactions',
+  'POST /api/education',
+  'GET /api/test-ai',
+  'POST /api/test-ai-connection',
+  'GET /api/health/detailed',
+]);
+
+export const RATE_LIMIT_CONFIG = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  // Requests per minute, e.g. RATE_LIMIT_AI_PER_USER=10
+  classes: {
+    ai: {
+      perIp: rule('RATE_LIMIT_AI_PER_IP', 60),
+      perUser: rule('RATE_LIMIT_AI_PER_USER', 30),
+    },
+    crud: {
+      perIp: rule('RATE_LIMIT_CRUD_PER_IP', 300),
+      perUser: rule('RATE_LIMIT_CRUD_PER_USER', 200),
+    },
+  } as Record<RateLimitClass, RateLimitRules>,
+};
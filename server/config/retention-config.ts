@@ -0,0 +1,22 @@
+// How long consultations are kept. Once a session is older than
+// DATA_RETENTION_DAYS the retention job either deletes it with everything
+// attached (`purge`) or strips identity and contact details and keeps the
+// clinical content for quality review (`anonymise`, the default).
+
+export type RetentionAction = 'purge' | 'anonymise';
+
+const HOUR = 60 * 60 * 1000;
+
+function positiveNumber(envName: string, fallback: number): number {
+  const value = parseFloat(process.env[envName] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const RETENTION_CONFIG = {
+  // 0 (the default) keeps consultations forever and the job never runs
+  maxAgeDays: positiveNumber('DATA_RETENTION_DAYS', 0),
+  action: (process.env.DATA_RETENTION_ACTION === 'purge' ? 'purge' : 'anonymise') as RetentionAction,
+  intervalMs: positiveNumber('DATA_RETENTION_INTERVAL_HOURS', 24) * HOUR,
+  // Sessions handled per storage query; the job loops until none are left
+  batchSize: 100,
+};
@@ -0,0 +1,217 @@
+export type TriageUrgency = 'emergency' | 'urgent' | 'routine' | 'self-care';
+
+export interface TriageRule {
+  id: string;
+  name: string;
+  urgency: TriageUrgency;
+  // Critical rules skip the AI entirely and return an emergency response
+  critical?: boolean;
+  weight: number;
+  // Every group must match; a group matches when any of its patterns does
+  requires: RegExp[][];
+  // Every group must match within the same sentence and time frame, not just
+  // anywhere in the text
+  sameClause?: boolean;
+  advice: string;
+}
+
+export interface TriageRuleSet {
+  version: string;
+  rules: TriageRule[];
+}
+
+// Bump the version whenever a rule is added, removed or changed so stored
+// triage results can be traced back to the rules that produced them.
+export const TRIAGE_RULESET: TriageRuleSet = {
+  version: '2026.10.1',
+  rules: [
+    {
+      id: 'cardiac-chest-pain-radiation',
+      name: 'Chest pain radiating to arm, jaw, neck or back',
+      urgency: 'emergency',
+      critical: true,
+      weight: 10,
+      requires: [
+        [/chest (pain|pressure|tightness|discomfort)/, /(pain|pressure|tightness) in (my|the) chest/],
+        [/radiat\w*/, /spread\w*/, /\barm\b/, /\bjaw\b/, /\bneck\b/, /(to|into|through) (my|the) back/, /shoulder/],
+      ],
+      advice: 'Possible heart attack. Call emergency services now; do not drive yourself.',
+    },
+    {
+      id: 'cardiac-chest-pain-autonomic',
+      name: 'Chest pain with sweating, nausea or breathlessness',
+      urgency: 'emergency',
+      critical: true,
+      weight: 10,
+      requires: [
+        [/chest (pain|pressure|tightness|discomfort)/],
+        [/sweat\w*/, /diaphores\w*/, /clammy/, /nause\w*/, /short(ness)? of breath/, /breathless\w*/],
+      ],
+      advice: 'Possible heart attack. Call emergency services now.',
+    },
+    {
+      id: 'neuro-thunderclap-headache',
+      name: 'Sudden severe ("thunderclap") headache',
+      urgency: 'emergency',
+      critical: true,
+      weight: 10,
+      requires: [
+        [/thunderclap/, /worst headache/, /sudden\w* (and )?(severe|intense|explosive) headache/, /headache (came on|started) (suddenly|instantly|in seconds)/],
+      ],
+      advice: 'Possible brain bleed. Call emergency services now.',
+    },
+    {
+      id: 'neuro-stroke-fast',
+      name: 'Stroke warning signs (face, arm, speech)',
+      urgency: 'emergency',
+      critical: true,
+      weight: 10,
+      requires: [
+        [
+          /face (is )?(droop\w*|drooping|numb\w*)/,
+          /facial (droop\w*|weakness|numbness)/,
+          /(one[- ]sided|sudden) (weakness|numbness)/,
+          /(arm|leg) (weakness|numbness)/,
+          /can'?t (lift|raise|move) (my |one )?(arm|leg)/,
+          /slurred speech/,
+          /(difficulty|trouble) (speaking|talking|finding words)/,
+          /can'?t speak/,
+        ],
+      ],
+      advice: 'Possible stroke. Note the time symptoms started and call emergency services now.',
+    },
+    {
+      id: 'allergy-anaphylaxis',
+      name: 'Anaphylaxis (acute allergic trigger with airway or circulation involvement)',
+      urgency: 'emergency',
+      critical: true,
+      weight: 10,
+      sameClause: true,
+      requires: [
+        [
+          /anaphyla\w*/,
+          /(bee|wasp|insect) sting/,
+          /\bstung\b/,
+          /after eating/,
+          /(food|peanut|nut|shellfish) allergy/,
+          /(lip|tongue) swelling/,
+          /swollen (lips?|tongue)/,
+          /(lips?|tongue) (is |are )?swollen/,
+          /swelling of (my |the )?(lips?|tongue)/,
+        ],
+        [/throat (is |feels )?(closing|swelling|tight\w*)/, /(difficulty|trouble) breathing/, /can'?t breathe/, /wheez\w*/, /faint\w*/, /passed out/, /hypotension/, /low blood pressure/],
+      ],
+      advice: 'Possible anaphylaxis. Use an adrenaline auto-injector if available and call emergency services now.',
+    },
+    {
+      id: 'mental-health-suicidal-ideation',
+      name: 'Suicidal thoughts or intent to self-harm',
+      urgency: 'emergency',
+      critical: true,
+      weight: 10,
+      requires: [
+        [/suicid\w*/, /kill (myself|me)/, /end(ing)? (it all|my life)/, /(want|wanting) to die/, /self[- ]harm\w*/, /hurt(ing)? myself/, /no reason to live/],
+      ],
+      advice: 'You deserve support right now. Contact a crisis line or emergency services immediately, or go to the nearest emergency department.',
+    },
+    {
+      id: 'respiratory-severe-distress',
+      name: 'Severe breathing difficulty',
+      urgency: 'emergency',
+      critical: true,
+      weight: 9,
+      requires: [
+        [/can'?t breathe/, /unable to breathe/, /gasping/, /(blue|grey|gray) lips/, /cyanos\w*/, /struggling to breathe/],
+      ],
+      advice: 'Severe breathing difficulty. Call emergency services now.',
+    },
+    {
+      id: 'neuro-meningism',
+      name: 'Fever with stiff neck, confusion or non-blanching rash',
+      urgency: 'emergency',
+      critical: true,
+      weight: 9,
+      sameClause: true,
+      requires: [
+        [/fever/, /high temperature/],
+        [/stiff neck/, /neck stiffness/, /rash (that )?(doesn'?t|does not) fade/, /non[- ]blanching/, /confus\w*/, /light hurts my eyes/, /photophobia/],
+      ],
+      advice: 'Possible meningitis or sepsis. Seek emergency care now.',
+    },
+    {
+      id: 'bleeding-severe',
+      name: 'Heavy bleeding or vomiting blood',
+      urgency: 'emergency',
+      critical: true,
+      weight: 9,
+      requires: [
+        [/vomit\w* blood/, /coughing (up )?blood/, /haematemesis|hematemesis/, /(heavy|severe|uncontrolled) bleeding/, /black,? tarry stools?/],
+      ],
+      advice: 'Significant bleeding. Seek emergency care now.',
+    },
+    {
+      id: 'neuro-loss-of-consciousness',
+      name: 'Seizure or loss of consciousness',
+      urgency: 'urgent',
+      weight: 6,
+      requires: [
+        [/seizure/, /convuls\w*/, /passed out/, /lost consciousness/, /loss of consciousness/, /faint(ed|ing)/, /black(ed)? out/],
+      ],
+      advice: 'Needs prompt medical assessment today; call emergency services if it recurs or lasts more than 5 minutes.',
+    },
+    {
+      id: 'allergy-breathing',
+      name: 'Allergy with breathing symptoms',
+      urgency: 'urgent',
+      weight: 5,
+      sameClause: true,
+      requires: [
+        [/allerg\w*/, /hives/, /hay fever/],
+        [/throat (is |feels )?(closing|swelling|tight\w*)/, /(difficulty|trouble) breathing/, /wheez\w*/, /short(ness)? of breath/, /(lip|tongue|face|facial) swelling/, /swollen (lips?|tongue|face)/],
+      ],
+      advice: 'See a doctor today. Call emergency services if breathing gets harder, the throat or tongue swells, or you feel faint.',
+    },
+    {
+      id: 'abdominal-severe-pain',
+      name: 'Severe or worsening abdominal pain',
+      urgency: 'urgent',
+      weight: 5,
+      requires: [
+        [/(severe|excruciating|worst|worsening) (abdominal|stomach|belly) pain/, /(abdominal|stomach|belly) pain (is )?(severe|excruciating|getting worse)/, /rigid (abdomen|belly)/],
+      ],
+      advice: 'Needs same-day medical assessment.',
+    },
+    {
+      id: 'fever-high-persistent',
+      name: 'High or persistent fever',
+      urgency: 'urgent',
+      weight: 4,
+      requires: [
+        [/fever/, /temperature/],
+        [/\b(39\.[5-9]|4[0-2](\.\d)?)\s*°?\s*c\b/, /\b(10[3-7](\.\d)?)\s*°?\s*f\b/, /(for|over|more than) (3|4|5|6|7|three|four|five|six|seven) days/, /(for|over) a week/],
+      ],
+      advice: 'See a doctor within 24 hours.',
+    },
+    {
+      id: 'pregnancy-warning-signs',
+      name: 'Pregnancy with bleeding, severe pain or reduced movements',
+      urgency: 'urgent',
+      weight: 6,
+      requires: [
+        [/pregnan\w*/],
+        [/bleeding/, /severe (abdominal |stomach )?pain/, /(reduced|fewer|no) (fetal |baby'?s? )?movements?/, /severe headache/, /blurred vision/],
+      ],
+      advice: 'Contact your maternity unit or seek urgent care now.',
+    },
+    {
+      id: 'self-care-common-cold',
+      name: 'Mild upper respiratory symptoms',
+      urgency: 'self-care',
+      weight: 1,
+      requires: [
+        [/runny nose/, /sneez\w*/, /stuffy nose/, /blocked nose/, /nasal congestion/, /mild sore throat/, /common cold/],
+      ],
+      advice: 'Usually manageable at home with rest and fluids; see a doctor if symptoms last more than 10 days or get worse.',
+    },
+  ],
+};
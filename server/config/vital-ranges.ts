@@ -0,0 +1,116 @@
+import type { VitalType } from "@shared/api-schemas";
+
+// Normal and critical ranges the vital sign service checks readings against,
+// in the canonical units of vitalUnits. A reading outside `normal` raises a
+// warning alert and one outside `critical` a critical alert. Blood pressure
+// is checked as separate systolic and diastolic measures.
+
+export type VitalMeasure = Exclude<VitalType, 'blood_pressure'> | 'systolic' | 'diastolic';
+
+export interface VitalRange {
+  min: number;
+  max: number;
+}
+
+export interface VitalLimits {
+  normal: VitalRange;
+  critical: VitalRange;
+}
+
+export interface AgeBand {
+  name: string;
+  // Age in whole years, from minAge up to but not including maxAge
+  minAge: number;
+  maxAge: number;
+  // Measures left out use the adult limits
+  limits: Partial<Record<VitalMeasure, VitalLimits>>;
+}
+
+// A change of at least `delta` from the previous reading of the same measure
+// taken within `withinMinutes` raises a warning alert. `direction` limits it
+// to rises or falls.
+export interface RapidChangeRule {
+  delta: number;
+  withinMinutes: number;
+  direction?: 'rise' | 'fall';
+}
+
+export interface VitalRangeSet {
+  version: string;
+  // Used for adults and whenever the patient's age is unknown
+  adult: Record<VitalMeasure, VitalLimits>;
+  ageBands: AgeBand[];
+  rapidChange: Partial<Record<VitalMeasure, RapidChangeRule>>;
+  // The same alert (measure and kind) is not raised again for a patient
+  // within this many minutes; VITAL_ALERT_COOLDOWN_MINUTES
+  alertCooldownMinutes: number;
+}
+
+function positiveNumber(envName: string, fallback: number): number {
+  const value = parseFloat(process.env[envName] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const limits = (normal: [number, number], critical: [number, number]): VitalLimits => ({
+  normal: { min: normal[0], max: normal[1] },
+  critical: { min: critical[0], max: critical[1] },
+});
+
+// Bump the version whenever a range or rule changes so stored alerts can be
+// traced back to the ranges that raised them.
+export const VITAL_RANGES: VitalRangeSet = {
+  version: '2026.10.0',
+  adult: {
+    heart_rate: limits([60, 100], [40, 130]),
+    systolic: limits([90, 140], [80, 180]),
+    diastolic: limits([60, 90], [40, 120]),
+    temperature: limits([36.1, 37.8], [35, 39.5]),
+    spo2: limits([94, 100], [90, 100]),
+    respiratory_rate: limits([12, 20], [8, 25]),
+    glucose: limits([3.9, 10], [3, 20]),
+  },
+  ageBands: [
+    {
+      name: 'infant',
+      minAge: 0,
+      maxAge: 1,
+      limits: {
+        heart_rate: limits([100, 160], [80, 200]),
+        respiratory_rate: limits([30, 60], [20, 70]),
+        systolic: limits([70, 100], [60, 120]),
+        diastolic: limits([35, 65], [25, 80]),
+      },
+    },
+    {
+      name: 'child',
+      minAge: 1,
+      maxAge: 12,
+      limits: {
+        heart_rate: limits([70, 120], [55, 160]),
+        respiratory_rate: limits([18, 30], [12, 40]),
+        systolic: limits([85, 120], [70, 140]),
+        diastolic: limits([50, 80], [35, 95]),
+      },
+    },
+    {
+      name: 'adolescent',
+      minAge: 12,
+      maxAge: 18,
+      limits: {
+        heart_rate: limits([60, 100], [45, 140]),
+        respiratory_rate: limits([12, 20], [10, 30]),
+        systolic: limits([95, 135], [85, 170]),
+        diastolic: limits([55, 85], [45, 110]),
+      },
+    },
+  ],
+  rapidChange: {
+    heart_rate: { delta: 30, withinMinutes: 60 },
+    systolic: { delta: 40, withinMinutes: 60 },
+    temperature: { delta: 1.5, withinMinutes: 240 },
+    spo2: { delta: 4, withinMinutes: 60, direction: 'fall' },
+    respiratory_rate: { delta: 8, withinMinutes: 60 },
+    glucose: { delta: 5, withinMinutes: 120 },
+  },
+  alertCooldownMinutes: positiveNumber('VITAL_ALERT_COOLDOWN_MINUTES', 60),
+};
@@ -0,0 +1,192 @@
+import { performance } from "perf_hooks";
+import type { AIAnalysisResult, AIService } from "../services/ai-service";
+import type { ResultSource } from "../services/ai-schemas";
+
+export interface Vignette {
+  id: string;
+  symptoms: string;
+  patientInfo?: Record<string, unknown>;
+  mode?: 'doctor' | 'patient' | 'unified';
+  // Acceptable names for the correct diagnosis; any one counts as a hit
+  expectedDiagnoses: string[];
+  // Red flags a good answer should raise (may be empty)
+  expectedRedFlags?: string[];
+}
+
+export interface VignetteResult {
+  id: string;
+  predicted: string[];
+  top1: boolean;
+  top3: boolean;
+  redFlagsExpected: number;
+  redFlagsFound: number;
+  missedRedFlags: string[];
+  // 'model' = valid JSON first time, 'repaired' = valid after re-prompting,
+  // 'fallback' = never valid (or the provider failed) so canned output was used
+  source: ResultSource | 'error';
+  latencyMs: number;
+  promptVersion?: string;
+  error?: string;
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  provider: string;
+  model: string;
+  promptVersion?: string;
+  startedAt: string;
+  vignettes: number;
+  top1Accuracy: number;
+  top3Accuracy: number;
+  redFlagRecall: number;
+  jsonValidityRate: number;
+  jsonValidAfterRepairRate: number;
+  errors: number;
+  latencyMs: { mean: number; p50: number; p95: number; max: number };
+  results: VignetteResult[];
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'with', 'for', 'of', 'or', 'in', 'to', 'a', 'an', 'acute', 'chronic']);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// "Pneumonia" matches "Community-acquired pneumonia" and vice versa
+export function diagnosisMatches(predicted: string, expected: string): boolean {
+  const a = normalize(predicted);
+  const b = normalize(expected);
+  if (!a || !b) return false;
+  return a === b || ` ${a} `.includes(` ${b} `) || ` ${b} `.includes(` ${a} `);
+}
+
+// A red flag counts as raised when every significant word of it appears
+// somewhere in the flags the model returned
+export function redFlagRaised(expected: string, raisedText: string): boolean {
+  const words = normalize(expected).split(' ').filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+  return words.length > 0 && words.every((word) => raisedText.includes(word));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+export function scoreVignette(vignette: Vignette, analysis: AIAnalysisResult, latencyMs: number): VignetteResult {
+  const predicted = [...(analysis.diagnoses || [])]
+    .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))
+    .map((diagnosis) => diagnosis.name);
+  const hit = (name: string) => vignette.expectedDiagnoses.some((expected) => diagnosisMatches(name, expected));
+
+  const raisedText = normalize([
+    ...(analysis.redFlags || []),
+    ...(analysis.diagnoses || []).flatMap((diagnosis) => diagnosis.redFlags || []),
+  ].join(' '));
+  const expectedFlags = vignette.expectedRedFlags || [];
+  const missedRedFlags = expectedFlags.filter((flag) => !redFlagRaised(flag, raisedText));
+
+  return {
+    id: vignette.id,
+    predicted,
+    top1: predicted.length > 0 && hit(predicted[0]),
+    top3: predicted.slice(0, 3).some(hit),
+    redFlagsExpected: expectedFlags.length,
+    redFlagsFound: expectedFlags.length - missedRedFlags.length,
+    missedRedFlags,
+    source: analysis.source ?? 'model',
+    latencyMs,
+    promptVersion: analysis.provenance?.promptVersion,
+  };
+}
+
+export function summarize(
+  results: VignetteResult[],
+  meta: Pick<EvaluationReport, 'dataset' | 'provider' | 'model' | 'startedAt'>
+): EvaluationReport {
+  const latencies = results.map((result) => result.latencyMs).sort((a, b) => a - b);
+  const redFlagsExpected = results.reduce((sum, result) => sum + result.redFlagsExpected, 0);
+  const redFlagsFound = results.reduce((sum, result) => sum + result.redFlagsFound, 0);
+
+  return {
+    ...meta,
+    promptVersion: results.find((result) => result.promptVersion)?.promptVersion,
+    vignettes: results.length,
+    top1Accuracy: ratio(results.filter((result) => result.top1).length, results.length),
+    top3Accuracy: ratio(results.filter((result) => result.top3).length, results.length),
+    redFlagRecall: ratio(redFlagsFound, redFlagsExpected),
+    jsonValidityRate: ratio(results.filter((result) => result.source === 'model').length, results.length),
+    jsonValidAfterRepairRate: ratio(
+      results.filter((result) => result.source === 'model' || result.source === 'repaired').length,
+      results.length
+    ),
+    errors: results.filter((result) => result.source === 'error').length,
+    latencyMs: {
+      mean: Math.round(latencies.reduce((sum, value) => sum + value, 0) / (latencies.length || 1)),
+      p50: Math.round(percentile(latencies, 50)),
+      p95: Math.round(percentile(latencies, 95)),
+      max: Math.round(latencies[latencies.length - 1] ?? 0),
+    },
+    results,
+  };
+}
+
+/**
+ * Runs each vignette through `analyzeSymptoms` one at a time (so latencies are
+ * not skewed by concurrency) and scores the answers.
+ */
+export async function evaluateVignettes(
+  ai: AIService,
+  vignettes: Vignette[],
+  onResult: (result: VignetteResult, index: number) => void = () => {}
+): Promise<VignetteResult[]> {
+  const results: VignetteResult[] = [];
+  for (let index = 0; index < vignettes.length; index++) {
+    const vignette = vignettes[index];
+    const started = performance.now();
+    let result: VignetteResult;
+    try {
+      const analysis = await ai.analyzeSymptoms(vignette.symptoms, vignette.mode ?? 'doctor', vignette.patientInfo, {
+        bucketKey: vignette.id,
+        // Every run should measure the provider, not the LLM cache
+        bypassCache: true,
+      });
+      result = scoreVignette(vignette, analysis, performance.now() - started);
+    } catch (error) {
+      result = {
+        id: vignette.id,
+        predicted: [],
+        top1: false,
+        top3: false,
+        redFlagsExpected: vignette.expectedRedFlags?.length ?? 0,
+        redFlagsFound: 0,
+        missedRedFlags: vignette.expectedRedFlags ?? [],
+        source: 'error',
+        latencyMs: performance.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    results.push(result);
+    onResult(result, index);
+  }
+  return results;
+}
+
+export function validateVignettes(data: unknown): Vignette[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Dataset must be a JSON array of vignettes');
+  }
+  return data.map((entry, index) => {
+    if (!entry || typeof entry.symptoms !== 'string' || !Array.isArray(entry.expectedDiagnoses) || entry.expectedDiagnoses.length === 0) {
+      throw new Error(`Vignette ${index} needs "symptoms" and a non-empty "expectedDiagnoses" list`);
+    }
+    return { ...entry, id: String(entry.id ?? `vignette-${index + 1}`) } as Vignette;
+  });
+}
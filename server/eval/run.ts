@@ -0,0 +1,150 @@
+// Offline evaluation of the symptom analysis against a set of clinical vignettes.
+//
+//   npm run eval                                  # demo provider, bundled vignettes
+//   npm run eval -- --stub                        # same answers over HTTP via a local stub server
+//   npm run eval -- --provider local --model qwen2.5-7b-instruct --out report.json
+//   npm run eval -- --provider groqReasoner --baseline report.json
+//
+// Only the analysis route is overridden; the prompt version follows the usual
+// PROMPT_VERSION_ANALYSIS / PROMPT_AB_ANALYSIS settings, so pinning a version
+// and comparing against a saved baseline evaluates a prompt change.
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { API_CONFIG, type ProviderConfig } from "../config/api-config";
+import { AIService } from "../services/ai-service";
+import { ProviderRegistry } from "../services/providers";
+import { evaluateVignettes, summarize, validateVignettes, type EvaluationReport } from "./diagnostic-eval";
+import { startStubServer, type StubServer } from "./stub-server";
+
+const USAGE = `Usage: npm run eval -- [options]
+
+  --dataset <file>    Vignettes JSON (default: server/eval/vignettes.json)
+  --provider <name>   Provider to route the analysis task to (default: demo)
+  --model <model>     Model to request (default: the analysis route's model)
+  --stub              Start a local OpenAI-compatible stub server and evaluate against it
+  --limit <n>         Only run the first n vignettes
+  --out <file>        Write the full report as JSON
+  --baseline <file>   Compare against a previously written report
+  --help              Show this message`;
+
+const METRICS: [keyof EvaluationReport, string][] = [
+  ['top1Accuracy', 'Top-1 accuracy'],
+  ['top3Accuracy', 'Top-3 accuracy'],
+  ['redFlagRecall', 'Red-flag recall'],
+  ['jsonValidityRate', 'Valid JSON (first try)'],
+  ['jsonValidAfterRepairRate', 'Valid JSON (after repair)'],
+];
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function printReport(report: EvaluationReport, baseline?: EvaluationReport) {
+  console.log(`\nProvider: ${report.provider} (${report.model}), prompt ${report.promptVersion ?? 'unknown'}`);
+  console.log(`Vignettes: ${report.vignettes}${report.errors ? `, ${report.errors} errored` : ''}\n`);
+
+  for (const [key, label] of METRICS) {
+    const value = report[key] as number;
+    const delta = baseline ? ` (${value >= (baseline[key] as number) ? '+' : ''}${((value - (baseline[key] as number)) * 100).toFixed(1)})` : '';
+    console.log(`  ${label.padEnd(27)} ${percent(value).padStart(7)}${delta}`);
+  }
+  const latency = report.latencyMs;
+  const latencyDelta = baseline ? ` (${latency.p50 - baseline.latencyMs.p50 >= 0 ? '+' : ''}${latency.p50 - baseline.latencyMs.p50}ms p50)` : '';
+  console.log(`  ${'Latency'.padEnd(27)} mean ${latency.mean}ms, p50 ${latency.p50}ms, p95 ${latency.p95}ms, max ${latency.max}ms${latencyDelta}`);
+
+  const misses = report.results.filter((result) => !result.top3 || result.missedRedFlags.length > 0 || result.error);
+  if (misses.length > 0) {
+    console.log('\nMisses:');
+    for (const result of misses) {
+      const details = result.error
+        ? `error: ${result.error}`
+        : [
+            !result.top3 ? `predicted ${result.predicted.slice(0, 3).join(', ') || 'nothing'}` : '',
+            result.missedRedFlags.length ? `missed red flags: ${result.missedRedFlags.join(', ')}` : '',
+          ].filter(Boolean).join('; ');
+      console.log(`  ${result.id}: ${details}`);
+    }
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string', default: path.resolve(import.meta.dirname, 'vignettes.json') },
+      provider: { type: 'string', default: 'demo' },
+      model: { type: 'string' },
+      stub: { type: 'boolean', default: false },
+      limit: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  let vignettes = validateVignettes(JSON.parse(fs.readFileSync(values.dataset!, 'utf8')));
+  if (values.limit) {
+    vignettes = vignettes.slice(0, Math.max(0, parseInt(values.limit)));
+  }
+  const baseline = values.baseline
+    ? JSON.parse(fs.readFileSync(values.baseline, 'utf8')) as EvaluationReport
+    : undefined;
+
+  let stub: StubServer | undefined;
+  const providers: Record<string, ProviderConfig> = { ...API_CONFIG.providers };
+  let providerName = values.provider!;
+  if (values.stub) {
+    stub = await startStubServer();
+    providers.stub = { type: 'openai-compatible', baseUrl: stub.url, timeoutMs: 10000 };
+    providerName = 'stub';
+  }
+
+  const analysisRoute = { ...API_CONFIG.tasks.analysis, provider: providerName, model: values.model ?? API_CONFIG.tasks.analysis.model };
+  const registry = new ProviderRegistry(providers, { ...API_CONFIG.tasks, analysis: analysisRoute });
+
+  // The registry quietly answers from the demo provider when a route is not
+  // usable, which would make the numbers meaningless, so refuse up front
+  const provider = registry.get(providerName);
+  if (!provider || !provider.isConfigured()) {
+    throw new Error(`Provider "${providerName}" is ${provider ? 'not configured' : 'not defined'}; configured providers: ${
+      Object.keys(providers).filter((name) => registry.get(name)?.isConfigured()).join(', ')
+    }`);
+  }
+
+  const ai = new AIService(registry);
+  const startedAt = new Date().toISOString();
+  console.log(`Evaluating ${vignettes.length} vignettes from ${values.dataset} with ${providerName} (${analysisRoute.model})${stub ? ` at ${stub.url}` : ''}`);
+
+  try {
+    const results = await evaluateVignettes(ai, vignettes, (result, index) => {
+      const marks = `${result.top1 ? 'top1' : result.top3 ? 'top3' : 'miss'} ${result.source}`;
+      console.log(`  [${index + 1}/${vignettes.length}] ${result.id}: ${marks}, ${Math.round(result.latencyMs)}ms`);
+    });
+
+    const report = summarize(results, {
+      dataset: values.dataset!,
+      provider: providerName,
+      model: analysisRoute.model,
+      startedAt,
+    });
+    printReport(report, baseline);
+
+    if (values.out) {
+      fs.writeFileSync(values.out, JSON.stringify(report, null, 2));
+      console.log(`\nReport written to ${values.out}`);
+    }
+  } finally {
+    await stub?.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(`\n${USAGE}`);
+  process.exit(1);
+});
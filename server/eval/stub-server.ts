@@ -0,0 +1,76 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { DemoProvider } from "../services/providers";
+
+export interface StubServer {
+  // Base URL to hand to an openai-compatible provider, e.g. http://127.0.0.1:41234/v1
+  url: string;
+  requests: number;
+  close(): Promise<void>;
+}
+
+/**
+ * A local OpenAI-compatible chat completions server answering with the demo
+ * provider's canned responses. Lets the evaluation exercise the real HTTP
+ * provider path (request building, parsing, timeouts) without network access.
+ */
+export async function startStubServer(options: { port?: number; delayMs?: number } = {}): Promise<StubServer> {
+  const demo = new DemoProvider('stub');
+  const stub = { requests: 0 };
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Not found' } }));
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', async () => {
+      stub.requests++;
+      try {
+        const request = JSON.parse(body);
+        const prompt = (request.messages || []).map((message: { content?: string }) => message.content || '').join('\n');
+        const completion = await demo.complete({
+          prompt,
+          model: request.model,
+          temperature: request.temperature,
+          maxTokens: request.max_tokens,
+          topP: request.top_p,
+        });
+        if (options.delayMs) {
+          await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+        }
+
+        const promptTokens = Math.ceil(prompt.length / 4);
+        const completionTokens = Math.ceil(completion.content.length / 4);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: `stub-${stub.requests}`,
+          object: 'chat.completion',
+          model: request.model || 'stub',
+          choices: [{ index: 0, message: { role: 'assistant', content: completion.content }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+        }));
+      } catch (error) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: error instanceof Error ? error.message : 'Bad request' } }));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    get requests() {
+      return stub.requests;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
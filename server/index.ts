@@ -2,6 +2,9 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { logger } from "./logger";
+import { retentionService } from "./services/retention-service";
+import { medicationScheduler } from "./services/medication-scheduler";
 import { networkInterfaces } from "os";
 
 const app = express();
@@ -87,11 +90,14 @@ if (process.env.NODE_ENV === 'production') {
   app.set('trust proxy', 1);
 }
 
-// Request logging and performance monitoring
+// Request logging and performance monitoring. Only the route, status and
+// timing are logged; response bodies (at debug level) go through redaction.
+const requestLog = logger.child('http');
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
+  let capturedJsonResponse: unknown = undefined;
 
   const originalResJson = res.json;
   res.json = function (bodyJson, ...args) {
@@ -100,20 +106,14 @@ app.use((req, res, next) => {
   };
 
   res.on("finish", () => {
-    const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      
-      // Log response data only in development
-      if (process.env.NODE_ENV === 'development' && capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
+      requestLog.info(`${req.method} ${path} ${res.statusCode}`, {
+        durationMs: Date.now() - start,
+        userId: req.user?.id,
+      });
+      if (capturedJsonResponse !== undefined) {
+        requestLog.debug(`${req.method} ${path} response`, { body: capturedJsonResponse });
       }
-
-      log(logLine);
     }
   });
 
@@ -129,12 +129,7 @@ app.use((req, res, next) => {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
       
-      // Log error details
-      log(`ERROR: ${req.method} ${req.path} - ${status} - ${message}`);
-      
-      if (process.env.NODE_ENV === 'development') {
-        log(`Stack trace: ${err.stack}`);
-      }
+      logger.error(`${req.method} ${req.path} ${status}`, { error: err });
 
       res.status(status).json({ 
         message,
@@ -164,11 +159,18 @@ app.use((req, res, next) => {
         log(`📍 For port forwarding, use: http://0.0.0.0:${port}`);
         log(`📍 Manager can access via your forwarded URL on port ${port}`);
       }
+
+      // Purges or anonymises old consultations when DATA_RETENTION_DAYS is set
+      retentionService.start();
+      // Creates medication doses as they come due and marks unanswered ones missed
+      medicationScheduler.start();
     });
 
     // Graceful shutdown handling
     const gracefulShutdown = (signal: string) => {
       log(`Received ${signal}. Starting graceful shutdown...`);
+      retentionService.stop();
+      medicationScheduler.stop();
       server.close(() => {
         log('Server closed. Exiting process.');
         process.exit(0);
@@ -0,0 +1,111 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export const LOG_CONFIG = {
+  level: (process.env.LOG_LEVEL as LogLevel) in LEVELS ? process.env.LOG_LEVEL as LogLevel : 'info',
+  // One JSON object per line, for log shippers; readable lines otherwise
+  format: process.env.LOG_FORMAT === 'json' || (!process.env.LOG_FORMAT && process.env.NODE_ENV === 'production') ? 'json' : 'pretty',
+};
+
+// Values under these keys never reach the logs: identifying fields and the
+// free text patients type. Keys are compared lowercased without _ or -.
+const REDACTED_KEYS = new Set([
+  'name', 'firstname', 'lastname', 'fullname', 'patientname',
+  'dob', 'dateofbirth', 'birthdate',
+  'phone', 'phonenumber', 'mobile', 'email',
+  'password', 'address',
+  'symptoms', 'medicalhistory', 'followupanswers', 'answers', 'answer',
+  'message', 'prompt', 'content', 'notes', 'patientinfo',
+]);
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b/g;
+// Calendar dates such as a date of birth; full ISO timestamps are left alone
+const DATE_PATTERN = /\b(?:\d{4}-\d{2}-\d{2}(?!T\d)|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})\b/g;
+
+// Masks emails, phone numbers and dates inside free text
+export function scrubText(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, '[EMAIL]')
+    .replace(DATE_PATTERN, '[DATE]')
+    .replace(PHONE_PATTERN, '[PHONE]');
+}
+
+function isRedactedKey(key: string): boolean {
+  return REDACTED_KEYS.has(key.toLowerCase().replace(/[_-]/g, ''));
+}
+
+/**
+ * Copy of `value` that is safe to log: values under identifying or free-text
+ * keys are replaced, every other string is scrubbed, and errors are reduced
+ * to their (scrubbed) message and stack.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return scrubText(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) {
+    return { type: value.name, error: scrubText(value.message), stack: value.stack && scrubText(value.stack) };
+  }
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = isRedactedKey(key) && item !== undefined && item !== null ? REDACTED : redact(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Structured server logger. Every message and field passes through `redact`
+ * before it is written, so request bodies, patient details and AI output can
+ * be handed to it without leaking PHI. `child` tags the lines of one module.
+ */
+export class Logger {
+  constructor(private scope = 'server', private config = LOG_CONFIG) {}
+
+  child(scope: string): Logger {
+    return new Logger(scope, this.config);
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LEVELS[level] < LEVELS[this.config.level]) return;
+
+    const safeFields = fields ? redact(fields) as LogFields : {};
+    const time = new Date();
+    const output = level === 'warn' || level === 'error' ? console.error : console.log;
+
+    if (this.config.format === 'json') {
+      output(JSON.stringify({ time: time.toISOString(), level, scope: this.scope, msg: scrubText(msg), ...safeFields }));
+      return;
+    }
+
+    const clock = time.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", second: "2-digit", hour12: true });
+    const details = Object.keys(safeFields).length ? ` ${JSON.stringify(safeFields)}` : '';
+    output(`${clock} [${this.scope}] ${level.toUpperCase()} ${scrubText(msg)}${details}`);
+  }
+}
+
+export const logger = new Logger();
@@ -2,65 +2,180 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { aiService } from "./services/ai-service";
-import { insertConsultationSessionSchema, insertConversationEntrySchema } from "@shared/schema";
-import { z } from "zod";
+import { runEnhancedAnalysis } from "./services/enhanced-analysis";
+import { buildFhirBundle } from "./services/fhir-export";
+import { renderSessionReport, type ReportTemplate } from "./services/report-pdf";
+import { triageService } from "./services/triage-service";
+import { diffAnalyses, recordAnalysis } from "./services/analysis-revisions";
+import { drugInteractionService } from "./services/drug-interaction-service";
+import { promptRegistry, PROMPT_NAMES, type PromptName } from "./services/prompt-registry";
+import { llmCache } from "./services/llm-cache";
+import { requireTokenBudget, usageService, withUsageContext } from "./services/usage-service";
+import { API_CONFIG } from "./config/api-config";
+import { setupAuth, requireAdmin, requireAuth, requireModeAccess, requirePatientOwner, requireRole, requireSessionOwner } from "./auth";
+import { validateRequest } from "./validation";
+import { auditService } from "./services/audit-service";
+import { buildAnonymisedExport } from "./services/anonymise";
+import { retentionService } from "./services/retention-service";
+import { profileFromRecord, withStoredProfile } from "./services/patient-profile";
+import { isSameSymptom, recentSymptomHistory, recentSymptomTrends, symptomSeries } from "./services/symptom-trends";
+import { dueMedicationReminders, medicationScheduler, summariseAdherence } from "./services/medication-scheduler";
+import { buildMedicationCalendar } from "./services/medication-calendar";
+import { recordVitals, vitalSignsOverview } from "./services/vital-signs";
+import { logger } from "./logger";
+import {
+  accessLogQuerySchema,
+  analysisDiffQuerySchema,
+  createMedicationScheduleBodySchema,
+  analyzeBodySchema,
+  anonymisedSessionsQuerySchema,
+  auditQuerySchema,
+  createPatientBodySchema,
+  createSessionBodySchema,
+  listVitalAlertsQuerySchema,
+  listVitalsQuerySchema,
+  recordVitalsBodySchema,
+  diagnosisWithSymptomsBodySchema,
+  drugInteractionsBodySchema,
+  educationBodySchema,
+  enhancedAnalysisBodySchema,
+  exportQuerySchema,
+  generateMCQBodySchema,
+  generateQuestionsBodySchema,
+  listMedicationDosesQuerySchema,
+  listPatientsQuerySchema,
+  listSymptomsQuerySchema,
+  listSessionsQuerySchema,
+  logSymptomBodySchema,
+  medicationAdherenceQuerySchema,
+  medicationDoseParamsSchema,
+  medicationScheduleParamsSchema,
+  patientEducationBodySchema,
+  patientIdParamsSchema,
+  patientInfoSchema,
+  promptVersionParamsSchema,
+  reportQuerySchema,
+  savePatientProfileBodySchema,
+  recordDoseBodySchema,
+  submitAnswersBodySchema,
+  symptomLogEntryParamsSchema,
+  testAIQuerySchema,
+  treatmentPathwayBodySchema,
+  updateMedicationScheduleBodySchema,
+  updatePatientBodySchema,
+  updateSessionBodySchema,
+  usageQuerySchema,
+  type AccessLogQuery,
+  type AnalysisDiffQuery,
+  type AnonymisedSessionsQuery,
+  type AuditQuery,
+  type ExportQuery,
+  type ListMedicationDosesQuery,
+  type ListPatientsQuery,
+  type ListSessionsQuery,
+  type ListSymptomsQuery,
+  type ListVitalAlertsQuery,
+  type ListVitalsQuery,
+  type MedicationAdherenceQuery,
+  type MedicationDoseParams,
+  type MedicationScheduleParams,
+  type SymptomLogEntryParams,
+  type PromptVersionParams,
+  type ReportQuery,
+  type TestAIQuery,
+  type UsageQuery
+} from "@shared/api-schemas";
+
+const log = logger.child('routes');
+
+// Sessions may only be linked to the user's own patient records
+async function ownsPatient(userId: number, patientId: number | null | undefined): Promise<boolean> {
+  if (patientId == null) return true;
+  const patient = await storage.getPatient(patientId);
+  return patient?.userId === userId;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Create new consultation session
-  app.post("/api/sessions", async (req, res) => {
+  // Login cookies and /api/register, /api/login, /api/logout, /api/user
+  setupAuth(app);
+
+  // Attribute LLM calls (tokens, cost) to the logged-in user and session
+  app.use(withUsageContext);
+
+  // Create new consultation session, owned by the logged-in user
+  app.post("/api/sessions", auditService.session('create'), requireModeAccess, validateRequest({ body: createSessionBodySchema }), async (req, res) => {
     try {
-      console.log('[POST /api/sessions] Request body:', JSON.stringify(req.body, null, 2));
-      
-      // Validate required fields
-      if (!req.body.sessionId || !req.body.mode) {
-        console.log('[POST /api/sessions] Missing required fields:', { sessionId: req.body.sessionId, mode: req.body.mode });
-        return res.status(400).json({ 
-          error: "Missing required fields: sessionId and mode are required",
-          received: req.body 
-        });
-      }
+      const sessionData = { ...req.body, userId: req.user!.id };
 
-      const sessionData = insertConsultationSessionSchema.parse(req.body);
-      console.log('[POST /api/sessions] Validated session data:', sessionData);
+      // Session IDs are client-generated; never let one user take over another's
+      const existingSession = await storage.getSession(sessionData.sessionId);
+      if (existingSession && existingSession.userId !== req.user!.id) {
+        return res.status(409).json({ error: "Session ID already in use" });
+      }
+      if (!(await ownsPatient(req.user!.id, sessionData.patientId))) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
       
       const session = await storage.createSession(sessionData);
-      console.log('[POST /api/sessions] Created session:', session);
+      log.info('[POST /api/sessions] Created session', { sessionId: session.sessionId, mode: session.mode });
       
       res.json(session);
     } catch (error) {
-      console.error('[POST /api/sessions] Error:', error);
-      
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          error: "Invalid session data", 
-          details: error.errors,
-          received: req.body
-        });
-      }
-      
+      log.error('[POST /api/sessions] Error', { error });
       res.status(500).json({ error: "Failed to create session" });
     }
   });
 
+  // List the logged-in user's sessions, newest first
+  app.get("/api/sessions", auditService.session('list'), requireAuth, validateRequest({ query: listSessionsQuerySchema }), async (req, res) => {
+    try {
+      const { q, ...filters } = res.locals.query as ListSessionsQuery;
+      const { sessions, total } = await storage.listSessions({
+        ...filters,
+        search: q,
+        userId: req.user!.id,
+      });
+
+      // Attach the top diagnoses so the history list can show them without extra requests
+      const sessionsWithDiagnoses = await Promise.all(sessions.map(async (session) => {
+        const sessionDiagnoses = await storage.getDiagnosesBySession(session.sessionId);
+        return {
+          ...session,
+          topDiagnoses: sessionDiagnoses
+            .sort((a, b) => (b.confidence || 0) - (a.confidence || 0))
+            .slice(0, 3)
+            .map(({ name, confidence }) => ({ name, confidence })),
+        };
+      }));
+
+      res.json({
+        sessions: sessionsWithDiagnoses,
+        total,
+        page: filters.page,
+        pageSize: filters.pageSize,
+      });
+    } catch (error) {
+      log.error('[GET /api/sessions] Error', { error });
+      res.status(500).json({ error: "Failed to list sessions" });
+    }
+  });
+
   // Get session by ID
-  app.get("/api/sessions/:sessionId", async (req, res) => {
+  app.get("/api/sessions/:sessionId", auditService.session('read'), requireSessionOwner, async (req, res) => {
     try {
-      const session = await storage.getSession(req.params.sessionId);
-      if (!session) {
-        return res.status(404).json({ error: "Session not found" });
-      }
-      res.json(session);
+      res.json(res.locals.consultationSession);
     } catch (error) {
       res.status(500).json({ error: "Failed to retrieve session" });
     }
   });
 
-  // Update session
-  app.patch("/api/sessions/:sessionId", async (req, res) => {
+  // Update session; only the fields in updateSessionBodySchema can be changed
+  app.patch("/api/sessions/:sessionId", auditService.session('update'), requireModeAccess, validateRequest({ body: updateSessionBodySchema }), requireSessionOwner, async (req, res) => {
     try {
-      const updates = req.body;
-      const session = await storage.updateSession(req.params.sessionId, updates);
+      if (!(await ownsPatient(req.user!.id, req.body.patientId))) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      const session = await storage.updateSession(req.params.sessionId, req.body);
       if (!session) {
         return res.status(404).json({ error: "Session not found" });
       }
@@ -70,28 +185,371 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Right to erasure: removes the session and everything stored for it. The
+  // audit log keeps its entries (including this deletion).
+  app.delete("/api/sessions/:sessionId", auditService.session('delete'), requireSessionOwner, async (req, res) => {
+    try {
+      await storage.deleteSession(req.params.sessionId);
+      res.status(204).end();
+    } catch (error) {
+      log.error('[DELETE /api/sessions/:sessionId] Error', { sessionId: req.params.sessionId, error });
+      res.status(500).json({ error: "Failed to delete session" });
+    }
+  });
+
+  // Structured patient profile (medications, allergies, conditions...) for the session
+  app.get("/api/sessions/:sessionId/profile", auditService.session('read'), requireSessionOwner, async (req, res) => {
+    try {
+      const profile = await storage.getPatientProfile(req.params.sessionId);
+      if (!profile) {
+        return res.status(404).json({ error: "Patient profile not found" });
+      }
+      res.json(profileFromRecord(profile));
+    } catch (error) {
+      log.error('[GET /api/sessions/:sessionId/profile] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve patient profile" });
+    }
+  });
+
+  // Replaces the whole profile; fields left out are cleared
+  app.put("/api/sessions/:sessionId/profile", auditService.session('update'), requireModeAccess, validateRequest({ body: savePatientProfileBodySchema }), requireSessionOwner, async (req, res) => {
+    try {
+      const profile = await storage.savePatientProfile({ ...req.body, sessionId: req.params.sessionId });
+      res.json(profileFromRecord(profile));
+    } catch (error) {
+      log.error('[PUT /api/sessions/:sessionId/profile] Error', { error });
+      res.status(500).json({ error: "Failed to save patient profile" });
+    }
+  });
+
+  // Patient records kept by the logged-in user, most recently updated first
+  app.get("/api/patients", auditService.patient('list'), requireAuth, validateRequest({ query: listPatientsQuerySchema }), async (req, res) => {
+    try {
+      const { q, ...paging } = res.locals.query as ListPatientsQuery;
+      const { patients, total } = await storage.listPatients({ ...paging, search: q, userId: req.user!.id });
+      res.json({ patients, total, page: paging.page, pageSize: paging.pageSize });
+    } catch (error) {
+      log.error('[GET /api/patients] Error', { error });
+      res.status(500).json({ error: "Failed to list patients" });
+    }
+  });
+
+  app.post("/api/patients", auditService.patient('create'), requireAuth, validateRequest({ body: createPatientBodySchema }), async (req, res) => {
+    try {
+      const patient = await storage.createPatient({
+        userId: req.user!.id,
+        patientInfo: req.body.patientInfo,
+        profile: req.body.profile ?? null,
+      });
+      res.status(201).json(patient);
+    } catch (error) {
+      log.error('[POST /api/patients] Error', { error });
+      res.status(500).json({ error: "Failed to create patient" });
+    }
+  });
+
+  app.get("/api/patients/:patientId", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema }), requirePatientOwner, (req, res) => {
+    res.json(res.locals.patient);
+  });
+
+  // Only the fields sent are changed; `profile: null` clears the profile
+  app.patch("/api/patients/:patientId", auditService.patient('update'), validateRequest({ params: patientIdParamsSchema, body: updatePatientBodySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const patient = await storage.updatePatient(res.locals.patient.id, req.body);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      log.error('[PATCH /api/patients/:patientId] Error', { error });
+      res.status(500).json({ error: "Failed to update patient" });
+    }
+  });
+
+  // Linked sessions are kept and become one-off consultations
+  app.delete("/api/patients/:patientId", auditService.patient('delete'), validateRequest({ params: patientIdParamsSchema }), requirePatientOwner, async (req, res) => {
+    try {
+      await storage.deletePatient(res.locals.patient.id);
+      res.status(204).end();
+    } catch (error) {
+      log.error('[DELETE /api/patients/:patientId] Error', { error });
+      res.status(500).json({ error: "Failed to delete patient" });
+    }
+  });
+
+  // Every consultation linked to the patient, newest first, with its
+  // diagnoses and clinical alerts
+  app.get("/api/patients/:patientId/timeline", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const sessions = await storage.listPatientSessions(res.locals.patient.id);
+      const timeline = await Promise.all(sessions.reverse().map(async (session) => {
+        const [sessionDiagnoses, alerts] = await Promise.all([
+          storage.getDiagnosesBySession(session.sessionId),
+          storage.getClinicalAlerts(session.sessionId),
+        ]);
+        return {
+          sessionId: session.sessionId,
+          mode: session.mode,
+          createdAt: session.createdAt,
+          symptoms: session.symptoms,
+          diagnoses: sessionDiagnoses.sort((a, b) => (b.confidence || 0) - (a.confidence || 0)),
+          alerts,
+        };
+      }));
+      res.json({ patient: res.locals.patient, sessions: timeline });
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/timeline] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve patient timeline" });
+    }
+  });
+
+  // Symptom diary: severity (0-10) of each symptom over time
+  app.post("/api/patients/:patientId/symptoms", auditService.patient('update'), validateRequest({ params: patientIdParamsSchema, body: logSymptomBodySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { symptom, severity, recordedAt, notes } = req.body;
+      const entry = await storage.addSymptomLog({
+        patientId: res.locals.patient.id,
+        symptom,
+        severity,
+        recordedAt: recordedAt ?? new Date(),
+        notes: notes || null,
+      });
+      res.status(201).json(entry);
+    } catch (error) {
+      log.error('[POST /api/patients/:patientId/symptoms] Error', { error });
+      res.status(500).json({ error: "Failed to log symptom" });
+    }
+  });
+
+  // Entries as one time series per symptom, plus the trend of each symptom
+  // logged in the last two weeks (worsening, improving, new onset, stable)
+  app.get("/api/patients/:patientId/symptoms", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema, query: listSymptomsQuerySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { from, to, symptom } = res.locals.query as ListSymptomsQuery;
+      const patientId = res.locals.patient.id;
+      const [entries, trends] = await Promise.all([
+        storage.listSymptomLogs({ patientId, from, to }),
+        recentSymptomTrends(patientId),
+      ]);
+      const matches = (name: string) => !symptom || isSameSymptom(name, symptom);
+      res.json({
+        series: symptomSeries(entries.filter((entry) => matches(entry.symptom))),
+        trends: trends.filter((trend) => matches(trend.symptom)),
+      });
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/symptoms] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve symptom log" });
+    }
+  });
+
+  app.delete("/api/patients/:patientId/symptoms/:entryId", auditService.patient('update'), validateRequest({ params: symptomLogEntryParamsSchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { entryId } = res.locals.params as SymptomLogEntryParams;
+      if (!(await storage.deleteSymptomLog(entryId, res.locals.patient.id))) {
+        return res.status(404).json({ error: "Symptom log entry not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      log.error('[DELETE /api/patients/:patientId/symptoms/:entryId] Error', { error });
+      res.status(500).json({ error: "Failed to delete symptom log entry" });
+    }
+  });
+
+  // Medication schedules of a patient record. The medication scheduler
+  // creates each dose shortly before it is due; doses are then marked taken
+  // or skipped, or become missed when nobody answers
+  app.get("/api/patients/:patientId/medication-schedules", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema }), requirePatientOwner, async (req, res) => {
+    try {
+      res.json(await storage.listMedicationSchedules({ patientId: res.locals.patient.id }));
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/medication-schedules] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve medication schedules" });
+    }
+  });
+
+  app.post("/api/patients/:patientId/medication-schedules", auditService.patient('update'), validateRequest({ params: patientIdParamsSchema, body: createMedicationScheduleBodySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { drug, dose, instructions, times, timeZone, startDate, endDate } = req.body;
+      const schedule = await storage.createMedicationSchedule({
+        patientId: res.locals.patient.id,
+        drug,
+        dose,
+        instructions: instructions || null,
+        times,
+        timeZone,
+        startDate,
+        endDate: endDate ?? null,
+      });
+      await medicationScheduler.materialise(schedule);
+      res.status(201).json(schedule);
+    } catch (error) {
+      log.error('[POST /api/patients/:patientId/medication-schedules] Error', { error });
+      res.status(500).json({ error: "Failed to create medication schedule" });
+    }
+  });
+
+  // Changing the times, dates or time zone replaces the upcoming doses;
+  // answered and past doses are kept
+  app.patch("/api/patients/:patientId/medication-schedules/:scheduleId", auditService.patient('update'), validateRequest({ params: medicationScheduleParamsSchema, body: updateMedicationScheduleBodySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { scheduleId } = res.locals.params as MedicationScheduleParams;
+      const existing = await storage.getMedicationSchedule(scheduleId);
+      if (!existing || existing.patientId !== res.locals.patient.id) {
+        return res.status(404).json({ error: "Medication schedule not found" });
+      }
+
+      const updates = req.body;
+      const endDate = updates.endDate === undefined ? existing.endDate : updates.endDate;
+      if (endDate && endDate < (updates.startDate ?? existing.startDate)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          details: [{ code: "custom", path: ["body", "endDate"], message: "Cannot end before it starts" }]
+        });
+      }
+
+      const schedule = (await storage.updateMedicationSchedule(scheduleId, updates))!;
+      if (['times', 'timeZone', 'startDate', 'endDate'].some((field) => field in updates)) {
+        await medicationScheduler.reschedule(schedule);
+      }
+      res.json(schedule);
+    } catch (error) {
+      log.error('[PATCH /api/patients/:patientId/medication-schedules/:scheduleId] Error', { error });
+      res.status(500).json({ error: "Failed to update medication schedule" });
+    }
+  });
+
+  // Removes the schedule with its dose history; set an end date to stop it
+  // and keep the history instead
+  app.delete("/api/patients/:patientId/medication-schedules/:scheduleId", auditService.patient('update'), validateRequest({ params: medicationScheduleParamsSchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { scheduleId } = res.locals.params as MedicationScheduleParams;
+      if (!(await storage.deleteMedicationSchedule(scheduleId, res.locals.patient.id))) {
+        return res.status(404).json({ error: "Medication schedule not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      log.error('[DELETE /api/patients/:patientId/medication-schedules/:scheduleId] Error', { error });
+      res.status(500).json({ error: "Failed to delete medication schedule" });
+    }
+  });
+
+  app.get("/api/patients/:patientId/medication-doses", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema, query: listMedicationDosesQuerySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { from, to, status, scheduleId } = res.locals.query as ListMedicationDosesQuery;
+      res.json(await storage.listMedicationDoses({ patientId: res.locals.patient.id, scheduleId, from, to, status }));
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/medication-doses] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve medication doses" });
+    }
+  });
+
+  // Mark a dose taken or skipped; a missed dose can still be marked late
+  app.patch("/api/patients/:patientId/medication-doses/:doseId", auditService.patient('update'), validateRequest({ params: medicationDoseParamsSchema, body: recordDoseBodySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { doseId } = res.locals.params as MedicationDoseParams;
+      const { status, recordedAt } = req.body;
+      const dose = await storage.recordMedicationDose(doseId, res.locals.patient.id, { status, recordedAt: recordedAt ?? new Date() });
+      if (!dose) {
+        return res.status(404).json({ error: "Medication dose not found" });
+      }
+      res.json(dose);
+    } catch (error) {
+      log.error('[PATCH /api/patients/:patientId/medication-doses/:doseId] Error', { error });
+      res.status(500).json({ error: "Failed to record medication dose" });
+    }
+  });
+
+  // Taken, skipped and missed doses over the last `days` days, overall and per schedule
+  app.get("/api/patients/:patientId/medication-adherence", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema, query: medicationAdherenceQuerySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { days } = res.locals.query as MedicationAdherenceQuery;
+      const patientId = res.locals.patient.id;
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      const [schedules, doses] = await Promise.all([
+        storage.listMedicationSchedules({ patientId }),
+        storage.listMedicationDoses({ patientId, from, to }),
+      ]);
+      res.json(summariseAdherence(schedules, doses, from, to));
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/medication-adherence] Error', { error });
+      res.status(500).json({ error: "Failed to calculate medication adherence" });
+    }
+  });
+
+  // iCalendar file with a recurring event and alarm per dose time
+  app.get("/api/patients/:patientId/medications.ics", auditService.patient('export'), validateRequest({ params: patientIdParamsSchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const patient = res.locals.patient;
+      const schedules = await storage.listMedicationSchedules({ patientId: patient.id });
+      const patientName = (patient.patientInfo as { name?: string }).name ?? 'Patient';
+      const calendar = buildMedicationCalendar(patientName, schedules);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="medications-${patient.id}.ics"`);
+      res.send(calendar);
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/medications.ics] Error', { error });
+      res.status(500).json({ error: "Failed to export medication calendar" });
+    }
+  });
+
+  // Doses of all the user's patients that are due now and not yet answered;
+  // the client polls this to show reminders
+  app.get("/api/medication-reminders", auditService.patient('list'), requireAuth, async (req, res) => {
+    try {
+      res.json({ reminders: await dueMedicationReminders(req.user!.id) });
+    } catch (error) {
+      log.error('[GET /api/medication-reminders] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve medication reminders" });
+    }
+  });
+
+  // One reading or a batch; units are normalised during validation. Readings
+  // outside the patient's ranges or changing too quickly raise clinical alerts.
+  app.post("/api/patients/:patientId/vitals", auditService.patient('update'), validateRequest({ params: patientIdParamsSchema, body: recordVitalsBodySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      res.status(201).json(await recordVitals(res.locals.patient, req.body.readings));
+    } catch (error) {
+      log.error('[POST /api/patients/:patientId/vitals] Error', { error });
+      res.status(500).json({ error: "Failed to record vital signs" });
+    }
+  });
+
+  // One time series per vital, with its latest reading and normal range
+  app.get("/api/patients/:patientId/vitals", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema, query: listVitalsQuerySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      res.json(await vitalSignsOverview(res.locals.patient, res.locals.query as ListVitalsQuery));
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/vitals] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve vital signs" });
+    }
+  });
+
+  // Alerts raised by vital readings, newest first
+  app.get("/api/patients/:patientId/vital-alerts", auditService.patient('read'), validateRequest({ params: patientIdParamsSchema, query: listVitalAlertsQuerySchema }), requirePatientOwner, async (req, res) => {
+    try {
+      const { from, to } = res.locals.query as ListVitalAlertsQuery;
+      res.json({ alerts: await storage.listVitalAlerts({ patientId: res.locals.patient.id, from, to }) });
+    } catch (error) {
+      log.error('[GET /api/patients/:patientId/vital-alerts] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve vital sign alerts" });
+    }
+  });
+
   // Generate follow-up questions based on initial symptoms
-  app.post("/api/generate-questions", async (req, res) => {
+  app.post("/api/generate-questions", auditService.session('update'), requireModeAccess, validateRequest({ body: generateQuestionsBodySchema }), requireSessionOwner, requireTokenBudget, async (req, res) => {
     try {
-      const { symptoms, mode, sessionId, patientInfo, questionType } = req.body;
+      const { symptoms, mode, sessionId, questionType } = req.body;
+      const patientInfo = await withStoredProfile(sessionId, req.body.patientInfo);
       
-      // Debug logging
-      console.log('Generate questions request body:', {
-        symptoms: symptoms ? `[${symptoms.length} chars]` : 'undefined',
+      log.debug('Generate questions request', {
+        symptomsLength: symptoms.length,
         mode,
         sessionId,
-        patientInfo: patientInfo ? 'provided' : 'undefined',
+        hasPatientInfo: !!patientInfo,
         questionType
       });
-      
-      if (!symptoms || !mode || !sessionId) {
-        console.log('Missing required fields:', { 
-          hasSymptoms: !!symptoms, 
-          hasMode: !!mode, 
-          hasSessionId: !!sessionId 
-        });
-        return res.status(400).json({ error: "Missing required fields" });
-      }
 
       // Add user message to conversation
       await storage.addConversationEntry({
@@ -110,7 +568,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           followUpMCQs = await aiService.generateFollowUpMCQs(symptoms, 'initial_assessment', mode);
           questions = []; // No text questions for MCQ mode
         } catch (error) {
-          console.error('Error generating follow-up MCQs:', error);
+          log.error('Error generating follow-up MCQs', { error });
           // Fallback to text questions if MCQ generation fails
           questions = await aiService.generateFollowUpQuestions(symptoms, mode, patientInfo);
         }
@@ -119,10 +577,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         questions = await aiService.generateFollowUpQuestions(symptoms, mode, patientInfo);
       }
 
-      // Update session with initial symptoms
+      // Update session with initial symptoms; the profile is stored on its own
       await storage.updateSession(sessionId, {
         symptoms,
-        patientInfo: patientInfo || undefined
+        // Left out when none was sent so the stored details are kept
+        ...(req.body.patientInfo && { patientInfo: patientInfoSchema.parse(req.body.patientInfo) }),
       });
 
       // Add AI response to conversation
@@ -137,19 +596,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         followUpMCQs: followUpMCQs.length > 0 ? followUpMCQs : undefined 
       });
     } catch (error) {
-      console.error('Question generation error:', error);
+      log.error('Question generation error', { error });
       res.status(500).json({ error: "Failed to generate follow-up questions. Please check AI service connectivity." });
     }
   });
 
   // Analyze symptoms with additional information from follow-up questions
-  app.post("/api/analyze", async (req, res) => {
+  app.post("/api/analyze", auditService.session('update'), requireModeAccess, validateRequest({ body: analyzeBodySchema }), requireSessionOwner, requireTokenBudget, async (req, res) => {
     try {
-      const { symptoms, mode, sessionId, patientInfo, followUpAnswers } = req.body;
-      
-      if (!symptoms || !mode || !sessionId) {
-        return res.status(400).json({ error: "Missing required fields" });
-      }
+      const { symptoms, mode, sessionId, followUpAnswers, bypassCache } = req.body;
+      const patientInfo = await withStoredProfile(sessionId, req.body.patientInfo);
+      const symptomHistory = await recentSymptomHistory(res.locals.consultationSession.patientId);
 
       // Combine initial symptoms with follow-up answers for comprehensive analysis
       const comprehensiveSymptoms = followUpAnswers 
@@ -165,13 +622,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Perform comprehensive AI analysis
-      const analysis = await aiService.analyzeSymptoms(comprehensiveSymptoms, mode, patientInfo);
+      // Rule-based triage runs before the AI; critical red flags skip it entirely
+      const inputs = { mode, symptoms, followUpAnswers, patientInfo, symptomHistory };
+      const triage = triageService.assess(symptoms, followUpAnswers);
+      if (triage.shortCircuit) {
+        const emergency = await recordAnalysis({
+          sessionId,
+          trigger: 'analyze',
+          inputs,
+          analysis: triageService.buildEmergencyAnalysis(triage),
+          symptoms: comprehensiveSymptoms
+        });
+        await storage.addConversationEntry({
+          sessionId,
+          type: 'ai',
+          message: `Emergency warning signs detected: ${emergency.redFlags.join('; ')}`
+        });
+        return res.json(emergency);
+      }
 
-      // Update session with analysis
-      await storage.updateSession(sessionId, {
-        symptoms: comprehensiveSymptoms,
-        aiAnalysis: analysis
+      // Perform comprehensive AI analysis and store it (with its diagnoses) as a new revision
+      const analysis = await recordAnalysis({
+        sessionId,
+        trigger: 'analyze',
+        inputs,
+        analysis: {
+          ...(await aiService.analyzeSymptoms(comprehensiveSymptoms, mode, patientInfo, {
+            bucketKey: sessionId,
+            bypassCache: bypassCache === true,
+            symptomHistory
+          })),
+          triage
+        },
+        symptoms: comprehensiveSymptoms
       });
 
       // Add AI response to conversation
@@ -181,219 +664,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: 'Provided comprehensive differential diagnoses and recommendations'
       });
 
-      // Store individual diagnoses
-      for (const diagnosis of analysis.diagnoses) {
-        await storage.createDiagnosis({
-          sessionId,
-          name: diagnosis.name,
-          description: diagnosis.description,
-          confidence: diagnosis.confidence,
-          category: diagnosis.category,
-          redFlags: diagnosis.redFlags,
-          recommendedTests: diagnosis.recommendedTests
-        });
-      }
-
       res.json(analysis);
     } catch (error) {
-      console.error('Analysis error:', error);
+      log.error('Analysis error', { error });
       res.status(500).json({ error: "Failed to analyze symptoms. Please check AI service connectivity." });
     }
   });
 
   // Enhanced Analysis with MCQ and additional features
-  app.post("/api/enhanced-analysis", async (req, res) => {
+  app.post("/api/enhanced-analysis", auditService.session('update'), requireModeAccess, validateRequest({ body: enhancedAnalysisBodySchema }), requireSessionOwner, requireTokenBudget, async (req, res) => {
     try {
-      const { symptoms, mode, sessionId, patientInfo, followUpAnswers } = req.body;
-      
-      if (!symptoms || !mode || !sessionId) {
-        return res.status(400).json({ error: "Missing required fields" });
-      }
-
-      // Combine initial symptoms with follow-up answers for comprehensive analysis
-      const comprehensiveSymptoms = followUpAnswers 
-        ? `${symptoms}\n\nAdditional Information:\n${followUpAnswers.map((qa: any) => `Q: ${qa.question}\nA: ${qa.answer}`).join('\n\n')}`
-        : symptoms;
-
-      // Perform basic analysis
-      const analysis = await aiService.analyzeSymptoms(comprehensiveSymptoms, mode, patientInfo);
-      
-      let enhancedResult: any = { analysis };
-
-      // Get primary diagnosis for enhanced features
-      const primaryDiagnosis = analysis.diagnoses[0]?.name || comprehensiveSymptoms;
-
-      try {
-        // Generate follow-up MCQs for all users
-        try {
-          const followUpMCQs = await aiService.generateFollowUpMCQs(comprehensiveSymptoms, primaryDiagnosis, mode);
-          enhancedResult.followUpMCQs = followUpMCQs;
-        } catch (error) {
-          console.error('Error generating follow-up MCQs:', error);
-          // Continue without follow-up MCQs
-        }
-
-        // Generate MCQ questions for patients
-        if (mode === 'patient') {
-          try {
-            const mcqQuestions = await aiService.generateMCQQuestions(comprehensiveSymptoms, mode, primaryDiagnosis);
-            enhancedResult.mcqQuestions = mcqQuestions;
-          } catch (error) {
-            console.error('MCQ generation error:', error);
-            // Continue without MCQ questions
-          }
-
-          const patientEducation = await aiService.generatePatientEducation(
-            primaryDiagnosis, 
-            patientInfo?.educationLevel || 'general',
-            patientInfo?.language || 'english'
-          );
-          enhancedResult.patientEducation = patientEducation;
-        }
-
-        // Enhanced features for doctors
-        if (mode === 'doctor') {
-          const [treatmentPathway, riskAssessment, clinicalAlerts] = await Promise.all([
-            aiService.generateTreatmentPathway(primaryDiagnosis, patientInfo),
-            aiService.performRiskStratification(primaryDiagnosis, patientInfo),
-            aiService.generateClinicalAlerts(primaryDiagnosis, patientInfo, comprehensiveSymptoms)
-          ]);
-
-          enhancedResult.treatmentPathway = treatmentPathway;
-          enhancedResult.riskAssessment = riskAssessment;
-          enhancedResult.clinicalAlerts = clinicalAlerts;
-        }
-      } catch (enhancedError) {
-        console.error('Enhanced features error (non-blocking):', enhancedError);
-        // Continue with basic analysis even if enhanced features fail
-      }
+      const { symptoms, mode, sessionId, followUpAnswers, bypassCache } = req.body;
+      const patientInfo = await withStoredProfile(sessionId, req.body.patientInfo);
+      const symptomHistory = await recentSymptomHistory(res.locals.consultationSession.patientId);
 
-      // Update session with enhanced analysis
-      await storage.updateSession(sessionId, {
-        symptoms: comprehensiveSymptoms,
-        aiAnalysis: analysis
+      const enhancedResult = await runEnhancedAnalysis({
+        symptoms, mode, sessionId, patientInfo, symptomHistory, followUpAnswers, bypassCache: bypassCache === true
       });
-
-      // Store individual diagnoses
-      for (const diagnosis of analysis.diagnoses) {
-        await storage.createDiagnosis({
-          sessionId,
-          name: diagnosis.name,
-          description: diagnosis.description,
-          confidence: diagnosis.confidence,
-          category: diagnosis.category,
-          redFlags: diagnosis.redFlags,
-          recommendedTests: diagnosis.recommendedTests
-        });
-      }
-
       res.json(enhancedResult);
     } catch (error) {
-      console.error('Enhanced analysis error:', error);
+      log.error('Enhanced analysis error', { error });
       res.status(500).json({ error: "Failed to perform enhanced analysis. Please check AI service connectivity." });
     }
   });
 
+  // Streaming variant of enhanced analysis: each piece is sent as a server-sent
+  // event as soon as it is ready, followed by a final "done" event.
+  app.post("/api/enhanced-analysis/stream", auditService.session('update'), requireModeAccess, validateRequest({ body: enhancedAnalysisBodySchema }), requireSessionOwner, requireTokenBudget, async (req, res) => {
+    const { symptoms, mode, sessionId, followUpAnswers, bypassCache } = req.body;
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // req's 'close' fires once the body has been read, so watch the response:
+    // it closes before end() only when the client went away
+    let clientClosed = false;
+    res.on('close', () => {
+      if (!res.writableEnded) clientClosed = true;
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (clientClosed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const patientInfo = await withStoredProfile(sessionId, req.body.patientInfo);
+      const symptomHistory = await recentSymptomHistory(res.locals.consultationSession.patientId);
+      await runEnhancedAnalysis(
+        { symptoms, mode, sessionId, patientInfo, symptomHistory, followUpAnswers, bypassCache: bypassCache === true },
+        (event) => sendEvent(event.type, event.data)
+      );
+    } catch (error) {
+      log.error('Enhanced analysis stream error', { error });
+      sendEvent('error', { error: "Failed to perform enhanced analysis. Please check AI service connectivity." });
+    } finally {
+      res.end();
+    }
+  });
+
+  // Treatment pathways, risk stratification and clinical alerts are
+  // clinician-facing output, as in doctor mode
+  const clinicianOnly = requireRole('healthcare_professional');
+
   // Generate MCQ Questions
-  app.post("/api/generate-mcq", async (req, res) => {
+  app.post("/api/generate-mcq", requireAuth, validateRequest({ body: generateMCQBodySchema }), requireTokenBudget, async (req, res) => {
     try {
-      const { diagnosis, patientInfo, mode } = req.body;
-      
-      if (!diagnosis) {
-        return res.status(400).json({ error: "Diagnosis is required" });
-      }
+      const { diagnosis, patientInfo } = req.body;
 
       const questions = await aiService.generateMCQQuestions(diagnosis, patientInfo);
       res.json({ questions });
     } catch (error) {
-      console.error('MCQ generation error:', error);
+      log.error('MCQ generation error', { error });
       res.status(500).json({ error: "Failed to generate MCQ questions" });
     }
   });
 
   // Get Treatment Pathway
-  app.post("/api/treatment-pathway", async (req, res) => {
+  app.post("/api/treatment-pathway", clinicianOnly, validateRequest({ body: treatmentPathwayBodySchema }), requireTokenBudget, async (req, res) => {
     try {
       const { diagnosis, patientInfo } = req.body;
-      
-      if (!diagnosis) {
-        return res.status(400).json({ error: "Diagnosis is required" });
-      }
 
       const pathway = await aiService.generateTreatmentPathway(diagnosis, patientInfo);
       res.json(pathway);
     } catch (error) {
-      console.error('Treatment pathway error:', error);
+      log.error('Treatment pathway error', { error });
       res.status(500).json({ error: "Failed to generate treatment pathway" });
     }
   });
 
   // Get Risk Assessment
-  app.post("/api/risk-assessment", async (req, res) => {
+  app.post("/api/risk-assessment", clinicianOnly, validateRequest({ body: diagnosisWithSymptomsBodySchema }), requireTokenBudget, async (req, res) => {
     try {
-      const { diagnosis, symptoms, patientInfo } = req.body;
-      
-      if (!diagnosis || !symptoms) {
-        return res.status(400).json({ error: "Diagnosis and symptoms are required" });
-      }
+      const { diagnosis, patientInfo } = req.body;
 
       const assessment = await aiService.performRiskStratification(diagnosis, patientInfo);
       res.json(assessment);
     } catch (error) {
-      console.error('Risk assessment error:', error);
+      log.error('Risk assessment error', { error });
       res.status(500).json({ error: "Failed to perform risk assessment" });
     }
   });
 
   // Get Patient Education
-  app.post("/api/patient-education", async (req, res) => {
+  app.post("/api/patient-education", requireAuth, validateRequest({ body: patientEducationBodySchema }), requireTokenBudget, async (req, res) => {
     try {
       const { diagnosis, educationLevel, language } = req.body;
-      
-      if (!diagnosis) {
-        return res.status(400).json({ error: "Diagnosis is required" });
-      }
 
-      const education = await aiService.generatePatientEducation(
-        diagnosis, 
-        educationLevel || 'general',
-        language || 'english'
-      );
+      const education = await aiService.generatePatientEducation(diagnosis, educationLevel, language);
       res.json(education);
     } catch (error) {
-      console.error('Patient education error:', error);
+      log.error('Patient education error', { error });
       res.status(500).json({ error: "Failed to generate patient education" });
     }
   });
 
   // Get Clinical Alerts
-  app.post("/api/clinical-alerts", async (req, res) => {
+  app.post("/api/clinical-alerts", clinicianOnly, validateRequest({ body: diagnosisWithSymptomsBodySchema }), requireTokenBudget, async (req, res) => {
     try {
       const { diagnosis, symptoms, patientInfo } = req.body;
-      
-      if (!diagnosis || !symptoms) {
-        return res.status(400).json({ error: "Diagnosis and symptoms are required" });
-      }
 
       const alerts = await aiService.generateClinicalAlerts(diagnosis, patientInfo, symptoms);
       res.json(alerts);
     } catch (error) {
-      console.error('Clinical alerts error:', error);
+      log.error('Clinical alerts error', { error });
       res.status(500).json({ error: "Failed to generate clinical alerts" });
     }
   });
 
+  // Check medications against the local interaction dataset, then have the AI explain the findings
+  app.post("/api/drug-interactions", requireModeAccess, validateRequest({ body: drugInteractionsBodySchema }), requireTokenBudget, async (req, res) => {
+    try {
+      const { mode, ...input } = req.body;
+      const report = await drugInteractionService.assess({
+        ...input,
+        audience: mode === 'doctor' ? 'doctor' : 'patient',
+      });
+      res.json(report);
+    } catch (error) {
+      log.error('Drug interaction check error', { error });
+      res.status(500).json({ error: "Failed to check drug interactions" });
+    }
+  });
+
   // Get conversation history
-  app.get("/api/sessions/:sessionId/conversation", async (req, res) => {
+  app.get("/api/sessions/:sessionId/conversation", auditService.session('read'), requireSessionOwner, async (req, res) => {
     try {
-      console.log('[GET /api/sessions/:sessionId/conversation] SessionId:', req.params.sessionId);
-      
       const history = await storage.getConversationHistory(req.params.sessionId);
-      console.log('[GET /api/sessions/:sessionId/conversation] Found history entries:', history.length);
-      
+
       res.json(history);
     } catch (error) {
-      console.error('[GET /api/sessions/:sessionId/conversation] Error:', error);
+      log.error('[GET /api/sessions/:sessionId/conversation] Error', { error });
       res.status(500).json({ 
         error: "Failed to retrieve conversation history",
         details: error instanceof Error ? error.message : String(error)
@@ -402,7 +826,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get diagnoses for session
-  app.get("/api/sessions/:sessionId/diagnoses", async (req, res) => {
+  app.get("/api/sessions/:sessionId/diagnoses", auditService.session('read'), requireSessionOwner, async (req, res) => {
     try {
       const diagnoses = await storage.getDiagnosesBySession(req.params.sessionId);
       res.json(diagnoses);
@@ -411,15 +835,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export session data
-  app.get("/api/sessions/:sessionId/export", async (req, res) => {
+  // Every stored analysis of the session, oldest first
+  app.get("/api/sessions/:sessionId/analyses", auditService.session('read'), requireSessionOwner, async (req, res) => {
+    try {
+      const revisions = await storage.listAnalysisRevisions(req.params.sessionId);
+      res.json(revisions);
+    } catch (error) {
+      log.error('[GET /api/sessions/:sessionId/analyses] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve analyses" });
+    }
+  });
+
+  // What changed between two revisions; defaults to the latest against the one before it
+  app.get("/api/sessions/:sessionId/analyses/diff", auditService.session('read'), validateRequest({ query: analysisDiffQuerySchema }), requireSessionOwner, async (req, res) => {
+    try {
+      const query = res.locals.query as AnalysisDiffQuery;
+      const revisions = await storage.listAnalysisRevisions(req.params.sessionId);
+      const to = query.to ?? revisions[revisions.length - 1]?.revision;
+      const from = query.from ?? (to !== undefined ? to - 1 : undefined);
+
+      const fromRevision = revisions.find((revision) => revision.revision === from);
+      const toRevision = revisions.find((revision) => revision.revision === to);
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ error: "Analysis revisions not found" });
+      }
+
+      res.json(diffAnalyses(fromRevision, toRevision));
+    } catch (error) {
+      log.error('[GET /api/sessions/:sessionId/analyses/diff] Error', { error });
+      res.status(500).json({ error: "Failed to compare analyses" });
+    }
+  });
+
+  // Tokens, cost and latency of every LLM call made for the consultation
+  app.get("/api/sessions/:sessionId/usage", auditService.session('read'), requireSessionOwner, async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const [summary, calls] = await Promise.all([
+        storage.summarizeLLMUsage({ sessionId }),
+        storage.listLLMUsage(sessionId),
+      ]);
+      res.json({ sessionId, ...summary, calls });
+    } catch (error) {
+      log.error('[GET /api/sessions/:sessionId/usage] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve usage" });
+    }
+  });
+
+  // Who has opened, exported or changed the consultation, newest first; the
+  // client IP stays in the admin audit trail
+  app.get("/api/sessions/:sessionId/access-log", auditService.session('read'), validateRequest({ query: accessLogQuerySchema }), requireSessionOwner, async (req, res) => {
+    try {
+      const query = res.locals.query as AccessLogQuery;
+      const { entries, total } = await storage.listAuditEntries({
+        ...query,
+        resourceType: 'consultation_session',
+        resourceId: req.params.sessionId,
+      });
+      res.json({ entries: entries.map(({ ip: _ip, ...entry }) => entry), total, page: query.page, pageSize: query.pageSize });
+    } catch (error) {
+      log.error('[GET /api/sessions/:sessionId/access-log] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve access log" });
+    }
+  });
+
+  // The caller's daily token budgets (and the service-wide one), with what is left today
+  app.get("/api/usage/budget", requireAuth, async (req, res) => {
+    try {
+      const budgets = await usageService.budgetStatus(req.user!.id);
+      res.json({ budgets });
+    } catch (error) {
+      log.error('[GET /api/usage/budget] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve token budget" });
+    }
+  });
+
+  // Stored enhanced-analysis sections; 404 until the analysis has produced them
+  app.get("/api/sessions/:sessionId/treatment-pathway", auditService.session('read'), requireSessionOwner, async (req, res) => {
+    try {
+      const pathway = await storage.getTreatmentPathway(req.params.sessionId);
+      if (!pathway) {
+        return res.status(404).json({ error: "No treatment pathway for this session" });
+      }
+      res.json(pathway);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve treatment pathway" });
+    }
+  });
+
+  app.get("/api/sessions/:sessionId/risk-assessment", auditService.session('read'), requireSessionOwner, async (req, res) => {
+    try {
+      const assessment = await storage.getRiskAssessment(req.params.sessionId);
+      if (!assessment) {
+        return res.status(404).json({ error: "No risk assessment for this session" });
+      }
+      res.json(assessment);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve risk assessment" });
+    }
+  });
+
+  app.get("/api/sessions/:sessionId/clinical-alerts", auditService.session('read'), requireSessionOwner, async (req, res) => {
+    try {
+      const alerts = await storage.getClinicalAlerts(req.params.sessionId);
+      res.json(alerts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve clinical alerts" });
+    }
+  });
+
+  app.get("/api/sessions/:sessionId/patient-education", auditService.session('read'), requireSessionOwner, async (req, res) => {
+    try {
+      const education = await storage.getPatientEducation(req.params.sessionId);
+      if (!education) {
+        return res.status(404).json({ error: "No patient education for this session" });
+      }
+      res.json(education);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve patient education" });
+    }
+  });
+
+  // Export session data; ?mode=anonymised leaves out identity, dates and contact details
+  app.get("/api/sessions/:sessionId/export", auditService.session('export'), validateRequest({ query: exportQuerySchema }), requireSessionOwner, async (req, res) => {
     try {
-      const session = await storage.getSession(req.params.sessionId);
+      const session = res.locals.consultationSession;
       const diagnoses = await storage.getDiagnosesBySession(req.params.sessionId);
       const conversation = await storage.getConversationHistory(req.params.sessionId);
 
-      if (!session) {
-        return res.status(404).json({ error: "Session not found" });
+      if ((res.locals.query as ExportQuery).mode === 'anonymised') {
+        const anonymised = buildAnonymisedExport({ session, diagnoses, conversation });
+        res.setHeader('Content-Disposition', `attachment; filename="consultation-${anonymised.reference}.anonymised.json"`);
+        return res.json(anonymised);
       }
 
       const exportData = {
@@ -437,13 +984,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Export session as a FHIR R4 transaction Bundle for EHR import
+  app.get("/api/sessions/:sessionId/export/fhir", auditService.session('export'), requireSessionOwner, async (req, res) => {
+    try {
+      const session = res.locals.consultationSession;
+      const diagnoses = await storage.getDiagnosesBySession(req.params.sessionId);
+      const conversation = await storage.getConversationHistory(req.params.sessionId);
+
+      const bundle = buildFhirBundle({ session, diagnoses, conversation });
+
+      res.setHeader('Content-Type', 'application/fhir+json');
+      res.setHeader('Content-Disposition', `attachment; filename="consultation-${session.sessionId}.fhir.json"`);
+      res.send(JSON.stringify(bundle));
+    } catch (error) {
+      log.error('[GET /api/sessions/:sessionId/export/fhir] Error', { error });
+      res.status(500).json({ error: "Failed to export session as FHIR" });
+    }
+  });
+
+  // Printable PDF report. Defaults to the template matching the session mode;
+  // ?template=doctor|patient overrides it (doctor for professionals only).
+  app.get("/api/sessions/:sessionId/report.pdf", auditService.session('export'), validateRequest({ query: reportQuerySchema }), requireSessionOwner, async (req, res) => {
+    try {
+      const session = res.locals.consultationSession;
+      const requested = (res.locals.query as ReportQuery).template;
+      const template: ReportTemplate = requested || (session.mode === 'doctor' ? 'doctor' : 'patient');
+      if (template === 'doctor' && req.user!.role !== 'healthcare_professional') {
+        return res.status(403).json({ error: "The clinical report is only available to healthcare professionals" });
+      }
+
+      const diagnoses = await storage.getDiagnosesBySession(req.params.sessionId);
+      const pdf = await renderSessionReport({ session, diagnoses }, template);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="medical-report-${session.sessionId}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      log.error('[GET /api/sessions/:sessionId/report.pdf] Error', { error });
+      res.status(500).json({ error: "Failed to generate report" });
+    }
+  });
+
   // Generate patient education content
-  app.post("/api/education", async (req, res) => {
+  app.post("/api/education", requireAuth, validateRequest({ body: educationBodySchema }), requireTokenBudget, async (req, res) => {
     try {
       const { diagnosis } = req.body;
-      if (!diagnosis) {
-        return res.status(400).json({ error: "Diagnosis required" });
-      }
 
       const content = await aiService.generatePatientEducation(diagnosis, 'general', 'english');
       res.json({ content });
@@ -452,6 +1037,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Prompt templates with their versions, the default and any pin or A/B test
+  app.get("/api/admin/prompts", requireAdmin, (req, res) => {
+    try {
+      res.json(promptRegistry.list());
+    } catch (error) {
+      log.error('[GET /api/admin/prompts] Error', { error });
+      res.status(500).json({ error: "Failed to load prompt templates" });
+    }
+  });
+
+  // One template version including its body
+  app.get("/api/admin/prompts/:name/:version", requireAdmin, validateRequest({ params: promptVersionParamsSchema }), (req, res) => {
+    try {
+      const { name, version } = res.locals.params as PromptVersionParams;
+      const template = PROMPT_NAMES.includes(name as PromptName)
+        ? promptRegistry.get(name as PromptName, version)
+        : undefined;
+      if (!template) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      log.error('[GET /api/admin/prompts/:name/:version] Error', { error });
+      res.status(500).json({ error: "Failed to load prompt template" });
+    }
+  });
+
+  // LLM cache hit/miss counters per task, with the TTLs in effect
+  app.get("/api/admin/llm-cache", requireAdmin, (req, res) => {
+    res.json(llmCache.stats());
+  });
+
+  app.delete("/api/admin/llm-cache", requireAdmin, async (req, res) => {
+    try {
+      const removed = await llmCache.clear();
+      res.json({ removed });
+    } catch (error) {
+      log.error('[DELETE /api/admin/llm-cache] Error', { error });
+      res.status(500).json({ error: "Failed to clear LLM cache" });
+    }
+  });
+
+  // LLM usage and cost across all users, broken down per day and per model; days are UTC
+  app.get("/api/admin/usage", requireAdmin, validateRequest({ query: usageQuerySchema }), async (req, res) => {
+    try {
+      const { userId, ...range } = res.locals.query as UsageQuery;
+      const from = range.from ?? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const to = range.to ?? new Date();
+      const [summary, budgets] = await Promise.all([
+        storage.summarizeLLMUsage({ userId, from, to }),
+        usageService.budgetStatus(userId),
+      ]);
+      res.json({ from, to, userId, ...summary, budgets });
+    } catch (error) {
+      log.error('[GET /api/admin/usage] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve usage" });
+    }
+  });
+
+  // Audit trail of who listed, read, exported or changed consultations
+  app.get("/api/admin/audit", requireAdmin, validateRequest({ query: auditQuerySchema }), async (req, res) => {
+    try {
+      const { sessionId, ...query } = res.locals.query as AuditQuery;
+      const { entries, total } = await storage.listAuditEntries({
+        ...query,
+        resourceType: sessionId ? 'consultation_session' : undefined,
+        resourceId: sessionId,
+      });
+      res.json({ entries, total, page: query.page, pageSize: query.pageSize });
+    } catch (error) {
+      log.error('[GET /api/admin/audit] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve audit log" });
+    }
+  });
+
+  // De-identified consultations kept by the retention job, for quality review
+  app.get("/api/admin/anonymised-sessions", requireAdmin, validateRequest({ query: anonymisedSessionsQuerySchema }), async (req, res) => {
+    try {
+      const { page, pageSize } = res.locals.query as AnonymisedSessionsQuery;
+      const { sessions, total } = await storage.listAnonymisedSessions(page, pageSize);
+      const records = await Promise.all(sessions.map(async (session) => buildAnonymisedExport({
+        session,
+        diagnoses: await storage.getDiagnosesBySession(session.sessionId),
+        conversation: await storage.getConversationHistory(session.sessionId),
+      })));
+      res.json({ sessions: records, total, page, pageSize });
+    } catch (error) {
+      log.error('[GET /api/admin/anonymised-sessions] Error', { error });
+      res.status(500).json({ error: "Failed to retrieve anonymised sessions" });
+    }
+  });
+
+  // Applies the retention policy now instead of waiting for the next scheduled run
+  app.post("/api/admin/retention/run", requireAdmin, async (req, res) => {
+    if (!retentionService.isEnabled()) {
+      return res.status(409).json({ error: "No retention policy configured (DATA_RETENTION_DAYS)" });
+    }
+    try {
+      res.json(await retentionService.run());
+    } catch (error) {
+      log.error('[POST /api/admin/retention/run] Error', { error });
+      res.status(500).json({ error: "Failed to apply retention policy" });
+    }
+  });
+
   // Simple connectivity test
   app.get("/api/health", (req, res) => {
     res.json({
@@ -464,42 +1154,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Detailed health check for AI models and system status
-  app.get("/api/health/detailed", async (req, res) => {
+  // Detailed health check for AI models and system status. Admin-only: each
+  // call sends a live completion to the routed providers.
+  app.get("/api/health/detailed", requireAdmin, async (req, res) => {
     try {
-      // Test actual Groq API connectivity
+      // Probe the providers routed to the analysis and follow-up question tasks
       const modelStatus = await aiService.checkApiHealth();
-      
-      // Determine proper status based on API keys
-      const reasonerKey = process.env.GROQ_API_KEY_REASONER;
-      const chatKey = process.env.GROQ_API_KEY_CHAT;
-      
-      const reasonerStatus = reasonerKey ? (modelStatus.reasoner.status === 'available' ? 'connected' : 'disconnected') : 'demo_mode';
-      const chatStatus = chatKey ? (modelStatus.chat.status === 'available' ? 'connected' : 'disconnected') : 'demo_mode';
-      
+
+      const toConnectionStatus = (status: string) =>
+        status === 'demo_mode' ? 'demo_mode' : status === 'available' ? 'connected' : 'disconnected';
+
       res.json({
         status: "healthy",
         timestamp: new Date().toISOString(),
         version: process.env.npm_package_version || '1.0.0',
         environment: process.env.NODE_ENV || 'development',
         models: {
-          reasoner: reasonerStatus,
-          chat: chatStatus
+          reasoner: toConnectionStatus(modelStatus.reasoner.status),
+          chat: toConnectionStatus(modelStatus.chat.status)
         },
         database: process.env.DATABASE_URL ? 'connected' : 'disconnected',
         providers: {
-          groq: {
-            reasoner: "DeepSeek R1 Distill Llama 70B",
-            chat: "Llama 3.3 70B Versatile"
-          }
+          reasoner: { provider: modelStatus.reasoner.provider, model: modelStatus.reasoner.model },
+          chat: { provider: modelStatus.chat.provider, model: modelStatus.chat.model },
+          routes: modelStatus.routes
         },
         api_keys_configured: {
-          reasoner: !!reasonerKey,
-          chat: !!chatKey
+          reasoner: !!process.env.GROQ_API_KEY_REASONER,
+          chat: !!process.env.GROQ_API_KEY_CHAT
         }
       });
     } catch (error) {
-      console.error('Health check error:', error);
+      log.error('Health check error', { error });
       res.status(503).json({
         status: "unhealthy",
         timestamp: new Date().toISOString(),
@@ -514,14 +1200,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Test endpoint - for testing AI connectivity
-  app.get("/api/test-ai", async (req, res) => {
+  // Admin-only: it sends an arbitrary prompt to the connection-test model
+  app.get("/api/test-ai", requireAdmin, validateRequest({ query: testAIQuerySchema }), requireTokenBudget, async (req, res) => {
     try {
-      const prompt = req.query.prompt as string || "Hello, please respond with 'AI service is working'";
-      console.log('[GET /api/test-ai] Testing AI with prompt:', prompt);
-      
+      const { prompt } = res.locals.query as TestAIQuery;
       const response = await aiService.testConnection(prompt);
-      console.log('[GET /api/test-ai] AI response:', response);
-      
+      log.info('[GET /api/test-ai] AI responded', { promptLength: prompt.length, responseLength: response.length });
+
       res.json({ 
         status: "success", 
         prompt, 
@@ -529,7 +1214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timestamp: new Date().toISOString()
       });
     } catch (error) {
-      console.error('[GET /api/test-ai] Error:', error);
+      log.error('[GET /api/test-ai] Error', { error });
       res.status(500).json({ 
         status: "error", 
         error: error instanceof Error ? error.message : String(error),
@@ -539,15 +1224,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Submit follow-up answers and proceed to analysis
-  app.post("/api/submit-answers", async (req, res) => {
+  app.post("/api/submit-answers", auditService.session('update'), requireAuth, validateRequest({ body: submitAnswersBodySchema }), requireSessionOwner, requireTokenBudget, async (req, res) => {
     try {
       const { sessionId, answers } = req.body;
-      
-      if (!sessionId || !answers || !Array.isArray(answers)) {
-        return res.status(400).json({ error: "Missing required fields: sessionId and answers array" });
-      }
 
-      console.log(`[POST /api/submit-answers] SessionId: ${sessionId}, Answers: ${answers.length}`);
+      log.info('[POST /api/submit-answers] Received answers', { sessionId, count: answers.length });
 
       // Store answers in conversation history
       for (const answer of answers) {
@@ -558,42 +1239,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Get session to retrieve symptoms and patient info
-      const session = await storage.getSession(sessionId);
-
-      if (!session) {
-        console.log(`[POST /api/submit-answers] Session not found: ${sessionId}`);
-        return res.status(404).json({ error: "Session not found" });
-      }
+      // Session (already ownership-checked) holds the symptoms and patient info
+      const session = res.locals.consultationSession;
 
       const symptoms = session.symptoms;
 
       if (!symptoms) {
-        console.log(`[POST /api/submit-answers] No symptoms found for session: ${sessionId}`);
+        log.warn('[POST /api/submit-answers] No symptoms found for session', { sessionId });
         return res.status(400).json({ error: "No symptoms found for this session" });
       }
 
-      console.log(`[POST /api/submit-answers] Found symptoms: ${symptoms.substring(0, 50)}...`);
-
       // Generate final analysis with follow-up answers
       const followUpAnswers = answers.map((a: any) => ({
         question: a.question || `Question ${a.questionId}`,
         answer: a.answer
       }));
 
-      console.log(`[POST /api/submit-answers] Calling AI analysis...`);
-      const analysis = await aiService.analyzeSymptoms(
-        symptoms,
-        'unified',
-        session.patientInfo
-      );
+      const triage = triageService.assess(symptoms, followUpAnswers);
+      const patientInfo = await withStoredProfile(sessionId, session.patientInfo);
+      const symptomHistory = await recentSymptomHistory(session.patientId);
 
-      console.log(`[POST /api/submit-answers] Analysis completed successfully`);
+      const result = triage.shortCircuit
+        ? triageService.buildEmergencyAnalysis(triage)
+        : { ...(await aiService.analyzeSymptoms(symptoms, 'unified', patientInfo, { bucketKey: sessionId, symptomHistory })), triage };
 
-      // Store analysis in session
-      await storage.updateSession(sessionId, {
-        aiAnalysis: JSON.stringify(analysis),
-        updatedAt: new Date()
+      log.info('[POST /api/submit-answers] Analysis completed', { sessionId, shortCircuit: triage.shortCircuit });
+
+      // Store analysis in session as a new revision
+      const analysis = await recordAnalysis({
+        sessionId,
+        trigger: 'submit-answers',
+        inputs: { mode: 'unified', symptoms, followUpAnswers, patientInfo, symptomHistory },
+        analysis: result
       });
 
       // Add analysis to conversation
@@ -610,39 +1287,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
     } catch (error) {
-      console.error('[POST /api/submit-answers] Error:', error);
+      log.error('[POST /api/submit-answers] Error', { error });
       res.status(500).json({ error: "Failed to submit answers and generate analysis", details: error instanceof Error ? error.message : String(error) });
     }
   });
 
   // AI Connection Test endpoint - for testing and reconnecting AI services
-  app.post("/api/test-ai-connection", async (req, res) => {
+  app.post("/api/test-ai-connection", requireAdmin, async (req, res) => {
     try {
-      console.log('[POST /api/test-ai-connection] Testing AI connectivity...');
       
       const results = {
-        reasoner: { status: 'disconnected' as 'disconnected' | 'connected', error: null as string | null, model: 'deepseek-r1-distill-llama-70b' },
-        chat: { status: 'disconnected' as 'disconnected' | 'connected', error: null as string | null, model: 'llama-3.3-70b-versatile' }
+        reasoner: { status: 'disconnected' as 'disconnected' | 'connected', error: null as string | null, model: API_CONFIG.tasks.analysis.model },
+        chat: { status: 'disconnected' as 'disconnected' | 'connected', error: null as string | null, model: API_CONFIG.tasks.connectionTest.model }
       };
 
       // Test reasoner connection
       try {
         const reasonerResponse = await aiService.testConnection("Test reasoner connection");
         results.reasoner.status = 'connected';
-        console.log('[POST /api/test-ai-connection] Reasoner test successful:', reasonerResponse.substring(0, 50) + '...');
+        log.info('[POST /api/test-ai-connection] Reasoner test successful', { responseLength: reasonerResponse.length });
       } catch (error) {
         results.reasoner.error = error instanceof Error ? error.message : String(error);
-        console.error('[POST /api/test-ai-connection] Reasoner test failed:', results.reasoner.error);
+        log.error('[POST /api/test-ai-connection] Reasoner test failed', { error });
       }
 
       // Test chat connection (using a different prompt)
       try {
         const chatResponse = await aiService.testConnection("Test chat connection");
         results.chat.status = 'connected';
-        console.log('[POST /api/test-ai-connection] Chat test successful:', chatResponse.substring(0, 50) + '...');
+        log.info('[POST /api/test-ai-connection] Chat test successful', { responseLength: chatResponse.length });
       } catch (error) {
         results.chat.error = error instanceof Error ? error.message : String(error);
-        console.error('[POST /api/test-ai-connection] Chat test failed:', results.chat.error);
+        log.error('[POST /api/test-ai-connection] Chat test failed', { error });
       }
 
       const allConnected = results.reasoner.status === 'connected' && results.chat.status === 'connected';
@@ -658,7 +1334,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      console.error('[POST /api/test-ai-connection] Unexpected error:', error);
+      log.error('[POST /api/test-ai-connection] Unexpected error', { error });
       res.status(500).json({ 
         status: "error", 
         message: "Failed to test AI connectivity",
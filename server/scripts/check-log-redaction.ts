@@ -0,0 +1,93 @@
+// Writes sample log lines full of patient details through the server logger
+// and checks that none of those details reach the output. Logs never leave
+// the server, so the API test suite cannot see them.
+//
+//   npm run check:redaction
+//
+// Exits with status 1 when any identifying value is written.
+import { Logger, type LogFields } from "../logger";
+
+interface Sample {
+  label: string;
+  msg: string;
+  fields?: LogFields;
+  // Values that must not appear in the written line
+  secrets: string[];
+  // Values that must still be there, so the check cannot pass by dropping the line
+  kept: string[];
+}
+
+const SAMPLES: Sample[] = [
+  {
+    label: 'patient details in fields',
+    msg: 'Analysis requested',
+    fields: {
+      sessionId: 'sample-session',
+      patientInfo: { name: 'Jordan Lee', age: 42, medicalHistory: 'Asthma' },
+      symptoms: 'Dry cough and fever for three days',
+    },
+    secrets: ['Jordan Lee', 'Asthma', 'Dry cough'],
+    kept: ['sample-session', '[REDACTED]'],
+  },
+  {
+    label: 'request body nested under other keys',
+    msg: 'Validation failed',
+    fields: {
+      request: { body: { followUpAnswers: [{ question: 'Smoker?', answer: 'Twenty a day' }], notes: 'Lives alone' } },
+    },
+    secrets: ['Twenty a day', 'Lives alone'],
+    kept: ['[REDACTED]'],
+  },
+  {
+    label: 'contact details and dates in free text',
+    msg: 'Reminder for jordan.lee@example.com, call +44 7700 900123, born 14/03/1982',
+    fields: { at: '2026-10-01T09:30:00.000Z' },
+    secrets: ['jordan.lee@example.com', '7700 900123', '14/03/1982'],
+    kept: ['[EMAIL]', '[PHONE]', '[DATE]', '2026-10-01T09:30:00.000Z'],
+  },
+  {
+    label: 'error messages',
+    msg: 'Failed to save patient',
+    fields: { error: new Error('duplicate key for email jordan.lee@example.com (dob 1982-03-14)') },
+    secrets: ['jordan.lee@example.com', '1982-03-14'],
+    kept: ['duplicate key', '[EMAIL]', '[DATE]'],
+  },
+];
+
+function capture(write: () => void): string {
+  const lines: string[] = [];
+  const { log, error } = console;
+  console.log = console.error = (...args: unknown[]) => { lines.push(args.join(' ')); };
+  try {
+    write();
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+  return lines.join('\n');
+}
+
+function check(sample: Sample, format: 'json' | 'pretty'): boolean {
+  const logger = new Logger('redaction-check', { level: 'debug', format });
+  const output = capture(() => logger.error(sample.msg, sample.fields));
+  const leaked = sample.secrets.filter((secret) => output.includes(secret));
+  const missing = sample.kept.filter((value) => !output.includes(value));
+
+  const label = `${sample.label} (${format})`;
+  if (leaked.length === 0 && missing.length === 0) {
+    console.log(`ok    ${label}`);
+    return true;
+  }
+  console.log(`FAIL  ${label}`);
+  for (const secret of leaked) console.log(`        leaked: ${secret}`);
+  for (const value of missing) console.log(`        missing: ${value}`);
+  console.log(`        ${output}`);
+  return false;
+}
+
+const results = SAMPLES.flatMap((sample) => [check(sample, 'json'), check(sample, 'pretty')]);
+const failed = results.filter((ok) => !ok).length;
+if (failed > 0) {
+  console.error(`${failed} of ${results.length} log lines leaked patient details`);
+  process.exit(1);
+}
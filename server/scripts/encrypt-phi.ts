@@ -0,0 +1,342 @@
+// Encrypts patient-identifying columns written before PHI_ENCRYPTION_KEYS was
+// set, re-encrypts values sealed with an older key after a rotation, and
+// (re)builds the blind index used to search symptoms and patient names.
+//
+//   npm run encrypt:phi -- --generate-key   # print a new random key to add to PHI_ENCRYPTION_KEYS
+//   npm run encrypt:phi -- --dry-run        # count the rows that would change
+//   npm run encrypt:phi                     # encrypt with PHI_ENCRYPTION_ACTIVE_KEY
+//
+// Rows are rewritten in batches by id and only the encrypted columns change
+// (updated_at is left alone), so the script is safe to stop and run again.
+// Keep every old key configured until it reports nothing left to do.
+import { randomBytes } from "crypto";
+import { parseArgs } from "util";
+import { asc, eq, gt } from "drizzle-orm";
+import { analysisRevisions, consultationSessions, conversationEntries, llmCache, medicationSchedules, patientProfiles, patients, symptomLogs } from "@shared/schema";
+import { fieldEncryption } from "../services/field-encryption";
+
+const USAGE = `Usage: npm run encrypt:phi -- [options]
+
+  --dry-run           Count the rows that need encrypting without changing them
+  --batch-size <n>    Rows read and rewritten per batch (default: 500)
+  --generate-key      Print a new key ID and 32-byte base64 key, then exit
+  --help              Show this message`;
+
+interface ColumnCounts {
+  scanned: number;
+  updated: number;
+}
+
+function sameTokens(stored: string[] | null, expected: string[] | null): boolean {
+  return JSON.stringify(stored) === JSON.stringify(expected);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      'batch-size': { type: 'string', default: '500' },
+      'generate-key': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (values['generate-key']) {
+    const keyId = new Date().toISOString().slice(0, 7);
+    console.log(`${keyId}:${randomBytes(32).toString('base64')}`);
+    return;
+  }
+
+  if (!fieldEncryption.isEnabled()) {
+    throw new Error('PHI_ENCRYPTION_KEYS is not set; there is no key to encrypt with');
+  }
+  const batchSize = parseInt(values['batch-size']!);
+  if (!Number.isFinite(batchSize) || batchSize < 1) {
+    throw new Error(`--batch-size must be a positive number, got "${values['batch-size']}"`);
+  }
+  const dryRun = values['dry-run']!;
+
+  // Loaded here so --generate-key and --help work without DATABASE_URL
+  const { db, pool } = await import("../db");
+  console.log(`${dryRun ? 'Checking' : 'Encrypting'} with key "${fieldEncryption.activeKeyId}" in batches of ${batchSize}`);
+
+  try {
+    const sessions: ColumnCounts = { scanned: 0, updated: 0 };
+    for (let lastId = 0; ;) {
+      const rows = await db
+        .select({
+          id: consultationSessions.id,
+          patientInfo: consultationSessions.patientInfo,
+          symptoms: consultationSessions.symptoms,
+          symptomsSearch: consultationSessions.symptomsSearch,
+          aiAnalysis: consultationSessions.aiAnalysis,
+        })
+        .from(consultationSessions)
+        .where(gt(consultationSessions.id, lastId))
+        .orderBy(asc(consultationSessions.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const updates: { patientInfo?: unknown; symptoms?: string; symptomsSearch?: string[] | null; aiAnalysis?: unknown } = {};
+        if (fieldEncryption.needsReencryption(row.patientInfo)) {
+          const patientInfo = fieldEncryption.decryptJson(row.patientInfo, 'consultation_sessions.patient_info');
+          updates.patientInfo = fieldEncryption.encryptJson(patientInfo, 'consultation_sessions.patient_info');
+        }
+        const symptoms = row.symptoms && fieldEncryption.decrypt(row.symptoms, 'consultation_sessions.symptoms');
+        if (fieldEncryption.needsReencryption(row.symptoms)) {
+          updates.symptoms = fieldEncryption.encrypt(symptoms!, 'consultation_sessions.symptoms');
+        }
+        const symptomsSearch = fieldEncryption.searchTokens(symptoms, 'consultation_sessions.symptoms');
+        if (!sameTokens(row.symptomsSearch, symptomsSearch)) {
+          updates.symptomsSearch = symptomsSearch;
+        }
+        if (fieldEncryption.needsReencryption(row.aiAnalysis)) {
+          const aiAnalysis = fieldEncryption.decryptJson(row.aiAnalysis, 'consultation_sessions.ai_analysis');
+          updates.aiAnalysis = fieldEncryption.encryptJson(aiAnalysis, 'consultation_sessions.ai_analysis');
+        }
+        if (Object.keys(updates).length === 0) continue;
+
+        sessions.updated++;
+        if (!dryRun) {
+          await db.update(consultationSessions).set(updates).where(eq(consultationSessions.id, row.id));
+        }
+      }
+      sessions.scanned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  consultation_sessions: ${sessions.updated} of ${sessions.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+
+    const entries: ColumnCounts = { scanned: 0, updated: 0 };
+    for (let lastId = 0; ;) {
+      const rows = await db
+        .select({ id: conversationEntries.id, message: conversationEntries.message })
+        .from(conversationEntries)
+        .where(gt(conversationEntries.id, lastId))
+        .orderBy(asc(conversationEntries.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        if (!fieldEncryption.needsReencryption(row.message)) continue;
+
+        entries.updated++;
+        if (!dryRun) {
+          const message = fieldEncryption.decrypt(row.message, 'conversation_entries.message');
+          await db
+            .update(conversationEntries)
+            .set({ message: fieldEncryption.encrypt(message, 'conversation_entries.message') })
+            .where(eq(conversationEntries.id, row.id));
+        }
+      }
+      entries.scanned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  conversation_entries: ${entries.updated} of ${entries.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+
+    const revisions: ColumnCounts = { scanned: 0, updated: 0 };
+    const revisionColumns = [
+      ['inputs', 'analysis_revisions.inputs'],
+      ['output', 'analysis_revisions.output'],
+    ] as const;
+    for (let lastId = 0; ;) {
+      const rows = await db
+        .select({ id: analysisRevisions.id, inputs: analysisRevisions.inputs, output: analysisRevisions.output })
+        .from(analysisRevisions)
+        .where(gt(analysisRevisions.id, lastId))
+        .orderBy(asc(analysisRevisions.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const updates: Record<string, unknown> = {};
+        for (const [field, column] of revisionColumns) {
+          if (!fieldEncryption.needsReencryption(row[field])) continue;
+          updates[field] = fieldEncryption.encryptJson(fieldEncryption.decryptJson(row[field], column), column);
+        }
+        if (Object.keys(updates).length === 0) continue;
+
+        revisions.updated++;
+        if (!dryRun) {
+          await db.update(analysisRevisions).set(updates).where(eq(analysisRevisions.id, row.id));
+        }
+      }
+      revisions.scanned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  analysis_revisions: ${revisions.updated} of ${revisions.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+
+    const profiles: ColumnCounts = { scanned: 0, updated: 0 };
+    const profileColumns = [
+      ['medications', 'patient_profiles.medications'],
+      ['allergies', 'patient_profiles.allergies'],
+      ['chronicConditions', 'patient_profiles.chronic_conditions'],
+    ] as const;
+    for (let lastId = 0; ;) {
+      const rows = await db
+        .select()
+        .from(patientProfiles)
+        .where(gt(patientProfiles.id, lastId))
+        .orderBy(asc(patientProfiles.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const updates: Record<string, unknown> = {};
+        for (const [field, column] of profileColumns) {
+          if (!fieldEncryption.needsReencryption(row[field])) continue;
+          updates[field] = fieldEncryption.encryptJson(fieldEncryption.decryptJson(row[field], column), column);
+        }
+        if (Object.keys(updates).length === 0) continue;
+
+        profiles.updated++;
+        if (!dryRun) {
+          await db.update(patientProfiles).set(updates).where(eq(patientProfiles.id, row.id));
+        }
+      }
+      profiles.scanned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  patient_profiles: ${profiles.updated} of ${profiles.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+
+    const patientRecords: ColumnCounts = { scanned: 0, updated: 0 };
+    const patientColumns = [
+      ['patientInfo', 'patients.patient_info'],
+      ['profile', 'patients.profile'],
+    ] as const;
+    for (let lastId = 0; ;) {
+      const rows = await db
+        .select({ id: patients.id, patientInfo: patients.patientInfo, profile: patients.profile, nameSearch: patients.nameSearch })
+        .from(patients)
+        .where(gt(patients.id, lastId))
+        .orderBy(asc(patients.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const updates: Record<string, unknown> = {};
+        for (const [field, column] of patientColumns) {
+          if (!fieldEncryption.needsReencryption(row[field])) continue;
+          updates[field] = fieldEncryption.encryptJson(fieldEncryption.decryptJson(row[field], column), column);
+        }
+        const patientInfo = fieldEncryption.decryptJson(row.patientInfo, 'patients.patient_info') as { name?: string } | null;
+        const nameSearch = fieldEncryption.searchTokens(patientInfo?.name, 'patients.patient_info');
+        if (!sameTokens(row.nameSearch, nameSearch)) {
+          updates.nameSearch = nameSearch;
+        }
+        if (Object.keys(updates).length === 0) continue;
+
+        patientRecords.updated++;
+        if (!dryRun) {
+          await db.update(patients).set(updates).where(eq(patients.id, row.id));
+        }
+      }
+      patientRecords.scanned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  patients: ${patientRecords.updated} of ${patientRecords.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+
+    const symptomEntries: ColumnCounts = { scanned: 0, updated: 0 };
+    for (let lastId = 0; ;) {
+      const rows = await db
+        .select({ id: symptomLogs.id, symptom: symptomLogs.symptom, notes: symptomLogs.notes })
+        .from(symptomLogs)
+        .where(gt(symptomLogs.id, lastId))
+        .orderBy(asc(symptomLogs.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const updates: { symptom?: string; notes?: string } = {};
+        if (fieldEncryption.needsReencryption(row.symptom)) {
+          updates.symptom = fieldEncryption.encrypt(fieldEncryption.decrypt(row.symptom, 'symptom_logs.symptom'), 'symptom_logs.symptom');
+        }
+        if (fieldEncryption.needsReencryption(row.notes)) {
+          updates.notes = fieldEncryption.encrypt(fieldEncryption.decrypt(row.notes!, 'symptom_logs.notes'), 'symptom_logs.notes');
+        }
+        if (Object.keys(updates).length === 0) continue;
+
+        symptomEntries.updated++;
+        if (!dryRun) {
+          await db.update(symptomLogs).set(updates).where(eq(symptomLogs.id, row.id));
+        }
+      }
+      symptomEntries.scanned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  symptom_logs: ${symptomEntries.updated} of ${symptomEntries.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+
+    const schedules: ColumnCounts = { scanned: 0, updated: 0 };
+    for (let lastId = 0; ;) {
+      const rows = await db
+        .select({ id: medicationSchedules.id, drug: medicationSchedules.drug, dose: medicationSchedules.dose, instructions: medicationSchedules.instructions })
+        .from(medicationSchedules)
+        .where(gt(medicationSchedules.id, lastId))
+        .orderBy(asc(medicationSchedules.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const updates: { drug?: string; dose?: string; instructions?: string } = {};
+        if (fieldEncryption.needsReencryption(row.drug)) {
+          updates.drug = fieldEncryption.encrypt(fieldEncryption.decrypt(row.drug, 'medication_schedules.drug'), 'medication_schedules.drug');
+        }
+        if (fieldEncryption.needsReencryption(row.dose)) {
+          updates.dose = fieldEncryption.encrypt(fieldEncryption.decrypt(row.dose, 'medication_schedules.dose'), 'medication_schedules.dose');
+        }
+        if (fieldEncryption.needsReencryption(row.instructions)) {
+          updates.instructions = fieldEncryption.encrypt(fieldEncryption.decrypt(row.instructions!, 'medication_schedules.instructions'), 'medication_schedules.instructions');
+        }
+        if (Object.keys(updates).length === 0) continue;
+
+        schedules.updated++;
+        if (!dryRun) {
+          await db.update(medicationSchedules).set(updates).where(eq(medicationSchedules.id, row.id));
+        }
+      }
+      schedules.scanned += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  medication_schedules: ${schedules.updated} of ${schedules.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+
+    const cacheEntries: ColumnCounts = { scanned: 0, updated: 0 };
+    for (let lastKey = ''; ;) {
+      const rows = await db
+        .select({ key: llmCache.key, content: llmCache.content })
+        .from(llmCache)
+        .where(gt(llmCache.key, lastKey))
+        .orderBy(asc(llmCache.key))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        if (!fieldEncryption.needsReencryption(row.content)) continue;
+
+        cacheEntries.updated++;
+        if (!dryRun) {
+          const content = fieldEncryption.decrypt(row.content, 'llm_cache.content');
+          await db
+            .update(llmCache)
+            .set({ content: fieldEncryption.encrypt(content, 'llm_cache.content') })
+            .where(eq(llmCache.key, row.key));
+        }
+      }
+      cacheEntries.scanned += rows.length;
+      lastKey = rows[rows.length - 1].key;
+    }
+    console.log(`  llm_cache: ${cacheEntries.updated} of ${cacheEntries.scanned} rows ${dryRun ? 'need encrypting' : 'encrypted'}`);
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(`\n${USAGE}`);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+// Validates the FHIR R4 export against the base R4 profiles, so the API test
+// suite only has to check the shape of what the server sends.
+//
+//   npm run validate:fhir                                   # bundles built from the fixtures below
+//   npm run validate:fhir -- --file consultation.fhir.json  # a bundle downloaded from /export/fhir
+//
+// Exits with status 1 when any bundle has validation errors.
+import fs from "fs";
+import { parseArgs } from "util";
+import { Fhir } from "fhir";
+import type { Bundle } from "fhir/r4";
+import { buildFhirBundle, type FhirExportInput } from "../services/fhir-export";
+
+const USAGE = `Usage: npm run validate:fhir -- [options]
+
+  --file <path>   Validate an exported bundle instead of the built-in fixtures (repeatable)
+  --help          Show this message`;
+
+const createdAt = new Date('2026-10-01T09:30:00Z');
+
+function session(overrides: Partial<FhirExportInput['session']>): FhirExportInput['session'] {
+  return {
+    id: 1,
+    sessionId: 'fixture-session',
+    userId: 1,
+    patientId: null,
+    mode: 'doctor',
+    patientInfo: null,
+    symptoms: null,
+    symptomsSearch: null,
+    aiAnalysis: null,
+    conversationHistory: null,
+    createdAt,
+    updatedAt: createdAt,
+    anonymisedAt: null,
+    ...overrides,
+  };
+}
+
+// One consultation per branch of buildFhirBundle: a full doctor-mode analysis
+// with a treatment pathway, a patient-mode session before any analysis, and an
+// anonymised session without patient details
+const FIXTURES: Record<string, FhirExportInput> = {
+  'doctor consultation with treatment pathway': {
+    session: session({
+      patientInfo: { name: 'Jordan Lee', age: 42, gender: 'female', medicalHistory: 'Asthma' },
+      symptoms: 'Dry cough and fever for three days',
+      aiAnalysis: {
+        diagnoses: [],
+        recommendedTests: ['Chest X-ray', 'Complete blood count', 'Pulse oximetry'],
+        treatmentPathway: {
+          firstLineTherapy: ['Paracetamol 1 g every 6 hours as needed'],
+          alternativeTreatments: ['Ibuprofen 400 mg every 8 hours with food'],
+          monitoringRequirements: ['Temperature twice daily'],
+          followUpSchedule: 'Review in 48 hours if not improving',
+          escalationCriteria: ['Oxygen saturation below 94%'],
+        },
+      },
+    }),
+    diagnoses: [
+      {
+        id: 1, sessionId: 'fixture-session', revisionId: null, name: 'Community-acquired pneumonia',
+        description: 'Lower respiratory tract infection', confidence: 62, category: 'Respiratory',
+        redFlags: ['Shortness of breath'], recommendedTests: ['Chest X-ray'], createdAt,
+      },
+      {
+        id: 2, sessionId: 'fixture-session', revisionId: null, name: 'Acute bronchitis',
+        description: null, confidence: 30, category: null, redFlags: null, recommendedTests: ['Pulse oximetry'], createdAt,
+      },
+    ],
+    conversation: [
+      { id: 1, sessionId: 'fixture-session', type: 'user', message: 'Dry cough and fever for three days', timestamp: createdAt },
+      { id: 2, sessionId: 'fixture-session', type: 'ai', message: 'Have you been short of breath?', timestamp: createdAt },
+    ],
+  },
+  'patient consultation before analysis': {
+    session: session({ mode: 'patient', symptoms: 'Headache since this morning' }),
+    diagnoses: [],
+    conversation: [],
+  },
+  'anonymised consultation': {
+    session: session({ userId: null, patientInfo: { age: 67 }, symptoms: '[redacted]', anonymisedAt: createdAt }),
+    diagnoses: [],
+    conversation: [],
+  },
+};
+
+function validate(label: string, bundle: Bundle): boolean {
+  const result = new Fhir().validate(bundle);
+  const errors = result.messages.filter((message) => message.severity === 'error');
+  const resourceTypes = (bundle.entry || []).map((entry) => entry.resource?.resourceType).join(', ');
+  if (errors.length === 0) {
+    console.log(`ok    ${label} (${resourceTypes})`);
+    return true;
+  }
+  console.log(`FAIL  ${label} (${resourceTypes})`);
+  for (const error of errors) {
+    console.log(`        ${error.location}: ${error.message}`);
+  }
+  return false;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string', multiple: true },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const bundles: [string, Bundle][] = values.file?.length
+    ? values.file.map((file) => [file, JSON.parse(fs.readFileSync(file, 'utf8')) as Bundle])
+    : Object.entries(FIXTURES).map(([label, input]) => [label, buildFhirBundle(input)]);
+
+  const failed = bundles.filter(([label, bundle]) => !validate(label, bundle)).length;
+  if (failed > 0) {
+    throw new Error(`${failed} of ${bundles.length} bundles failed FHIR R4 validation`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
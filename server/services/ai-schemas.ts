@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+// Schemas for the structured output AIService expects back from the LLM.
+// Fields the prompts do not explicitly ask for are defaulted so that a
+// well-formed answer is never rejected for omitting them.
+
+export const resultSourceSchema = z.enum(['model', 'repaired', 'fallback', 'triage']);
+export type ResultSource = z.infer<typeof resultSourceSchema>;
+
+const stringList = z.array(z.string()).default([]);
+const percentage = z.coerce.number().min(0).max(100);
+
+export const diagnosisResultSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  confidence: percentage,
+  category: z.string().default('General'),
+  redFlags: stringList,
+  recommendedTests: stringList,
+  severity: z.string().default('medium'),
+  probability: percentage.optional(),
+  clinicalEvidence: z.coerce.number().min(0).max(10).optional(),
+  symptomMatch: percentage.optional(),
+  literatureSupport: z.string().default('moderate'),
+  additionalTestingNeeded: stringList,
+}).transform((diagnosis) => ({
+  ...diagnosis,
+  probability: diagnosis.probability ?? diagnosis.confidence,
+  clinicalEvidence: diagnosis.clinicalEvidence ?? Math.round(diagnosis.confidence / 10),
+  symptomMatch: diagnosis.symptomMatch ?? diagnosis.confidence,
+}));
+
+export const aiAnalysisResultSchema = z.object({
+  diagnoses: z.array(diagnosisResultSchema).min(1),
+  followUpQuestions: stringList,
+  redFlags: stringList,
+  recommendedTests: stringList,
+  overallConfidence: percentage,
+  additionalNotes: z.string().optional(),
+});
+
+export const treatmentPathwaySchema = z.object({
+  firstLineTherapy: z.array(z.string()).min(1),
+  alternativeTreatments: stringList,
+  monitoringRequirements: stringList,
+  followUpSchedule: z.string().min(1),
+  escalationCriteria: stringList,
+});
+
+const riskLevel = z.enum(['low', 'medium', 'high']);
+
+export const riskAssessmentSchema = z.object({
+  immediateRisk: z.enum(['low', 'medium', 'high', 'critical']),
+  shortTermRisk: riskLevel,
+  longTermRisk: riskLevel,
+  riskFactors: stringList,
+  mitigationStrategies: stringList,
+});
+
+export const patientEducationSchema = z.object({
+  simpleExplanation: z.string().min(1),
+  lifestyleModifications: stringList,
+  warningSignsToWatch: stringList,
+  whenToSeekHelp: stringList,
+  customizedContent: z.string().default(''),
+});
+
+export const clinicalAlertSchema = z.object({
+  type: z.enum(['critical', 'warning', 'info']),
+  priority: z.coerce.number().int().min(1).max(10),
+  message: z.string().min(1),
+  actionRequired: z.string().min(1),
+  timeframe: z.string().min(1),
+});
+
+export const clinicalAlertsSchema = z.array(clinicalAlertSchema);
+
+export const drugInteractionExplanationSchema = z.object({
+  summary: z.string().min(1),
+  explanations: z.array(z.object({
+    id: z.string().min(1),
+    explanation: z.string().min(1),
+  })).default([]),
+});
+
+export const mcqQuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  options: z.array(z.string()).min(2),
+  correctAnswer: z.number().int().min(0).optional(),
+  category: z.string(),
+  followUp: z.string().optional(),
+  explanation: z.string().optional(),
+}).refine(
+  (mcq) => mcq.correctAnswer === undefined || mcq.correctAnswer < mcq.options.length,
+  { message: 'correctAnswer must index into options', path: ['correctAnswer'] },
+);
+
+export const mcqQuestionsSchema = z.array(mcqQuestionSchema);
+
+// Flattens zod issues into "path: message" lines that can be fed back to the model.
+export function formatValidationIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+}
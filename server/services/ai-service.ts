@@ -1,4 +1,26 @@
-import Groq from "groq-sdk";
+import { API_CONFIG, type LLMTask } from "../config/api-config";
+import { providerRegistry, type LLMCompletion, type ProviderRegistry } from "./providers";
+import { promptRegistry, type PromptRegistry, type RenderOptions } from "./prompt-registry";
+import { cacheKey, llmCache, type LLMCache } from "./llm-cache";
+import { usageService, type UsageService } from "./usage-service";
+import { describePatient, promptPatientContext } from "./patient-context";
+import { logger } from "../logger";
+import {
+  aiAnalysisResultSchema,
+  clinicalAlertsSchema,
+  drugInteractionExplanationSchema,
+  formatValidationIssues,
+  mcqQuestionsSchema,
+  patientEducationSchema,
+  riskAssessmentSchema,
+  treatmentPathwaySchema,
+  type ResultSource
+} from "./ai-schemas";
+import type { z } from "zod";
+import type { TriageResult } from "./triage-service";
+import type { DrugInteractionFinding } from "./drug-interaction-service";
+
+export type { ResultSource } from "./ai-schemas";
 
 export interface DiagnosisResult {
   name: string;
@@ -21,6 +43,7 @@ export interface TreatmentPathway {
   monitoringRequirements: string[];
   followUpSchedule: string;
   escalationCriteria: string[];
+  source?: ResultSource;
 }
 
 export interface RiskAssessment {
@@ -29,6 +52,7 @@ export interface RiskAssessment {
   longTermRisk: 'low' | 'medium' | 'high';
   riskFactors: string[];
   mitigationStrategies: string[];
+  source?: ResultSource;
 }
 
 export interface PatientEducation {
@@ -37,6 +61,7 @@ export interface PatientEducation {
   warningSignsToWatch: string[];
   whenToSeekHelp: string[];
   customizedContent: string;
+  source?: ResultSource;
 }
 
 export interface MCQQuestion {
@@ -47,6 +72,7 @@ export interface MCQQuestion {
   category: string;
   followUp?: string;
   explanation?: string;
+  source?: ResultSource;
 }
 
 export interface ClinicalAlert {
@@ -55,6 +81,13 @@ export interface ClinicalAlert {
   message: string;
   actionRequired: string;
   timeframe: string;
+  source?: ResultSource;
+}
+
+export interface DrugInteractionExplanation {
+  summary: string;
+  explanations: { id: string; explanation: string }[];
+  source?: ResultSource;
 }
 
 interface FollowUpMCQ {
@@ -88,261 +121,255 @@ export interface AIAnalysisResult {
     urgency?: string;
   }[];
   additionalNotes?: string;
+  source?: ResultSource;
+  triage?: TriageResult;
+  provenance?: AnalysisProvenance;
+  // Set once the analysis has been stored as a session revision
+  revision?: number;
 }
 
-export class AIService {
-  private groqReasoner: Groq;
-  private groqChat: Groq;
+// What produced an analysis, recorded with each stored revision. A canned
+// fallback has no model; its provider is the demo provider that stood in, or
+// null when the built-in fallback replaced an invalid response.
+export interface AnalysisProvenance {
+  provider: string | null;
+  model: string | null;
+  promptVersion: string;
+}
 
-  constructor() {
-    // Initialize Groq clients with dummy keys if real keys are not available
-    this.groqReasoner = new Groq({ 
-      apiKey: process.env.GROQ_API_KEY_REASONER || 'demo-key-reasoner'
-    });
-    this.groqChat = new Groq({ 
-      apiKey: process.env.GROQ_API_KEY_CHAT || 'demo-key-chat'
+export interface AnalysisOptions extends RenderOptions {
+  // Skip the LLM cache and ask the provider again (the fresh answer is cached)
+  bypassCache?: boolean;
+  // Trends from the patient's symptom log (see symptom-trends), for analyzeSymptoms
+  symptomHistory?: string;
+}
+
+interface CompletionOptions {
+  bypassCache?: boolean;
+  // Only responses passing this check are cached; defaults to any non-empty response
+  cacheable?: (content: string) => boolean;
+}
+
+const log = logger.child('ai-service');
+
+export class AIService {
+  constructor(
+    private providers: ProviderRegistry = providerRegistry,
+    private prompts: PromptRegistry = promptRegistry,
+    private cache: LLMCache = llmCache,
+    private usage: UsageService = usageService
+  ) {}
+
+  // Runs a prompt against the provider routed for the task and records the
+  // call's tokens, cost and latency against the current session.
+  private async requestCompletion(
+    prompt: string,
+    task: LLMTask,
+    options: CompletionOptions = {}
+  ): Promise<LLMCompletion & { fallback: boolean; provider: string; cached: boolean }> {
+    const started = performance.now();
+    const completion = await this.fetchCompletion(prompt, task, options);
+    await this.usage.record({
+      task,
+      provider: completion.provider,
+      model: completion.model,
+      usage: completion.usage,
+      latencyMs: performance.now() - started,
+      cached: completion.cached,
+      fallback: completion.fallback,
     });
+    return completion;
   }
 
-  private async callGroqAPI(prompt: string, useReasoner: boolean = true): Promise<string> {
-    try {
-      // Check if API keys are available
-      const apiKey = useReasoner ? process.env.GROQ_API_KEY_REASONER : process.env.GROQ_API_KEY_CHAT;
-      if (!apiKey) {
-        console.log('Groq API key not found, using demo response');
-        return this.generateDemoResponse(prompt, useReasoner);
-      }
+  // `fallback` is set when the demo provider had to stand in for an
+  // unconfigured or failing provider; `provider` is the name of the provider
+  // that actually answered. Completions from real providers are served from
+  // and saved to the LLM cache.
+  private async fetchCompletion(
+    prompt: string,
+    task: LLMTask,
+    options: CompletionOptions
+  ): Promise<LLMCompletion & { fallback: boolean; provider: string; cached: boolean }> {
+    const { provider, route } = this.providers.resolve(task);
+    const substituted = provider.type === 'demo' && route.provider !== provider.name;
+
+    if (substituted) {
+      log.info(`LLM provider "${route.provider}" not configured for ${task}, using demo response`);
+    }
 
-      const groqClient = useReasoner ? this.groqReasoner : this.groqChat;
-      const model = useReasoner ? "deepseek-r1-distill-llama-70b" : "meta-llama/llama-4-scout-17b-16e-instruct";
+    const request = {
+      prompt,
+      model: route.model,
+      temperature: route.temperature ?? API_CONFIG.defaults.temperature,
+      maxTokens: route.maxTokens ?? API_CONFIG.defaults.maxTokens,
+      topP: API_CONFIG.defaults.topP,
+    };
 
-      const completion = await groqClient.chat.completions.create({
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        model: model,
-        temperature: 0.3,
-        max_tokens: 2000,
-        top_p: 0.9,
-      });
+    // Demo responses are canned, so there is nothing to save by caching them
+    const key = provider.type !== 'demo' && this.cache.isEnabled(task)
+      ? cacheKey({ provider: provider.name, ...request })
+      : undefined;
+    if (key && options.bypassCache) {
+      this.cache.recordBypass(task);
+    } else if (key) {
+      const cached = await this.cache.get(task, key);
+      if (cached) {
+        return { ...cached, fallback: false, cached: true };
+      }
+    }
 
-      return completion.choices[0]?.message?.content || "";
+    try {
+      const completion = await provider.complete({ ...request, task });
+      const worthCaching = options.cacheable ?? ((content: string) => content.trim() !== '');
+      if (key && worthCaching(completion.content)) {
+        await this.cache.set(task, key, { ...completion, provider: provider.name });
+      }
+      return { ...completion, fallback: substituted, provider: provider.name, cached: false };
     } catch (error) {
-      console.error('Groq API Error:', error);
+      log.error(`LLM provider "${provider.name}" error (${task})`, { error });
       // Fallback to demo response
-      return this.generateDemoResponse(prompt, useReasoner);
+      const completion = await this.providers.demo.complete({ ...request, task });
+      return { ...completion, fallback: true, provider: this.providers.demo.name, cached: false };
     }
   }
 
-  private generateDemoResponse(prompt: string, useReasoner: boolean): string {
-    const promptLower = prompt.toLowerCase();
-    
-    // Detect the type of prompt and provide appropriate demo response
-    if (promptLower.includes('follow-up') || promptLower.includes('questions')) {
-      return JSON.stringify([
-        "Can you describe when these symptoms first started?",
-        "Have you noticed any specific triggers that make the symptoms worse?",
-        "Are you currently taking any medications?",
-        "Have you experienced these symptoms before?",
-        "How would you rate the severity of your symptoms on a scale of 1-10?"
-      ]);
-    }
-    
-    if (promptLower.includes('mcq') || promptLower.includes('multiple choice')) {
-      return JSON.stringify([
-        {
-          question: "What is the most important first step when experiencing chest pain?",
-          options: [
-            { text: "Ignore it and rest", isCorrect: false, explanation: "Chest pain should never be ignored as it could indicate a serious condition." },
-            { text: "Take deep breaths and assess the situation", isCorrect: true, explanation: "Taking deep breaths helps you stay calm and assess if emergency care is needed." },
-            { text: "Exercise to improve circulation", isCorrect: false, explanation: "Exercise during chest pain could worsen certain conditions." },
-            { text: "Drink cold water", isCorrect: false, explanation: "This may not address the underlying cause of chest pain." }
-          ],
-          category: "symptoms",
-          difficultyLevel: "easy",
-          educationalValue: 9
-        },
-        {
-          question: "When should you seek immediate medical attention for a cough?",
-          options: [
-            { text: "Only if it lasts more than a month", isCorrect: false, explanation: "Some serious conditions require immediate attention even with newer symptoms." },
-            { text: "If you cough up blood or have severe breathing difficulty", isCorrect: true, explanation: "These are red flag symptoms that require emergency care." },
-            { text: "Never, coughs always resolve on their own", isCorrect: false, explanation: "Some coughs indicate serious conditions that need medical treatment." },
-            { text: "Only during working hours", isCorrect: false, explanation: "Medical emergencies don't follow a schedule." }
-          ],
-          category: "symptoms",
-          difficultyLevel: "medium",
-          educationalValue: 8
-        }
-      ]);
-    }
-    
-    if (promptLower.includes('treatment') || promptLower.includes('pathway')) {
-      return JSON.stringify({
-        primaryTreatment: "Supportive care with rest, fluids, and over-the-counter symptom relief",
-        alternativeOptions: [
-          "Prescription medications if symptoms worsen",
-          "Specialist consultation if no improvement in 7-10 days",
-          "Additional testing if red flag symptoms develop"
-        ],
-        contraindications: ["Avoid aspirin in children under 16", "Monitor for allergic reactions to medications"],
-        expectedDuration: "7-10 days for most viral infections",
-        monitoringParameters: ["Symptom severity", "Temperature", "Breathing difficulty"],
-        followUpSchedule: "Return if symptoms worsen or persist beyond 10 days"
-      });
-    }
-    
-    if (promptLower.includes('risk') || promptLower.includes('assessment')) {
-      return JSON.stringify({
-        immediateRisk: "medium",
-        shortTermRisk: "low",
-        longTermRisk: "low",
-        riskFactors: [
-          "Current symptoms suggest common viral infection",
-          "Age and overall health status are favorable",
-          "No significant red flag symptoms present"
-        ],
-        mitigationStrategies: [
-          "Monitor symptoms closely",
-          "Maintain good hydration",
-          "Rest and avoid strenuous activity",
-          "Seek care if symptoms worsen"
-        ]
-      });
+  private async callLLM(prompt: string, task: LLMTask): Promise<string> {
+    const completion = await this.requestCompletion(prompt, task);
+    return completion.content;
+  }
+
+  // Calls the LLM and validates the JSON it returns against `schema`. Invalid
+  // output is sent back to the model together with the validation errors, up to
+  // API_CONFIG.validation.maxRepairAttempts times, before `fallback` is used.
+  // Only responses that validate are cached.
+  private async generateStructured<Output>(
+    task: LLMTask,
+    prompt: string,
+    schema: z.ZodType<Output, z.ZodTypeDef, unknown>,
+    fallback: () => Output,
+    options: { bypassCache?: boolean } = {}
+  ): Promise<{ data: Output; source: ResultSource; provider: string | null; model: string | null }> {
+    const completionOptions: CompletionOptions = {
+      bypassCache: options.bypassCache,
+      cacheable: (content) => this.validateJSON(content, schema).success,
+    };
+    let completion = await this.requestCompletion(prompt, task, completionOptions);
+    let result = this.validateJSON(completion.content, schema);
+    const answeredBy = () => completion.fallback
+      ? { provider: completion.provider, model: null }
+      : { provider: completion.provider, model: completion.model };
+
+    if (result.success) {
+      return { data: result.data, source: completion.fallback ? 'fallback' : 'model', ...answeredBy() };
     }
-    
-    if (promptLower.includes('education') || promptLower.includes('patient')) {
-      return JSON.stringify({
-        simpleExplanation: "You appear to have a common viral infection that affects your respiratory system. This is very treatable and usually gets better on its own with proper care.",
-        lifestyleModifications: [
-          "Get plenty of rest to help your body fight the infection",
-          "Drink lots of fluids like water, warm tea, or soup",
-          "Use a humidifier or breathe steam to ease congestion",
-          "Eat nutritious foods to support your immune system"
-        ],
-        warningSignsToWatch: [
-          "Difficulty breathing or shortness of breath",
-          "High fever that doesn't respond to medication",
-          "Severe headache or neck stiffness",
-          "Symptoms that get much worse instead of better"
-        ],
-        whenToSeekHelp: [
-          "If you have trouble breathing",
-          "If your fever goes above 39°C (102°F) and stays high",
-          "If you feel much worse instead of gradually better",
-          "If you develop new concerning symptoms"
-        ],
-        customizedContent: "Most people with similar symptoms recover completely within 1-2 weeks with good self-care. The key is to rest, stay hydrated, and watch for any worsening symptoms."
-      });
+
+    // Demo responses are deterministic, so re-prompting them cannot help,
+    // whether the demo provider stood in or was routed to explicitly
+    const canned = () => completion.fallback || this.providers.get(completion.provider)?.type === 'demo';
+    for (let attempt = 1; attempt <= API_CONFIG.validation.maxRepairAttempts && !canned(); attempt++) {
+      log.warn(`Invalid ${task} response (repair attempt ${attempt})`, { errors: result.errors });
+
+      completion = await this.requestCompletion(
+        this.buildRepairPrompt(prompt, completion.content, result.errors),
+        task,
+        completionOptions
+      );
+      result = this.validateJSON(completion.content, schema);
+
+      if (result.success) {
+        return { data: result.data, source: completion.fallback ? 'fallback' : 'repaired', ...answeredBy() };
+      }
     }
-    
-    if (promptLower.includes('alert') || promptLower.includes('clinical')) {
-      return JSON.stringify([
-        {
-          type: "info",
-          priority: 3,
-          message: "Monitor for symptom progression",
-          actionRequired: "Check patient status in 24-48 hours",
-          timeframe: "Within 2 days"
-        },
-        {
-          type: "warning",
-          priority: 6,
-          message: "Watch for respiratory distress",
-          actionRequired: "Advise patient on when to seek immediate care",
-          timeframe: "Ongoing monitoring"
-        }
-      ]);
+
+    log.error(`Giving up on ${task} response, using fallback`, { errors: result.errors });
+    return { data: fallback(), source: 'fallback', provider: null, model: null };
+  }
+
+  private validateJSON<Output>(
+    response: string,
+    schema: z.ZodType<Output, z.ZodTypeDef, unknown>
+  ): { success: true; data: Output } | { success: false; errors: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(this.cleanJSONResponse(response));
+    } catch (error) {
+      return { success: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
     }
-    
-    if (promptLower.includes('diagnosis') || promptLower.includes('differential')) {
-      return JSON.stringify({
-        diagnoses: [
-          {
-            name: "Upper Respiratory Infection",
-            description: "Common viral infection affecting the nose, throat, and airways. Usually resolves within 7-10 days with supportive care.",
-            confidence: 75,
-            severity: "medium",
-            probability: 75,
-            clinicalEvidence: 7,
-            symptomMatch: 75,
-            literatureSupport: "moderate",
-            category: "Infectious Disease",
-            redFlags: ["Difficulty breathing", "High fever > 39°C"],
-            recommendedTests: ["Complete Blood Count", "Throat Culture"],
-            additionalTestingNeeded: ["Chest X-ray if respiratory symptoms persist"]
-          },
-          {
-            name: "Allergic Rhinitis",
-            description: "Allergic reaction causing nasal congestion, sneezing, and runny nose. Often seasonal or triggered by environmental allergens.",
-            confidence: 60,
-            severity: "low",
-            probability: 60,
-            clinicalEvidence: 6,
-            symptomMatch: 65,
-            literatureSupport: "moderate",
-            category: "Allergic Reaction",
-            redFlags: ["Severe breathing difficulty"],
-            recommendedTests: ["Allergy Testing"],
-            additionalTestingNeeded: ["IgE levels"]
-          }
-        ],
-        followUpQuestions: [],
-        redFlags: ["Difficulty breathing", "High fever", "Severe headache"],
-        recommendedTests: ["Complete Blood Count", "Basic Metabolic Panel"],
-        overallConfidence: 70
-      });
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      return { success: false, errors: formatValidationIssues(result.error) };
     }
-    
-    // Default demo response for other prompts
-    return "This is a demo response. The application is running in demo mode. Please configure Groq API keys in the .env file for full AI functionality.";
+    return { success: true, data: result.data };
+  }
+
+  private buildRepairPrompt(originalPrompt: string, invalidResponse: string, errors: string[]): string {
+    return this.prompts.render('jsonRepair', {
+      originalPrompt,
+      invalidResponse: invalidResponse.slice(0, 4000),
+      errors: errors.map(error => `- ${error}`).join('\n')
+    }).text;
   }
 
   async generateFollowUpQuestions(symptoms: string, mode: 'unified' | 'doctor' | 'patient', patientInfo?: any): Promise<string[]> {
-    const prompt = this.buildFollowUpQuestionsPrompt(symptoms, mode, patientInfo);
+    const prompt = this.prompts.render('followUpQuestions', {
+      symptoms,
+      doctor: mode === 'doctor',
+      patientSummary: describePatient(patientInfo)
+    }).text;
     
     try {
       // Use chat model for generating follow-up questions
-      const response = await this.callGroqAPI(prompt, false);
+      const response = await this.callLLM(prompt, 'followUpQuestions');
       return this.parseFollowUpQuestions(response);
     } catch (error) {
-      console.error('Groq Follow-up Questions Error:', error);
+      log.error('Groq Follow-up Questions Error', { error });
       // Fallback to demo questions
       return this.generateDemoFollowUpQuestions(symptoms, mode);
     }
   }
 
-  async analyzeSymptoms(symptoms: string, mode: 'unified' | 'doctor' | 'patient', patientInfo?: any): Promise<AIAnalysisResult> {
-    const basePrompt = this.buildAnalysisPrompt(symptoms, mode, patientInfo);
+  // `options.bucketKey` (the session ID) keeps a session on one side of a prompt A/B test
+  async analyzeSymptoms(
+    symptoms: string,
+    mode: 'unified' | 'doctor' | 'patient',
+    patientInfo?: any,
+    options: AnalysisOptions = {}
+  ): Promise<AIAnalysisResult> {
+    const prompt = this.prompts.render('analysis', {
+      symptoms,
+      doctor: mode === 'doctor',
+      patientSummary: describePatient(patientInfo),
+      symptomHistory: options.symptomHistory
+    }, options);
     
-    try {
-      // Use DeepSeek R1 Distill Llama 70B for medical reasoning
-      const reasonerResponse = await this.callGroqAPI(basePrompt, true);
-      
-      // Parse the reasoner response to extract structured data
-      const analysisResult = this.parseReasonerResponse(reasonerResponse);
-      
-      return analysisResult;
-    } catch (error) {
-      console.error('Groq AI Service Error:', error);
-      // Fallback to demo mode when Groq API is not available
-      return this.generateDemoAnalysis(symptoms, mode, patientInfo);
-    }
+    // Fallback to demo analysis when the model cannot produce a valid differential
+    const { data, source, provider, model } = await this.generateStructured(
+      'analysis',
+      prompt.text,
+      aiAnalysisResultSchema,
+      () => this.generateDemoAnalysis(symptoms, mode, patientInfo),
+      { bypassCache: options.bypassCache }
+    );
+
+    return { ...data, source, provenance: { provider, model, promptVersion: prompt.id } };
   }
 
   // Enhanced Analysis Methods
   async generateMCQQuestions(symptoms: string, mode: 'doctor' | 'patient', diagnosis?: string, patientInfo?: any, analysisResult?: any): Promise<MCQQuestion[]> {
+    let questions: MCQQuestion[];
+
     // Generate dynamic MCQs based on actual consultation data
     if (diagnosis && analysisResult) {
-      return this.generateDynamicMCQs(symptoms, mode, diagnosis, patientInfo, analysisResult);
+      questions = this.generateDynamicMCQs(symptoms, mode, diagnosis, patientInfo, analysisResult);
+    } else {
+      // Fallback to static MCQs if no consultation data available
+      log.info('Using enhanced fallback MCQ questions');
+      questions = this.generateEnhancedFallbackMCQ(mode, symptoms);
     }
-    
-    // Fallback to static MCQs if no consultation data available
-    console.log('Using enhanced fallback MCQ questions');
-    return this.generateEnhancedFallbackMCQ(mode, symptoms);
+
+    // These come from templates rather than the model, so they are always marked as fallback content
+    return mcqQuestionsSchema.parse(questions).map(question => ({ ...question, source: 'fallback' as const }));
   }
 
   // Generate dynamic MCQs based on consultation results
@@ -589,28 +616,10 @@ export class AIService {
   }
 
   async performConfidenceAnalysis(diagnosis: string, symptoms: string, patientInfo: any): Promise<any> {
-    const confidencePrompt = `
-    For diagnosis: "${diagnosis}" with symptoms: "${symptoms}"
-    Patient info: ${JSON.stringify(patientInfo)}
-    
-    Provide detailed confidence analysis:
-    - Clinical evidence strength (1-10)
-    - Symptom match percentage (0-100)
-    - Literature support level (weak/moderate/strong)
-    - Need for additional testing
-    
-    Return as JSON:
-    {
-      "clinicalEvidence": 8,
-      "symptomMatch": 85,
-      "literatureSupport": "strong",
-      "additionalTestingNeeded": ["CBC", "Chest X-ray"],
-      "overallConfidence": 82,
-      "rationale": "Strong clinical correlation with typical presentation..."
-    }`;
+    const confidencePrompt = this.prompts.render('confidenceAnalysis', { diagnosis, symptoms, patientInfo: promptPatientContext(patientInfo) }).text;
 
     try {
-      const response = await this.callGroqAPI(confidencePrompt, true);
+      const response = await this.callLLM(confidencePrompt, 'confidenceAnalysis');
       return JSON.parse(this.cleanJSONResponse(response));
     } catch (error) {
       return {
@@ -625,186 +634,93 @@ export class AIService {
   }
 
   async generateTreatmentPathway(diagnosis: string, patientInfo: any): Promise<TreatmentPathway> {
-    const treatmentPrompt = `
-    Based on diagnosis: "${diagnosis}"
-    Patient profile: ${JSON.stringify(patientInfo)}
-    
-    Provide comprehensive treatment pathway:
-    1. First-line therapy options
-    2. Alternative treatments
-    3. Monitoring requirements
-    4. Follow-up schedule
-    5. When to escalate care
-    
-    Format as JSON:
-    {
-      "firstLineTherapy": ["Antibiotic X", "Rest", "Fluids"],
-      "alternativeTreatments": ["Alternative therapy Y"],
-      "monitoringRequirements": ["Daily temperature", "Oxygen saturation"],
-      "followUpSchedule": "Return in 48-72 hours if symptoms worsen",
-      "escalationCriteria": ["High fever >39°C", "Difficulty breathing"]
-    }`;
+    const treatmentPrompt = this.prompts.render('treatmentPathway', { diagnosis, patientInfo: promptPatientContext(patientInfo) }).text;
+
+    const { data, source } = await this.generateStructured('treatmentPathway', treatmentPrompt, treatmentPathwaySchema, () => ({
+      firstLineTherapy: ["Symptomatic treatment", "Rest", "Hydration"],
+      alternativeTreatments: ["Consult specialist if no improvement"],
+      monitoringRequirements: ["Monitor symptoms"],
+      followUpSchedule: "Follow up in 1-2 weeks",
+      escalationCriteria: ["Worsening symptoms", "New concerning signs"]
+    }));
 
-    try {
-      const response = await this.callGroqAPI(treatmentPrompt, true);
-      return JSON.parse(this.cleanJSONResponse(response));
-    } catch (error) {
-      return {
-        firstLineTherapy: ["Symptomatic treatment", "Rest", "Hydration"],
-        alternativeTreatments: ["Consult specialist if no improvement"],
-        monitoringRequirements: ["Monitor symptoms"],
-        followUpSchedule: "Follow up in 1-2 weeks",
-        escalationCriteria: ["Worsening symptoms", "New concerning signs"]
-      };
-    }
+    return { ...data, source };
   }
 
-  async checkDrugInteractions(medications: string[], allergies: string[], diagnosis: string): Promise<string[]> {
-    const drugInteractionPrompt = `
-    Current medications: ${medications.join(', ')}
-    Known allergies: ${allergies.join(', ')}
-    Diagnosis: ${diagnosis}
-    
-    Check for:
-    - Drug-drug interactions
-    - Drug-disease contraindications
-    - Allergy considerations
-    - Dosage adjustments needed
-    
-    Return array of warnings/interactions as JSON:
-    ["Warning 1", "Interaction 2", "Contraindication 3"]`;
+  // The findings come from the local interaction dataset; the model only
+  // explains them and must not add, drop or re-grade any.
+  async checkDrugInteractions(
+    findings: DrugInteractionFinding[],
+    medications: string[],
+    audience: 'doctor' | 'patient' = 'patient'
+  ): Promise<DrugInteractionExplanation> {
+    const drugInteractionPrompt = this.prompts.render('drugInteractions', {
+      medications: medications.join(', '),
+      findings: findings.map(({ id, kind, pair, severity, mechanism, recommendation }) => ({ id, kind, pair, severity, mechanism, recommendation })),
+      doctor: audience === 'doctor'
+    }).text;
+
+    const { data, source } = await this.generateStructured('drugInteractions', drugInteractionPrompt, drugInteractionExplanationSchema, () => ({
+      summary: `${findings.length} potential interaction${findings.length === 1 ? '' : 's'} found. Review each recommendation with a pharmacist or prescriber.`,
+      explanations: []
+    }));
 
-    try {
-      const response = await this.callGroqAPI(drugInteractionPrompt, true);
-      return JSON.parse(this.cleanJSONResponse(response));
-    } catch (error) {
-      return ["No significant interactions detected"];
-    }
+    return { ...data, source };
   }
 
   async performRiskStratification(diagnosis: string, patientInfo: any): Promise<RiskAssessment> {
-    const riskPrompt = `
-    For diagnosis: "${diagnosis}"
-    Patient: ${JSON.stringify(patientInfo)}
-    
-    Perform comprehensive risk stratification:
-    - Immediate risk (next 24 hours): low/medium/high/critical
-    - Short-term risk (next week): low/medium/high  
-    - Long-term risk (next 6 months): low/medium/high
-    
-    Provide specific risk factors and mitigation strategies.
-    
-    Format as JSON:
-    {
-      "immediateRisk": "low",
-      "shortTermRisk": "medium", 
-      "longTermRisk": "low",
-      "riskFactors": ["Risk factor 1", "Risk factor 2"],
-      "mitigationStrategies": ["Strategy 1", "Strategy 2"]
-    }`;
+    const riskPrompt = this.prompts.render('riskStratification', { diagnosis, patientInfo: promptPatientContext(patientInfo) }).text;
+
+    const { data, source } = await this.generateStructured('riskStratification', riskPrompt, riskAssessmentSchema, () => ({
+      immediateRisk: "low" as const,
+      shortTermRisk: "low" as const,
+      longTermRisk: "low" as const,
+      riskFactors: ["Monitor symptoms closely", "Follow prescribed treatment"],
+      mitigationStrategies: ["Follow prescribed treatment", "Regular monitoring", "Maintain healthy lifestyle"]
+    }));
 
-    try {
-      const response = await this.callGroqAPI(riskPrompt, true);
-      return JSON.parse(this.cleanJSONResponse(response));
-    } catch (error) {
-      return {
-        immediateRisk: "low",
-        shortTermRisk: "low", 
-        longTermRisk: "low",
-        riskFactors: ["Monitor symptoms closely", "Follow prescribed treatment"],
-        mitigationStrategies: ["Follow prescribed treatment", "Regular monitoring", "Maintain healthy lifestyle"]
-      };
-    }
+    return { ...data, source };
   }
 
-  async generatePatientEducation(diagnosis: string, educationLevel: string, language: string): Promise<PatientEducation> {
-    const educationPrompt = `
-    Create patient education material for: "${diagnosis}"
-    Education level: ${educationLevel}
-    Language preference: ${language}
-    
-    Include:
-    - Simple explanations suitable for education level
-    - Lifestyle modifications
-    - Warning signs to watch for
-    - When to seek immediate help
-    - Customized content based on language/culture
-    
-    Format as JSON:
-    {
-      "simpleExplanation": "Easy to understand explanation",
-      "lifestyleModifications": ["Modification 1", "Modification 2"],
-      "warningSignsToWatch": ["Warning sign 1", "Warning sign 2"],
-      "whenToSeekHelp": ["Seek help if...", "Call doctor when..."],
-      "customizedContent": "Additional culturally appropriate content"
-    }`;
+  async generatePatientEducation(diagnosis: string, educationLevel: string, language: string, patientInfo?: any): Promise<PatientEducation> {
+    const educationPrompt = this.prompts.render('patientEducation', {
+      diagnosis,
+      educationLevel,
+      language,
+      patientSummary: describePatient(patientInfo)
+    }).text;
+
+    const { data, source } = await this.generateStructured('patientEducation', educationPrompt, patientEducationSchema, () => ({
+      simpleExplanation: `You have been diagnosed with ${diagnosis}. This condition affects your health and needs proper care.`,
+      lifestyleModifications: ["Rest when needed", "Stay hydrated", "Follow medication schedule"],
+      warningSignsToWatch: ["Worsening symptoms", "New severe symptoms", "Difficulty breathing"],
+      whenToSeekHelp: ["If symptoms get worse", "If you have severe pain", "If you feel very unwell"],
+      customizedContent: "Please follow up with your healthcare provider for personalized guidance."
+    }));
 
-    try {
-      const response = await this.callGroqAPI(educationPrompt, false);
-      return JSON.parse(this.cleanJSONResponse(response));
-    } catch (error) {
-      return {
-        simpleExplanation: `You have been diagnosed with ${diagnosis}. This condition affects your health and needs proper care.`,
-        lifestyleModifications: ["Rest when needed", "Stay hydrated", "Follow medication schedule"],
-        warningSignsToWatch: ["Worsening symptoms", "New severe symptoms", "Difficulty breathing"],
-        whenToSeekHelp: ["If symptoms get worse", "If you have severe pain", "If you feel very unwell"],
-        customizedContent: "Please follow up with your healthcare provider for personalized guidance."
-      };
-    }
+    return { ...data, source };
   }
 
   async generateClinicalAlerts(diagnosis: string, patientInfo: any, symptoms: string): Promise<ClinicalAlert[]> {
-    const alertPrompt = `
-    Generate clinical alerts for:
-    Diagnosis: "${diagnosis}"
-    Patient: ${JSON.stringify(patientInfo)}
-    Symptoms: "${symptoms}"
-    
-    Generate alerts for:
-    - Critical lab values needed
-    - Drug allergy warnings
-    - Contraindication alerts
-    - Immediate action required
-    
-    Format as prioritized alert system (JSON array):
-    [{
-      "type": "critical/warning/info",
-      "priority": 1-10,
-      "message": "Alert message",
-      "actionRequired": "Specific action needed",
-      "timeframe": "When to act"
-    }]`;
-
-    try {
-      const response = await this.callGroqAPI(alertPrompt, true);
-      return JSON.parse(this.cleanJSONResponse(response));
-    } catch (error) {
-      return [{
-        type: "info",
-        priority: 5,
-        message: "Continue monitoring patient condition",
-        actionRequired: "Regular assessment",
-        timeframe: "Ongoing"
-      }];
-    }
+    const alertPrompt = this.prompts.render('clinicalAlerts', { diagnosis, symptoms, patientInfo: promptPatientContext(patientInfo) }).text;
+
+    const { data, source } = await this.generateStructured('clinicalAlerts', alertPrompt, clinicalAlertsSchema, () => [{
+      type: "info" as const,
+      priority: 5,
+      message: "Continue monitoring patient condition",
+      actionRequired: "Regular assessment",
+      timeframe: "Ongoing"
+    }]);
+
+    // Alerts are returned as a plain array, so each one carries the marker
+    return data.map(alert => ({ ...alert, source }));
   }
 
   async getSecondOpinion(primaryDiagnosis: string, symptoms: string, patientInfo: any): Promise<string> {
-    const secondOpinionPrompt = `
-    Primary diagnosis: "${primaryDiagnosis}"
-    Symptoms: "${symptoms}"
-    Patient info: ${JSON.stringify(patientInfo)}
-    
-    Provide alternative diagnostic perspective:
-    - Challenge primary diagnosis
-    - Consider rare/atypical presentations
-    - Suggest additional testing
-    - When to seek specialist consultation
-    
-    Return critical analysis as text.`;
+    const secondOpinionPrompt = this.prompts.render('secondOpinion', { primaryDiagnosis, symptoms, patientInfo: promptPatientContext(patientInfo) }).text;
 
     try {
-      const response = await this.callGroqAPI(secondOpinionPrompt, true);
+      const response = await this.callLLM(secondOpinionPrompt, 'secondOpinion');
       return response;
     } catch (error) {
       return "Second opinion analysis unavailable. Consider specialist consultation if symptoms persist or worsen.";
@@ -812,62 +728,67 @@ export class AIService {
   }
 
   async adaptCommunicationStyle(content: string, userType: 'medical_professional' | 'patient' | 'caregiver' | 'student'): Promise<string> {
-    const communicationPrompt = `
-    Adapt this medical content for: ${userType}
-    Original content: "${content}"
-    
-    Adaptation guidelines:
-    - Medical professional: Technical language, ICD codes, clinical details
-    - Patient: Simple terms, analogies, reassuring tone
-    - Caregiver: Practical guidance, what to watch for
-    - Student: Educational details, learning points
-    
-    Return adapted content as text.`;
+    const communicationPrompt = this.prompts.render('communicationStyle', { content, userType }).text;
 
     try {
-      const response = await this.callGroqAPI(communicationPrompt, false);
+      const response = await this.callLLM(communicationPrompt, 'communicationStyle');
       return response;
     } catch (error) {
       return content; // Return original if adaptation fails
     }
   }
 
+  // "reasoner" reports the provider behind the analysis task and "chat" the one
+  // behind follow-up questions, matching the two models the UI shows.
   async checkApiHealth(): Promise<any> {
-    try {
-      const reasonerKey = process.env.GROQ_API_KEY_REASONER;
-      const chatKey = process.env.GROQ_API_KEY_CHAT;
-      
-      if (!reasonerKey || !chatKey) {
-        return {
-          reasoner: { 
-            status: 'demo_mode', 
-            message: 'API key not configured - using demo responses' 
-          },
-          chat: { 
-            status: 'demo_mode', 
-            message: 'API key not configured - using demo responses' 
-          }
-        };
-      }
-      
-      const reasonerResponse = await this.callGroqAPI("Health check", true);
-      const chatResponse = await this.callGroqAPI("Health check", false);
-      
+    const [reasoner, chat] = await Promise.all([
+      this.checkTaskHealth('analysis'),
+      this.checkTaskHealth('followUpQuestions')
+    ]);
+
+    return {
+      reasoner,
+      chat,
+      routes: this.providers.describeRoutes()
+    };
+  }
+
+  private async checkTaskHealth(task: LLMTask): Promise<any> {
+    const { provider, route } = this.providers.resolve(task);
+
+    if (provider.type === 'demo') {
       return {
-        reasoner: { status: 'available', response: reasonerResponse },
-        chat: { status: 'available', response: chatResponse }
+        status: 'demo_mode',
+        provider: route.provider,
+        model: route.model,
+        message: route.provider === provider.name
+          ? 'Routed to demo provider'
+          : 'Provider not configured - using demo responses'
       };
+    }
+
+    try {
+      const completion = await provider.complete({
+        prompt: "Health check",
+        model: route.model,
+        temperature: API_CONFIG.defaults.temperature,
+        maxTokens: 16,
+        topP: API_CONFIG.defaults.topP
+      });
+      return { status: 'available', provider: route.provider, model: route.model, response: completion.content };
     } catch (error) {
       return {
-        reasoner: { status: 'unavailable', error: error instanceof Error ? error.message : String(error) },
-        chat: { status: 'unavailable', error: error instanceof Error ? error.message : String(error) }
+        status: 'unavailable',
+        provider: route.provider,
+        model: route.model,
+        error: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
   async testConnection(prompt: string): Promise<string> {
     try {
-      return await this.callGroqAPI(prompt, false);
+      return await this.callLLM(prompt, 'connectionTest');
     } catch (error) {
       throw new Error(`Connection test failed: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -1004,114 +925,6 @@ export class AIService {
     }
   }
 
-  private buildAnalysisPrompt(symptoms: string, mode: string, patientInfo?: any): string {
-    const modeContext = mode === 'doctor' 
-      ? "You are assisting a healthcare professional with clinical decision support."
-      : "You are providing patient education and guidance. Use simple, non-technical language.";
-
-    return `${modeContext}
-
-Patient symptoms: ${symptoms}
-${patientInfo ? `Patient information: Age ${patientInfo.age}, Gender: ${patientInfo.gender}` : ''}
-
-Provide a differential diagnosis analysis. Your response MUST be a valid JSON object with this exact structure:
-{
-  "diagnoses": [
-    {
-      "name": "Diagnosis name",
-      "description": "Clear description",
-      "confidence": 85,
-      "category": "Category name",
-      "redFlags": ["flag1", "flag2"],
-      "recommendedTests": ["test1", "test2"]
-    }
-  ],
-  "overallConfidence": 85,
-  "redFlags": ["general red flags"],
-  "recommendedTests": ["general tests"]
-}
-
-Focus on:
-1. Most likely diagnoses with confidence scores
-2. Red flag symptoms requiring immediate attention
-3. Appropriate diagnostic tests
-4. Clear, actionable recommendations
-${mode === 'doctor' ? '5. Include ICD-10 codes and medical references where appropriate' : '5. Use patient-friendly language'}`;
-  }
-
-  private buildFollowUpQuestionsPrompt(symptoms: string, mode: string, patientInfo?: any): string {
-    const modeContext = mode === 'doctor' 
-      ? "You are assisting a healthcare professional with patient assessment. Generate detailed, clinical follow-up questions."
-      : "You are helping a patient provide detailed health information. Use simple, clear language that patients can easily understand.";
-
-    return `${modeContext}
-
-Based on these initial symptoms: "${symptoms}"
-${patientInfo ? `Patient information: Age ${patientInfo.age}, Gender: ${patientInfo.gender}` : ''}
-
-Generate 4-6 specific follow-up questions that would help gather essential information for a comprehensive medical assessment.
-
-Return ONLY a JSON array of questions:
-["Question 1?", "Question 2?", "Question 3?"]
-
-${mode === 'doctor' ? `Focus on PROFESSIONAL/CLINICAL aspects:
-- Detailed symptom progression and clinical timeline  
-- Associated symptoms, triggers, and aggravating factors
-- Comprehensive past medical history and family history
-- Current medications, dosages, and potential interactions
-- Physical examination findings and clinical observations
-- Differential diagnosis considerations
-- Risk stratification factors
-
-Use medical terminology and clinical precision.` : `Focus on PERSONAL/PATIENT-FRIENDLY aspects:
-- When did this start and how has it changed over time?
-- What makes you feel better or worse?
-- Have you noticed any other symptoms along with this?
-- What medications or treatments are you currently using?
-- Have you or your family members had similar problems before?
-- How is this affecting your daily activities?
-
-Use simple, everyday language that's easy to understand.`}
-
-Keep questions clear, specific, and directly relevant to the symptoms described.`;
-  }
-
-  private buildFollowUpPrompt(symptoms: string, analysis: AIAnalysisResult): string {
-    return `Based on these symptoms: "${symptoms}" and the preliminary analysis, generate 3-5 specific follow-up questions that would help refine the diagnosis. 
-
-Return only a JSON array of questions:
-["Question 1?", "Question 2?", "Question 3?"]
-
-Focus on:
-- Symptom clarification
-- Duration and onset
-- Associated symptoms
-- Medical history
-- Medications and allergies`;
-  }
-
-  private parseReasonerResponse(response: string): AIAnalysisResult {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          diagnoses: parsed.diagnoses || [],
-          followUpQuestions: [],
-          redFlags: parsed.redFlags || [],
-          recommendedTests: parsed.recommendedTests || [],
-          overallConfidence: parsed.overallConfidence || 0
-        };
-      }
-    } catch (error) {
-      console.error('Failed to parse reasoner response:', error);
-    }
-
-    // Fallback parsing for non-JSON responses
-    return this.fallbackParsing(response);
-  }
-
   private parseFollowUpQuestions(response: string): string[] {
     try {
       // Clean the response string before parsing
@@ -1121,7 +934,7 @@ Focus on:
         return JSON.parse(jsonMatch[0]);
       }
     } catch (error) {
-      console.error('Failed to parse follow-up questions:', error);
+      log.error('Failed to parse follow-up questions', { error });
     }
 
     // Fallback: extract questions from text
@@ -1137,32 +950,6 @@ Focus on:
     ];
   }
 
-  private fallbackParsing(response: string): AIAnalysisResult {
-    // Basic fallback parsing for when JSON parsing fails
-    return {
-      diagnoses: [
-        {
-          name: "Analysis Available",
-          description: "AI analysis completed. Please review the detailed response.",
-          confidence: 75,
-          category: "General",
-          redFlags: [],
-          recommendedTests: [],
-          severity: "medium",
-          probability: 75,
-          clinicalEvidence: 7,
-          symptomMatch: 75,
-          literatureSupport: "moderate",
-          additionalTestingNeeded: []
-        }
-      ],
-      followUpQuestions: [],
-      redFlags: [],
-      recommendedTests: [],
-      overallConfidence: 75
-    };
-  }
-
   private generateDemoAnalysis(symptoms: string, mode: 'unified' | 'doctor' | 'patient', patientInfo?: any): AIAnalysisResult {
     // Intelligent demo analysis based on symptoms
     const symptomLower = symptoms.toLowerCase();
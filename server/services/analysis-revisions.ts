@@ -0,0 +1,171 @@
+import { storage } from "../storage";
+import type { AnalysisRevision } from "@shared/schema";
+import type { PatientContext } from "@shared/api-schemas";
+import type { AIAnalysisResult } from "./ai-service";
+
+export type AnalysisTrigger = 'analyze' | 'enhanced-analysis' | 'submit-answers';
+
+// Everything the analysis was produced from, stored with the revision
+export interface AnalysisInputs {
+  mode: string;
+  symptoms: string;
+  followUpAnswers?: { question: string; answer: string }[];
+  patientInfo?: PatientContext | null;
+  // Symptom-log trends of the linked patient, when there were any
+  symptomHistory?: string;
+}
+
+export interface RecordAnalysisParams<T extends AIAnalysisResult> {
+  sessionId: string;
+  trigger: AnalysisTrigger;
+  inputs: AnalysisInputs;
+  analysis: T;
+  // Symptom text to store on the session alongside the analysis
+  symptoms?: string;
+}
+
+export interface DiagnosisConfidence {
+  name: string;
+  confidence: number;
+}
+
+export interface DiagnosisConfidenceChange {
+  name: string;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface AnalysisRevisionSummary {
+  revision: number;
+  trigger: string;
+  provider: string | null;
+  model: string | null;
+  promptVersion: string | null;
+  createdAt: Date | null;
+}
+
+export interface AnalysisDiff {
+  sessionId: string;
+  from: AnalysisRevisionSummary;
+  to: AnalysisRevisionSummary;
+  // Diagnoses that entered or left the differential
+  added: DiagnosisConfidence[];
+  removed: DiagnosisConfidence[];
+  // Diagnoses present in both, ordered by the size of the confidence move
+  changed: DiagnosisConfidenceChange[];
+  unchanged: string[];
+  overallConfidence: { from: number; to: number; delta: number };
+  redFlags: { added: string[]; removed: string[] };
+}
+
+/**
+ * Stores an analysis as the session's next immutable revision, makes it the
+ * session's current analysis and records its diagnoses against the revision.
+ * Returns the analysis with its revision number set.
+ */
+export async function recordAnalysis<T extends AIAnalysisResult>({
+  sessionId,
+  trigger,
+  inputs,
+  analysis,
+  symptoms
+}: RecordAnalysisParams<T>): Promise<T & { revision: number }> {
+  const revision = await storage.createAnalysisRevision({
+    sessionId,
+    trigger,
+    inputs,
+    provider: analysis.provenance?.provider,
+    model: analysis.provenance?.model,
+    promptVersion: analysis.provenance?.promptVersion,
+    output: analysis,
+  });
+  const stored = { ...analysis, revision: revision.revision };
+
+  await storage.updateSession(sessionId, {
+    ...(symptoms !== undefined && { symptoms }),
+    aiAnalysis: stored,
+    updatedAt: new Date()
+  });
+
+  for (const diagnosis of analysis.diagnoses) {
+    await storage.createDiagnosis({
+      sessionId,
+      revisionId: revision.id,
+      name: diagnosis.name,
+      description: diagnosis.description,
+      confidence: diagnosis.confidence,
+      category: diagnosis.category,
+      redFlags: diagnosis.redFlags,
+      recommendedTests: diagnosis.recommendedTests
+    });
+  }
+
+  return stored;
+}
+
+export function summarizeRevision(revision: AnalysisRevision): AnalysisRevisionSummary {
+  const { revision: number, trigger, provider, model, promptVersion, createdAt } = revision;
+  return { revision: number, trigger, provider, model, promptVersion, createdAt };
+}
+
+// Diagnosis names are matched case-insensitively; the model is not consistent about casing
+function indexDiagnoses(analysis: AIAnalysisResult): Map<string, DiagnosisConfidence> {
+  const index = new Map<string, DiagnosisConfidence>();
+  for (const diagnosis of analysis.diagnoses || []) {
+    const key = diagnosis.name.trim().toLowerCase();
+    if (!index.has(key)) index.set(key, { name: diagnosis.name, confidence: diagnosis.confidence });
+  }
+  return index;
+}
+
+export function diffAnalyses(from: AnalysisRevision, to: AnalysisRevision): AnalysisDiff {
+  const before = from.output as AIAnalysisResult;
+  const after = to.output as AIAnalysisResult;
+  const beforeDiagnoses = indexDiagnoses(before);
+  const afterDiagnoses = indexDiagnoses(after);
+
+  const added: DiagnosisConfidence[] = [];
+  const changed: DiagnosisConfidenceChange[] = [];
+  const unchanged: string[] = [];
+  afterDiagnoses.forEach((diagnosis, key) => {
+    const previous = beforeDiagnoses.get(key);
+    if (!previous) {
+      added.push(diagnosis);
+    } else if (previous.confidence === diagnosis.confidence) {
+      unchanged.push(diagnosis.name);
+    } else {
+      changed.push({
+        name: diagnosis.name,
+        from: previous.confidence,
+        to: diagnosis.confidence,
+        delta: diagnosis.confidence - previous.confidence
+      });
+    }
+  });
+  const removed = Array.from(beforeDiagnoses.entries())
+    .filter(([key]) => !afterDiagnoses.has(key))
+    .map(([, diagnosis]) => diagnosis);
+
+  const beforeFlags = new Set(before.redFlags || []);
+  const afterFlags = new Set(after.redFlags || []);
+
+  return {
+    sessionId: to.sessionId,
+    from: summarizeRevision(from),
+    to: summarizeRevision(to),
+    added,
+    removed,
+    changed: changed.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+    unchanged,
+    overallConfidence: {
+      from: before.overallConfidence ?? 0,
+      to: after.overallConfidence ?? 0,
+      delta: (after.overallConfidence ?? 0) - (before.overallConfidence ?? 0)
+    },
+    redFlags: {
+      added: Array.from(afterFlags).filter((flag) => !beforeFlags.has(flag)),
+      removed: Array.from(beforeFlags).filter((flag) => !afterFlags.has(flag))
+    }
+  };
+}
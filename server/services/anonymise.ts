@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import type { ConsultationSession, ConversationEntry, Diagnosis } from "@shared/schema";
+import type { PatientInfoInput } from "@shared/api-schemas";
+import { scrubText } from "../logger";
+
+// De-identification for records kept for quality review: identity and
+// contact details are dropped, ages become bands, dates are reduced to the
+// year, and emails, phone numbers and dates are masked in free text. Names
+// typed into free text cannot be detected and are not removed.
+
+export interface AnonymisedPatientInfo {
+  ageRange?: string;
+  gender?: string;
+  educationLevel?: string;
+  language?: string;
+}
+
+export interface AnonymisedSessionExport {
+  // Stable per session, but not reversible to the session ID
+  reference: string;
+  mode: string;
+  year?: number;
+  patientInfo: AnonymisedPatientInfo | null;
+  symptoms: string | null;
+  diagnoses: Pick<Diagnosis, 'name' | 'confidence' | 'category' | 'redFlags' | 'recommendedTests'>[];
+  conversation: Pick<ConversationEntry, 'type' | 'message'>[];
+  anonymised: true;
+}
+
+// Ten-year bands, with everyone over 89 in one band
+export function ageRange(age: number): string {
+  if (age >= 90) return '90+';
+  const start = Math.floor(age / 10) * 10;
+  return `${start}-${start + 9}`;
+}
+
+export function anonymiseText(text: string): string;
+export function anonymiseText(text: string | null | undefined): string | null;
+export function anonymiseText(text: string | null | undefined): string | null {
+  return text ? scrubText(text) : null;
+}
+
+export function anonymisePatientInfo(info: unknown): AnonymisedPatientInfo | null {
+  if (!info || typeof info !== 'object') return null;
+  const { age, gender, educationLevel, language } = info as PatientInfoInput & { ageRange?: string };
+  const anonymised: AnonymisedPatientInfo = {
+    ageRange: typeof age === 'number' ? ageRange(age) : (info as AnonymisedPatientInfo).ageRange,
+    gender,
+    educationLevel,
+    language,
+  };
+  return Object.fromEntries(Object.entries(anonymised).filter(([, value]) => value !== undefined));
+}
+
+// Analysis revision inputs hold the same symptoms, answers and patient info,
+// plus the symptom-log summary when the session is filed under a patient
+export function anonymiseRevisionInputs(inputs: unknown): unknown {
+  if (!inputs || typeof inputs !== 'object') return inputs;
+  const { symptoms, followUpAnswers, patientInfo, symptomHistory, ...rest } = inputs as {
+    symptoms?: string;
+    followUpAnswers?: { question: string; answer: string }[];
+    patientInfo?: unknown;
+    symptomHistory?: string;
+  };
+  return {
+    ...rest,
+    symptoms: anonymiseText(symptoms),
+    followUpAnswers: followUpAnswers?.map((qa) => ({ question: qa.question, answer: anonymiseText(qa.answer) })),
+    patientInfo: anonymisePatientInfo(patientInfo),
+    ...(symptomHistory !== undefined && { symptomHistory: anonymiseText(symptomHistory) }),
+  };
+}
+
+export function sessionReference(sessionId: string): string {
+  return createHash('sha256').update(`consultation:${sessionId}`).digest('hex').slice(0, 16);
+}
+
+export function buildAnonymisedExport(input: {
+  session: ConsultationSession;
+  diagnoses: Diagnosis[];
+  conversation: ConversationEntry[];
+}): AnonymisedSessionExport {
+  const { session, diagnoses, conversation } = input;
+  return {
+    reference: sessionReference(session.sessionId),
+    mode: session.mode,
+    year: session.createdAt?.getFullYear(),
+    patientInfo: anonymisePatientInfo(session.patientInfo),
+    symptoms: anonymiseText(session.symptoms),
+    diagnoses: diagnoses.map(({ name, confidence, category, redFlags, recommendedTests }) => ({
+      name, confidence, category, redFlags, recommendedTests,
+    })),
+    conversation: conversation.map(({ type, message }) => ({ type, message: anonymiseText(message) })),
+    anonymised: true,
+  };
+}
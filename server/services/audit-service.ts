@@ -0,0 +1,62 @@
+import type { NextFunction, Request, Response } from "express";
+import type { AuditAction, InsertAuditLogEntry } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "../logger";
+
+const log = logger.child('audit');
+
+export class AuditService {
+  // A failed write is logged; it never fails the request being audited
+  async record(entry: InsertAuditLogEntry): Promise<void> {
+    try {
+      await storage.appendAuditEntry(entry);
+    } catch (error) {
+      log.error('Failed to write audit entry', { action: entry.action, route: entry.route, resourceId: entry.resourceId, error });
+    }
+  }
+
+  /**
+   * Records who did `action` to the consultation named by `:sessionId` (or
+   * `sessionId` in the body) once the response has been sent, or once the
+   * client has disconnected before it was. Register it first on the route so
+   * refused attempts (401, 404) are recorded as well.
+   */
+  session(action: AuditAction) {
+    return this.middleware(action, 'consultation_session', (req) => req.params.sessionId ?? req.body?.sessionId);
+  }
+
+  // Same for the patient record named by `:patientId`; listings have no ID
+  patient(action: AuditAction) {
+    return this.middleware(action, 'patient', (req) => req.params.patientId);
+  }
+
+  private middleware(action: AuditAction, resourceType: string, resourceIdOf: (req: Request) => unknown) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const resourceId = resourceIdOf(req);
+      const route = `${req.method} ${req.route?.path ?? req.path}`;
+
+      // 'finish' when the response was sent; 'close' alone when the client
+      // went away first (it also follows every 'finish', hence the guard)
+      let recorded = false;
+      const recordOnce = () => {
+        if (recorded) return;
+        recorded = true;
+        void this.record({
+          userId: req.user?.id ?? null,
+          username: req.user?.username ?? null,
+          action,
+          resourceType,
+          resourceId: typeof resourceId === 'string' ? resourceId : null,
+          route,
+          statusCode: res.statusCode,
+          ip: req.ip ?? null,
+        });
+      };
+      res.on('finish', recordOnce);
+      res.on('close', recordOnce);
+      next();
+    };
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,250 @@
+import { ALLERGY_GROUP_ALIASES, DRUG_DICTIONARY, type DrugEntry } from "../config/drug-dictionary";
+import {
+  INTERACTION_DATASET,
+  type DrugRef,
+  type InteractionDataset,
+  type InteractionSeverity
+} from "../config/drug-interactions";
+import { aiService, type ResultSource } from "./ai-service";
+
+export type { InteractionSeverity } from "../config/drug-interactions";
+
+export type InteractionKind = 'drug-drug' | 'drug-allergy' | 'drug-condition';
+
+export interface NormalizedMedication {
+  input: string;
+  // Generic name from the dictionary, or null when the input was not recognised
+  name: string | null;
+  classes: string[];
+}
+
+export interface DrugInteractionFinding {
+  id: string;
+  kind: InteractionKind;
+  // The two things that interact: drug + drug, drug + allergy, or drug + condition
+  pair: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  recommendation: string;
+  explanation?: string;
+}
+
+export interface DrugInteractionInput {
+  medications: string[];
+  allergies?: string[];
+  conditions?: string[];
+  audience?: 'doctor' | 'patient';
+}
+
+export interface DrugInteractionReport {
+  datasetVersion: string;
+  medications: NormalizedMedication[];
+  unrecognized: string[];
+  findings: DrugInteractionFinding[];
+  summary: string;
+  source?: ResultSource;
+}
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  contraindicated: 3,
+  major: 2,
+  moderate: 1,
+  minor: 0,
+};
+
+interface AliasPattern<T> {
+  pattern: RegExp;
+  value: T;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest aliases first so "amoxicillin clavulanate" wins over "amoxicillin"
+function buildAliasPatterns<T>(entries: { aliases: string[]; value: T }[]): AliasPattern<T>[] {
+  return entries
+    .flatMap(({ aliases, value }) => aliases.map((alias) => ({ alias, value })))
+    .sort((a, b) => b.alias.length - a.alias.length)
+    .map(({ alias, value }) => ({
+      pattern: new RegExp(`(^|[^a-z0-9])${escapeRegExp(alias)}([^a-z0-9]|$)`),
+      value,
+    }));
+}
+
+export class DrugInteractionService {
+  private drugPatterns: AliasPattern<DrugEntry>[];
+  private allergyGroupPatterns: AliasPattern<string>[];
+
+  constructor(
+    private dictionary: DrugEntry[] = DRUG_DICTIONARY,
+    private dataset: InteractionDataset = INTERACTION_DATASET
+  ) {
+    this.drugPatterns = buildAliasPatterns(
+      dictionary.map((entry) => ({ aliases: [entry.name, ...(entry.aliases || [])], value: entry }))
+    );
+    this.allergyGroupPatterns = buildAliasPatterns(
+      Object.entries(ALLERGY_GROUP_ALIASES).map(([group, aliases]) => ({ aliases, value: group }))
+    );
+  }
+
+  // Maps free text such as "Advil 200mg twice daily" to its dictionary entry
+  normalize(input: string): NormalizedMedication {
+    const entry = this.lookup(input);
+    return { input, name: entry?.name ?? null, classes: entry?.classes ?? [] };
+  }
+
+  /**
+   * Checks the medications against each other, the reported allergies and the
+   * patient's conditions using only the local dataset. The same inputs always
+   * give the same findings, sorted from most to least severe.
+   */
+  check({ medications, allergies = [], conditions = [] }: DrugInteractionInput) {
+    const normalized = medications.map((medication) => this.normalize(medication));
+    const drugs = this.uniqueDrugs(normalized);
+    const findings: DrugInteractionFinding[] = [
+      ...this.checkDrugPairs(drugs),
+      ...this.checkAllergies(drugs, allergies),
+      ...this.checkConditions(drugs, conditions),
+    ].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+    return {
+      datasetVersion: this.dataset.version,
+      medications: normalized,
+      unrecognized: normalized.filter((medication) => !medication.name).map((medication) => medication.input),
+      findings,
+    };
+  }
+
+  // Local check first; the LLM is only asked to explain what the dataset found
+  async assess(input: DrugInteractionInput): Promise<DrugInteractionReport> {
+    const result = this.check(input);
+    const unrecognizedNote = result.unrecognized.length > 0
+      ? ` Not in the drug dictionary, so not checked: ${result.unrecognized.join(', ')}.`
+      : '';
+
+    if (result.findings.length === 0) {
+      return { ...result, summary: `No interactions found in the local dataset.${unrecognizedNote}` };
+    }
+
+    const explanation = await aiService.checkDrugInteractions(
+      result.findings,
+      this.uniqueDrugs(result.medications).map((drug) => drug.name),
+      input.audience
+    );
+    const explanations = new Map(explanation.explanations.map(({ id, explanation }) => [id, explanation]));
+
+    return {
+      ...result,
+      findings: result.findings.map((finding) => ({ ...finding, explanation: explanations.get(finding.id) })),
+      summary: `${explanation.summary}${unrecognizedNote}`,
+      source: explanation.source,
+    };
+  }
+
+  private lookup(text: string): DrugEntry | undefined {
+    const lower = text.toLowerCase();
+    return this.drugPatterns.find(({ pattern }) => pattern.test(lower))?.value;
+  }
+
+  private uniqueDrugs(medications: NormalizedMedication[]): DrugEntry[] {
+    const names = new Set(medications.map((medication) => medication.name).filter((name): name is string => !!name));
+    return this.dictionary.filter((entry) => names.has(entry.name));
+  }
+
+  private matches(drug: DrugEntry, ref: DrugRef): boolean {
+    return ref.startsWith('class:') ? drug.classes.includes(ref.slice('class:'.length)) : drug.name === ref;
+  }
+
+  // Only the most severe rule is reported for each pair of drugs
+  private checkDrugPairs(drugs: DrugEntry[]): DrugInteractionFinding[] {
+    const findings: DrugInteractionFinding[] = [];
+    for (let i = 0; i < drugs.length; i++) {
+      for (let j = i + 1; j < drugs.length; j++) {
+        const [a, b] = [drugs[i], drugs[j]];
+        let best: DrugInteractionFinding | undefined;
+        for (const rule of this.dataset.drugDrug) {
+          const [first, second] = rule.between;
+          const forward = this.matches(a, first) && this.matches(b, second);
+          const reverse = this.matches(b, first) && this.matches(a, second);
+          if (!forward && !reverse) continue;
+          if (best && SEVERITY_RANK[best.severity] >= SEVERITY_RANK[rule.severity]) continue;
+          best = {
+            id: `${rule.id}:${a.name}+${b.name}`,
+            kind: 'drug-drug',
+            pair: [a.name, b.name],
+            severity: rule.severity,
+            mechanism: rule.mechanism,
+            recommendation: rule.recommendation,
+          };
+        }
+        if (best) findings.push(best);
+      }
+    }
+    return findings;
+  }
+
+  private checkAllergies(drugs: DrugEntry[], allergies: string[]): DrugInteractionFinding[] {
+    const findings: DrugInteractionFinding[] = [];
+    for (const allergy of allergies) {
+      const lower = allergy.toLowerCase();
+      const allergen = this.lookup(allergy);
+      const group = this.allergyGroupPatterns.find(({ pattern }) => pattern.test(lower))?.value ?? allergen?.allergyGroup;
+      if (!allergen && !group) continue;
+
+      for (const drug of drugs) {
+        if (drug.name === allergen?.name || (group && drug.allergyGroup === group)) {
+          findings.push({
+            id: `allergy:${drug.name}+${allergy}`,
+            kind: 'drug-allergy',
+            pair: [drug.name, `${allergy} allergy`],
+            severity: 'contraindicated',
+            mechanism: drug.name === allergen?.name
+              ? `The patient reports an allergy to ${drug.name}.`
+              : `${drug.name} belongs to the same allergy group (${group}) as the reported ${allergy} allergy.`,
+            recommendation: 'Do not give; choose an agent from a different class and confirm the allergy history.',
+          });
+          continue;
+        }
+
+        const crossReaction = this.dataset.allergyCrossReactivity.find(
+          (rule) => rule.allergyGroup === group && rule.drugGroup === drug.allergyGroup
+        );
+        if (crossReaction) {
+          findings.push({
+            id: `${crossReaction.id}:${drug.name}+${allergy}`,
+            kind: 'drug-allergy',
+            pair: [drug.name, `${allergy} allergy`],
+            severity: crossReaction.severity,
+            mechanism: crossReaction.mechanism,
+            recommendation: crossReaction.recommendation,
+          });
+        }
+      }
+    }
+    return findings;
+  }
+
+  private checkConditions(drugs: DrugEntry[], conditions: string[]): DrugInteractionFinding[] {
+    const text = conditions.join('\n').toLowerCase();
+    if (!text.trim()) return [];
+
+    const findings: DrugInteractionFinding[] = [];
+    for (const rule of this.dataset.drugCondition) {
+      if (!rule.patterns.some((pattern) => pattern.test(text))) continue;
+      for (const drug of drugs.filter((entry) => this.matches(entry, rule.drug))) {
+        findings.push({
+          id: `${rule.id}:${drug.name}`,
+          kind: 'drug-condition',
+          pair: [drug.name, rule.condition],
+          severity: rule.severity,
+          mechanism: rule.mechanism,
+          recommendation: rule.recommendation,
+        });
+      }
+    }
+    return findings;
+  }
+}
+
+export const drugInteractionService = new DrugInteractionService();
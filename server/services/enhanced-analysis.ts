@@ -0,0 +1,190 @@
+import type { PatientContext } from "@shared/api-schemas";
+import { storage } from "../storage";
+import {
+  aiService,
+  type AIAnalysisResult,
+  type ClinicalAlert,
+  type MCQQuestion,
+  type PatientEducation,
+  type RiskAssessment,
+  type TreatmentPathway
+} from "./ai-service";
+import { triageService, type TriageResult } from "./triage-service";
+import { recordAnalysis } from "./analysis-revisions";
+import { logger } from "../logger";
+
+const log = logger.child('enhanced-analysis');
+
+export interface EnhancedAnalysisInput {
+  symptoms: string;
+  mode: 'doctor' | 'patient';
+  sessionId: string;
+  patientInfo?: PatientContext | null;
+  // Trends from the linked patient's symptom log, given to the differential
+  symptomHistory?: string;
+  followUpAnswers?: { question: string; answer: string }[];
+  // Ask the model again instead of reusing a cached differential
+  bypassCache?: boolean;
+}
+
+export interface EnhancedAnalysisResult {
+  analysis: AIAnalysisResult;
+  triage: TriageResult;
+  followUpMCQs?: any[];
+  mcqQuestions?: MCQQuestion[];
+  treatmentPathway?: TreatmentPathway;
+  riskAssessment?: RiskAssessment;
+  clinicalAlerts?: ClinicalAlert[];
+  patientEducation?: PatientEducation;
+}
+
+// Events emitted while the analysis runs, in the order pieces finish.
+export type EnhancedAnalysisEvent =
+  | { type: 'triage'; data: TriageResult }
+  | { type: 'diagnoses'; data: AIAnalysisResult }
+  | { type: 'treatmentPathway'; data: TreatmentPathway }
+  | { type: 'riskAssessment'; data: RiskAssessment }
+  | { type: 'clinicalAlerts'; data: ClinicalAlert[] }
+  | { type: 'patientEducation'; data: PatientEducation }
+  | { type: 'done'; data: EnhancedAnalysisResult };
+
+export function combineSymptoms(symptoms: string, followUpAnswers?: { question: string; answer: string }[]): string {
+  // Combine initial symptoms with follow-up answers for comprehensive analysis
+  return followUpAnswers
+    ? `${symptoms}\n\nAdditional Information:\n${followUpAnswers.map((qa) => `Q: ${qa.question}\nA: ${qa.answer}`).join('\n\n')}`
+    : symptoms;
+}
+
+// Each generated section is also stored as its own record so a completed
+// consultation can be reloaded in full
+async function saveArtifacts(sessionId: string, diagnosis: string, result: EnhancedAnalysisResult): Promise<void> {
+  const { treatmentPathway, riskAssessment, clinicalAlerts, patientEducation } = result;
+  if (treatmentPathway) {
+    await storage.saveTreatmentPathway({ ...treatmentPathway, sessionId, diagnosis });
+  }
+  if (riskAssessment) {
+    await storage.saveRiskAssessment({ ...riskAssessment, sessionId, diagnosis });
+  }
+  if (clinicalAlerts) {
+    await storage.saveClinicalAlerts(sessionId, clinicalAlerts);
+  }
+  if (patientEducation) {
+    await storage.savePatientEducation({ ...patientEducation, sessionId, diagnosis });
+  }
+}
+
+export async function runEnhancedAnalysis(
+  input: EnhancedAnalysisInput,
+  onEvent: (event: EnhancedAnalysisEvent) => void = () => {}
+): Promise<EnhancedAnalysisResult> {
+  const { mode, sessionId, patientInfo, symptomHistory } = input;
+  const inputs = { mode, symptoms: input.symptoms, followUpAnswers: input.followUpAnswers, patientInfo, symptomHistory };
+  const comprehensiveSymptoms = combineSymptoms(input.symptoms, input.followUpAnswers);
+
+  // Rule-based triage always runs first and does not depend on the AI
+  const triage = triageService.assess(input.symptoms, input.followUpAnswers);
+  onEvent({ type: 'triage', data: triage });
+
+  if (triage.shortCircuit) {
+    const analysis = await recordAnalysis({
+      sessionId,
+      trigger: 'enhanced-analysis',
+      inputs,
+      analysis: triageService.buildEmergencyAnalysis(triage),
+      symptoms: comprehensiveSymptoms
+    });
+    onEvent({ type: 'diagnoses', data: analysis });
+
+    const emergencyResult: EnhancedAnalysisResult = { analysis, triage };
+    onEvent({ type: 'done', data: emergencyResult });
+    return emergencyResult;
+  }
+
+  // Perform basic analysis
+  const analysis: AIAnalysisResult = {
+    ...(await aiService.analyzeSymptoms(comprehensiveSymptoms, mode, patientInfo, {
+      bucketKey: sessionId,
+      bypassCache: input.bypassCache,
+      symptomHistory
+    })),
+    triage
+  };
+  onEvent({ type: 'diagnoses', data: analysis });
+
+  const enhancedResult: EnhancedAnalysisResult = { analysis, triage };
+
+  // Get primary diagnosis for enhanced features
+  const primaryDiagnosis = analysis.diagnoses[0]?.name || comprehensiveSymptoms;
+
+  try {
+    // Generate follow-up MCQs for all users
+    try {
+      enhancedResult.followUpMCQs = await aiService.generateFollowUpMCQs(comprehensiveSymptoms, primaryDiagnosis, mode);
+    } catch (error) {
+      log.error('Error generating follow-up MCQs', { error });
+      // Continue without follow-up MCQs
+    }
+
+    // Generate MCQ questions for patients
+    if (mode === 'patient') {
+      try {
+        enhancedResult.mcqQuestions = await aiService.generateMCQQuestions(comprehensiveSymptoms, mode, primaryDiagnosis);
+      } catch (error) {
+        log.error('MCQ generation error', { error });
+        // Continue without MCQ questions
+      }
+
+      const patientEducation = await aiService.generatePatientEducation(
+        primaryDiagnosis,
+        patientInfo?.educationLevel || 'general',
+        patientInfo?.language || 'english',
+        patientInfo
+      );
+      enhancedResult.patientEducation = patientEducation;
+      onEvent({ type: 'patientEducation', data: patientEducation });
+    }
+
+    // Enhanced features for doctors, each reported as soon as it resolves
+    if (mode === 'doctor') {
+      await Promise.all([
+        aiService.generateTreatmentPathway(primaryDiagnosis, patientInfo).then((treatmentPathway) => {
+          enhancedResult.treatmentPathway = treatmentPathway;
+          onEvent({ type: 'treatmentPathway', data: treatmentPathway });
+        }),
+        aiService.performRiskStratification(primaryDiagnosis, patientInfo).then((riskAssessment) => {
+          enhancedResult.riskAssessment = riskAssessment;
+          onEvent({ type: 'riskAssessment', data: riskAssessment });
+        }),
+        aiService.generateClinicalAlerts(primaryDiagnosis, patientInfo, comprehensiveSymptoms).then((clinicalAlerts) => {
+          enhancedResult.clinicalAlerts = clinicalAlerts;
+          onEvent({ type: 'clinicalAlerts', data: clinicalAlerts });
+        })
+      ]);
+    }
+  } catch (enhancedError) {
+    log.error('Enhanced features error (non-blocking)', { error: enhancedError });
+    // Continue with basic analysis even if enhanced features fail
+  }
+
+  // Store the enhanced analysis as a new revision; the extra sections are kept
+  // with it so exports (e.g. the FHIR CarePlan) can be built from the stored session
+  const stored = await recordAnalysis({
+    sessionId,
+    trigger: 'enhanced-analysis',
+    inputs,
+    analysis: {
+      ...analysis,
+      treatmentPathway: enhancedResult.treatmentPathway,
+      riskAssessment: enhancedResult.riskAssessment,
+      clinicalAlerts: enhancedResult.clinicalAlerts,
+      patientEducation: enhancedResult.patientEducation
+    },
+    symptoms: comprehensiveSymptoms
+  });
+  enhancedResult.analysis = { ...analysis, revision: stored.revision };
+
+  await saveArtifacts(sessionId, primaryDiagnosis, enhancedResult);
+
+  onEvent({ type: 'done', data: enhancedResult });
+  return enhancedResult;
+}
@@ -0,0 +1,285 @@
+import { randomUUID } from "crypto";
+import type {
+  Bundle,
+  BundleEntry,
+  CarePlan,
+  CarePlanActivity,
+  Communication,
+  Condition,
+  Device,
+  Encounter,
+  Extension,
+  FhirResource,
+  Patient,
+  Reference,
+  ServiceRequest
+} from "fhir/r4";
+import type { ConsultationSession, ConversationEntry, Diagnosis } from "@shared/schema";
+import type { AIAnalysisResult, TreatmentPathway } from "./ai-service";
+
+// Canonical base for the identifiers and extensions this app defines
+const FHIR_BASE_URL = process.env.FHIR_BASE_URL || 'https://healthcare-ai-assistant.local/fhir';
+
+export const FHIR_SYSTEMS = {
+  sessionId: `${FHIR_BASE_URL}/NamingSystem/consultation-session`,
+  diagnosisConfidence: `${FHIR_BASE_URL}/StructureDefinition/diagnosis-confidence`,
+  reportedAge: `${FHIR_BASE_URL}/StructureDefinition/reported-age`,
+} as const;
+
+const UCUM = 'http://unitsofmeasure.org';
+
+export interface FhirExportInput {
+  session: ConsultationSession;
+  diagnoses: Diagnosis[];
+  conversation: ConversationEntry[];
+}
+
+interface PatientInfoLike {
+  name?: string;
+  age?: number;
+  gender?: string;
+  medicalHistory?: string;
+}
+
+// Each resource gets a urn:uuid so entries can reference each other before the
+// receiving server assigns real IDs (standard transaction-bundle practice).
+interface BundleBuilder {
+  add<T extends FhirResource>(resource: T): Reference;
+  entries: BundleEntry[];
+}
+
+function createBundleBuilder(): BundleBuilder {
+  const entries: BundleEntry[] = [];
+  return {
+    entries,
+    add(resource) {
+      const fullUrl = `urn:uuid:${randomUUID()}`;
+      entries.push({
+        fullUrl,
+        resource,
+        request: { method: 'POST', url: resource.resourceType },
+      });
+      return { reference: fullUrl };
+    },
+  };
+}
+
+function toInstant(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toGender(gender?: string): Patient['gender'] {
+  return gender === 'male' || gender === 'female' || gender === 'other' ? gender : 'unknown';
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+// Older sessions stored the analysis as a JSON string
+function parseAnalysis(value: unknown): Partial<AIAnalysisResult> | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return value as Partial<AIAnalysisResult>;
+}
+
+function buildPatient(session: ConsultationSession): Patient {
+  const info = (session.patientInfo || {}) as PatientInfoLike;
+  const extension: Extension[] = [];
+  if (typeof info.age === 'number') {
+    // Only the age is collected, so it is not turned into a made-up birthDate
+    extension.push({
+      url: FHIR_SYSTEMS.reportedAge,
+      valueAge: { value: info.age, unit: 'years', system: UCUM, code: 'a' },
+    });
+  }
+
+  return {
+    resourceType: 'Patient',
+    ...(extension.length > 0 && { extension }),
+    ...(info.name && { name: [{ text: info.name }] }),
+    gender: toGender(info.gender),
+  };
+}
+
+function buildEncounter(session: ConsultationSession, patient: Reference, hasAnalysis: boolean): Encounter {
+  return {
+    resourceType: 'Encounter',
+    identifier: [{ system: FHIR_SYSTEMS.sessionId, value: session.sessionId }],
+    status: hasAnalysis ? 'finished' : 'in-progress',
+    class: {
+      system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+      code: 'VR',
+      display: 'virtual',
+    },
+    subject: patient,
+    period: {
+      start: toInstant(session.createdAt),
+      ...(hasAnalysis && { end: toInstant(session.updatedAt) }),
+    },
+    ...(session.symptoms && { reasonCode: [{ text: session.symptoms }] }),
+  };
+}
+
+function buildCondition(diagnosis: Diagnosis, patient: Reference, encounter: Reference): Condition {
+  const notes = [diagnosis.description, ...toStringList(diagnosis.redFlags).map((flag) => `Red flag: ${flag}`)]
+    .filter((text): text is string => !!text);
+
+  return {
+    resourceType: 'Condition',
+    ...(diagnosis.confidence !== null && {
+      extension: [{
+        url: FHIR_SYSTEMS.diagnosisConfidence,
+        valueQuantity: { value: diagnosis.confidence, unit: '%', system: UCUM, code: '%' },
+      }],
+    }),
+    clinicalStatus: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }],
+    },
+    // AI output is a differential, never a confirmed diagnosis
+    verificationStatus: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'differential' }],
+    },
+    category: [{
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-category', code: 'encounter-diagnosis' }],
+      ...(diagnosis.category && { text: diagnosis.category }),
+    }],
+    code: { text: diagnosis.name },
+    subject: patient,
+    encounter,
+    recordedDate: toInstant(diagnosis.createdAt),
+    ...(notes.length > 0 && { note: notes.map((text) => ({ text })) }),
+  };
+}
+
+function buildServiceRequest(test: string, patient: Reference, encounter: Reference, reasons: Reference[]): ServiceRequest {
+  return {
+    resourceType: 'ServiceRequest',
+    status: 'draft',
+    intent: 'proposal',
+    code: { text: test },
+    subject: patient,
+    encounter,
+    ...(reasons.length > 0 && { reasonReference: reasons }),
+  };
+}
+
+function buildCarePlan(
+  pathway: TreatmentPathway,
+  patient: Reference,
+  encounter: Reference,
+  addresses: Reference[]
+): CarePlan {
+  const activity = (description: string): CarePlanActivity => ({
+    detail: { status: 'not-started', description },
+  });
+
+  const notes = [
+    pathway.followUpSchedule && `Follow-up: ${pathway.followUpSchedule}`,
+    ...toStringList(pathway.alternativeTreatments).map((treatment) => `Alternative: ${treatment}`),
+    ...toStringList(pathway.escalationCriteria).map((criterion) => `Escalate if: ${criterion}`),
+  ].filter((text): text is string => !!text);
+
+  return {
+    resourceType: 'CarePlan',
+    status: 'draft',
+    intent: 'proposal',
+    title: 'AI-suggested treatment pathway',
+    subject: patient,
+    encounter,
+    ...(addresses.length > 0 && { addresses }),
+    activity: [
+      ...toStringList(pathway.firstLineTherapy).map(activity),
+      ...toStringList(pathway.monitoringRequirements).map((requirement) => activity(`Monitor: ${requirement}`)),
+    ],
+    ...(notes.length > 0 && { note: notes.map((text) => ({ text })) }),
+  };
+}
+
+function buildCommunication(
+  entry: ConversationEntry,
+  patient: Reference,
+  encounter: Reference,
+  assistant: () => Reference
+): Communication {
+  const fromAssistant = entry.type === 'ai';
+  return {
+    resourceType: 'Communication',
+    status: 'completed',
+    subject: patient,
+    encounter,
+    sent: toInstant(entry.timestamp),
+    sender: fromAssistant ? assistant() : patient,
+    recipient: [fromAssistant ? patient : assistant()],
+    payload: [{ contentString: entry.message }],
+  };
+}
+
+/**
+ * Builds a FHIR R4 transaction Bundle for one consultation so it can be posted
+ * to an EHR. Diagnoses become differential Conditions carrying the model's
+ * confidence as an extension; recommended tests become proposed
+ * ServiceRequests; the treatment pathway (when one was generated) becomes a
+ * draft CarePlan.
+ */
+export function buildFhirBundle({ session, diagnoses, conversation }: FhirExportInput): Bundle {
+  const bundle = createBundleBuilder();
+  const analysis = parseAnalysis(session.aiAnalysis);
+
+  const patient = bundle.add(buildPatient(session));
+  const encounter = bundle.add(buildEncounter(session, patient, diagnoses.length > 0 || !!analysis));
+
+  const conditionsByName = new Map<string, Reference>();
+  const testReasons = new Map<string, Reference[]>();
+  for (const diagnosis of diagnoses) {
+    const condition = bundle.add(buildCondition(diagnosis, patient, encounter));
+    conditionsByName.set(diagnosis.name, condition);
+    for (const test of toStringList(diagnosis.recommendedTests)) {
+      testReasons.set(test, [...(testReasons.get(test) || []), condition]);
+    }
+  }
+  for (const test of toStringList(analysis?.recommendedTests)) {
+    if (!testReasons.has(test)) testReasons.set(test, []);
+  }
+  testReasons.forEach((reasons, test) => {
+    bundle.add(buildServiceRequest(test, patient, encounter, reasons));
+  });
+
+  if (analysis?.treatmentPathway) {
+    // The pathway is generated for the primary (first) diagnosis
+    const primary = diagnoses[0] && conditionsByName.get(diagnoses[0].name);
+    bundle.add(buildCarePlan(analysis.treatmentPathway, patient, encounter, primary ? [primary] : []));
+  }
+
+  // The assistant is only added as a Device if it actually took part
+  let assistantDevice: Reference | undefined;
+  const assistant = () => {
+    if (!assistantDevice) {
+      const device: Device = {
+        resourceType: 'Device',
+        deviceName: [{ name: 'AI Diagnostic Copilot', type: 'user-friendly-name' }],
+      };
+      assistantDevice = bundle.add(device);
+    }
+    return assistantDevice;
+  };
+  for (const entry of conversation) {
+    bundle.add(buildCommunication(entry, patient, encounter, assistant));
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: new Date().toISOString(),
+    identifier: { system: FHIR_SYSTEMS.sessionId, value: session.sessionId },
+    entry: bundle.entries,
+  };
+}
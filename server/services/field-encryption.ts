@@ -0,0 +1,155 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "crypto";
+import { ENCRYPTION_CONFIG, type EncryptionConfig } from "../config/encryption-config";
+import { logger } from "../logger";
+
+const log = logger.child('encryption');
+
+const PREFIX = 'enc:v1:';
+// Marks plaintext that itself starts with PREFIX (or with this marker), so it
+// is not taken for ciphertext while encryption is off
+const ESCAPE_PREFIX = 'enc:plain:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Columns whose values are encrypted; the name is bound into each ciphertext
+// as associated data, so a value copied into another column will not decrypt
+export type EncryptedColumn =
+  | 'consultation_sessions.patient_info'
+  | 'consultation_sessions.symptoms'
+  | 'consultation_sessions.ai_analysis'
+  | 'analysis_revisions.inputs'
+  | 'analysis_revisions.output'
+  | 'conversation_entries.message'
+  | 'patients.patient_info'
+  | 'patients.profile'
+  | 'symptom_logs.symptom'
+  | 'symptom_logs.notes'
+  | 'medication_schedules.drug'
+  | 'medication_schedules.dose'
+  | 'medication_schedules.instructions'
+  | 'patient_profiles.medications'
+  | 'patient_profiles.allergies'
+  | 'patient_profiles.chronic_conditions'
+  | 'llm_cache.content';
+
+// Lower-cased words without accents, so "Café" and "cafe" index alike;
+// whitespace and ASCII punctuation separate words
+function searchWords(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[\s!-/:-@[-`{-~]+/)
+    .filter(Boolean);
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption for patient-identifying columns. Every value gets its
+ * own random data key (AES-256-GCM); the data key is wrapped with the active
+ * key-encryption key and stored with the ciphertext as
+ * `enc:v1:<keyId>:<wrapped data key>:<iv|tag|ciphertext>`.
+ *
+ * Values without the prefix are rows written before encryption was enabled
+ * and are returned unchanged, so a database can be switched over first and
+ * migrated with `npm run encrypt:phi` afterwards. Plaintext that starts with
+ * the prefix is always sealed, or escaped while encryption is off.
+ */
+export class FieldEncryption {
+  constructor(private config: EncryptionConfig = ENCRYPTION_CONFIG) {}
+
+  isEnabled(): boolean {
+    return this.config.activeKeyId !== undefined;
+  }
+
+  get activeKeyId(): string | undefined {
+    return this.config.activeKeyId;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  keyIdOf(value: unknown): string | undefined {
+    return this.isEncrypted(value) ? value.slice(PREFIX.length).split(':')[0] : undefined;
+  }
+
+  // Plaintext, or a value sealed with a key other than the active one
+  needsReencryption(value: unknown): boolean {
+    if (!this.isEnabled() || value === null || value === undefined) return false;
+    return this.keyIdOf(value) !== this.config.activeKeyId;
+  }
+
+  encrypt(plaintext: string, column: EncryptedColumn): string {
+    const keyId = this.config.activeKeyId;
+    if (keyId === undefined) {
+      return plaintext.startsWith(PREFIX) || plaintext.startsWith(ESCAPE_PREFIX) ? `${ESCAPE_PREFIX}${plaintext}` : plaintext;
+    }
+
+    const dataKey = randomBytes(32);
+    const wrappedKey = seal(this.config.keys.get(keyId)!, dataKey, keyId);
+    const payload = seal(dataKey, Buffer.from(plaintext, 'utf8'), column);
+    return `${PREFIX}${keyId}:${wrappedKey.toString('base64')}:${payload.toString('base64')}`;
+  }
+
+  decrypt(value: string, column: EncryptedColumn): string {
+    if (value.startsWith(ESCAPE_PREFIX)) return value.slice(ESCAPE_PREFIX.length);
+    if (!this.isEncrypted(value)) return value;
+
+    const [keyId, wrappedKey, payload] = value.slice(PREFIX.length).split(':');
+    const key = this.config.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Cannot decrypt ${column}: encryption key "${keyId}" is not configured`);
+    }
+    const dataKey = open(key, Buffer.from(wrappedKey, 'base64'), keyId);
+    return open(dataKey, Buffer.from(payload, 'base64'), column).toString('utf8');
+  }
+
+  /**
+   * Blind index for an encrypted column: a keyed hash of each distinct word of
+   * `text`, stored beside the ciphertext so rows can be matched by whole words
+   * in SQL without decrypting them. Null while encryption is off, when the
+   * column is searched as plaintext instead.
+   */
+  searchTokens(text: string | null | undefined, column: EncryptedColumn): string[] | null {
+    const key = this.config.searchKey;
+    if (!this.isEnabled() || !key || text === null || text === undefined) return null;
+    const tokens = new Set(searchWords(text).map((word) =>
+      createHmac('sha256', key).update(`${column}:${word}`).digest('base64url').slice(0, 22)
+    ));
+    return Array.from(tokens);
+  }
+
+  // JSON columns hold the encrypted JSON text as a single string
+  encryptJson(value: unknown, column: EncryptedColumn): unknown {
+    if (value === null || value === undefined) return value;
+    if (!this.isEnabled()) return typeof value === 'string' ? this.encrypt(value, column) : value;
+    return this.encrypt(JSON.stringify(value), column);
+  }
+
+  decryptJson(value: unknown, column: EncryptedColumn): unknown {
+    if (typeof value === 'string' && value.startsWith(ESCAPE_PREFIX)) return this.decrypt(value, column);
+    return this.isEncrypted(value) ? JSON.parse(this.decrypt(value, column)) : value;
+  }
+}
+
+export const fieldEncryption = new FieldEncryption();
+
+if (!fieldEncryption.isEnabled() && process.env.NODE_ENV === 'production') {
+  log.warn('PHI_ENCRYPTION_KEYS is not set; patient details and conversations are stored unencrypted');
+}
@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import { API_CONFIG, LLM_TASKS, type LLMCacheStoreType, type LLMTask } from "../config/api-config";
+import type { LLMUsage } from "./providers";
+import { logger } from "../logger";
+
+// Everything that changes what a provider returns for a prompt
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  prompt: string;
+}
+
+export interface CachedCompletion {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+  provider: string;
+}
+
+interface MemoryEntry {
+  completion: CachedCompletion;
+  expiresAt: number;
+}
+
+interface TaskCounters {
+  hits: number;
+  misses: number;
+  bypassed: number;
+  stored: number;
+}
+
+export interface LLMCacheStats {
+  enabled: boolean;
+  store: LLMCacheStoreType;
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  bypassed: number;
+  stored: number;
+  // hits / (hits + misses); bypassed lookups are not counted
+  hitRate: number;
+  byTask: Record<LLMTask, TaskCounters & { ttlSeconds: number }>;
+}
+
+export type LLMCacheConfig = typeof API_CONFIG.cache;
+
+// Expired rows in the llm_cache table are swept at most this often
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const log = logger.child('llm-cache');
+
+// Whitespace differences (indentation of a template, trailing newlines,
+// CRLF) should not defeat the cache; case and wording still matter
+export function normalizePrompt(prompt: string): string {
+  return prompt.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  return createHash('sha256')
+    .update(JSON.stringify([parts.provider, parts.model, parts.temperature, parts.maxTokens, parts.topP, normalizePrompt(parts.prompt)]))
+    .digest('hex');
+}
+
+/**
+ * Server-side cache of LLM completions. An in-memory LRU sits in front of an
+ * optional Postgres store (through `storage`), entries live for the TTL of
+ * their task, and a lookup or write that fails is treated as a miss so the
+ * cache can never break a request.
+ */
+export class LLMCache {
+  private entries = new Map<string, MemoryEntry>();
+  private counters = new Map<LLMTask, TaskCounters>();
+  private lastPurge = 0;
+
+  constructor(private config: LLMCacheConfig = API_CONFIG.cache) {}
+
+  isEnabled(task: LLMTask): boolean {
+    return this.config.enabled && this.ttlSeconds(task) > 0;
+  }
+
+  async get(task: LLMTask, key: string): Promise<CachedCompletion | undefined> {
+    const counters = this.countersFor(task);
+    const completion = this.getFromMemory(key) ?? await this.getFromStore(task, key);
+    if (completion) {
+      counters.hits++;
+    } else {
+      counters.misses++;
+    }
+    return completion;
+  }
+
+  async set(task: LLMTask, key: string, completion: CachedCompletion): Promise<void> {
+    const ttlMs = this.ttlSeconds(task) * 1000;
+    this.setInMemory(key, completion, Date.now() + ttlMs);
+    this.countersFor(task).stored++;
+
+    if (this.config.store !== 'postgres') return;
+    try {
+      const storage = await this.persistentStorage();
+      await storage.saveLLMCacheEntry({
+        key,
+        task,
+        provider: completion.provider,
+        model: completion.model,
+        content: completion.content,
+        usage: completion.usage,
+        expiresAt: new Date(Date.now() + ttlMs),
+      });
+      if (Date.now() - this.lastPurge > PURGE_INTERVAL_MS) {
+        this.lastPurge = Date.now();
+        await storage.deleteLLMCacheEntries({ expiredOnly: true });
+      }
+    } catch (error) {
+      log.warn(`LLM cache write failed (${task})`, { error });
+    }
+  }
+
+  // Called when a caller skipped the cache on purpose, so stats show it
+  recordBypass(task: LLMTask): void {
+    this.countersFor(task).bypassed++;
+  }
+
+  async clear(): Promise<number> {
+    let removed = this.entries.size;
+    this.entries.clear();
+    if (this.config.store === 'postgres') {
+      const storage = await this.persistentStorage();
+      removed = Math.max(removed, await storage.deleteLLMCacheEntries({ expiredOnly: false }));
+    }
+    return removed;
+  }
+
+  stats(): LLMCacheStats {
+    const byTask = {} as LLMCacheStats['byTask'];
+    const totals: TaskCounters = { hits: 0, misses: 0, bypassed: 0, stored: 0 };
+    for (const task of LLM_TASKS) {
+      const counters = this.countersFor(task);
+      byTask[task] = { ...counters, ttlSeconds: this.ttlSeconds(task) };
+      totals.hits += counters.hits;
+      totals.misses += counters.misses;
+      totals.bypassed += counters.bypassed;
+      totals.stored += counters.stored;
+    }
+
+    const lookups = totals.hits + totals.misses;
+    return {
+      enabled: this.config.enabled,
+      store: this.config.store,
+      entries: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      ...totals,
+      hitRate: lookups === 0 ? 0 : Math.round((totals.hits / lookups) * 1000) / 1000,
+      byTask,
+    };
+  }
+
+  private ttlSeconds(task: LLMTask): number {
+    return this.config.ttlSeconds[task] ?? 0;
+  }
+
+  private countersFor(task: LLMTask): TaskCounters {
+    let counters = this.counters.get(task);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, bypassed: 0, stored: 0 };
+      this.counters.set(task, counters);
+    }
+    return counters;
+  }
+
+  // Map iteration order is insertion order, so re-inserting on every read
+  // keeps the least recently used entry first
+  private getFromMemory(key: string): CachedCompletion | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry.completion;
+  }
+
+  private setInMemory(key: string, completion: CachedCompletion, expiresAt: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { completion, expiresAt });
+    while (this.entries.size > Math.max(0, this.config.maxEntries)) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private async getFromStore(task: LLMTask, key: string): Promise<CachedCompletion | undefined> {
+    if (this.config.store !== 'postgres') return undefined;
+    try {
+      const storage = await this.persistentStorage();
+      const entry = await storage.getLLMCacheEntry(key);
+      if (!entry) return undefined;
+
+      const completion: CachedCompletion = {
+        content: entry.content,
+        model: entry.model,
+        usage: (entry.usage as LLMUsage | null) ?? undefined,
+        provider: entry.provider,
+      };
+      this.setInMemory(key, completion, entry.expiresAt.getTime());
+      return completion;
+    } catch (error) {
+      log.warn(`LLM cache lookup failed (${task})`, { error });
+      return undefined;
+    }
+  }
+
+  // Loaded on first use so the AI service (and the offline evaluation) does
+  // not need a database unless the Postgres store is switched on
+  private async persistentStorage() {
+    const { storage } = await import("../storage");
+    return storage;
+  }
+}
+
+export const llmCache = new LLMCache();
@@ -0,0 +1,78 @@
+import type { MedicationSchedule } from "@shared/schema";
+import { zonedInstant } from "./medication-scheduler";
+
+// iCalendar (RFC 5545) export of a patient's medication schedules: one daily
+// recurring event with an alarm per dose time, in the schedule's own time
+// zone so calendar apps follow daylight saving the same way the scheduler does.
+
+const PRODUCT_ID = '-//Healthcare AI Assistant//Medication Reminders//EN';
+const UID_DOMAIN = 'healthcare-ai-assistant';
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+// 20261018T190500Z
+function utcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function doseEvent(schedule: MedicationSchedule, time: string, patientName: string, stamp: string): string[] {
+  const { id, drug, dose, instructions, timeZone, startDate, endDate } = schedule;
+  const localStart = `${startDate.replace(/-/g, '')}T${time.replace(':', '')}00`;
+  const summary = `Take ${drug} (${dose})`;
+  const description = [instructions, `Medication reminder for ${patientName}`].filter(Boolean).join('\n');
+  const rule = endDate ? `FREQ=DAILY;UNTIL=${utcStamp(zonedInstant(endDate, time, timeZone))}` : 'FREQ=DAILY';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:medication-${id}-${time.replace(':', '')}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    timeZone === 'UTC' ? `DTSTART:${localStart}Z` : `DTSTART;TZID=${timeZone}:${localStart}`,
+    'DURATION:PT15M',
+    `RRULE:${rule}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(summary)}`,
+    'TRIGGER:PT0M',
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+}
+
+export function buildMedicationCalendar(patientName: string, schedules: MedicationSchedule[], now = new Date()): string {
+  const stamp = utcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Medications: ${patientName}`)}`,
+    ...schedules.flatMap((schedule) => schedule.times.flatMap((time) => doseEvent(schedule, time, patientName, stamp))),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,265 @@
+import type { MedicationDose, MedicationSchedule, InsertMedicationDose } from "@shared/schema";
+import { MEDICATION_CONFIG } from "../config/medication-config";
+import { storage } from "../storage";
+import { logger } from "../logger";
+
+const log = logger.child('medication-scheduler');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// ---- Wall-clock time in a schedule's time zone ----
+
+function wallClockParts(instant: number, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute'), second: value('second') };
+}
+
+// How far timeZone's clocks are ahead of UTC at an instant, in ms
+function zoneOffset(instant: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = wallClockParts(instant, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+}
+
+// Calendar day (YYYY-MM-DD) in timeZone at an instant
+export function zonedDate(instant: Date, timeZone: string): string {
+  const { year, month, day } = wallClockParts(instant.getTime(), timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// The instant a wall-clock time (YYYY-MM-DD, HH:MM) happens in timeZone
+export function zonedInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  // The second pass settles times close to a daylight saving change
+  const guess = wall - zoneOffset(wall, timeZone);
+  return new Date(wall - zoneOffset(guess, timeZone));
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Times the schedule's doses fall due in (after, until], oldest first
+export function scheduledDoseTimes(schedule: MedicationSchedule, after: Date, until: Date): Date[] {
+  const { times, timeZone, startDate, endDate } = schedule;
+  // One day either side covers every offset between the zone and UTC
+  const fromDay = [startDate, addDays(zonedDate(after, timeZone), -1)].sort()[1];
+  const toDay = [endDate ?? '9999-12-31', addDays(zonedDate(until, timeZone), 1)].sort()[0];
+
+  const doseTimes: Date[] = [];
+  for (let day = fromDay; day <= toDay; day = addDays(day, 1)) {
+    for (const time of times) {
+      const scheduledFor = zonedInstant(day, time, timeZone);
+      if (scheduledFor > after && scheduledFor <= until) doseTimes.push(scheduledFor);
+    }
+  }
+  return doseTimes.sort((a, b) => a.getTime() - b.getTime());
+}
+
+// ---- Adherence ----
+
+export interface DoseCounts {
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  // Share of the answered or missed doses that were taken (skipped doses
+  // count against it); null until a dose has come due
+  adherenceRate: number | null;
+}
+
+export interface ScheduleAdherence extends DoseCounts {
+  scheduleId: number;
+  drug: string;
+  dose: string;
+}
+
+export interface MedicationAdherence extends DoseCounts {
+  from: Date;
+  to: Date;
+  schedules: ScheduleAdherence[];
+}
+
+function countDoses(doses: MedicationDose[]): DoseCounts {
+  const count = (status: MedicationDose['status']) => doses.filter((dose) => dose.status === status).length;
+  const taken = count('taken');
+  const skipped = count('skipped');
+  const missed = count('missed');
+  const due = taken + skipped + missed;
+  return {
+    scheduled: doses.length,
+    taken,
+    skipped,
+    missed,
+    pending: count('pending'),
+    adherenceRate: due === 0 ? null : Math.round((taken / due) * 1000) / 1000,
+  };
+}
+
+// Doses scheduled in [from, to) for the whole patient and per schedule
+export function summariseAdherence(schedules: MedicationSchedule[], doses: MedicationDose[], from: Date, to: Date): MedicationAdherence {
+  return {
+    from,
+    to,
+    ...countDoses(doses),
+    schedules: schedules.map(({ id, drug, dose }) => ({
+      scheduleId: id,
+      drug,
+      dose,
+      ...countDoses(doses.filter((entry) => entry.scheduleId === id)),
+    })),
+  };
+}
+
+// ---- Reminders ----
+
+export interface MedicationReminder {
+  doseId: number;
+  scheduleId: number;
+  patientId: number;
+  patientName: string;
+  drug: string;
+  dose: string;
+  instructions: string | null;
+  scheduledFor: Date;
+}
+
+// Pending doses of the user's patients that are due now, oldest first
+export async function dueMedicationReminders(userId: number, now = new Date()): Promise<MedicationReminder[]> {
+  const doses = await storage.listDueMedicationDoses(userId, now);
+  const schedules = new Map<number, MedicationSchedule | undefined>();
+  const patientNames = new Map<number, string>();
+
+  const reminders: MedicationReminder[] = [];
+  for (const dose of doses) {
+    if (!schedules.has(dose.scheduleId)) schedules.set(dose.scheduleId, await storage.getMedicationSchedule(dose.scheduleId));
+    if (!patientNames.has(dose.patientId)) {
+      const patient = await storage.getPatient(dose.patientId);
+      patientNames.set(dose.patientId, (patient?.patientInfo as { name?: string } | undefined)?.name ?? 'Patient');
+    }
+    const schedule = schedules.get(dose.scheduleId);
+    if (!schedule) continue;
+
+    reminders.push({
+      doseId: dose.id,
+      scheduleId: schedule.id,
+      patientId: dose.patientId,
+      patientName: patientNames.get(dose.patientId)!,
+      drug: schedule.drug,
+      dose: schedule.dose,
+      instructions: schedule.instructions,
+      scheduledFor: dose.scheduledFor,
+    });
+  }
+  return reminders;
+}
+
+// ---- Scheduler ----
+
+export interface MedicationSchedulerRunResult {
+  schedules: number;
+  dosesCreated: number;
+  dosesMissed: number;
+}
+
+/**
+ * Creates the doses of every running schedule on a timer inside the server,
+ * up to MEDICATION_CONFIG.lookaheadMs ahead, and marks doses nobody answered
+ * as missed. Each schedule remembers how far its doses exist
+ * (materialisedUntil), so doses that fell due while the server was down are
+ * still created on the next run and then count as missed.
+ */
+export class MedicationScheduler {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<MedicationSchedulerRunResult>;
+
+  constructor(private config = MEDICATION_CONFIG) {}
+
+  start(): void {
+    if (this.timer) return;
+    log.info('Medication scheduler started', { intervalMinutes: this.config.intervalMs / (60 * 1000) });
+    const tick = () => {
+      this.run().catch((error) => log.error('Medication scheduler run failed', { error }));
+    };
+    // unref: a pending run never keeps the process alive on shutdown
+    setTimeout(tick, 0).unref();
+    this.timer = setInterval(tick, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Overlapping runs share one
+  run(now = new Date()): Promise<MedicationSchedulerRunResult> {
+    if (!this.running) {
+      this.running = this.apply(now).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  // Creates the schedule's doses from where the last run stopped up to the
+  // lookahead; returns how many were added
+  async materialise(schedule: MedicationSchedule, now = new Date()): Promise<number> {
+    const until = new Date(now.getTime() + this.config.lookaheadMs);
+    const after = schedule.materialisedUntil ?? schedule.createdAt ?? now;
+    if (after >= until) return 0;
+
+    const doses: InsertMedicationDose[] = scheduledDoseTimes(schedule, after, until).map((scheduledFor) => ({
+      scheduleId: schedule.id,
+      patientId: schedule.patientId,
+      scheduledFor,
+      status: 'pending',
+      recordedAt: null,
+    }));
+    const added = await storage.addMedicationDoses(doses);
+    await storage.setMedicationScheduleMaterialisedUntil(schedule.id, until);
+    return added;
+  }
+
+  // After the times, dates or time zone of a schedule change: drops its
+  // upcoming pending doses and creates them again from now
+  async reschedule(schedule: MedicationSchedule, now = new Date()): Promise<number> {
+    await storage.deletePendingMedicationDoses(schedule.id, now);
+    return this.materialise({ ...schedule, materialisedUntil: now }, now);
+  }
+
+  private async apply(now: Date): Promise<MedicationSchedulerRunResult> {
+    // Schedules that ended a while ago have nothing left to create
+    const schedules = await storage.listMedicationSchedules({ endingFrom: addDays(now.toISOString().slice(0, 10), -2) });
+    const result: MedicationSchedulerRunResult = { schedules: schedules.length, dosesCreated: 0, dosesMissed: 0 };
+
+    for (const schedule of schedules) {
+      try {
+        result.dosesCreated += await this.materialise(schedule, now);
+      } catch (error) {
+        log.error('Failed to create medication doses', { scheduleId: schedule.id, error });
+      }
+    }
+    result.dosesMissed = await storage.markMissedMedicationDoses(new Date(now.getTime() - this.config.missedAfterMs));
+
+    if (result.dosesCreated > 0 || result.dosesMissed > 0) {
+      log.debug('Medication scheduler run finished', { ...result });
+    }
+    return result;
+  }
+}
+
+export const medicationScheduler = new MedicationScheduler();
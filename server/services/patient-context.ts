@@ -0,0 +1,68 @@
+import type { PatientContext } from "@shared/api-schemas";
+
+// Turns the patient info and structured profile into prompt context. Prompts
+// with a `patientSummary` get one line of text; prompts with a json
+// `patientInfo` get the object from `promptPatientContext`. Neither includes
+// the patient's name or ID.
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+export function bodyMassIndex(weightKg?: number | null, heightCm?: number | null): number | undefined {
+  if (!weightKg || !heightCm) return undefined;
+  return Math.round((weightKg / (heightCm / 100) ** 2) * 10) / 10;
+}
+
+export function describePatient(patientInfo?: PatientContext | null): string | undefined {
+  if (!patientInfo) return undefined;
+  const { age, gender, medicalHistory, profile } = patientInfo;
+  const parts: string[] = [];
+
+  if (typeof age === 'number' || gender) {
+    parts.push([typeof age === 'number' && `Age ${age}`, gender && `Gender: ${gender}`].filter(Boolean).join(', '));
+  }
+  if (profile?.medications.length) {
+    const medications = profile.medications.map(({ name, dose, frequency }) => [name, dose, frequency].filter(Boolean).join(' '));
+    parts.push(`Current medications: ${medications.join(', ')}`);
+  }
+  if (profile?.allergies.length) {
+    const allergies = profile.allergies.map(({ substance, reaction }) => `${substance} (${label(reaction)})`);
+    parts.push(`Allergies: ${allergies.join(', ')}`);
+  }
+  if (profile?.chronicConditions.length) {
+    parts.push(`Chronic conditions: ${profile.chronicConditions.join(', ')}`);
+  }
+  if (profile?.pregnancyStatus && profile.pregnancyStatus !== 'not_applicable') {
+    parts.push(`Pregnancy status: ${label(profile.pregnancyStatus)}`);
+  }
+  const bmi = bodyMassIndex(profile?.weightKg, profile?.heightCm);
+  const measurements = [
+    profile?.weightKg && `${profile.weightKg} kg`,
+    profile?.heightCm && `${profile.heightCm} cm`,
+    bmi && `BMI ${bmi}`,
+  ].filter(Boolean);
+  if (measurements.length) parts.push(`Weight/height: ${measurements.join(', ')}`);
+  if (profile?.smokingStatus) parts.push(`Smoking: ${profile.smokingStatus}`);
+  if (profile?.alcoholUse) parts.push(`Alcohol: ${profile.alcoholUse}`);
+  if (medicalHistory?.trim()) parts.push(`Other history: ${medicalHistory.trim()}`);
+
+  return parts.length ? parts.join('; ') : undefined;
+}
+
+// Unset profile fields are left out so the prompt only shows what is known
+export function promptPatientContext(patientInfo?: PatientContext | null): Record<string, unknown> | undefined {
+  if (!patientInfo) return undefined;
+  const { id: _id, name: _name, profile, ...rest } = patientInfo;
+  const context: Record<string, unknown> = { ...rest };
+  if (profile) {
+    const { medications, allergies, chronicConditions, ...details } = profile;
+    if (medications.length) context.medications = medications;
+    if (allergies.length) context.allergies = allergies;
+    if (chronicConditions.length) context.chronicConditions = chronicConditions;
+    for (const [key, value] of Object.entries(details)) {
+      if (value !== null && value !== undefined) context[key] = value;
+    }
+    const bmi = bodyMassIndex(profile.weightKg, profile.heightCm);
+    if (bmi) context.bmi = bmi;
+  }
+  return Object.keys(context).length ? context : undefined;
+}
@@ -0,0 +1,26 @@
+import type { PatientProfile } from "@shared/schema";
+import type { PatientContext, PatientProfileInput } from "@shared/api-schemas";
+import { storage } from "../storage";
+
+// The stored row minus its bookkeeping columns, in the API's shape
+export function profileFromRecord(record: PatientProfile): PatientProfileInput {
+  const { medications, allergies, chronicConditions, pregnancyStatus, weightKg, heightCm, smokingStatus, alcoholUse } = record;
+  return {
+    medications,
+    allergies,
+    chronicConditions,
+    pregnancyStatus: pregnancyStatus as PatientProfileInput['pregnancyStatus'],
+    weightKg,
+    heightCm,
+    smokingStatus: smokingStatus as PatientProfileInput['smokingStatus'],
+    alcoholUse: alcoholUse as PatientProfileInput['alcoholUse'],
+  };
+}
+
+// Session-bound routes use the stored profile unless the request sent one
+export async function withStoredProfile(sessionId: string, patientInfo?: PatientContext | null): Promise<PatientContext | undefined> {
+  if (patientInfo?.profile) return patientInfo;
+  const record = await storage.getPatientProfile(sessionId);
+  if (!record) return patientInfo ?? undefined;
+  return { ...patientInfo, profile: profileFromRecord(record) };
+}
@@ -0,0 +1,323 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { getPromptSelection, type PromptExperiment } from "../config/prompt-config";
+
+// Variables each template is rendered with. Template files declare the same
+// variables (with their types) in their front matter, and rendering fails if a
+// variable is missing, unexpected or of the wrong type.
+export interface PromptVariables {
+  analysis: { symptoms: string; doctor: boolean; patientSummary?: string; symptomHistory?: string };
+  followUpQuestions: { symptoms: string; doctor: boolean; patientSummary?: string };
+  confidenceAnalysis: { diagnosis: string; symptoms: string; patientInfo?: unknown };
+  treatmentPathway: { diagnosis: string; patientInfo?: unknown };
+  drugInteractions: { medications: string; findings: unknown; doctor: boolean };
+  riskStratification: { diagnosis: string; patientInfo?: unknown };
+  patientEducation: { diagnosis: string; educationLevel: string; language: string; patientSummary?: string };
+  clinicalAlerts: { diagnosis: string; symptoms: string; patientInfo?: unknown };
+  secondOpinion: { primaryDiagnosis: string; symptoms: string; patientInfo?: unknown };
+  communicationStyle: { content: string; userType: string };
+  jsonRepair: { originalPrompt: string; invalidResponse: string; errors: string };
+}
+
+export type PromptName = keyof PromptVariables;
+
+export const PROMPT_NAMES: PromptName[] = [
+  'analysis',
+  'followUpQuestions',
+  'confidenceAnalysis',
+  'treatmentPathway',
+  'drugInteractions',
+  'riskStratification',
+  'patientEducation',
+  'clinicalAlerts',
+  'secondOpinion',
+  'communicationStyle',
+  'jsonRepair',
+];
+
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface PromptVariableSpec {
+  name: string;
+  type: PromptVariableType;
+  optional: boolean;
+}
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: number;
+  // "<name>@<version>", recorded with whatever the prompt produced
+  id: string;
+  description: string;
+  // Drafts are only served when pinned or as an experiment candidate
+  draft: boolean;
+  variables: PromptVariableSpec[];
+  body: string;
+  file: string;
+}
+
+export interface RenderedPrompt {
+  id: string;
+  name: PromptName;
+  version: number;
+  text: string;
+}
+
+export interface RenderOptions {
+  // Requests with the same key always land in the same experiment arm
+  bucketKey?: string;
+}
+
+export interface PromptTemplateSummary {
+  name: PromptName;
+  defaultVersion: number;
+  pinnedVersion?: number;
+  experiment?: PromptExperiment;
+  versions: Omit<PromptTemplate, 'body' | 'file'>[];
+}
+
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'boolean', 'json'];
+// {{name}}, {{#name}}shown when set{{/name}} and {{^name}}shown when not set{{/name}}
+const TAG = /\{\{\s*([#^/]?)\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+const SECTION = /\{\{\s*([#^])\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\2\s*\}\}/g;
+
+// server/prompts, found relative to this file when running from source and
+// relative to the working directory when running the bundled build
+function defaultTemplateDir(): string {
+  const candidates = [
+    process.env.PROMPT_TEMPLATES_DIR,
+    path.resolve(import.meta.dirname, '../prompts'),
+    path.resolve(process.cwd(), 'server/prompts'),
+  ].filter((dir): dir is string => !!dir);
+  return candidates.find((dir) => fs.existsSync(dir)) ?? candidates[0];
+}
+
+/**
+ * Parses a template file: a front matter block of `key: value` lines (with the
+ * variables indented under `variables:`) followed by the prompt body.
+ */
+export function parseTemplate(source: string, file: string): PromptTemplate {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`${file}: missing front matter`);
+  }
+
+  const meta: Record<string, string> = {};
+  const variables: PromptVariableSpec[] = [];
+  let inVariables = false;
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const entry = line.match(/^(\s*)([A-Za-z][A-Za-z0-9_]*)\s*:\s*(.*)$/);
+    if (!entry) {
+      throw new Error(`${file}: cannot parse front matter line "${line}"`);
+    }
+    const [, indent, key, value] = entry;
+    if (indent && inVariables) {
+      const type = value.trim().replace(/\?$/, '') as PromptVariableType;
+      if (!VARIABLE_TYPES.includes(type)) {
+        throw new Error(`${file}: variable "${key}" has unknown type "${value.trim()}"`);
+      }
+      variables.push({ name: key, type, optional: value.trim().endsWith('?') });
+      continue;
+    }
+    inVariables = key === 'variables';
+    if (!inVariables) meta[key] = value.trim();
+  }
+
+  const name = meta.name as PromptName;
+  const version = Number(meta.version);
+  if (!PROMPT_NAMES.includes(name)) {
+    throw new Error(`${file}: unknown template name "${meta.name}"`);
+  }
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`${file}: version must be a positive integer`);
+  }
+
+  const body = match[2].replace(/\s+$/, '');
+  const declared = new Set(variables.map((variable) => variable.name));
+  for (const tag of Array.from(body.matchAll(TAG))) {
+    if (!declared.has(tag[2])) {
+      throw new Error(`${file}: "{{${tag[1]}${tag[2]}}}" uses an undeclared variable`);
+    }
+  }
+  if (/\{\{\s*[#^/]/.test(stripSections(body))) {
+    throw new Error(`${file}: unbalanced {{#section}} or {{^section}} tag`);
+  }
+
+  return {
+    name,
+    version,
+    id: `${name}@${version}`,
+    description: meta.description || '',
+    draft: meta.status === 'draft',
+    variables,
+    body,
+    file,
+  };
+}
+
+// Applies `keep` to every section, outermost first, until none are left
+function replaceSections(body: string, keep: (kind: string, name: string) => boolean): string {
+  let text = body;
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(SECTION, (_section, kind: string, name: string, inner: string) => (keep(kind, name) ? inner : ''));
+  } while (text !== previous);
+  return text;
+}
+
+function stripSections(body: string): string {
+  return replaceSections(body, () => false);
+}
+
+function formatValue(spec: PromptVariableSpec, value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (spec.type === 'json') return JSON.stringify(value);
+  return String(value);
+}
+
+function isSet(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+function checkType(template: PromptTemplate, spec: PromptVariableSpec, value: unknown) {
+  if (value === undefined || value === null) {
+    if (!spec.optional) {
+      throw new Error(`${template.id}: missing required variable "${spec.name}"`);
+    }
+    return;
+  }
+  if (spec.type !== 'json' && typeof value !== spec.type) {
+    throw new Error(`${template.id}: variable "${spec.name}" must be a ${spec.type}`);
+  }
+}
+
+export function renderTemplate(template: PromptTemplate, variables: Record<string, unknown>): string {
+  const specs = new Map(template.variables.map((spec) => [spec.name, spec]));
+  for (const spec of template.variables) {
+    checkType(template, spec, variables[spec.name]);
+  }
+  for (const name of Object.keys(variables)) {
+    if (!specs.has(name)) {
+      throw new Error(`${template.id}: unexpected variable "${name}"`);
+    }
+  }
+
+  // Sections first, then plain values
+  const text = replaceSections(template.body, (kind, name) => (kind === '#') === isSet(variables[name]));
+  return text.replace(TAG, (_tag, _kind: string, name: string) => formatValue(specs.get(name)!, variables[name]));
+}
+
+// Stable 0-99 bucket so a session stays in the same arm across requests
+function bucketOf(name: string, key: string): number {
+  return createHash('sha256').update(`${name}:${key}`).digest().readUInt32BE(0) % 100;
+}
+
+export class PromptRegistry {
+  private templates: Map<PromptName, PromptTemplate[]> | null = null;
+
+  constructor(private templateDir: string = defaultTemplateDir()) {}
+
+  /**
+   * Renders the version of `name` selected for this request: the pinned
+   * version if one is set, otherwise the experiment candidate for requests in
+   * its bucket, otherwise the newest non-draft version.
+   */
+  render<N extends PromptName>(name: N, variables: PromptVariables[N], options: RenderOptions = {}): RenderedPrompt {
+    const template = this.select(name, options);
+    return {
+      id: template.id,
+      name,
+      version: template.version,
+      text: renderTemplate(template, this.forVersion(template, variables as Record<string, unknown>)),
+    };
+  }
+
+  get(name: PromptName, version: number): PromptTemplate | undefined {
+    return this.load().get(name)?.find((template) => template.version === version);
+  }
+
+  list(): PromptTemplateSummary[] {
+    return PROMPT_NAMES.map((name) => {
+      const { pinnedVersion, experiment } = getPromptSelection(name);
+      return {
+        name,
+        defaultVersion: this.defaultVersion(name).version,
+        pinnedVersion,
+        experiment,
+        versions: this.versions(name).map(({ body: _body, file: _file, ...summary }) => summary),
+      };
+    });
+  }
+
+  // A variable added in a newer version is dropped when an older version is
+  // pinned or in an experiment; names no version declares still fail to render
+  private forVersion(template: PromptTemplate, variables: Record<string, unknown>): Record<string, unknown> {
+    const declared = new Set(template.variables.map((spec) => spec.name));
+    const known = new Set(this.versions(template.name).flatMap((version) => version.variables.map((spec) => spec.name)));
+    return Object.fromEntries(Object.entries(variables).filter(([name]) => declared.has(name) || !known.has(name)));
+  }
+
+  private select(name: PromptName, options: RenderOptions): PromptTemplate {
+    const { pinnedVersion, experiment } = getPromptSelection(name);
+    if (pinnedVersion) {
+      return this.require(name, pinnedVersion);
+    }
+    if (experiment) {
+      const bucket = options.bucketKey ? bucketOf(name, options.bucketKey) : Math.floor(Math.random() * 100);
+      if (bucket < experiment.percent) {
+        return this.require(name, experiment.candidate);
+      }
+    }
+    return this.defaultVersion(name);
+  }
+
+  private defaultVersion(name: PromptName): PromptTemplate {
+    const released = this.versions(name).filter((template) => !template.draft);
+    if (released.length === 0) {
+      throw new Error(`No released version of prompt template "${name}"`);
+    }
+    return released[released.length - 1];
+  }
+
+  private require(name: PromptName, version: number): PromptTemplate {
+    const template = this.get(name, version);
+    if (!template) {
+      throw new Error(`Prompt template "${name}@${version}" does not exist`);
+    }
+    return template;
+  }
+
+  // Oldest first
+  private versions(name: PromptName): PromptTemplate[] {
+    return this.load().get(name) ?? [];
+  }
+
+  // Templates are read once, on first use; a malformed file fails loudly
+  private load(): Map<PromptName, PromptTemplate[]> {
+    if (this.templates) return this.templates;
+
+    const templates = new Map<PromptName, PromptTemplate[]>();
+    for (const name of PROMPT_NAMES) {
+      const dir = path.join(this.templateDir, name);
+      const files = fs.existsSync(dir) ? fs.readdirSync(dir).filter((file) => /^v\d+\.prompt$/.test(file)) : [];
+      const parsed = files.map((file) => {
+        const fullPath = path.join(dir, file);
+        const template = parseTemplate(fs.readFileSync(fullPath, 'utf8'), path.relative(this.templateDir, fullPath));
+        if (template.name !== name || `v${template.version}.prompt` !== file) {
+          throw new Error(`${template.file}: front matter does not match the file location`);
+        }
+        return template;
+      });
+      templates.set(name, parsed.sort((a, b) => a.version - b.version));
+    }
+
+    this.templates = templates;
+    return templates;
+  }
+}
+
+export const promptRegistry = new PromptRegistry();
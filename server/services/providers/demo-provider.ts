@@ -0,0 +1,244 @@
+import type { LLMTask } from "../../config/api-config";
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from "./types";
+
+// Deterministic canned responses keyed off the task, or the wording of the
+// prompt when no task is given. Used when no real provider is configured and as
+// the fallback when a provider call fails.
+export class DemoProvider implements LLMProvider {
+  readonly type = 'demo' as const;
+
+  constructor(readonly name: string = 'demo') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    return {
+      content: this.generateDemoResponse(request.prompt, request.task),
+      model: 'demo',
+    };
+  }
+
+  private generateDemoResponse(prompt: string, task?: LLMTask): string {
+    // Answer with the canned response for the task when it is known; several
+    // prompts share keywords ("patient", "clinical", "assessment"...), so the
+    // wording alone can pick the wrong shape
+    switch (task) {
+      case 'analysis': return this.differentialResponse();
+      case 'followUpQuestions': return this.followUpQuestionsResponse();
+      case 'treatmentPathway': return this.treatmentPathwayResponse();
+      case 'riskStratification': return this.riskAssessmentResponse();
+      case 'patientEducation': return this.patientEducationResponse();
+      case 'clinicalAlerts': return this.clinicalAlertsResponse();
+      case 'drugInteractions': return this.drugInteractionsResponse();
+    }
+
+    const promptLower = prompt.toLowerCase();
+
+    // The differential prompt spells out its JSON structure; it also talks
+    // about patients and clinical decision support, so match it before the
+    // keywords below
+    if (prompt.includes('"diagnoses"')) {
+      return this.differentialResponse();
+    }
+    
+    // Detect the type of prompt and provide appropriate demo response
+    if (promptLower.includes('interaction findings')) {
+      return this.drugInteractionsResponse();
+    }
+
+    if (promptLower.includes('follow-up') || promptLower.includes('questions')) {
+      return this.followUpQuestionsResponse();
+    }
+    
+    if (promptLower.includes('mcq') || promptLower.includes('multiple choice')) {
+      return this.mcqResponse();
+    }
+    
+    if (promptLower.includes('treatment') || promptLower.includes('pathway')) {
+      return this.treatmentPathwayResponse();
+    }
+    
+    if (promptLower.includes('risk') || promptLower.includes('assessment')) {
+      return this.riskAssessmentResponse();
+    }
+    
+    if (promptLower.includes('education') || promptLower.includes('patient')) {
+      return this.patientEducationResponse();
+    }
+    
+    if (promptLower.includes('alert') || promptLower.includes('clinical')) {
+      return this.clinicalAlertsResponse();
+    }
+    
+    if (promptLower.includes('diagnosis') || promptLower.includes('differential')) {
+      return this.differentialResponse();
+    }
+    
+    // Default demo response for other prompts
+    return "This is a demo response. The application is running in demo mode. Please configure Groq API keys or an OpenAI-compatible endpoint in the .env file for full AI functionality.";
+  }
+
+  private drugInteractionsResponse(): string {
+    return JSON.stringify({
+      summary: "Demo mode: the interactions listed come from the local drug database. Review each recommendation with a pharmacist or prescriber before changing any medication.",
+      explanations: []
+    });
+  }
+
+  private followUpQuestionsResponse(): string {
+    return JSON.stringify([
+      "Can you describe when these symptoms first started?",
+      "Have you noticed any specific triggers that make the symptoms worse?",
+      "Are you currently taking any medications?",
+      "Have you experienced these symptoms before?",
+      "How would you rate the severity of your symptoms on a scale of 1-10?"
+    ]);
+  }
+
+  private mcqResponse(): string {
+    return JSON.stringify([
+      {
+        question: "What is the most important first step when experiencing chest pain?",
+        options: [
+          { text: "Ignore it and rest", isCorrect: false, explanation: "Chest pain should never be ignored as it could indicate a serious condition." },
+          { text: "Take deep breaths and assess the situation", isCorrect: true, explanation: "Taking deep breaths helps you stay calm and assess if emergency care is needed." },
+          { text: "Exercise to improve circulation", isCorrect: false, explanation: "Exercise during chest pain could worsen certain conditions." },
+          { text: "Drink cold water", isCorrect: false, explanation: "This may not address the underlying cause of chest pain." }
+        ],
+        category: "symptoms",
+        difficultyLevel: "easy",
+        educationalValue: 9
+      },
+      {
+        question: "When should you seek immediate medical attention for a cough?",
+        options: [
+          { text: "Only if it lasts more than a month", isCorrect: false, explanation: "Some serious conditions require immediate attention even with newer symptoms." },
+          { text: "If you cough up blood or have severe breathing difficulty", isCorrect: true, explanation: "These are red flag symptoms that require emergency care." },
+          { text: "Never, coughs always resolve on their own", isCorrect: false, explanation: "Some coughs indicate serious conditions that need medical treatment." },
+          { text: "Only during working hours", isCorrect: false, explanation: "Medical emergencies don't follow a schedule." }
+        ],
+        category: "symptoms",
+        difficultyLevel: "medium",
+        educationalValue: 8
+      }
+    ]);
+  }
+
+  private treatmentPathwayResponse(): string {
+    return JSON.stringify({
+      firstLineTherapy: ["Supportive care with rest, fluids, and over-the-counter symptom relief"],
+      alternativeTreatments: [
+        "Prescription medications if symptoms worsen",
+        "Specialist consultation if no improvement in 7-10 days",
+        "Additional testing if red flag symptoms develop"
+      ],
+      monitoringRequirements: ["Symptom severity", "Temperature", "Breathing difficulty"],
+      followUpSchedule: "Return if symptoms worsen or persist beyond 10 days",
+      escalationCriteria: ["Breathing difficulty", "Fever above 39°C for more than 48 hours", "Symptoms persisting beyond 10 days"]
+    });
+  }
+
+  private riskAssessmentResponse(): string {
+    return JSON.stringify({
+      immediateRisk: "medium",
+      shortTermRisk: "low",
+      longTermRisk: "low",
+      riskFactors: [
+        "Current symptoms suggest common viral infection",
+        "Age and overall health status are favorable",
+        "No significant red flag symptoms present"
+      ],
+      mitigationStrategies: [
+        "Monitor symptoms closely",
+        "Maintain good hydration",
+        "Rest and avoid strenuous activity",
+        "Seek care if symptoms worsen"
+      ]
+    });
+  }
+
+  private patientEducationResponse(): string {
+    return JSON.stringify({
+      simpleExplanation: "You appear to have a common viral infection that affects your respiratory system. This is very treatable and usually gets better on its own with proper care.",
+      lifestyleModifications: [
+        "Get plenty of rest to help your body fight the infection",
+        "Drink lots of fluids like water, warm tea, or soup",
+        "Use a humidifier or breathe steam to ease congestion",
+        "Eat nutritious foods to support your immune system"
+      ],
+      warningSignsToWatch: [
+        "Difficulty breathing or shortness of breath",
+        "High fever that doesn't respond to medication",
+        "Severe headache or neck stiffness",
+        "Symptoms that get much worse instead of better"
+      ],
+      whenToSeekHelp: [
+        "If you have trouble breathing",
+        "If your fever goes above 39°C (102°F) and stays high",
+        "If you feel much worse instead of gradually better",
+        "If you develop new concerning symptoms"
+      ],
+      customizedContent: "Most people with similar symptoms recover completely within 1-2 weeks with good self-care. The key is to rest, stay hydrated, and watch for any worsening symptoms."
+    });
+  }
+
+  private clinicalAlertsResponse(): string {
+    return JSON.stringify([
+      {
+        type: "info",
+        priority: 3,
+        message: "Monitor for symptom progression",
+        actionRequired: "Check patient status in 24-48 hours",
+        timeframe: "Within 2 days"
+      },
+      {
+        type: "warning",
+        priority: 6,
+        message: "Watch for respiratory distress",
+        actionRequired: "Advise patient on when to seek immediate care",
+        timeframe: "Ongoing monitoring"
+      }
+    ]);
+  }
+
+  private differentialResponse(): string {
+    return JSON.stringify({
+      diagnoses: [
+        {
+          name: "Upper Respiratory Infection",
+          description: "Common viral infection affecting the nose, throat, and airways. Usually resolves within 7-10 days with supportive care.",
+          confidence: 75,
+          severity: "medium",
+          probability: 75,
+          clinicalEvidence: 7,
+          symptomMatch: 75,
+          literatureSupport: "moderate",
+          category: "Infectious Disease",
+          redFlags: ["Difficulty breathing", "High fever > 39°C"],
+          recommendedTests: ["Complete Blood Count", "Throat Culture"],
+          additionalTestingNeeded: ["Chest X-ray if respiratory symptoms persist"]
+        },
+        {
+          name: "Allergic Rhinitis",
+          description: "Allergic reaction causing nasal congestion, sneezing, and runny nose. Often seasonal or triggered by environmental allergens.",
+          confidence: 60,
+          severity: "low",
+          probability: 60,
+          clinicalEvidence: 6,
+          symptomMatch: 65,
+          literatureSupport: "moderate",
+          category: "Allergic Reaction",
+          redFlags: ["Severe breathing difficulty"],
+          recommendedTests: ["Allergy Testing"],
+          additionalTestingNeeded: ["IgE levels"]
+        }
+      ],
+      followUpQuestions: [],
+      redFlags: ["Difficulty breathing", "High fever", "Severe headache"],
+      recommendedTests: ["Complete Blood Count", "Basic Metabolic Panel"],
+      overallConfidence: 70
+    });
+  }
+}
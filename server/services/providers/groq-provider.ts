@@ -0,0 +1,41 @@
+import Groq from "groq-sdk";
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from "./types";
+
+export class GroqProvider implements LLMProvider {
+  readonly type = 'groq' as const;
+  private client: Groq;
+
+  constructor(readonly name: string, private apiKey?: string) {
+    // Initialize with a dummy key so construction never throws in demo mode
+    this.client = new Groq({ apiKey: apiKey || `demo-key-${name}` });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create({
+      messages: [
+        {
+          role: "user",
+          content: request.prompt
+        }
+      ],
+      model: request.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content || "",
+      model: completion.model || request.model,
+      usage: completion.usage ? {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens,
+      } : undefined,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { API_CONFIG, type LLMTask, type ProviderConfig, type TaskRoute } from "../../config/api-config";
+import { DemoProvider } from "./demo-provider";
+import { GroqProvider } from "./groq-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+import type { LLMProvider } from "./types";
+import { logger } from "../../logger";
+
+export type { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMUsage } from "./types";
+export { DemoProvider } from "./demo-provider";
+
+const log = logger.child('providers');
+
+function createProvider(name: string, config: ProviderConfig): LLMProvider {
+  switch (config.type) {
+    case 'groq':
+      return new GroqProvider(name, config.apiKey);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(name, config.baseUrl, config.apiKey, config.timeoutMs);
+    case 'demo':
+      return new DemoProvider(name);
+    default:
+      throw new Error(`Unknown provider type "${(config as ProviderConfig).type}" for provider "${name}"`);
+  }
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, LLMProvider>();
+  readonly demo: LLMProvider;
+
+  constructor(
+    providerConfigs: Record<string, ProviderConfig> = API_CONFIG.providers,
+    private routes: Record<LLMTask, TaskRoute> = API_CONFIG.tasks,
+  ) {
+    for (const [name, config] of Object.entries(providerConfigs)) {
+      this.providers.set(name, createProvider(name, config));
+    }
+    this.demo = this.providers.get('demo') || new DemoProvider();
+  }
+
+  get(name: string): LLMProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getRoute(task: LLMTask): TaskRoute {
+    return this.routes[task];
+  }
+
+  // Resolves the provider for a task, falling back to the demo provider when the
+  // routed provider is unknown or not configured.
+  resolve(task: LLMTask): { provider: LLMProvider; route: TaskRoute } {
+    const route = this.getRoute(task);
+    const provider = this.providers.get(route.provider);
+
+    if (!provider) {
+      log.warn(`LLM provider "${route.provider}" for task "${task}" is not defined, using demo provider`);
+      return { provider: this.demo, route };
+    }
+    if (!provider.isConfigured()) {
+      return { provider: this.demo, route };
+    }
+    return { provider, route };
+  }
+
+  describeRoutes(): Record<LLMTask, { provider: string; model: string; configured: boolean }> {
+    const description = {} as Record<LLMTask, { provider: string; model: string; configured: boolean }>;
+    for (const [task, route] of Object.entries(this.routes) as [LLMTask, TaskRoute][]) {
+      description[task] = {
+        provider: route.provider,
+        model: route.model,
+        configured: !!this.providers.get(route.provider)?.isConfigured(),
+      };
+    }
+    return description;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,79 @@
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from "./types";
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string } }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+// Talks to any server implementing POST {baseUrl}/chat/completions,
+// e.g. llama.cpp's server, vLLM or Ollama's OpenAI endpoint.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type = 'openai-compatible' as const;
+
+  constructor(
+    readonly name: string,
+    private baseUrl?: string,
+    private apiKey?: string,
+    private timeoutMs: number = 60000,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    if (!this.baseUrl) {
+      throw new Error(`Provider "${this.name}" has no base URL configured`);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          top_p: request.topP,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`${this.name} returned HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const usage = data.usage;
+
+      return {
+        content: data.choices?.[0]?.message?.content || "",
+        model: data.model || request.model,
+        usage: usage ? {
+          promptTokens: usage.prompt_tokens || 0,
+          completionTokens: usage.completion_tokens || 0,
+          totalTokens: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0),
+        } : undefined,
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`${this.name} timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
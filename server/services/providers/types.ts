@@ -0,0 +1,33 @@
+import type { LLMTask, ProviderType } from "../../config/api-config";
+
+export interface LLMCompletionRequest {
+  prompt: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  // Which task the prompt is for. Real providers ignore it; the demo provider
+  // uses it to pick the canned response. Not part of the cache key.
+  task?: LLMTask;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly type: ProviderType;
+  // False when the provider is missing credentials or an endpoint; AIService
+  // then answers from the demo provider instead of attempting the call.
+  isConfigured(): boolean;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
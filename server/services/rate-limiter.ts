@@ -0,0 +1,156 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  AI_ROUTES,
+  RATE_LIMIT_CONFIG,
+  type BucketRule,
+  type RateLimitClass
+} from "../config/rate-limit-config";
+import { logger } from "../logger";
+
+const log = logger.child('rate-limiter');
+
+export interface BucketRequest {
+  key: string;
+  rule: BucketRule;
+}
+
+export interface TakeResult {
+  // Whether this bucket had a request left
+  allowed: boolean;
+  // Whole requests left in the bucket after this one
+  remaining: number;
+  // How long until the bucket allows a request again; 0 when allowed
+  retryAfterMs: number;
+}
+
+/**
+ * Where bucket state lives. The in-memory store is per process; a shared
+ * backend (Redis, Postgres...) lets several instances enforce one limit.
+ *
+ * `take` returns one result per bucket, in order, and is all-or-nothing: a
+ * request is only counted when every bucket has room, so one that another
+ * bucket refuses does not drain the rest. Backends must refill, check and
+ * take across the given keys atomically.
+ */
+export interface RateLimitStore {
+  take(buckets: BucketRequest[]): Promise<TakeResult[]>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  rule: BucketRule;
+}
+
+// Idle buckets are dropped once they would have refilled completely, since a
+// missing bucket is treated as a full one
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+  private lastSweep: number;
+
+  constructor(private now: () => number = Date.now) {
+    this.lastSweep = now();
+  }
+
+  async take(requests: BucketRequest[]): Promise<TakeResult[]> {
+    const now = this.now();
+    this.sweep(now);
+
+    const buckets = requests.map(({ key, rule }) => {
+      const bucket = this.buckets.get(key) ?? { tokens: rule.capacity, updatedAt: now, rule };
+      bucket.tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * (rule.capacity / rule.windowMs));
+      bucket.updatedAt = now;
+      bucket.rule = rule;
+      this.buckets.set(key, bucket);
+      return bucket;
+    });
+
+    // Nothing is taken unless every bucket has room
+    const allowed = buckets.every((bucket) => bucket.tokens >= 1);
+    return buckets.map((bucket) => {
+      if (bucket.tokens < 1) {
+        const refillPerMs = bucket.rule.capacity / bucket.rule.windowMs;
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+      }
+      if (allowed) bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+    });
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    this.buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt >= bucket.rule.windowMs) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+export function routeClass(req: Request): RateLimitClass {
+  return AI_ROUTES.has(`${req.method} ${req.path}`) ? 'ai' : 'crud';
+}
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore = new MemoryRateLimitStore(),
+    private config = RATE_LIMIT_CONFIG
+  ) {}
+
+  // Swap in a shared backend; buckets in the old store are forgotten
+  useStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Counts each /api request against the caller's per-user bucket (when logged
+   * in) and per-IP bucket for its route class, and answers 429 with
+   * Retry-After once either is empty; a refused request uses up neither.
+   * Register after the auth middleware.
+   */
+  middleware() {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!this.config.enabled || !req.path.startsWith('/api/')) {
+        return next();
+      }
+
+      const routeType = routeClass(req);
+      const rules = this.config.classes[routeType];
+      const buckets: BucketRequest[] = [
+        ...(req.user ? [{ key: `${routeType}:user:${req.user.id}`, rule: rules.perUser }] : []),
+        { key: `${routeType}:ip:${req.ip}`, rule: rules.perIp },
+      ];
+
+      try {
+        const results = (await this.store.take(buckets)).map((result, index) => ({ rule: buckets[index].rule, result }));
+        // Report the bucket that refuses the longest, or else the one closest to empty
+        const refused = results.filter(({ result }) => !result.allowed);
+        const tightest = refused.length > 0
+          ? refused.reduce((a, b) => (b.result.retryAfterMs > a.result.retryAfterMs ? b : a))
+          : results.reduce((a, b) => (b.result.remaining < a.result.remaining ? b : a));
+
+        res.setHeader('RateLimit-Limit', tightest.rule.capacity.toString());
+        res.setHeader('RateLimit-Remaining', tightest.result.remaining.toString());
+        if (!tightest.result.allowed) {
+          const retryAfterSeconds = Math.max(1, Math.ceil(tightest.result.retryAfterMs / 1000));
+          res.setHeader('Retry-After', retryAfterSeconds.toString());
+          return res.status(429).json({
+            error: routeType === 'ai'
+              ? "Too many AI requests, please wait before trying again"
+              : "Too many requests, please wait before trying again",
+            retryAfterSeconds,
+          });
+        }
+      } catch (error) {
+        // A broken store should not take the API down with it
+        log.warn('[rateLimiter] Store error, request not limited', { error });
+      }
+      next();
+    };
+  }
+}
+
+export const rateLimiter = new RateLimiter();
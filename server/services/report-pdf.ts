@@ -0,0 +1,423 @@
+import PDFDocument from "pdfkit";
+import type { ConsultationSession, Diagnosis } from "@shared/schema";
+import type { AIAnalysisResult, PatientEducation, RiskAssessment, TreatmentPathway } from "./ai-service";
+
+export type ReportTemplate = 'doctor' | 'patient';
+
+export interface ReportInput {
+  session: ConsultationSession;
+  diagnoses: Diagnosis[];
+}
+
+interface ReportDiagnosis {
+  name: string;
+  description: string;
+  category: string;
+  confidence: number;
+  redFlags: string[];
+  recommendedTests: string[];
+}
+
+interface ReportData {
+  sessionId: string;
+  createdAt?: Date;
+  patient: { name?: string; age?: number; gender?: string; medicalHistory?: string };
+  presentingSymptoms: string;
+  followUp: { question: string; answer: string }[];
+  diagnoses: ReportDiagnosis[];
+  redFlags: string[];
+  recommendedTests: string[];
+  overallConfidence?: number;
+  treatmentPathway?: TreatmentPathway;
+  riskAssessment?: RiskAssessment;
+  patientEducation?: PatientEducation;
+}
+
+type Doc = PDFKit.PDFDocument;
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+const COLORS = {
+  primary: '#1d4ed8',
+  text: '#111827',
+  muted: '#6b7280',
+  border: '#e5e7eb',
+  barTrack: '#e5e7eb',
+  danger: '#b91c1c',
+};
+
+const DISCLAIMERS: Record<ReportTemplate, string> = {
+  doctor: 'AI-assisted decision support. Findings must be correlated with clinical examination and physician judgement; this report does not replace clinical assessment.',
+  patient: 'This summary was produced with the help of an AI assistant and is not a diagnosis. Please discuss it with a doctor. In an emergency, call your local emergency number.',
+};
+
+// combineSymptoms() appends follow-up answers to the stored symptom text as
+// "Additional Information:" followed by Q:/A: pairs; split them back out.
+function splitSymptoms(symptoms: string): { presenting: string; followUp: { question: string; answer: string }[] } {
+  const [presenting, additional] = symptoms.split(/\n\nAdditional Information:\n/);
+  const followUp: { question: string; answer: string }[] = [];
+  for (const block of (additional || '').split(/\n\n/)) {
+    const match = block.match(/^Q: ([\s\S]*?)\nA: ([\s\S]*)$/);
+    if (match) followUp.push({ question: match[1].trim(), answer: match[2].trim() });
+  }
+  return { presenting: presenting.trim(), followUp };
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+// Older sessions stored the analysis as a JSON string
+function parseAnalysis(value: unknown): Partial<AIAnalysisResult> {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return (value as Partial<AIAnalysisResult>) || {};
+}
+
+function toReportData({ session, diagnoses }: ReportInput): ReportData {
+  const analysis = parseAnalysis(session.aiAnalysis);
+  const { presenting, followUp } = splitSymptoms(session.symptoms || '');
+
+  // Prefer the latest stored analysis; the diagnoses table keeps every run
+  const sourceDiagnoses: ReportDiagnosis[] = (analysis.diagnoses?.length ? analysis.diagnoses : diagnoses).map((d) => ({
+    name: d.name,
+    description: d.description || '',
+    category: d.category || '',
+    confidence: Math.max(0, Math.min(100, Number(d.confidence) || 0)),
+    redFlags: toStringList(d.redFlags),
+    recommendedTests: toStringList(d.recommendedTests),
+  }));
+  const reportDiagnoses = sourceDiagnoses
+    .filter((d, index) => sourceDiagnoses.findIndex((other) => other.name === d.name) === index)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return {
+    sessionId: session.sessionId,
+    createdAt: session.createdAt || undefined,
+    patient: (session.patientInfo as ReportData['patient']) || {},
+    presentingSymptoms: presenting,
+    followUp,
+    diagnoses: reportDiagnoses,
+    redFlags: unique([...toStringList(analysis.redFlags), ...reportDiagnoses.flatMap((d) => d.redFlags)]),
+    recommendedTests: unique([...toStringList(analysis.recommendedTests), ...reportDiagnoses.flatMap((d) => d.recommendedTests)]),
+    overallConfidence: typeof analysis.overallConfidence === 'number' ? analysis.overallConfidence : undefined,
+    treatmentPathway: analysis.treatmentPathway,
+    riskAssessment: analysis.riskAssessment,
+    patientEducation: analysis.patientEducation,
+  };
+}
+
+// --- Drawing helpers ---
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+// Starts a new page if the next block would run into the footer
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+  }
+}
+
+function heading(doc: Doc, text: string) {
+  ensureSpace(doc, 50);
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(13).fillColor(COLORS.primary).text(text, MARGIN);
+  const y = doc.y + 2;
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth(doc), y).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+  doc.moveDown(0.5);
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.text);
+}
+
+function paragraph(doc: Doc, text: string, options: { color?: string; bold?: boolean } = {}) {
+  doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10).fillColor(options.color || COLORS.text);
+  doc.text(text, MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.font('Helvetica').fillColor(COLORS.text);
+}
+
+function bulletList(doc: Doc, items: string[], emptyText: string, color?: string) {
+  if (items.length === 0) {
+    paragraph(doc, emptyText, { color: COLORS.muted });
+    return;
+  }
+  doc.font('Helvetica').fontSize(10).fillColor(color || COLORS.text);
+  for (const item of items) {
+    ensureSpace(doc, 15);
+    doc.text(`•  ${item}`, MARGIN + 8, doc.y, { width: contentWidth(doc) - 8 });
+  }
+  doc.fillColor(COLORS.text);
+}
+
+function labelValueRows(doc: Doc, rows: [string, string][]) {
+  for (const [label, value] of rows) {
+    ensureSpace(doc, 15);
+    const y = doc.y;
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.muted).text(label, MARGIN, y, { width: 120 });
+    doc.font('Helvetica').fillColor(COLORS.text).text(value, MARGIN + 125, y, { width: contentWidth(doc) - 125 });
+  }
+}
+
+function confidenceBar(doc: Doc, x: number, y: number, width: number, value: number) {
+  const color = value >= 70 ? COLORS.primary : value >= 40 ? '#d97706' : COLORS.muted;
+  doc.roundedRect(x, y, width, 8, 3).fill(COLORS.barTrack);
+  if (value > 0) {
+    doc.roundedRect(x, y, Math.max(6, (width * value) / 100), 8, 3).fill(color);
+  }
+  doc.fillColor(COLORS.text);
+}
+
+function differentialTable(doc: Doc, diagnoses: ReportDiagnosis[], labels: { name: string; confidence: string }, showDetails: boolean) {
+  if (diagnoses.length === 0) {
+    paragraph(doc, 'No diagnoses were generated for this consultation.', { color: COLORS.muted });
+    return;
+  }
+
+  const width = contentWidth(doc);
+  const nameWidth = width - 170;
+  const barX = MARGIN + nameWidth + 10;
+
+  const drawHeader = () => {
+    const y = doc.y;
+    doc.font('Helvetica-Bold').fontSize(9).fillColor(COLORS.muted);
+    doc.text(labels.name, MARGIN, y, { width: nameWidth });
+    doc.text(labels.confidence, barX, y, { width: 160 });
+    doc.moveDown(0.3);
+  };
+
+  drawHeader();
+  diagnoses.forEach((diagnosis, index) => {
+    const detail = showDetails
+      ? [diagnosis.category, diagnosis.description].filter(Boolean).join(' – ')
+      : diagnosis.description;
+    doc.font('Helvetica').fontSize(9);
+    const rowHeight = 16 + (detail ? doc.heightOfString(detail, { width: nameWidth }) : 0);
+    if (doc.y + rowHeight > doc.page.height - MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      drawHeader();
+    }
+
+    const y = doc.y;
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text(`${index + 1}. ${diagnosis.name}`, MARGIN, y, { width: nameWidth });
+    if (detail) {
+      doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(detail, MARGIN, doc.y, { width: nameWidth });
+    }
+    const bottom = doc.y;
+
+    confidenceBar(doc, barX, y + 2, 110, diagnosis.confidence);
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.text).text(`${Math.round(diagnosis.confidence)}%`, barX + 118, y, { width: 40 });
+
+    doc.y = Math.max(bottom, y + 14) + 6;
+    doc.moveTo(MARGIN, doc.y - 3).lineTo(MARGIN + width, doc.y - 3).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+  });
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.text);
+}
+
+function reportHeader(doc: Doc, data: ReportData, title: string) {
+  doc.rect(0, 0, doc.page.width, 80).fill(COLORS.primary);
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#ffffff').text(title, MARGIN, 25);
+  doc.font('Helvetica').fontSize(9).text(
+    `Generated ${new Date().toLocaleString('en-US')}  ·  Session ${data.sessionId}`,
+    MARGIN,
+    52
+  );
+  doc.fillColor(COLORS.text);
+  doc.y = 100;
+}
+
+function patientDetails(doc: Doc, data: ReportData, includeHistory: boolean) {
+  const { patient } = data;
+  const rows: [string, string][] = [
+    ['Name', patient.name || 'Not provided'],
+    ['Age', patient.age !== undefined && patient.age !== null ? String(patient.age) : 'Not provided'],
+    ['Gender', patient.gender ? patient.gender.charAt(0).toUpperCase() + patient.gender.slice(1) : 'Not provided'],
+    ['Consultation date', data.createdAt ? new Date(data.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : 'Unknown'],
+  ];
+  if (includeHistory) {
+    rows.push(['Medical history', patient.medicalHistory || 'None recorded']);
+  }
+  labelValueRows(doc, rows);
+}
+
+function followUpAnswers(doc: Doc, followUp: ReportData['followUp']) {
+  if (followUp.length === 0) {
+    paragraph(doc, 'No follow-up questions were answered.', { color: COLORS.muted });
+    return;
+  }
+  followUp.forEach((qa, index) => {
+    ensureSpace(doc, 30);
+    paragraph(doc, `Q${index + 1}. ${qa.question}`, { bold: true });
+    paragraph(doc, qa.answer || 'Not answered');
+    doc.moveDown(0.3);
+  });
+}
+
+// Page footer (disclaimer + page numbers) is drawn once all content is laid out
+function drawFooters(doc: Doc, disclaimer: string) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise trigger a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - MARGIN - FOOTER_HEIGHT + 10;
+    doc.moveTo(MARGIN, y - 4).lineTo(doc.page.width - MARGIN, y - 4).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+    doc.font('Helvetica').fontSize(7.5).fillColor(COLORS.muted)
+      .text(disclaimer, MARGIN, y, { width: contentWidth(doc) - 60 });
+    doc.text(`Page ${i + 1} of ${range.count}`, doc.page.width - MARGIN - 55, y, { width: 55, align: 'right' });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+// --- Templates ---
+
+function renderDoctorReport(doc: Doc, data: ReportData) {
+  reportHeader(doc, data, 'Clinical Consultation Report');
+
+  heading(doc, 'Patient');
+  patientDetails(doc, data, true);
+
+  heading(doc, 'Presenting Symptoms');
+  paragraph(doc, data.presentingSymptoms || 'No symptoms recorded');
+
+  heading(doc, 'Follow-up Questions & Answers');
+  followUpAnswers(doc, data.followUp);
+
+  heading(doc, 'Differential Diagnosis');
+  differentialTable(doc, data.diagnoses, { name: 'Diagnosis', confidence: 'Confidence' }, true);
+  if (data.overallConfidence !== undefined) {
+    doc.moveDown(0.3);
+    paragraph(doc, `Overall confidence: ${Math.round(data.overallConfidence)}%`, { color: COLORS.muted });
+  }
+
+  heading(doc, 'Red Flags');
+  bulletList(doc, data.redFlags, 'No red flags identified.', COLORS.danger);
+
+  heading(doc, 'Recommended Investigations');
+  bulletList(doc, data.recommendedTests, 'No specific investigations recommended.');
+
+  heading(doc, 'Treatment Pathway');
+  const pathway = data.treatmentPathway;
+  if (!pathway) {
+    paragraph(doc, 'No treatment pathway was generated for this consultation.', { color: COLORS.muted });
+  } else {
+    paragraph(doc, 'First-line therapy', { bold: true });
+    bulletList(doc, toStringList(pathway.firstLineTherapy), 'None specified.');
+    paragraph(doc, 'Alternatives', { bold: true });
+    bulletList(doc, toStringList(pathway.alternativeTreatments), 'None specified.');
+    paragraph(doc, 'Monitoring', { bold: true });
+    bulletList(doc, toStringList(pathway.monitoringRequirements), 'None specified.');
+    paragraph(doc, 'Escalate if', { bold: true });
+    bulletList(doc, toStringList(pathway.escalationCriteria), 'None specified.');
+    if (pathway.followUpSchedule) {
+      labelValueRows(doc, [['Follow-up', pathway.followUpSchedule]]);
+    }
+  }
+
+  heading(doc, 'Risk Assessment');
+  const risk = data.riskAssessment;
+  if (!risk) {
+    paragraph(doc, 'No risk assessment was generated for this consultation.', { color: COLORS.muted });
+  } else {
+    labelValueRows(doc, [
+      ['Immediate risk', risk.immediateRisk],
+      ['Short-term risk', risk.shortTermRisk],
+      ['Long-term risk', risk.longTermRisk],
+    ]);
+    paragraph(doc, 'Risk factors', { bold: true });
+    bulletList(doc, toStringList(risk.riskFactors), 'None identified.');
+    paragraph(doc, 'Mitigation', { bold: true });
+    bulletList(doc, toStringList(risk.mitigationStrategies), 'None specified.');
+  }
+}
+
+function renderPatientReport(doc: Doc, data: ReportData) {
+  reportHeader(doc, data, 'Your Consultation Summary');
+
+  heading(doc, 'About You');
+  patientDetails(doc, data, false);
+
+  heading(doc, 'What You Told Us');
+  paragraph(doc, data.presentingSymptoms || 'No symptoms recorded');
+  if (data.followUp.length > 0) {
+    doc.moveDown(0.5);
+    followUpAnswers(doc, data.followUp);
+  }
+
+  heading(doc, 'What Might Be Going On');
+  differentialTable(doc, data.diagnoses, { name: 'Possible cause', confidence: 'How likely' }, false);
+
+  heading(doc, 'Get Help Right Away If You Notice');
+  bulletList(
+    doc,
+    unique([...data.redFlags, ...toStringList(data.patientEducation?.warningSignsToWatch)]),
+    'No specific warning signs were identified, but seek care if you feel worse.',
+    COLORS.danger
+  );
+
+  heading(doc, 'Tests Your Doctor May Suggest');
+  bulletList(doc, data.recommendedTests, 'No specific tests were suggested.');
+
+  const education = data.patientEducation;
+  if (education) {
+    heading(doc, 'Understanding Your Condition');
+    paragraph(doc, education.simpleExplanation);
+    doc.moveDown(0.3);
+    paragraph(doc, 'Things that can help', { bold: true });
+    bulletList(doc, toStringList(education.lifestyleModifications), 'Ask your doctor for advice.');
+    paragraph(doc, 'When to see a doctor', { bold: true });
+    bulletList(doc, toStringList(education.whenToSeekHelp), 'If your symptoms persist or get worse.');
+  }
+
+  if (data.treatmentPathway?.followUpSchedule) {
+    heading(doc, 'Next Steps');
+    paragraph(doc, data.treatmentPathway.followUpSchedule);
+  }
+}
+
+/**
+ * Renders a consultation as a paginated PDF. The doctor template is the full
+ * clinical record; the patient template uses plain language and leaves out the
+ * clinician-only sections (treatment options, risk stratification).
+ */
+export function renderSessionReport(input: ReportInput, template: ReportTemplate): Promise<Buffer> {
+  const data = toReportData(input);
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: template === 'doctor' ? 'Clinical Consultation Report' : 'Consultation Summary',
+      Subject: `Consultation ${data.sessionId}`,
+      Creator: 'AI Healthcare Assistant',
+    },
+  });
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      if (template === 'doctor') {
+        renderDoctorReport(doc, data);
+      } else {
+        renderPatientReport(doc, data);
+      }
+      drawFooters(doc, DISCLAIMERS[template]);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
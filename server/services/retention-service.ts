@@ -0,0 +1,110 @@
+import { RETENTION_CONFIG, type RetentionAction } from "../config/retention-config";
+import { storage } from "../storage";
+import { auditService } from "./audit-service";
+import { logger } from "../logger";
+
+const log = logger.child('retention');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface RetentionRunResult {
+  action: RetentionAction;
+  cutoff: string;
+  sessions: number;
+  failed: number;
+}
+
+/**
+ * Applies the retention policy (see config/retention-config) on a timer inside
+ * the server. Each purged or anonymised session is recorded in the audit log
+ * with no user, so the trail shows the job rather than a person did it.
+ */
+export class RetentionService {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<RetentionRunResult>;
+
+  constructor(private config = RETENTION_CONFIG) {}
+
+  isEnabled(): boolean {
+    return this.config.maxAgeDays > 0;
+  }
+
+  start(): void {
+    if (!this.isEnabled() || this.timer) return;
+    log.info('Retention job scheduled', {
+      action: this.config.action,
+      maxAgeDays: this.config.maxAgeDays,
+      intervalHours: this.config.intervalMs / (60 * 60 * 1000),
+    });
+    const tick = () => {
+      this.run().catch((error) => log.error('Retention run failed', { error }));
+    };
+    // unref: a pending run never keeps the process alive on shutdown
+    setTimeout(tick, 0).unref();
+    this.timer = setInterval(tick, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Overlapping calls (timer and the admin route) share one run
+  run(now = new Date()): Promise<RetentionRunResult> {
+    if (!this.running) {
+      this.running = this.apply(now).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async apply(now: Date): Promise<RetentionRunResult> {
+    const { action, batchSize } = this.config;
+    const cutoff = new Date(now.getTime() - this.config.maxAgeDays * DAY);
+    const result: RetentionRunResult = { action, cutoff: cutoff.toISOString(), sessions: 0, failed: 0 };
+    if (!this.isEnabled()) return result;
+
+    // Sessions that fail stay expired; skip them so the loop still ends
+    const failed = new Set<string>();
+    for (;;) {
+      const sessionIds = (await storage.listExpiredSessionIds({
+        createdBefore: cutoff,
+        includeAnonymised: action === 'purge',
+        limit: batchSize + failed.size,
+      })).filter((sessionId) => !failed.has(sessionId));
+      if (sessionIds.length === 0) break;
+
+      for (const sessionId of sessionIds.slice(0, batchSize)) {
+        try {
+          const done = action === 'purge'
+            ? await storage.deleteSession(sessionId)
+            : await storage.anonymiseSession(sessionId);
+          if (done) result.sessions++;
+        } catch (error) {
+          failed.add(sessionId);
+          log.error('Failed to apply retention to session', { action, sessionId, error });
+        }
+        await auditService.record({
+          userId: null,
+          username: null,
+          action: action === 'purge' ? 'delete' : 'anonymise',
+          resourceType: 'consultation_session',
+          resourceId: sessionId,
+          route: 'retention job',
+          statusCode: failed.has(sessionId) ? 500 : 200,
+          ip: null,
+        });
+      }
+    }
+
+    result.failed = failed.size;
+    if (result.sessions > 0 || result.failed > 0) {
+      log.info('Retention run finished', { ...result });
+    }
+    return result;
+  }
+}
+
+export const retentionService = new RetentionService();
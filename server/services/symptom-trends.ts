@@ -0,0 +1,138 @@
+import type { SymptomLog } from "@shared/schema";
+import type { SymptomTrendDirection } from "@shared/api-schemas";
+import { storage } from "../storage";
+
+// Trends are worked out per symptom (matched case-insensitively) from the
+// entries of the last TREND_WINDOW_DAYS. A symptom first logged in the
+// window within NEW_ONSET_DAYS is new onset; otherwise the least-squares
+// slope of severity over time decides, and a change of less than
+// MIN_CHANGE points across the window counts as stable.
+
+const TREND_WINDOW_DAYS = 14;
+const NEW_ONSET_DAYS = 3;
+const MIN_CHANGE = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SymptomSeriesPoint {
+  id: number;
+  recordedAt: Date;
+  severity: number;
+  notes: string | null;
+}
+
+export interface SymptomSeries {
+  // As spelled in the most recent entry
+  symptom: string;
+  points: SymptomSeriesPoint[];
+}
+
+export interface SymptomTrend {
+  symptom: string;
+  trend: SymptomTrendDirection;
+  firstSeverity: number;
+  latestSeverity: number;
+  peakSeverity: number;
+  // Severity points per day from the least-squares fit; null for a single entry
+  changePerDay: number | null;
+  // Entries in the window
+  entries: number;
+  firstRecordedAt: Date;
+  lastRecordedAt: Date;
+}
+
+const symptomKey = (symptom: string) => symptom.trim().toLowerCase();
+
+export function isSameSymptom(a: string, b: string): boolean {
+  return symptomKey(a) === symptomKey(b);
+}
+
+// Entries grouped by symptom, each group oldest first, most recently logged symptom first
+export function symptomSeries(entries: SymptomLog[]): SymptomSeries[] {
+  const groups = new Map<string, SymptomLog[]>();
+  for (const entry of [...entries].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())) {
+    const key = symptomKey(entry.symptom);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return Array.from(groups.values())
+    .map((group) => ({
+      symptom: group[group.length - 1].symptom.trim(),
+      points: group.map(({ id, recordedAt, severity, notes }) => ({ id, recordedAt, severity, notes })),
+    }))
+    .sort((a, b) => b.points[b.points.length - 1].recordedAt.getTime() - a.points[a.points.length - 1].recordedAt.getTime());
+}
+
+function slopePerDay(points: SymptomSeriesPoint[]): number | null {
+  if (points.length < 2) return null;
+  const start = points[0].recordedAt.getTime();
+  const xs = points.map((point) => (point.recordedAt.getTime() - start) / DAY_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, point) => sum + point.severity, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (points[i].severity - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  // Entries logged at the same moment carry no trend
+  return variance === 0 ? 0 : covariance / variance;
+}
+
+const trendOrder: Record<SymptomTrendDirection, number> = { worsening: 0, new_onset: 1, improving: 2, stable: 3 };
+
+// Only symptoms with entries in the window get a trend; worsening ones first
+export function analyseSymptomTrends(entries: SymptomLog[], now = new Date()): SymptomTrend[] {
+  const windowStart = now.getTime() - TREND_WINDOW_DAYS * DAY_MS;
+  const recent = entries.filter((entry) => entry.recordedAt.getTime() >= windowStart && entry.recordedAt <= now);
+
+  return symptomSeries(recent)
+    .map(({ symptom, points }) => {
+      const first = points[0];
+      const latest = points[points.length - 1];
+      const slope = slopePerDay(points);
+      const spanDays = (latest.recordedAt.getTime() - first.recordedAt.getTime()) / DAY_MS;
+      const change = (slope ?? 0) * spanDays;
+
+      let trend: SymptomTrendDirection = 'stable';
+      if (first.recordedAt.getTime() >= now.getTime() - NEW_ONSET_DAYS * DAY_MS) trend = 'new_onset';
+      else if (change >= MIN_CHANGE) trend = 'worsening';
+      else if (change <= -MIN_CHANGE) trend = 'improving';
+
+      return {
+        symptom,
+        trend,
+        firstSeverity: first.severity,
+        latestSeverity: latest.severity,
+        peakSeverity: Math.max(...points.map((point) => point.severity)),
+        changePerDay: slope === null ? null : Math.round(slope * 100) / 100,
+        entries: points.length,
+        firstRecordedAt: first.recordedAt,
+        lastRecordedAt: latest.recordedAt,
+      };
+    })
+    .sort((a, b) => trendOrder[a.trend] - trendOrder[b.trend] || b.latestSeverity - a.latestSeverity);
+}
+
+// One line for the analysis prompt, e.g. "headache: worsening, 3 to 7/10 over 6 days (4 entries)"
+export function describeSymptomTrends(trends: SymptomTrend[]): string | undefined {
+  if (trends.length === 0) return undefined;
+  return trends.map((trend) => {
+    const label = trend.trend.replace(/_/g, ' ');
+    if (trend.entries === 1) return `${trend.symptom}: ${label}, ${trend.latestSeverity}/10 (1 entry)`;
+    const days = Math.max(1, Math.round((trend.lastRecordedAt.getTime() - trend.firstRecordedAt.getTime()) / DAY_MS));
+    return `${trend.symptom}: ${label}, ${trend.firstSeverity} to ${trend.latestSeverity}/10 over ${days} day${days === 1 ? '' : 's'} (${trend.entries} entries)`;
+  }).join('; ');
+}
+
+export async function recentSymptomTrends(patientId: number, now = new Date()): Promise<SymptomTrend[]> {
+  const entries = await storage.listSymptomLogs({
+    patientId,
+    from: new Date(now.getTime() - TREND_WINDOW_DAYS * DAY_MS),
+  });
+  return analyseSymptomTrends(entries, now);
+}
+
+// Recent symptom log of the patient a session is filed under, for analyzeSymptoms
+export async function recentSymptomHistory(patientId: number | null | undefined, now = new Date()): Promise<string | undefined> {
+  if (!patientId) return undefined;
+  return describeSymptomTrends(await recentSymptomTrends(patientId, now));
+}
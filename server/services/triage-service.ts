@@ -0,0 +1,147 @@
+import { TRIAGE_RULESET, type TriageRule, type TriageRuleSet, type TriageUrgency } from "../config/triage-rules";
+import type { AIAnalysisResult } from "./ai-service";
+
+export type { TriageUrgency } from "../config/triage-rules";
+
+export interface TriageMatch {
+  id: string;
+  name: string;
+  urgency: TriageUrgency;
+  critical: boolean;
+  weight: number;
+  advice: string;
+  // The phrases in the patient's text that satisfied the rule
+  evidence: string[];
+}
+
+export interface TriageResult {
+  rulesetVersion: string;
+  urgency: TriageUrgency;
+  score: number;
+  matchedRules: TriageMatch[];
+  // True when a critical rule fired and the AI call should be skipped
+  shortCircuit: boolean;
+}
+
+const URGENCY_RANK: Record<TriageUrgency, number> = {
+  'self-care': 0,
+  routine: 1,
+  urgent: 2,
+  emergency: 3,
+};
+
+const AFFIRMATIVE_ANSWER = /^(yes|y|yeah|yep|true|correct)\b/i;
+// Looked for just before a match, within the same phrase ("no chest pain").
+// A comma or a contrast ends the phrase, so "no fever but chest pain" and
+// "not sure what this is, chest pain" still count the chest pain.
+const NEGATION = /\b(no|not|denies|denied|without|never)\b/;
+const NEGATION_WINDOW = 25;
+const PHRASE_BOUNDARY = /[.;!?\n,]|\b(?:but|however|although|and now)\b/;
+// Rules marked sameClause need every group within one of these: a sentence,
+// cut again after a past time frame ("a fever last week and now ...")
+const CLAUSE_BOUNDARY = /[.;!?\n]|\b(?:yesterday|last (?:night|week|month|year)|(?:a|\d+|one|two|three|few) (?:days?|weeks?|months?|years?) ago)\b/;
+
+export class TriageService {
+  constructor(private ruleset: TriageRuleSet = TRIAGE_RULESET) {}
+
+  /**
+   * Scores the symptom text (and any follow-up answers) against the rule set.
+   * Runs entirely locally so it can gate the AI call and never depends on
+   * what the model reports as red flags.
+   */
+  assess(symptoms: string, followUpAnswers?: { question: string; answer: string }[]): TriageResult {
+    const text = this.buildText(symptoms, followUpAnswers);
+    const matchedRules: TriageMatch[] = [];
+
+    for (const rule of this.ruleset.rules) {
+      const evidence = this.matchRule(rule, text);
+      if (evidence) {
+        matchedRules.push({
+          id: rule.id,
+          name: rule.name,
+          urgency: rule.urgency,
+          critical: !!rule.critical,
+          weight: rule.weight,
+          advice: rule.advice,
+          evidence,
+        });
+      }
+    }
+
+    return {
+      rulesetVersion: this.ruleset.version,
+      urgency: this.resolveUrgency(matchedRules),
+      score: matchedRules.reduce((sum, match) => sum + match.weight, 0),
+      matchedRules,
+      shortCircuit: matchedRules.some((match) => match.critical),
+    };
+  }
+
+  /**
+   * Stand-in analysis returned instead of calling the AI when a critical rule
+   * fires; it carries no diagnoses, only the matched red flags and advice.
+   */
+  buildEmergencyAnalysis(triage: TriageResult): AIAnalysisResult {
+    const critical = triage.matchedRules.filter((match) => match.critical);
+    return {
+      diagnoses: [],
+      followUpQuestions: [],
+      redFlags: critical.map((match) => match.name),
+      recommendedTests: [],
+      overallConfidence: 0,
+      recommendations: critical.map((match) => ({ action: match.advice, priority: 'critical', urgency: 'immediate' })),
+      additionalNotes: 'Emergency warning signs were detected, so AI analysis was skipped. Seek emergency care now rather than waiting for an online assessment.',
+      source: 'triage',
+      triage,
+      provenance: { provider: 'triage', model: 'ruleset', promptVersion: `triage@${triage.rulesetVersion}` },
+    };
+  }
+
+  // Lowercased symptoms plus follow-up answers. A bare "yes" only means
+  // something alongside its question, so the question is included for those.
+  private buildText(symptoms: string, followUpAnswers?: { question: string; answer: string }[]): string {
+    const parts = [symptoms || ''];
+    for (const qa of followUpAnswers || []) {
+      const answer = String(qa?.answer ?? '').trim();
+      if (!answer) continue;
+      parts.push(AFFIRMATIVE_ANSWER.test(answer) ? `${qa.question} ${answer}` : answer);
+    }
+    return parts.join('\n').toLowerCase().replace(/[’‘]/g, "'");
+  }
+
+  private matchRule(rule: TriageRule, text: string): string[] | null {
+    const scopes = rule.sameClause ? text.split(CLAUSE_BOUNDARY) : [text];
+    for (const scope of scopes) {
+      const evidence: string[] = [];
+      for (const group of rule.requires) {
+        const hit = this.findUnnegated(group, scope);
+        if (!hit) break;
+        evidence.push(hit);
+      }
+      if (evidence.length === rule.requires.length) return evidence;
+    }
+    return null;
+  }
+
+  private findUnnegated(patterns: RegExp[], text: string): string | null {
+    for (const pattern of patterns) {
+      const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+      for (const match of Array.from(text.matchAll(global))) {
+        const start = match.index ?? 0;
+        const phrase = text.slice(Math.max(0, start - NEGATION_WINDOW), start).split(PHRASE_BOUNDARY).pop() || '';
+        if (!NEGATION.test(phrase)) return match[0];
+      }
+    }
+    return null;
+  }
+
+  private resolveUrgency(matches: TriageMatch[]): TriageUrgency {
+    if (matches.length === 0) return 'routine';
+    return matches.reduce<TriageUrgency>(
+      (highest, match) => (URGENCY_RANK[match.urgency] > URGENCY_RANK[highest] ? match.urgency : highest),
+      'self-care'
+    );
+  }
+}
+
+export const triageService = new TriageService();
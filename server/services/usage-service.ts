@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+import { API_CONFIG, type LLMTask } from "../config/api-config";
+import type { LLMUsage } from "./providers";
+import { logger } from "../logger";
+
+// Who an LLM call is made for. Set per request by `withUsageContext`; the
+// session is filled in once `requireSessionOwner` has checked ownership.
+export interface UsageContext {
+  userId?: number;
+  sessionId?: string;
+}
+
+export interface LLMCallRecord {
+  task: LLMTask;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+  latencyMs: number;
+  cached: boolean;
+  fallback: boolean;
+}
+
+export interface BudgetStatus {
+  scope: 'user' | 'global';
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+const log = logger.child('usage-service');
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+export function currentUsageContext(): UsageContext | undefined {
+  return usageContext.getStore();
+}
+
+// Start of the current UTC day, when daily budgets reset
+function startOfDay(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function estimateCost(model: string, usage?: LLMUsage): number {
+  const pricing = API_CONFIG.pricing[model];
+  if (!pricing || !usage) return 0;
+  return (usage.promptTokens * pricing.promptPerMillion + usage.completionTokens * pricing.completionPerMillion) / 1_000_000;
+}
+
+export class UsageService {
+  /**
+   * Stores one LLM call against the current request's user and session.
+   * Calls made outside a request (the offline evaluation, scripts) are not
+   * recorded, and a failed write is logged rather than failing the call.
+   */
+  async record(call: LLMCallRecord): Promise<void> {
+    const context = currentUsageContext();
+    if (!context) return;
+
+    // Cache hits cost nothing; they are recorded so hit rates show up per session
+    const usage = call.cached ? undefined : call.usage;
+    try {
+      const storage = await this.storage();
+      await storage.recordLLMUsage({
+        sessionId: context.sessionId ?? null,
+        userId: context.userId ?? null,
+        task: call.task,
+        provider: call.provider,
+        model: call.model,
+        promptTokens: usage?.promptTokens ?? 0,
+        completionTokens: usage?.completionTokens ?? 0,
+        totalTokens: usage?.totalTokens ?? 0,
+        costUsd: estimateCost(call.model, usage),
+        latencyMs: Math.round(call.latencyMs),
+        cached: call.cached,
+        fallback: call.fallback,
+      });
+    } catch (error) {
+      log.warn(`Failed to record LLM usage (${call.task})`, { error });
+    }
+  }
+
+  // Today's configured budgets that apply to the user, with what has been used
+  async budgetStatus(userId?: number): Promise<BudgetStatus[]> {
+    const { userDailyTokens, dailyTokens } = API_CONFIG.budgets;
+    const from = startOfDay();
+    const storage = await this.storage();
+
+    const statuses: BudgetStatus[] = [];
+    if (userDailyTokens > 0 && userId !== undefined) {
+      const used = await storage.sumLLMTokens({ userId, from });
+      statuses.push({ scope: 'user', limit: userDailyTokens, used, remaining: Math.max(0, userDailyTokens - used) });
+    }
+    if (dailyTokens > 0) {
+      const used = await storage.sumLLMTokens({ from });
+      statuses.push({ scope: 'global', limit: dailyTokens, used, remaining: Math.max(0, dailyTokens - used) });
+    }
+    return statuses;
+  }
+
+  // The first budget the user (or everyone together) has used up today, if any
+  async exceededBudget(userId?: number): Promise<BudgetStatus | undefined> {
+    return (await this.budgetStatus(userId)).find((status) => status.remaining <= 0);
+  }
+
+  // Loaded on first use so the AI service can run without a database
+  private async storage() {
+    const { storage } = await import("../storage");
+    return storage;
+  }
+}
+
+export const usageService = new UsageService();
+
+/**
+ * Runs the rest of the request inside a usage context so every LLM call it
+ * makes is attributed to the logged-in user. Register after the auth
+ * middleware so `req.user` is populated.
+ */
+export function withUsageContext(req: Request, _res: Response, next: NextFunction) {
+  usageContext.run({ userId: req.user?.id }, next);
+}
+
+// Attributes the current request's LLM calls to a consultation session
+export function setUsageSession(sessionId: string): void {
+  const context = currentUsageContext();
+  if (context) context.sessionId = sessionId;
+}
+
+/**
+ * Refuses requests to AI endpoints with 429 once the caller's daily token
+ * budget, or the global one, is used up. The budget resets at midnight UTC.
+ */
+export async function requireTokenBudget(req: Request, res: Response, next: NextFunction) {
+  try {
+    const exceeded = await usageService.exceededBudget(req.user?.id);
+    if (exceeded) {
+      const tomorrow = startOfDay();
+      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+      res.setHeader('Retry-After', Math.ceil((tomorrow.getTime() - Date.now()) / 1000).toString());
+      return res.status(429).json({
+        error: exceeded.scope === 'user' ? "Daily token budget exceeded" : "Daily token budget for the service exceeded",
+        budget: { ...exceeded, resetsAt: tomorrow.toISOString() },
+      });
+    }
+    next();
+  } catch (error) {
+    log.error('[requireTokenBudget] Error', { error });
+    res.status(500).json({ error: "Failed to check token budget" });
+  }
+}
@@ -0,0 +1,270 @@
+import type { InsertVitalAlert, InsertVitalReading, Patient, VitalAlert, VitalReading } from "@shared/schema";
+import { vitalTypes, vitalUnits, type ListVitalsQuery, type NormalisedVitalReading, type VitalStatus, type VitalType } from "@shared/api-schemas";
+import { VITAL_RANGES, type RapidChangeRule, type VitalLimits, type VitalMeasure, type VitalRange, type VitalRangeSet } from "../config/vital-ranges";
+import type { ClinicalAlert } from "./ai-service";
+import { storage } from "../storage";
+import { logger } from "../logger";
+
+const log = logger.child('vital-signs');
+
+const MINUTE = 60 * 1000;
+
+// ---- Ranges ----
+
+export interface PatientVitalRanges {
+  ageBand: string;
+  limits: Record<VitalMeasure, VitalLimits>;
+}
+
+// The adult limits with those of the patient's age band on top
+export function vitalRangesForAge(age: number | undefined, ranges: VitalRangeSet = VITAL_RANGES): PatientVitalRanges {
+  const band = age === undefined ? undefined : ranges.ageBands.find((entry) => age >= entry.minAge && age < entry.maxAge);
+  return {
+    ageBand: band?.name ?? 'adult',
+    limits: { ...ranges.adult, ...band?.limits },
+  };
+}
+
+function patientAge(patient: Patient): number | undefined {
+  const age = (patient.patientInfo as { age?: unknown }).age;
+  return typeof age === 'number' ? age : undefined;
+}
+
+export function measureStatus(value: number, { normal, critical }: VitalLimits): VitalStatus {
+  if (value < critical.min) return 'critical_low';
+  if (value > critical.max) return 'critical_high';
+  if (value < normal.min) return 'low';
+  if (value > normal.max) return 'high';
+  return 'normal';
+}
+
+const severity = (status: VitalStatus) => (status.startsWith('critical') ? 2 : status === 'normal' ? 0 : 1);
+
+// The values a reading is checked on: systolic and diastolic for blood
+// pressure, the value itself otherwise
+function readingMeasures(reading: Pick<VitalReading, 'type' | 'value' | 'diastolic'>): [VitalMeasure, number][] {
+  if (reading.type === 'blood_pressure') {
+    return reading.diastolic === null ? [['systolic', reading.value]] : [['systolic', reading.value], ['diastolic', reading.diastolic]];
+  }
+  return [[reading.type, reading.value]];
+}
+
+// Blood pressure takes the worse of its two measures
+export function readingStatus(reading: VitalReading, ranges: PatientVitalRanges): VitalStatus {
+  return readingMeasures(reading)
+    .map(([measure, value]) => measureStatus(value, ranges.limits[measure]))
+    .reduce((worst, status) => (severity(status) > severity(worst) ? status : worst), 'normal' as VitalStatus);
+}
+
+// ---- Alerts ----
+
+const MEASURE_LABELS: Record<VitalMeasure, string> = {
+  heart_rate: 'Heart rate',
+  systolic: 'Systolic blood pressure',
+  diastolic: 'Diastolic blood pressure',
+  temperature: 'Temperature',
+  spo2: 'Oxygen saturation',
+  respiratory_rate: 'Respiratory rate',
+  glucose: 'Blood glucose',
+};
+
+const measureUnit = (measure: VitalMeasure) =>
+  measure === 'systolic' || measure === 'diastolic' ? vitalUnits.blood_pressure[0] : vitalUnits[measure][0];
+
+const formatValue = (value: number, measure: VitalMeasure) => {
+  const unit = measureUnit(measure);
+  return unit === 'C' ? `${value} °C` : unit === '%' ? `${value}%` : `${value} ${unit}`;
+};
+
+// e.g. '60-100 bpm'
+const formatRange = ({ min, max }: VitalRange, measure: VitalMeasure) => `${min}-${formatValue(max, measure)}`;
+
+type VitalAlertCandidate = Omit<InsertVitalAlert, 'patientId' | 'readingId'> & Omit<ClinicalAlert, 'source'>;
+
+export function thresholdAlert(measure: VitalMeasure, value: number, status: VitalStatus, ranges: PatientVitalRanges): VitalAlertCandidate | null {
+  if (status === 'normal') return null;
+  const label = MEASURE_LABELS[measure];
+  const direction = status.endsWith('low') ? 'low' : 'high';
+  const normal = formatRange(ranges.limits[measure].normal, measure);
+
+  if (status === 'critical_low' || status === 'critical_high') {
+    return {
+      code: `${measure}:${status}`,
+      type: 'critical',
+      priority: 9,
+      message: `${label} critically ${direction}: ${formatValue(value, measure)} (normal ${normal} for ${ranges.ageBand})`,
+      actionRequired: 'Recheck the reading now; if it is confirmed, seek emergency medical care',
+      timeframe: 'Immediately',
+    };
+  }
+  return {
+    code: `${measure}:${status}`,
+    type: 'warning',
+    priority: 5,
+    message: `${label} ${direction}: ${formatValue(value, measure)} (normal ${normal} for ${ranges.ageBand})`,
+    actionRequired: 'Recheck the reading and keep monitoring; contact a clinician if it stays out of range',
+    timeframe: 'Within a few hours',
+  };
+}
+
+interface MeasureSample {
+  value: number;
+  recordedAt: Date;
+}
+
+export function rapidChangeAlert(measure: VitalMeasure, previous: MeasureSample, current: MeasureSample, rule: RapidChangeRule): VitalAlertCandidate | null {
+  const minutes = Math.round((current.recordedAt.getTime() - previous.recordedAt.getTime()) / MINUTE);
+  const change = Math.round((current.value - previous.value) * 10) / 10;
+  const direction = change > 0 ? 'rise' : 'fall';
+  if (minutes < 0 || minutes > rule.withinMinutes) return null;
+  if (Math.abs(change) < rule.delta || (rule.direction && rule.direction !== direction)) return null;
+
+  const verb = direction === 'rise' ? 'rose' : 'fell';
+  return {
+    code: `${measure}:rapid_${direction}`,
+    type: 'warning',
+    priority: 6,
+    message: `${MEASURE_LABELS[measure]} ${verb} by ${formatValue(Math.abs(change), measure)} in ${minutes} minutes (${formatValue(previous.value, measure)} to ${formatValue(current.value, measure)})`,
+    actionRequired: 'Recheck the reading and look for a cause of the sudden change; contact a clinician if it is confirmed',
+    timeframe: 'Within 1 hour',
+  };
+}
+
+/**
+ * Alerts for newly recorded readings, given every reading of the patient
+ * around them (including the new ones) and the alerts raised recently. Each
+ * alert (measure and kind, e.g. 'heart_rate:high') is raised at most once
+ * per cooldown, describing the most recent reading that triggered it.
+ */
+export function evaluateVitalAlerts(
+  readings: VitalReading[],
+  history: VitalReading[],
+  recentAlerts: Pick<VitalAlert, 'code'>[],
+  ranges: PatientVitalRanges,
+  rules: VitalRangeSet['rapidChange'] = VITAL_RANGES.rapidChange,
+): InsertVitalAlert[] {
+  const raised = new Set(recentAlerts.map((alert) => alert.code));
+  const byTime = (a: VitalReading, b: VitalReading) => a.recordedAt.getTime() - b.recordedAt.getTime() || a.id - b.id;
+  const ordered = [...history].sort(byTime);
+
+  const alerts: InsertVitalAlert[] = [];
+  for (const reading of [...readings].sort(byTime).reverse()) {
+    const previous = ordered.filter((entry) => entry.type === reading.type && byTime(entry, reading) < 0).pop();
+    const previousValues = new Map(previous ? readingMeasures(previous) : []);
+
+    for (const [measure, value] of readingMeasures(reading)) {
+      const candidates = [thresholdAlert(measure, value, measureStatus(value, ranges.limits[measure]), ranges)];
+      const rule = rules[measure];
+      const previousValue = previousValues.get(measure);
+      if (rule && previous && previousValue !== undefined) {
+        candidates.push(rapidChangeAlert(measure, { value: previousValue, recordedAt: previous.recordedAt }, { value, recordedAt: reading.recordedAt }, rule));
+      }
+
+      for (const candidate of candidates) {
+        if (!candidate || raised.has(candidate.code)) continue;
+        raised.add(candidate.code);
+        alerts.push({ ...candidate, patientId: reading.patientId, readingId: reading.id });
+      }
+    }
+  }
+  return alerts.sort((a, b) => b.priority - a.priority);
+}
+
+export interface RecordedVitals {
+  readings: VitalReading[];
+  alerts: VitalAlert[];
+}
+
+// Stores the readings and the alerts they raise
+export async function recordVitals(patient: Patient, readings: NormalisedVitalReading[], now = new Date(), ranges: VitalRangeSet = VITAL_RANGES): Promise<RecordedVitals> {
+  const rows: InsertVitalReading[] = readings.map((reading) => ({
+    patientId: patient.id,
+    type: reading.type,
+    value: reading.type === 'blood_pressure' ? reading.systolic : reading.value,
+    diastolic: reading.type === 'blood_pressure' ? reading.diastolic : null,
+    unit: reading.unit,
+    recordedAt: reading.recordedAt ?? now,
+    source: reading.source || null,
+  }));
+  const saved = await storage.addVitalReadings(rows);
+
+  // Enough history before the earliest new reading for every rapid change rule
+  const times = saved.map((reading) => reading.recordedAt.getTime());
+  const window = Math.max(0, ...Object.values(ranges.rapidChange).map((rule) => rule.withinMinutes)) * MINUTE;
+  const [history, recentAlerts] = await Promise.all([
+    storage.listVitalReadings({ patientId: patient.id, from: new Date(Math.min(...times) - window), to: new Date(Math.max(...times) + 1) }),
+    storage.listVitalAlerts({ patientId: patient.id, from: new Date(now.getTime() - ranges.alertCooldownMinutes * MINUTE) }),
+  ]);
+
+  const alerts = await storage.addVitalAlerts(
+    evaluateVitalAlerts(saved, history, recentAlerts, vitalRangesForAge(patientAge(patient), ranges), ranges.rapidChange),
+  );
+  if (alerts.length > 0) {
+    log.info('Vital sign alerts raised', { patientId: patient.id, codes: alerts.map((alert) => alert.code), rangesVersion: ranges.version });
+  }
+  return { readings: saved, alerts };
+}
+
+// ---- Time series ----
+
+export interface VitalPoint {
+  id: number;
+  recordedAt: Date;
+  value: number; // systolic for blood pressure
+  diastolic: number | null;
+  status: VitalStatus;
+  source: string | null;
+}
+
+export interface VitalSeries {
+  type: VitalType;
+  unit: string;
+  // For the patient's age; the systolic range for blood pressure
+  normal: VitalRange;
+  diastolicNormal: VitalRange | null;
+  // Regardless of the requested time range
+  latest: VitalPoint | null;
+  // Oldest first
+  points: VitalPoint[];
+}
+
+export interface VitalSignsOverview {
+  ageBand: string;
+  rangesVersion: string;
+  // One per vital the patient has readings of, in vitalTypes order
+  series: VitalSeries[];
+}
+
+export async function vitalSignsOverview(patient: Patient, query: ListVitalsQuery, ranges: VitalRangeSet = VITAL_RANGES): Promise<VitalSignsOverview> {
+  const { from, to, type } = query;
+  const patientRanges = vitalRangesForAge(patientAge(patient), ranges);
+  const [readings, latest] = await Promise.all([
+    storage.listVitalReadings({ patientId: patient.id, type, from, to }),
+    storage.getLatestVitalReadings(patient.id),
+  ]);
+
+  const point = (reading: VitalReading): VitalPoint => ({
+    id: reading.id,
+    recordedAt: reading.recordedAt,
+    value: reading.value,
+    diastolic: reading.diastolic,
+    status: readingStatus(reading, patientRanges),
+    source: reading.source,
+  });
+
+  const series = vitalTypes
+    .filter((vital) => (!type || vital === type) && latest.some((reading) => reading.type === vital))
+    .map((vital): VitalSeries => {
+      const latestReading = latest.find((reading) => reading.type === vital);
+      return {
+        type: vital,
+        unit: vitalUnits[vital][0],
+        normal: patientRanges.limits[vital === 'blood_pressure' ? 'systolic' : vital].normal,
+        diastolicNormal: vital === 'blood_pressure' ? patientRanges.limits.diastolic.normal : null,
+        latest: latestReading ? point(latestReading) : null,
+        points: readings.filter((reading) => reading.type === vital).map(point),
+      };
+    });
+
+  return { ageBand: patientRanges.ageBand, rangesVersion: ranges.version, series };
+}
@@ -1,56 +1,568 @@
 import { 
   users, 
+  patients,
+  symptomLogs,
+  medicationSchedules,
+  medicationDoses,
+  vitalReadings,
+  vitalAlerts,
   consultationSessions, 
+  patientProfiles,
   diagnoses, 
   conversationEntries,
+  analysisRevisions,
+  treatmentPathways,
+  riskAssessments,
+  clinicalAlerts,
+  patientEducation,
+  llmCache,
+  llmUsage,
+  auditLog,
   type User, 
   type InsertUser,
+  type Patient,
+  type InsertPatient,
+  type SymptomLog,
+  type InsertSymptomLog,
+  type MedicationSchedule,
+  type InsertMedicationSchedule,
+  type MedicationDose,
+  type InsertMedicationDose,
+  type VitalReading,
+  type InsertVitalReading,
+  type VitalAlert,
+  type InsertVitalAlert,
+  type DoseStatus,
+  type VitalType,
   type ConsultationSession,
   type InsertConsultationSession,
+  type PatientProfile,
+  type InsertPatientProfile,
+  type AnalysisRevision,
+  type InsertAnalysisRevision,
   type Diagnosis,
   type InsertDiagnosis,
   type ConversationEntry,
-  type InsertConversationEntry
+  type InsertConversationEntry,
+  type TreatmentPathwayRecord,
+  type InsertTreatmentPathway,
+  type RiskAssessmentRecord,
+  type InsertRiskAssessment,
+  type ClinicalAlertRecord,
+  type InsertClinicalAlert,
+  type PatientEducationRecord,
+  type InsertPatientEducation,
+  type LLMCacheEntry,
+  type InsertLLMCacheEntry,
+  type LLMUsageRecord,
+  type InsertLLMUsage,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type UserRole
 } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { db, pool } from "./db";
+import { fieldEncryption } from "./services/field-encryption";
+import { anonymisePatientInfo, anonymiseRevisionInputs, anonymiseText } from "./services/anonymise";
+import { and, arrayContains, asc, count, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, max, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+export interface SessionListQuery {
+  userId: number;
+  page: number;
+  pageSize: number;
+  from?: Date;
+  to?: Date;
+  mode?: string;
+  diagnosis?: string; // substring of any stored diagnosis name
+  search?: string; // substring of the symptom text
+}
+
+export interface PatientListQuery {
+  userId: number;
+  page: number;
+  pageSize: number;
+  search?: string; // substring of the patient's name
+}
+
+export interface PatientListResult {
+  patients: Patient[];
+  total: number;
+}
+
+export interface SymptomLogQuery {
+  patientId: number;
+  from?: Date; // inclusive, on recordedAt
+  to?: Date; // exclusive
+}
+
+export interface MedicationScheduleQuery {
+  patientId?: number;
+  // Only schedules with no end date or ending on or after this day (YYYY-MM-DD)
+  endingFrom?: string;
+}
+
+export interface MedicationDoseQuery {
+  patientId: number;
+  scheduleId?: number;
+  from?: Date; // inclusive, on scheduledFor
+  to?: Date; // exclusive
+  status?: DoseStatus;
+}
+
+export interface VitalReadingQuery {
+  patientId: number;
+  type?: VitalType;
+  from?: Date; // inclusive, on recordedAt
+  to?: Date; // exclusive
+}
+
+export interface VitalAlertQuery {
+  patientId: number;
+  from?: Date; // inclusive, on createdAt
+  to?: Date; // exclusive
+}
+
+export interface ExpiredSessionQuery {
+  createdBefore: Date;
+  // Purging also takes sessions that were already anonymised
+  includeAnonymised: boolean;
+  limit: number;
+}
+
+export interface SessionListResult {
+  sessions: ConsultationSession[];
+  total: number;
+}
+
+export interface LLMUsageFilter {
+  sessionId?: string;
+  userId?: number;
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  cachedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface LLMUsageSummary {
+  totals: LLMUsageTotals;
+  // UTC days (YYYY-MM-DD), oldest first
+  byDay: (LLMUsageTotals & { day: string })[];
+  // Most tokens first
+  byModel: (LLMUsageTotals & { provider: string; model: string })[];
+}
+
+export interface AuditLogQuery {
+  page: number;
+  pageSize: number;
+  userId?: number;
+  resourceType?: string;
+  resourceId?: string;
+  action?: string;
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+}
+
+export interface AuditLogResult {
+  entries: AuditLogEntry[];
+  total: number;
+}
+
+function matchesUsageFilter(record: LLMUsageRecord, filter: LLMUsageFilter): boolean {
+  const createdAt = record.createdAt ?? new Date(0);
+  return (filter.sessionId === undefined || record.sessionId === filter.sessionId)
+    && (filter.userId === undefined || record.userId === filter.userId)
+    && (!filter.from || createdAt >= filter.from)
+    && (!filter.to || createdAt < filter.to);
+}
+
+function usageTotals(records: LLMUsageRecord[]): LLMUsageTotals {
+  const sum = (pick: (record: LLMUsageRecord) => number) => records.reduce((total, record) => total + pick(record), 0);
+  return {
+    calls: records.length,
+    cachedCalls: records.filter((record) => record.cached).length,
+    promptTokens: sum((record) => record.promptTokens),
+    completionTokens: sum((record) => record.completionTokens),
+    totalTokens: sum((record) => record.totalTokens),
+    costUsd: Math.round(sum((record) => record.costUsd) * 1e6) / 1e6,
+    avgLatencyMs: records.length ? Math.round(sum((record) => record.latencyMs) / records.length) : 0,
+  };
+}
+
+function groupUsage(records: LLMUsageRecord[], keyOf: (record: LLMUsageRecord) => string): Map<string, LLMUsageRecord[]> {
+  const groups = new Map<string, LLMUsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return groups;
+}
+
+// Escapes LIKE wildcards so user input is matched literally
+function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+}
+
+function includesIgnoreCase(value: string | null | undefined, term: string): boolean {
+  return !!value && value.toLowerCase().includes(term.toLowerCase());
+}
+
+// Patient details, symptoms, analyses and conversation text are encrypted on
+// the way in and decrypted on the way out; only the fields present are touched.
+// Encrypted symptoms and names get a blind index so list searches stay in SQL.
+function sealSessionFields<T extends { patientInfo?: unknown; symptoms?: string | null; aiAnalysis?: unknown }>(
+  fields: T
+): T & { symptomsSearch?: string[] | null } {
+  const sealed: T & { symptomsSearch?: string[] | null } = { ...fields };
+  if (fields.patientInfo !== undefined) {
+    sealed.patientInfo = fieldEncryption.encryptJson(fields.patientInfo, 'consultation_sessions.patient_info') as T['patientInfo'];
+  }
+  if (typeof fields.symptoms === 'string') {
+    sealed.symptoms = fieldEncryption.encrypt(fields.symptoms, 'consultation_sessions.symptoms') as T['symptoms'];
+  }
+  if (fields.symptoms !== undefined) {
+    sealed.symptomsSearch = fieldEncryption.searchTokens(fields.symptoms, 'consultation_sessions.symptoms');
+  }
+  if (fields.aiAnalysis !== undefined) {
+    sealed.aiAnalysis = fieldEncryption.encryptJson(fields.aiAnalysis, 'consultation_sessions.ai_analysis') as T['aiAnalysis'];
+  }
+  return sealed;
+}
+
+function openSession(session: ConsultationSession): ConsultationSession {
+  return {
+    ...session,
+    patientInfo: fieldEncryption.decryptJson(session.patientInfo, 'consultation_sessions.patient_info'),
+    symptoms: session.symptoms && fieldEncryption.decrypt(session.symptoms, 'consultation_sessions.symptoms'),
+    aiAnalysis: fieldEncryption.decryptJson(session.aiAnalysis, 'consultation_sessions.ai_analysis'),
+  };
+}
+
+function sealAnalysisRevision<T extends { inputs?: unknown; output?: unknown }>(revision: T): T {
+  const sealed = { ...revision };
+  if (revision.inputs !== undefined) sealed.inputs = fieldEncryption.encryptJson(revision.inputs, 'analysis_revisions.inputs');
+  if (revision.output !== undefined) sealed.output = fieldEncryption.encryptJson(revision.output, 'analysis_revisions.output');
+  return sealed;
+}
+
+function openAnalysisRevision(revision: AnalysisRevision): AnalysisRevision {
+  return {
+    ...revision,
+    inputs: fieldEncryption.decryptJson(revision.inputs, 'analysis_revisions.inputs'),
+    output: fieldEncryption.decryptJson(revision.output, 'analysis_revisions.output'),
+  };
+}
+
+function sealPatientFields<T extends { patientInfo?: unknown; profile?: unknown }>(fields: T): T & { nameSearch?: string[] | null } {
+  const sealed: T & { nameSearch?: string[] | null } = { ...fields };
+  if (fields.patientInfo !== undefined) {
+    sealed.patientInfo = fieldEncryption.encryptJson(fields.patientInfo, 'patients.patient_info') as T['patientInfo'];
+    sealed.nameSearch = fieldEncryption.searchTokens(
+      (fields.patientInfo as { name?: string } | null)?.name,
+      'patients.patient_info'
+    );
+  }
+  if (fields.profile !== undefined) {
+    sealed.profile = fieldEncryption.encryptJson(fields.profile, 'patients.profile') as T['profile'];
+  }
+  return sealed;
+}
+
+function openPatient(patient: Patient): Patient {
+  return {
+    ...patient,
+    patientInfo: fieldEncryption.decryptJson(patient.patientInfo, 'patients.patient_info'),
+    profile: fieldEncryption.decryptJson(patient.profile, 'patients.profile'),
+  };
+}
+
+function patientName(patient: Patient): string | undefined {
+  return (patient.patientInfo as { name?: string } | null)?.name;
+}
+
+function sealSymptomLog(entry: InsertSymptomLog): InsertSymptomLog {
+  return {
+    ...entry,
+    symptom: fieldEncryption.encrypt(entry.symptom, 'symptom_logs.symptom'),
+    notes: entry.notes && fieldEncryption.encrypt(entry.notes, 'symptom_logs.notes'),
+  };
+}
+
+function openSymptomLog(entry: SymptomLog): SymptomLog {
+  return {
+    ...entry,
+    symptom: fieldEncryption.decrypt(entry.symptom, 'symptom_logs.symptom'),
+    notes: entry.notes && fieldEncryption.decrypt(entry.notes, 'symptom_logs.notes'),
+  };
+}
+
+function sealMedicationSchedule<T extends Partial<InsertMedicationSchedule>>(schedule: T): T {
+  const sealed = { ...schedule };
+  if (schedule.drug !== undefined) sealed.drug = fieldEncryption.encrypt(schedule.drug, 'medication_schedules.drug');
+  if (schedule.dose !== undefined) sealed.dose = fieldEncryption.encrypt(schedule.dose, 'medication_schedules.dose');
+  if (schedule.instructions !== undefined) {
+    sealed.instructions = schedule.instructions && fieldEncryption.encrypt(schedule.instructions, 'medication_schedules.instructions');
+  }
+  return sealed;
+}
+
+function openMedicationSchedule(schedule: MedicationSchedule): MedicationSchedule {
+  return {
+    ...schedule,
+    drug: fieldEncryption.decrypt(schedule.drug, 'medication_schedules.drug'),
+    dose: fieldEncryption.decrypt(schedule.dose, 'medication_schedules.dose'),
+    instructions: schedule.instructions && fieldEncryption.decrypt(schedule.instructions, 'medication_schedules.instructions'),
+  };
+}
+
+function sealConversationEntry(entry: InsertConversationEntry): InsertConversationEntry {
+  return { ...entry, message: fieldEncryption.encrypt(entry.message, 'conversation_entries.message') };
+}
+
+function openConversationEntry(entry: ConversationEntry): ConversationEntry {
+  return { ...entry, message: fieldEncryption.decrypt(entry.message, 'conversation_entries.message') };
+}
+
+// The list columns default to empty, so sealing always fills them in
+type SealedPatientProfile = InsertPatientProfile & Pick<PatientProfile, 'medications' | 'allergies' | 'chronicConditions'>;
+
+function sealPatientProfile(profile: InsertPatientProfile): SealedPatientProfile {
+  return {
+    ...profile,
+    medications: fieldEncryption.encryptJson(profile.medications ?? [], 'patient_profiles.medications') as PatientProfile['medications'],
+    allergies: fieldEncryption.encryptJson(profile.allergies ?? [], 'patient_profiles.allergies') as PatientProfile['allergies'],
+    chronicConditions: fieldEncryption.encryptJson(profile.chronicConditions ?? [], 'patient_profiles.chronic_conditions') as PatientProfile['chronicConditions'],
+  };
+}
+
+// Cached completions repeat the symptoms and patient details of their prompt
+function sealLLMCacheEntry(entry: InsertLLMCacheEntry): InsertLLMCacheEntry {
+  return { ...entry, content: fieldEncryption.encrypt(entry.content, 'llm_cache.content') };
+}
+
+function openLLMCacheEntry(entry: LLMCacheEntry): LLMCacheEntry {
+  return { ...entry, content: fieldEncryption.decrypt(entry.content, 'llm_cache.content') };
+}
+
+function openPatientProfile(profile: PatientProfile): PatientProfile {
+  return {
+    ...profile,
+    medications: fieldEncryption.decryptJson(profile.medications, 'patient_profiles.medications') as PatientProfile['medications'],
+    allergies: fieldEncryption.decryptJson(profile.allergies, 'patient_profiles.allergies') as PatientProfile['allergies'],
+    chronicConditions: fieldEncryption.decryptJson(profile.chronicConditions, 'patient_profiles.chronic_conditions') as PatientProfile['chronicConditions'],
+  };
+}
 
 export interface IStorage {
+  // Backing store for login cookies (express-session)
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+  
+  // Patient records, kept by one user and linked to any number of sessions
+  createPatient(patient: InsertPatient): Promise<Patient>;
+  getPatient(id: number): Promise<Patient | undefined>;
+  updatePatient(id: number, updates: Partial<Pick<Patient, 'patientInfo' | 'profile'>>): Promise<Patient | undefined>;
+  // Removes the symptom log, medication schedules and vitals too; linked sessions
+  // keep their own copy of the details and are only unlinked
+  deletePatient(id: number): Promise<boolean>;
+  // Most recently updated first
+  listPatients(query: PatientListQuery): Promise<PatientListResult>;
+  // Every session linked to the patient, oldest first
+  listPatientSessions(patientId: number): Promise<ConsultationSession[]>;
+
+  // Symptom diary of a patient record
+  addSymptomLog(entry: InsertSymptomLog): Promise<SymptomLog>;
+  // Oldest first by recordedAt
+  listSymptomLogs(query: SymptomLogQuery): Promise<SymptomLog[]>;
+  // False when the entry does not exist or belongs to another patient
+  deleteSymptomLog(id: number, patientId: number): Promise<boolean>;
+
+  // Medication schedules of a patient record and their doses
+  createMedicationSchedule(schedule: InsertMedicationSchedule): Promise<MedicationSchedule>;
+  getMedicationSchedule(id: number): Promise<MedicationSchedule | undefined>;
+  updateMedicationSchedule(id: number, updates: Partial<Omit<InsertMedicationSchedule, 'patientId' | 'materialisedUntil'>>): Promise<MedicationSchedule | undefined>;
+  // Bookkeeping of the medication scheduler; leaves updatedAt alone
+  setMedicationScheduleMaterialisedUntil(id: number, until: Date): Promise<void>;
+  // Removes the schedule's doses too; false when it belongs to another patient
+  deleteMedicationSchedule(id: number, patientId: number): Promise<boolean>;
+  // Oldest first
+  listMedicationSchedules(query: MedicationScheduleQuery): Promise<MedicationSchedule[]>;
+  // Doses that already exist for the same schedule and time are skipped;
+  // returns how many were added
+  addMedicationDoses(doses: InsertMedicationDose[]): Promise<number>;
+  // Oldest first by scheduledFor
+  listMedicationDoses(query: MedicationDoseQuery): Promise<MedicationDose[]>;
+  // Pending doses of all the user's patient records scheduled up to dueBy, oldest first
+  listDueMedicationDoses(userId: number, dueBy: Date): Promise<MedicationDose[]>;
+  // Undefined when the dose does not exist or belongs to another patient
+  recordMedicationDose(id: number, patientId: number, outcome: { status: DoseStatus; recordedAt: Date | null }): Promise<MedicationDose | undefined>;
+  // Pending doses scheduled before the cutoff become missed; returns how many
+  markMissedMedicationDoses(scheduledBefore: Date): Promise<number>;
+  // Drops the schedule's pending doses after a point in time, e.g. when its times change
+  deletePendingMedicationDoses(scheduleId: number, after: Date): Promise<number>;
+
+  // Vital sign readings of a patient record and the alerts they raised
+  addVitalReadings(readings: InsertVitalReading[]): Promise<VitalReading[]>;
+  // Oldest first by recordedAt
+  listVitalReadings(query: VitalReadingQuery): Promise<VitalReading[]>;
+  // The most recent reading of each vital the patient has any of
+  getLatestVitalReadings(patientId: number): Promise<VitalReading[]>;
+  addVitalAlerts(alerts: InsertVitalAlert[]): Promise<VitalAlert[]>;
+  // Newest first
+  listVitalAlerts(query: VitalAlertQuery): Promise<VitalAlert[]>;
   
   // Consultation Sessions
   createSession(session: InsertConsultationSession): Promise<ConsultationSession>;
   getSession(sessionId: string): Promise<ConsultationSession | undefined>;
   updateSession(sessionId: string, updates: Partial<ConsultationSession>): Promise<ConsultationSession | undefined>;
+  // Newest first
+  listSessions(query: SessionListQuery): Promise<SessionListResult>;
+  // Removes the session with its profile, revisions, diagnoses, conversation
+  // and artifacts; its LLM usage is kept for accounting but detached. False
+  // when there was no such session.
+  deleteSession(sessionId: string): Promise<boolean>;
+  // Strips identity and contact details from the session, its conversation
+  // and revision inputs in place, drops its patient profile and detaches it
+  // from its user and patient record (see services/anonymise)
+  anonymiseSession(sessionId: string): Promise<boolean>;
+  // Oldest first
+  listExpiredSessionIds(query: ExpiredSessionQuery): Promise<string[]>;
+  // Newest first
+  listAnonymisedSessions(page: number, pageSize: number): Promise<SessionListResult>;
+  
+  // Structured patient profile, one per session; saving replaces it
+  savePatientProfile(profile: InsertPatientProfile): Promise<PatientProfile>;
+  getPatientProfile(sessionId: string): Promise<PatientProfile | undefined>;
   
+  // Analysis revisions; numbered 1, 2, 3... per session and never modified
+  createAnalysisRevision(revision: InsertAnalysisRevision): Promise<AnalysisRevision>;
+  // Oldest first
+  listAnalysisRevisions(sessionId: string): Promise<AnalysisRevision[]>;
+
   // Diagnoses
   createDiagnosis(diagnosis: InsertDiagnosis): Promise<Diagnosis>;
+  // Diagnoses of the latest revision (every row for sessions analysed before revisions existed)
   getDiagnosesBySession(sessionId: string): Promise<Diagnosis[]>;
   
   // Conversation History
   addConversationEntry(entry: InsertConversationEntry): Promise<ConversationEntry>;
   getConversationHistory(sessionId: string): Promise<ConversationEntry[]>;
+
+  // Enhanced-analysis artifacts; saving replaces whatever the session had before
+  saveTreatmentPathway(pathway: InsertTreatmentPathway): Promise<TreatmentPathwayRecord>;
+  getTreatmentPathway(sessionId: string): Promise<TreatmentPathwayRecord | undefined>;
+  saveRiskAssessment(assessment: InsertRiskAssessment): Promise<RiskAssessmentRecord>;
+  getRiskAssessment(sessionId: string): Promise<RiskAssessmentRecord | undefined>;
+  saveClinicalAlerts(sessionId: string, alerts: Omit<InsertClinicalAlert, 'sessionId'>[]): Promise<ClinicalAlertRecord[]>;
+  // Highest priority (lowest number) first
+  getClinicalAlerts(sessionId: string): Promise<ClinicalAlertRecord[]>;
+  savePatientEducation(education: InsertPatientEducation): Promise<PatientEducationRecord>;
+  getPatientEducation(sessionId: string): Promise<PatientEducationRecord | undefined>;
+
+  // Persistent LLM response cache; expired entries are never returned
+  getLLMCacheEntry(key: string): Promise<LLMCacheEntry | undefined>;
+  saveLLMCacheEntry(entry: InsertLLMCacheEntry): Promise<void>;
+  // Returns how many entries were removed
+  deleteLLMCacheEntries(options: { expiredOnly: boolean }): Promise<number>;
+
+  // LLM usage accounting, one record per call
+  recordLLMUsage(usage: InsertLLMUsage): Promise<LLMUsageRecord>;
+  // Oldest first
+  listLLMUsage(sessionId: string): Promise<LLMUsageRecord[]>;
+  summarizeLLMUsage(filter: LLMUsageFilter): Promise<LLMUsageSummary>;
+  // Tokens used by the matching calls, for budget checks
+  sumLLMTokens(filter: LLMUsageFilter): Promise<number>;
+
+  // Audit trail of consultation access; append-only, newest first when listed
+  appendAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  listAuditEntries(query: AuditLogQuery): Promise<AuditLogResult>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
+  private patients: Map<number, Patient>;
+  private symptomLogs: Map<number, SymptomLog>;
+  private medicationSchedules: Map<number, MedicationSchedule>;
+  private medicationDoses: Map<number, MedicationDose>;
+  private vitalReadings: Map<number, VitalReading>;
+  private vitalAlerts: Map<number, VitalAlert>;
   private sessions: Map<string, ConsultationSession>;
+  private patientProfiles: Map<string, PatientProfile>;
   private diagnoses: Map<number, Diagnosis>;
   private conversations: Map<number, ConversationEntry>;
+  private analysisRevisions: Map<number, AnalysisRevision>;
+  private treatmentPathways: Map<string, TreatmentPathwayRecord>;
+  private riskAssessments: Map<string, RiskAssessmentRecord>;
+  private clinicalAlerts: Map<number, ClinicalAlertRecord>;
+  private patientEducation: Map<string, PatientEducationRecord>;
+  private llmCache: Map<string, LLMCacheEntry>;
+  private llmUsage: Map<number, LLMUsageRecord>;
+  private auditLog: AuditLogEntry[];
   private currentUserId: number;
+  private currentPatientId: number;
+  private currentSymptomLogId: number;
+  private currentMedicationScheduleId: number;
+  private currentMedicationDoseId: number;
+  private currentVitalReadingId: number;
+  private currentVitalAlertId: number;
   private currentDiagnosisId: number;
   private currentConversationId: number;
+  private currentAnalysisRevisionId: number;
+  private currentArtifactId: number;
+  private currentUsageId: number;
 
   constructor() {
     this.users = new Map();
+    this.patients = new Map();
+    this.symptomLogs = new Map();
+    this.medicationSchedules = new Map();
+    this.medicationDoses = new Map();
+    this.vitalReadings = new Map();
+    this.vitalAlerts = new Map();
     this.sessions = new Map();
+    this.patientProfiles = new Map();
     this.diagnoses = new Map();
     this.conversations = new Map();
+    this.analysisRevisions = new Map();
+    this.treatmentPathways = new Map();
+    this.riskAssessments = new Map();
+    this.clinicalAlerts = new Map();
+    this.patientEducation = new Map();
+    this.llmCache = new Map();
+    this.llmUsage = new Map();
+    this.auditLog = [];
     this.currentUserId = 1;
+    this.currentPatientId = 1;
+    this.currentSymptomLogId = 1;
+    this.currentMedicationScheduleId = 1;
+    this.currentMedicationDoseId = 1;
+    this.currentVitalReadingId = 1;
+    this.currentVitalAlertId = 1;
     this.currentDiagnosisId = 1;
     this.currentConversationId = 1;
+    this.currentAnalysisRevisionId = 1;
+    this.currentArtifactId = 1;
+    this.currentUsageId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -65,38 +577,477 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      role: insertUser.role || 'patient',
+      createdAt: new Date(),
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
+    const id = this.currentPatientId++;
+    const sealed = sealPatientFields(insertPatient);
+    const patient: Patient = {
+      id,
+      ...sealed,
+      profile: sealed.profile ?? null,
+      nameSearch: sealed.nameSearch ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.patients.set(id, patient);
+    return openPatient(patient);
+  }
+
+  async getPatient(id: number): Promise<Patient | undefined> {
+    const patient = this.patients.get(id);
+    return patient && openPatient(patient);
+  }
+
+  async updatePatient(id: number, updates: Partial<Pick<Patient, 'patientInfo' | 'profile'>>): Promise<Patient | undefined> {
+    const patient = this.patients.get(id);
+    if (!patient) return undefined;
+
+    const updatedPatient = { ...patient, ...sealPatientFields(updates), updatedAt: new Date() };
+    this.patients.set(id, updatedPatient);
+    return openPatient(updatedPatient);
+  }
+
+  async deletePatient(id: number): Promise<boolean> {
+    if (!this.patients.delete(id)) return false;
+    this.sessions.forEach((session) => {
+      if (session.patientId === id) session.patientId = null;
+    });
+    this.symptomLogs.forEach((entry, entryId) => {
+      if (entry.patientId === id) this.symptomLogs.delete(entryId);
+    });
+    this.medicationDoses.forEach((dose, doseId) => {
+      if (dose.patientId === id) this.medicationDoses.delete(doseId);
+    });
+    this.medicationSchedules.forEach((schedule, scheduleId) => {
+      if (schedule.patientId === id) this.medicationSchedules.delete(scheduleId);
+    });
+    this.vitalAlerts.forEach((alert, alertId) => {
+      if (alert.patientId === id) this.vitalAlerts.delete(alertId);
+    });
+    this.vitalReadings.forEach((reading, readingId) => {
+      if (reading.patientId === id) this.vitalReadings.delete(readingId);
+    });
+    return true;
+  }
+
+  async listPatients(query: PatientListQuery): Promise<PatientListResult> {
+    const { userId, page, pageSize, search } = query;
+    const matching = Array.from(this.patients.values())
+      .filter((patient) => patient.userId === userId)
+      .map(openPatient)
+      .filter((patient) => !search || includesIgnoreCase(patientName(patient), search))
+      .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+    const start = (page - 1) * pageSize;
+    return {
+      patients: matching.slice(start, start + pageSize),
+      total: matching.length,
+    };
+  }
+
+  async listPatientSessions(patientId: number): Promise<ConsultationSession[]> {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.patientId === patientId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+      .map(openSession);
+  }
+
+  async addSymptomLog(insertEntry: InsertSymptomLog): Promise<SymptomLog> {
+    const id = this.currentSymptomLogId++;
+    const sealed = sealSymptomLog(insertEntry);
+    const entry: SymptomLog = {
+      id,
+      ...sealed,
+      notes: sealed.notes || null,
+      createdAt: new Date(),
+    };
+    this.symptomLogs.set(id, entry);
+    return openSymptomLog(entry);
+  }
+
+  async listSymptomLogs(query: SymptomLogQuery): Promise<SymptomLog[]> {
+    const { patientId, from, to } = query;
+    return Array.from(this.symptomLogs.values())
+      .filter((entry) => entry.patientId === patientId)
+      .filter((entry) => (!from || entry.recordedAt >= from) && (!to || entry.recordedAt < to))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+      .map(openSymptomLog);
+  }
+
+  async deleteSymptomLog(id: number, patientId: number): Promise<boolean> {
+    if (this.symptomLogs.get(id)?.patientId !== patientId) return false;
+    return this.symptomLogs.delete(id);
+  }
+
+  async createMedicationSchedule(insertSchedule: InsertMedicationSchedule): Promise<MedicationSchedule> {
+    const id = this.currentMedicationScheduleId++;
+    const sealed = sealMedicationSchedule(insertSchedule);
+    const schedule: MedicationSchedule = {
+      id,
+      ...sealed,
+      instructions: sealed.instructions || null,
+      timeZone: sealed.timeZone ?? 'UTC',
+      endDate: sealed.endDate ?? null,
+      materialisedUntil: sealed.materialisedUntil ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.medicationSchedules.set(id, schedule);
+    return openMedicationSchedule(schedule);
+  }
+
+  async getMedicationSchedule(id: number): Promise<MedicationSchedule | undefined> {
+    const schedule = this.medicationSchedules.get(id);
+    return schedule && openMedicationSchedule(schedule);
+  }
+
+  async updateMedicationSchedule(id: number, updates: Partial<Omit<InsertMedicationSchedule, 'patientId' | 'materialisedUntil'>>): Promise<MedicationSchedule | undefined> {
+    const schedule = this.medicationSchedules.get(id);
+    if (!schedule) return undefined;
+
+    const sealed = sealMedicationSchedule(updates);
+    const updatedSchedule: MedicationSchedule = {
+      ...schedule,
+      ...sealed,
+      instructions: sealed.instructions === undefined ? schedule.instructions : sealed.instructions || null,
+      updatedAt: new Date(),
+    };
+    this.medicationSchedules.set(id, updatedSchedule);
+    return openMedicationSchedule(updatedSchedule);
+  }
+
+  async setMedicationScheduleMaterialisedUntil(id: number, until: Date): Promise<void> {
+    const schedule = this.medicationSchedules.get(id);
+    if (schedule) schedule.materialisedUntil = until;
+  }
+
+  async deleteMedicationSchedule(id: number, patientId: number): Promise<boolean> {
+    if (this.medicationSchedules.get(id)?.patientId !== patientId) return false;
+    this.medicationDoses.forEach((dose, doseId) => {
+      if (dose.scheduleId === id) this.medicationDoses.delete(doseId);
+    });
+    return this.medicationSchedules.delete(id);
+  }
+
+  async listMedicationSchedules(query: MedicationScheduleQuery): Promise<MedicationSchedule[]> {
+    const { patientId, endingFrom } = query;
+    return Array.from(this.medicationSchedules.values())
+      .filter((schedule) => patientId === undefined || schedule.patientId === patientId)
+      .filter((schedule) => !endingFrom || !schedule.endDate || schedule.endDate >= endingFrom)
+      .sort((a, b) => a.id - b.id)
+      .map(openMedicationSchedule);
+  }
+
+  async addMedicationDoses(doses: InsertMedicationDose[]): Promise<number> {
+    const existing = new Set(Array.from(this.medicationDoses.values(), (dose) => `${dose.scheduleId}@${dose.scheduledFor.getTime()}`));
+    let added = 0;
+    for (const insertDose of doses) {
+      const key = `${insertDose.scheduleId}@${insertDose.scheduledFor.getTime()}`;
+      if (existing.has(key)) continue;
+      existing.add(key);
+
+      const id = this.currentMedicationDoseId++;
+      this.medicationDoses.set(id, {
+        id,
+        ...insertDose,
+        status: insertDose.status ?? 'pending',
+        recordedAt: insertDose.recordedAt ?? null,
+        createdAt: new Date(),
+      });
+      added++;
+    }
+    return added;
+  }
+
+  async listMedicationDoses(query: MedicationDoseQuery): Promise<MedicationDose[]> {
+    const { patientId, scheduleId, from, to, status } = query;
+    return Array.from(this.medicationDoses.values())
+      .filter((dose) => dose.patientId === patientId)
+      .filter((dose) => scheduleId === undefined || dose.scheduleId === scheduleId)
+      .filter((dose) => (!from || dose.scheduledFor >= from) && (!to || dose.scheduledFor < to))
+      .filter((dose) => !status || dose.status === status)
+      .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime() || a.id - b.id);
+  }
+
+  async listDueMedicationDoses(userId: number, dueBy: Date): Promise<MedicationDose[]> {
+    return Array.from(this.medicationDoses.values())
+      .filter((dose) => dose.status === 'pending' && dose.scheduledFor <= dueBy)
+      .filter((dose) => this.patients.get(dose.patientId)?.userId === userId)
+      .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime() || a.id - b.id);
+  }
+
+  async recordMedicationDose(id: number, patientId: number, outcome: { status: DoseStatus; recordedAt: Date | null }): Promise<MedicationDose | undefined> {
+    const dose = this.medicationDoses.get(id);
+    if (dose?.patientId !== patientId) return undefined;
+
+    const updatedDose = { ...dose, ...outcome };
+    this.medicationDoses.set(id, updatedDose);
+    return updatedDose;
+  }
+
+  async markMissedMedicationDoses(scheduledBefore: Date): Promise<number> {
+    let missed = 0;
+    this.medicationDoses.forEach((dose) => {
+      if (dose.status === 'pending' && dose.scheduledFor < scheduledBefore) {
+        dose.status = 'missed';
+        missed++;
+      }
+    });
+    return missed;
+  }
+
+  async deletePendingMedicationDoses(scheduleId: number, after: Date): Promise<number> {
+    let deleted = 0;
+    this.medicationDoses.forEach((dose, doseId) => {
+      if (dose.scheduleId === scheduleId && dose.status === 'pending' && dose.scheduledFor > after) {
+        this.medicationDoses.delete(doseId);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async addVitalReadings(readings: InsertVitalReading[]): Promise<VitalReading[]> {
+    return readings.map((insertReading) => {
+      const id = this.currentVitalReadingId++;
+      const reading: VitalReading = {
+        id,
+        ...insertReading,
+        diastolic: insertReading.diastolic ?? null,
+        source: insertReading.source ?? null,
+        createdAt: new Date(),
+      };
+      this.vitalReadings.set(id, reading);
+      return reading;
+    });
+  }
+
+  async listVitalReadings(query: VitalReadingQuery): Promise<VitalReading[]> {
+    const { patientId, type, from, to } = query;
+    return Array.from(this.vitalReadings.values())
+      .filter((reading) => reading.patientId === patientId)
+      .filter((reading) => !type || reading.type === type)
+      .filter((reading) => (!from || reading.recordedAt >= from) && (!to || reading.recordedAt < to))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime() || a.id - b.id);
+  }
+
+  async getLatestVitalReadings(patientId: number): Promise<VitalReading[]> {
+    const latest = new Map<string, VitalReading>();
+    for (const reading of await this.listVitalReadings({ patientId })) {
+      latest.set(reading.type, reading);
+    }
+    return Array.from(latest.values());
+  }
+
+  async addVitalAlerts(alerts: InsertVitalAlert[]): Promise<VitalAlert[]> {
+    return alerts.map((insertAlert) => {
+      const id = this.currentVitalAlertId++;
+      const alert: VitalAlert = { id, ...insertAlert, createdAt: new Date() };
+      this.vitalAlerts.set(id, alert);
+      return alert;
+    });
+  }
+
+  async listVitalAlerts(query: VitalAlertQuery): Promise<VitalAlert[]> {
+    const { patientId, from, to } = query;
+    return Array.from(this.vitalAlerts.values())
+      .filter((alert) => alert.patientId === patientId)
+      .filter((alert) => (!from || (alert.createdAt ?? 0) >= from) && (!to || (alert.createdAt ?? 0) < to))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0) || b.id - a.id);
+  }
+
   async createSession(insertSession: InsertConsultationSession): Promise<ConsultationSession> {
     const id = this.sessions.size + 1;
+    const sealed = sealSessionFields(insertSession);
     const session: ConsultationSession = {
       id,
       ...insertSession,
-      patientInfo: insertSession.patientInfo || null,
-      symptoms: insertSession.symptoms || null,
-      aiAnalysis: insertSession.aiAnalysis || null,
+      userId: insertSession.userId ?? null,
+      patientId: insertSession.patientId ?? null,
+      patientInfo: sealed.patientInfo || null,
+      symptoms: sealed.symptoms || null,
+      symptomsSearch: sealed.symptomsSearch ?? null,
+      aiAnalysis: sealed.aiAnalysis || null,
       conversationHistory: insertSession.conversationHistory || null,
       createdAt: new Date(),
       updatedAt: new Date(),
+      anonymisedAt: null,
     };
     this.sessions.set(insertSession.sessionId, session);
-    return session;
+    return openSession(session);
   }
 
   async getSession(sessionId: string): Promise<ConsultationSession | undefined> {
-    return this.sessions.get(sessionId);
+    const session = this.sessions.get(sessionId);
+    return session && openSession(session);
   }
 
   async updateSession(sessionId: string, updates: Partial<ConsultationSession>): Promise<ConsultationSession | undefined> {
     const session = this.sessions.get(sessionId);
     if (!session) return undefined;
     
-    const updatedSession = { ...session, ...updates, updatedAt: new Date() };
+    const updatedSession = { ...session, ...sealSessionFields(updates), updatedAt: new Date() };
     this.sessions.set(sessionId, updatedSession);
-    return updatedSession;
+    return openSession(updatedSession);
+  }
+
+  async listSessions(query: SessionListQuery): Promise<SessionListResult> {
+    const { userId, page, pageSize, from, to, mode, diagnosis, search } = query;
+    const matching = Array.from(this.sessions.values())
+      .map(openSession)
+      .filter((session) => {
+        if (session.userId !== userId) return false;
+        const createdAt = session.createdAt?.getTime() ?? 0;
+        if (from && createdAt < from.getTime()) return false;
+        if (to && createdAt > to.getTime()) return false;
+        if (mode && session.mode !== mode) return false;
+        if (search && !includesIgnoreCase(session.symptoms, search)) return false;
+        if (diagnosis) {
+          const hasDiagnosis = Array.from(this.diagnoses.values()).some(
+            (d) => d.sessionId === session.sessionId && includesIgnoreCase(d.name, diagnosis)
+          );
+          if (!hasDiagnosis) return false;
+        }
+        return true;
+      })
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+
+    const start = (page - 1) * pageSize;
+    return {
+      sessions: matching.slice(start, start + pageSize),
+      total: matching.length,
+    };
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    if (!this.sessions.delete(sessionId)) return false;
+
+    const bySession = <T extends { sessionId: string | null }>(records: Map<number, T>) => {
+      Array.from(records.entries())
+        .filter(([, record]) => record.sessionId === sessionId)
+        .forEach(([id]) => records.delete(id));
+    };
+    bySession(this.diagnoses);
+    bySession(this.analysisRevisions);
+    bySession(this.conversations);
+    bySession(this.clinicalAlerts);
+    this.patientProfiles.delete(sessionId);
+    this.treatmentPathways.delete(sessionId);
+    this.riskAssessments.delete(sessionId);
+    this.patientEducation.delete(sessionId);
+    this.llmUsage.forEach((usage) => {
+      if (usage.sessionId === sessionId) usage.sessionId = null;
+    });
+    return true;
+  }
+
+  async anonymiseSession(sessionId: string): Promise<boolean> {
+    const stored = this.sessions.get(sessionId);
+    if (!stored) return false;
+
+    const session = openSession(stored);
+    this.sessions.set(sessionId, {
+      ...stored,
+      ...sealSessionFields({ patientInfo: anonymisePatientInfo(session.patientInfo), symptoms: anonymiseText(session.symptoms) }),
+      userId: null,
+      patientId: null,
+      anonymisedAt: new Date(),
+    });
+    this.patientProfiles.delete(sessionId);
+    for (const entry of Array.from(this.conversations.values())) {
+      if (entry.sessionId !== sessionId) continue;
+      const { message } = openConversationEntry(entry);
+      this.conversations.set(entry.id, { ...entry, ...sealConversationEntry({ ...entry, message: anonymiseText(message) }) });
+    }
+    for (const revision of Array.from(this.analysisRevisions.values())) {
+      if (revision.sessionId !== sessionId) continue;
+      const { inputs } = openAnalysisRevision(revision);
+      this.analysisRevisions.set(revision.id, { ...revision, ...sealAnalysisRevision({ inputs: anonymiseRevisionInputs(inputs) }) });
+    }
+    this.llmUsage.forEach((usage) => {
+      if (usage.sessionId === sessionId) usage.sessionId = null;
+    });
+    return true;
+  }
+
+  async listExpiredSessionIds(query: ExpiredSessionQuery): Promise<string[]> {
+    const { createdBefore, includeAnonymised, limit } = query;
+    return Array.from(this.sessions.values())
+      .filter((session) => (session.createdAt?.getTime() ?? 0) < createdBefore.getTime())
+      .filter((session) => includeAnonymised || !session.anonymisedAt)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+      .slice(0, limit)
+      .map((session) => session.sessionId);
+  }
+
+  async listAnonymisedSessions(page: number, pageSize: number): Promise<SessionListResult> {
+    const matching = Array.from(this.sessions.values())
+      .filter((session) => session.anonymisedAt)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    const start = (page - 1) * pageSize;
+    return {
+      sessions: matching.slice(start, start + pageSize).map(openSession),
+      total: matching.length,
+    };
+  }
+
+  async savePatientProfile(insertProfile: InsertPatientProfile): Promise<PatientProfile> {
+    const profile: PatientProfile = {
+      id: this.patientProfiles.get(insertProfile.sessionId)?.id ?? this.currentArtifactId++,
+      ...sealPatientProfile(insertProfile),
+      pregnancyStatus: insertProfile.pregnancyStatus ?? null,
+      weightKg: insertProfile.weightKg ?? null,
+      heightCm: insertProfile.heightCm ?? null,
+      smokingStatus: insertProfile.smokingStatus ?? null,
+      alcoholUse: insertProfile.alcoholUse ?? null,
+      updatedAt: new Date(),
+    };
+    this.patientProfiles.set(profile.sessionId, profile);
+    return openPatientProfile(profile);
+  }
+
+  async getPatientProfile(sessionId: string): Promise<PatientProfile | undefined> {
+    const profile = this.patientProfiles.get(sessionId);
+    return profile && openPatientProfile(profile);
+  }
+
+  async createAnalysisRevision(insertRevision: InsertAnalysisRevision): Promise<AnalysisRevision> {
+    const existing = await this.listAnalysisRevisions(insertRevision.sessionId);
+    const revision: AnalysisRevision = {
+      id: this.currentAnalysisRevisionId++,
+      ...sealAnalysisRevision(insertRevision),
+      revision: existing.length + 1,
+      provider: insertRevision.provider || null,
+      model: insertRevision.model || null,
+      promptVersion: insertRevision.promptVersion || null,
+      createdAt: new Date(),
+    };
+    this.analysisRevisions.set(revision.id, revision);
+    return openAnalysisRevision(revision);
+  }
+
+  async listAnalysisRevisions(sessionId: string): Promise<AnalysisRevision[]> {
+    return Array.from(this.analysisRevisions.values())
+      .filter((revision) => revision.sessionId === sessionId)
+      .sort((a, b) => a.revision - b.revision)
+      .map(openAnalysisRevision);
   }
 
   async createDiagnosis(insertDiagnosis: InsertDiagnosis): Promise<Diagnosis> {
@@ -104,6 +1055,7 @@ export class MemStorage implements IStorage {
     const diagnosis: Diagnosis = {
       id,
       ...insertDiagnosis,
+      revisionId: insertDiagnosis.revisionId ?? null,
       description: insertDiagnosis.description || null,
       confidence: insertDiagnosis.confidence || null,
       category: insertDiagnosis.category || null,
@@ -116,30 +1068,221 @@ export class MemStorage implements IStorage {
   }
 
   async getDiagnosesBySession(sessionId: string): Promise<Diagnosis[]> {
-    return Array.from(this.diagnoses.values()).filter(
+    const sessionDiagnoses = Array.from(this.diagnoses.values()).filter(
       (diagnosis) => diagnosis.sessionId === sessionId
     );
+    const latest = (await this.listAnalysisRevisions(sessionId)).pop();
+    return latest
+      ? sessionDiagnoses.filter((diagnosis) => diagnosis.revisionId === latest.id)
+      : sessionDiagnoses;
   }
 
   async addConversationEntry(insertEntry: InsertConversationEntry): Promise<ConversationEntry> {
     const id = this.currentConversationId++;
     const entry: ConversationEntry = {
       id,
-      ...insertEntry,
+      ...sealConversationEntry(insertEntry),
       timestamp: new Date(),
     };
     this.conversations.set(id, entry);
-    return entry;
+    return openConversationEntry(entry);
   }
 
   async getConversationHistory(sessionId: string): Promise<ConversationEntry[]> {
     return Array.from(this.conversations.values())
       .filter((entry) => entry.sessionId === sessionId)
-      .sort((a, b) => (a.timestamp?.getTime() || 0) - (b.timestamp?.getTime() || 0));
+      .sort((a, b) => (a.timestamp?.getTime() || 0) - (b.timestamp?.getTime() || 0))
+      .map(openConversationEntry);
+  }
+
+  async saveTreatmentPathway(insertPathway: InsertTreatmentPathway): Promise<TreatmentPathwayRecord> {
+    const pathway: TreatmentPathwayRecord = {
+      id: this.currentArtifactId++,
+      ...insertPathway,
+      alternativeTreatments: insertPathway.alternativeTreatments || null,
+      monitoringRequirements: insertPathway.monitoringRequirements || null,
+      followUpSchedule: insertPathway.followUpSchedule || null,
+      escalationCriteria: insertPathway.escalationCriteria || null,
+      source: insertPathway.source || null,
+      createdAt: new Date(),
+    };
+    this.treatmentPathways.set(pathway.sessionId, pathway);
+    return pathway;
+  }
+
+  async getTreatmentPathway(sessionId: string): Promise<TreatmentPathwayRecord | undefined> {
+    return this.treatmentPathways.get(sessionId);
+  }
+
+  async saveRiskAssessment(insertAssessment: InsertRiskAssessment): Promise<RiskAssessmentRecord> {
+    const assessment: RiskAssessmentRecord = {
+      id: this.currentArtifactId++,
+      ...insertAssessment,
+      riskFactors: insertAssessment.riskFactors || null,
+      mitigationStrategies: insertAssessment.mitigationStrategies || null,
+      source: insertAssessment.source || null,
+      createdAt: new Date(),
+    };
+    this.riskAssessments.set(assessment.sessionId, assessment);
+    return assessment;
+  }
+
+  async getRiskAssessment(sessionId: string): Promise<RiskAssessmentRecord | undefined> {
+    return this.riskAssessments.get(sessionId);
+  }
+
+  async saveClinicalAlerts(sessionId: string, alerts: Omit<InsertClinicalAlert, 'sessionId'>[]): Promise<ClinicalAlertRecord[]> {
+    Array.from(this.clinicalAlerts.values())
+      .filter((alert) => alert.sessionId === sessionId)
+      .forEach((alert) => this.clinicalAlerts.delete(alert.id));
+
+    return alerts.map((insertAlert) => {
+      const alert: ClinicalAlertRecord = {
+        id: this.currentArtifactId++,
+        ...insertAlert,
+        sessionId,
+        actionRequired: insertAlert.actionRequired || null,
+        timeframe: insertAlert.timeframe || null,
+        source: insertAlert.source || null,
+        createdAt: new Date(),
+      };
+      this.clinicalAlerts.set(alert.id, alert);
+      return alert;
+    });
+  }
+
+  async getClinicalAlerts(sessionId: string): Promise<ClinicalAlertRecord[]> {
+    return Array.from(this.clinicalAlerts.values())
+      .filter((alert) => alert.sessionId === sessionId)
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  async savePatientEducation(insertEducation: InsertPatientEducation): Promise<PatientEducationRecord> {
+    const education: PatientEducationRecord = {
+      id: this.currentArtifactId++,
+      ...insertEducation,
+      lifestyleModifications: insertEducation.lifestyleModifications || null,
+      warningSignsToWatch: insertEducation.warningSignsToWatch || null,
+      whenToSeekHelp: insertEducation.whenToSeekHelp || null,
+      customizedContent: insertEducation.customizedContent || null,
+      source: insertEducation.source || null,
+      createdAt: new Date(),
+    };
+    this.patientEducation.set(education.sessionId, education);
+    return education;
+  }
+
+  async getPatientEducation(sessionId: string): Promise<PatientEducationRecord | undefined> {
+    return this.patientEducation.get(sessionId);
+  }
+
+  async getLLMCacheEntry(key: string): Promise<LLMCacheEntry | undefined> {
+    const entry = this.llmCache.get(key);
+    return entry && entry.expiresAt > new Date() ? openLLMCacheEntry(entry) : undefined;
+  }
+
+  async saveLLMCacheEntry(insertEntry: InsertLLMCacheEntry): Promise<void> {
+    this.llmCache.set(insertEntry.key, {
+      ...sealLLMCacheEntry(insertEntry),
+      usage: insertEntry.usage || null,
+      createdAt: new Date(),
+    });
+  }
+
+  async deleteLLMCacheEntries(options: { expiredOnly: boolean }): Promise<number> {
+    const now = new Date();
+    const keys = Array.from(this.llmCache.values())
+      .filter((entry) => !options.expiredOnly || entry.expiresAt <= now)
+      .map((entry) => entry.key);
+    keys.forEach((key) => this.llmCache.delete(key));
+    return keys.length;
+  }
+
+  async recordLLMUsage(insertUsage: InsertLLMUsage): Promise<LLMUsageRecord> {
+    const usage: LLMUsageRecord = {
+      id: this.currentUsageId++,
+      ...insertUsage,
+      sessionId: insertUsage.sessionId ?? null,
+      userId: insertUsage.userId ?? null,
+      promptTokens: insertUsage.promptTokens ?? 0,
+      completionTokens: insertUsage.completionTokens ?? 0,
+      totalTokens: insertUsage.totalTokens ?? 0,
+      costUsd: insertUsage.costUsd ?? 0,
+      cached: insertUsage.cached ?? false,
+      fallback: insertUsage.fallback ?? false,
+      createdAt: new Date(),
+    };
+    this.llmUsage.set(usage.id, usage);
+    return usage;
+  }
+
+  async listLLMUsage(sessionId: string): Promise<LLMUsageRecord[]> {
+    return Array.from(this.llmUsage.values()).filter((usage) => usage.sessionId === sessionId);
+  }
+
+  async summarizeLLMUsage(filter: LLMUsageFilter): Promise<LLMUsageSummary> {
+    const records = Array.from(this.llmUsage.values()).filter((usage) => matchesUsageFilter(usage, filter));
+    const byDay = groupUsage(records, (usage) => (usage.createdAt ?? new Date(0)).toISOString().slice(0, 10));
+    const byModel = groupUsage(records, (usage) => JSON.stringify([usage.provider, usage.model]));
+    return {
+      totals: usageTotals(records),
+      byDay: Array.from(byDay.entries())
+        .map(([day, group]) => ({ day, ...usageTotals(group) }))
+        .sort((a, b) => a.day.localeCompare(b.day)),
+      byModel: Array.from(byModel.entries())
+        .map(([key, group]) => {
+          const [provider, model] = JSON.parse(key) as [string, string];
+          return { provider, model, ...usageTotals(group) };
+        })
+        .sort((a, b) => b.totalTokens - a.totalTokens),
+    };
+  }
+
+  async sumLLMTokens(filter: LLMUsageFilter): Promise<number> {
+    return usageTotals(Array.from(this.llmUsage.values()).filter((usage) => matchesUsageFilter(usage, filter))).totalTokens;
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const entry: AuditLogEntry = {
+      id: this.auditLog.length + 1,
+      ...insertEntry,
+      userId: insertEntry.userId ?? null,
+      username: insertEntry.username ?? null,
+      resourceId: insertEntry.resourceId ?? null,
+      ip: insertEntry.ip ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  async listAuditEntries(query: AuditLogQuery): Promise<AuditLogResult> {
+    const matching = this.auditLog
+      .filter((entry) => {
+        const createdAt = entry.createdAt ?? new Date(0);
+        return (query.userId === undefined || entry.userId === query.userId)
+          && (query.resourceType === undefined || entry.resourceType === query.resourceType)
+          && (query.resourceId === undefined || entry.resourceId === query.resourceId)
+          && (query.action === undefined || entry.action === query.action)
+          && (!query.from || createdAt >= query.from)
+          && (!query.to || createdAt < query.to);
+      })
+      .reverse();
+    const start = (query.page - 1) * query.pageSize;
+    return { entries: matching.slice(start, start + query.pageSize), total: matching.length };
   }
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -158,6 +1301,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async createSession(insertSession: InsertConsultationSession): Promise<ConsultationSession> {
     // Check if session already exists
     const existingSession = await this.getSession(insertSession.sessionId);
@@ -168,9 +1320,281 @@ export class DatabaseStorage implements IStorage {
     
     const [session] = await db
       .insert(consultationSessions)
-      .values(insertSession)
+      .values(sealSessionFields(insertSession))
+      .returning();
+    return openSession(session);
+  }
+
+  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
+    const [patient] = await db
+      .insert(patients)
+      .values(sealPatientFields(insertPatient))
+      .returning();
+    return openPatient(patient);
+  }
+
+  async getPatient(id: number): Promise<Patient | undefined> {
+    const [patient] = await db.select().from(patients).where(eq(patients.id, id));
+    return patient ? openPatient(patient) : undefined;
+  }
+
+  async updatePatient(id: number, updates: Partial<Pick<Patient, 'patientInfo' | 'profile'>>): Promise<Patient | undefined> {
+    const [patient] = await db
+      .update(patients)
+      .set({ ...sealPatientFields(updates), updatedAt: new Date() })
+      .where(eq(patients.id, id))
+      .returning();
+    return patient ? openPatient(patient) : undefined;
+  }
+
+  async deletePatient(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(consultationSessions).set({ patientId: null }).where(eq(consultationSessions.patientId, id));
+      await tx.delete(symptomLogs).where(eq(symptomLogs.patientId, id));
+      await tx.delete(medicationDoses).where(eq(medicationDoses.patientId, id));
+      await tx.delete(medicationSchedules).where(eq(medicationSchedules.patientId, id));
+      await tx.delete(vitalAlerts).where(eq(vitalAlerts.patientId, id));
+      await tx.delete(vitalReadings).where(eq(vitalReadings.patientId, id));
+      const deleted = await tx.delete(patients).where(eq(patients.id, id)).returning({ id: patients.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async listPatients(query: PatientListQuery): Promise<PatientListResult> {
+    const { userId, page, pageSize, search } = query;
+    const conditions: SQL[] = [eq(patients.userId, userId)];
+    if (search) {
+      // Encrypted names are matched by whole words through their blind index
+      const tokens = fieldEncryption.searchTokens(search, 'patients.patient_info');
+      conditions.push(tokens
+        ? arrayContains(patients.nameSearch, tokens)
+        : sql`${patients.patientInfo}->>'name' ILIKE ${likePattern(search)}`);
+    }
+    const where = and(...conditions);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(patients)
+      .where(where);
+
+    const rows = await db
+      .select()
+      .from(patients)
+      .where(where)
+      .orderBy(desc(patients.updatedAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return { patients: rows.map(openPatient), total };
+  }
+
+  async listPatientSessions(patientId: number): Promise<ConsultationSession[]> {
+    const sessions = await db
+      .select()
+      .from(consultationSessions)
+      .where(eq(consultationSessions.patientId, patientId))
+      .orderBy(asc(consultationSessions.createdAt));
+    return sessions.map(openSession);
+  }
+
+  async addSymptomLog(insertEntry: InsertSymptomLog): Promise<SymptomLog> {
+    const [entry] = await db
+      .insert(symptomLogs)
+      .values(sealSymptomLog(insertEntry))
+      .returning();
+    return openSymptomLog(entry);
+  }
+
+  async listSymptomLogs(query: SymptomLogQuery): Promise<SymptomLog[]> {
+    const { patientId, from, to } = query;
+    const conditions: SQL[] = [eq(symptomLogs.patientId, patientId)];
+    if (from) conditions.push(gte(symptomLogs.recordedAt, from));
+    if (to) conditions.push(lt(symptomLogs.recordedAt, to));
+    const entries = await db
+      .select()
+      .from(symptomLogs)
+      .where(and(...conditions))
+      .orderBy(asc(symptomLogs.recordedAt), asc(symptomLogs.id));
+    return entries.map(openSymptomLog);
+  }
+
+  async deleteSymptomLog(id: number, patientId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(symptomLogs)
+      .where(and(eq(symptomLogs.id, id), eq(symptomLogs.patientId, patientId)))
+      .returning({ id: symptomLogs.id });
+    return deleted.length > 0;
+  }
+
+  async createMedicationSchedule(insertSchedule: InsertMedicationSchedule): Promise<MedicationSchedule> {
+    const [schedule] = await db
+      .insert(medicationSchedules)
+      .values(sealMedicationSchedule({ ...insertSchedule, instructions: insertSchedule.instructions || null }))
+      .returning();
+    return openMedicationSchedule(schedule);
+  }
+
+  async getMedicationSchedule(id: number): Promise<MedicationSchedule | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(medicationSchedules)
+      .where(eq(medicationSchedules.id, id));
+    return schedule && openMedicationSchedule(schedule);
+  }
+
+  async updateMedicationSchedule(id: number, updates: Partial<Omit<InsertMedicationSchedule, 'patientId' | 'materialisedUntil'>>): Promise<MedicationSchedule | undefined> {
+    const values = updates.instructions === undefined ? updates : { ...updates, instructions: updates.instructions || null };
+    const [schedule] = await db
+      .update(medicationSchedules)
+      .set({ ...sealMedicationSchedule(values), updatedAt: new Date() })
+      .where(eq(medicationSchedules.id, id))
+      .returning();
+    return schedule && openMedicationSchedule(schedule);
+  }
+
+  async setMedicationScheduleMaterialisedUntil(id: number, until: Date): Promise<void> {
+    await db
+      .update(medicationSchedules)
+      .set({ materialisedUntil: until })
+      .where(eq(medicationSchedules.id, id));
+  }
+
+  async deleteMedicationSchedule(id: number, patientId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [schedule] = await tx
+        .select({ id: medicationSchedules.id })
+        .from(medicationSchedules)
+        .where(and(eq(medicationSchedules.id, id), eq(medicationSchedules.patientId, patientId)));
+      if (!schedule) return false;
+
+      await tx.delete(medicationDoses).where(eq(medicationDoses.scheduleId, id));
+      await tx.delete(medicationSchedules).where(eq(medicationSchedules.id, id));
+      return true;
+    });
+  }
+
+  async listMedicationSchedules(query: MedicationScheduleQuery): Promise<MedicationSchedule[]> {
+    const { patientId, endingFrom } = query;
+    const conditions: SQL[] = [];
+    if (patientId !== undefined) conditions.push(eq(medicationSchedules.patientId, patientId));
+    if (endingFrom) conditions.push(sql`(${medicationSchedules.endDate} is null or ${medicationSchedules.endDate} >= ${endingFrom})`);
+    const schedules = await db
+      .select()
+      .from(medicationSchedules)
+      .where(and(...conditions))
+      .orderBy(asc(medicationSchedules.id));
+    return schedules.map(openMedicationSchedule);
+  }
+
+  async addMedicationDoses(doses: InsertMedicationDose[]): Promise<number> {
+    if (doses.length === 0) return 0;
+    const added = await db
+      .insert(medicationDoses)
+      .values(doses)
+      .onConflictDoNothing({ target: [medicationDoses.scheduleId, medicationDoses.scheduledFor] })
+      .returning({ id: medicationDoses.id });
+    return added.length;
+  }
+
+  async listMedicationDoses(query: MedicationDoseQuery): Promise<MedicationDose[]> {
+    const { patientId, scheduleId, from, to, status } = query;
+    const conditions: SQL[] = [eq(medicationDoses.patientId, patientId)];
+    if (scheduleId !== undefined) conditions.push(eq(medicationDoses.scheduleId, scheduleId));
+    if (from) conditions.push(gte(medicationDoses.scheduledFor, from));
+    if (to) conditions.push(lt(medicationDoses.scheduledFor, to));
+    if (status) conditions.push(eq(medicationDoses.status, status));
+    return await db
+      .select()
+      .from(medicationDoses)
+      .where(and(...conditions))
+      .orderBy(asc(medicationDoses.scheduledFor), asc(medicationDoses.id));
+  }
+
+  async listDueMedicationDoses(userId: number, dueBy: Date): Promise<MedicationDose[]> {
+    const rows = await db
+      .select({ dose: medicationDoses })
+      .from(medicationDoses)
+      .innerJoin(patients, eq(medicationDoses.patientId, patients.id))
+      .where(and(
+        eq(patients.userId, userId),
+        eq(medicationDoses.status, 'pending'),
+        lte(medicationDoses.scheduledFor, dueBy),
+      ))
+      .orderBy(asc(medicationDoses.scheduledFor), asc(medicationDoses.id));
+    return rows.map((row) => row.dose);
+  }
+
+  async recordMedicationDose(id: number, patientId: number, outcome: { status: DoseStatus; recordedAt: Date | null }): Promise<MedicationDose | undefined> {
+    const [dose] = await db
+      .update(medicationDoses)
+      .set(outcome)
+      .where(and(eq(medicationDoses.id, id), eq(medicationDoses.patientId, patientId)))
       .returning();
-    return session;
+    return dose;
+  }
+
+  async markMissedMedicationDoses(scheduledBefore: Date): Promise<number> {
+    const missed = await db
+      .update(medicationDoses)
+      .set({ status: 'missed' })
+      .where(and(eq(medicationDoses.status, 'pending'), lt(medicationDoses.scheduledFor, scheduledBefore)))
+      .returning({ id: medicationDoses.id });
+    return missed.length;
+  }
+
+  async deletePendingMedicationDoses(scheduleId: number, after: Date): Promise<number> {
+    const deleted = await db
+      .delete(medicationDoses)
+      .where(and(
+        eq(medicationDoses.scheduleId, scheduleId),
+        eq(medicationDoses.status, 'pending'),
+        gt(medicationDoses.scheduledFor, after),
+      ))
+      .returning({ id: medicationDoses.id });
+    return deleted.length;
+  }
+
+  async addVitalReadings(readings: InsertVitalReading[]): Promise<VitalReading[]> {
+    if (readings.length === 0) return [];
+    return await db.insert(vitalReadings).values(readings).returning();
+  }
+
+  async listVitalReadings(query: VitalReadingQuery): Promise<VitalReading[]> {
+    const { patientId, type, from, to } = query;
+    const conditions: SQL[] = [eq(vitalReadings.patientId, patientId)];
+    if (type) conditions.push(eq(vitalReadings.type, type));
+    if (from) conditions.push(gte(vitalReadings.recordedAt, from));
+    if (to) conditions.push(lt(vitalReadings.recordedAt, to));
+    return await db
+      .select()
+      .from(vitalReadings)
+      .where(and(...conditions))
+      .orderBy(asc(vitalReadings.recordedAt), asc(vitalReadings.id));
+  }
+
+  async getLatestVitalReadings(patientId: number): Promise<VitalReading[]> {
+    return await db
+      .selectDistinctOn([vitalReadings.type])
+      .from(vitalReadings)
+      .where(eq(vitalReadings.patientId, patientId))
+      .orderBy(vitalReadings.type, desc(vitalReadings.recordedAt), desc(vitalReadings.id));
+  }
+
+  async addVitalAlerts(alerts: InsertVitalAlert[]): Promise<VitalAlert[]> {
+    if (alerts.length === 0) return [];
+    return await db.insert(vitalAlerts).values(alerts).returning();
+  }
+
+  async listVitalAlerts(query: VitalAlertQuery): Promise<VitalAlert[]> {
+    const { patientId, from, to } = query;
+    const conditions: SQL[] = [eq(vitalAlerts.patientId, patientId)];
+    if (from) conditions.push(gte(vitalAlerts.createdAt, from));
+    if (to) conditions.push(lt(vitalAlerts.createdAt, to));
+    return await db
+      .select()
+      .from(vitalAlerts)
+      .where(and(...conditions))
+      .orderBy(desc(vitalAlerts.createdAt), desc(vitalAlerts.id));
   }
 
   async getSession(sessionId: string): Promise<ConsultationSession | undefined> {
@@ -178,16 +1602,212 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(consultationSessions)
       .where(eq(consultationSessions.sessionId, sessionId));
-    return session || undefined;
+    return session ? openSession(session) : undefined;
   }
 
   async updateSession(sessionId: string, updates: Partial<ConsultationSession>): Promise<ConsultationSession | undefined> {
     const [session] = await db
       .update(consultationSessions)
-      .set(updates)
+      .set(sealSessionFields(updates))
       .where(eq(consultationSessions.sessionId, sessionId))
       .returning();
-    return session || undefined;
+    return session ? openSession(session) : undefined;
+  }
+
+  async listSessions(query: SessionListQuery): Promise<SessionListResult> {
+    const { userId, page, pageSize, from, to, mode, diagnosis, search } = query;
+    const conditions: SQL[] = [eq(consultationSessions.userId, userId)];
+    if (from) conditions.push(gte(consultationSessions.createdAt, from));
+    if (to) conditions.push(lte(consultationSessions.createdAt, to));
+    if (mode) conditions.push(eq(consultationSessions.mode, mode));
+    if (search) {
+      // Encrypted symptoms are matched by whole words through their blind index
+      const tokens = fieldEncryption.searchTokens(search, 'consultation_sessions.symptoms');
+      conditions.push(tokens
+        ? arrayContains(consultationSessions.symptomsSearch, tokens)
+        : ilike(consultationSessions.symptoms, likePattern(search)));
+    }
+    if (diagnosis) {
+      conditions.push(inArray(
+        consultationSessions.sessionId,
+        db.select({ sessionId: diagnoses.sessionId })
+          .from(diagnoses)
+          .where(ilike(diagnoses.name, likePattern(diagnosis)))
+      ));
+    }
+    const where = and(...conditions);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(consultationSessions)
+      .where(where);
+
+    const sessions = await db
+      .select()
+      .from(consultationSessions)
+      .where(where)
+      .orderBy(desc(consultationSessions.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return { sessions: sessions.map(openSession), total };
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(consultationSessions)
+        .where(eq(consultationSessions.sessionId, sessionId))
+        .returning({ id: consultationSessions.id });
+      if (deleted.length === 0) return false;
+
+      // Diagnoses reference revisions, so they go first
+      await tx.delete(diagnoses).where(eq(diagnoses.sessionId, sessionId));
+      await tx.delete(patientProfiles).where(eq(patientProfiles.sessionId, sessionId));
+      await tx.delete(analysisRevisions).where(eq(analysisRevisions.sessionId, sessionId));
+      await tx.delete(conversationEntries).where(eq(conversationEntries.sessionId, sessionId));
+      await tx.delete(treatmentPathways).where(eq(treatmentPathways.sessionId, sessionId));
+      await tx.delete(riskAssessments).where(eq(riskAssessments.sessionId, sessionId));
+      await tx.delete(clinicalAlerts).where(eq(clinicalAlerts.sessionId, sessionId));
+      await tx.delete(patientEducation).where(eq(patientEducation.sessionId, sessionId));
+      await tx.update(llmUsage).set({ sessionId: null }).where(eq(llmUsage.sessionId, sessionId));
+      return true;
+    });
+  }
+
+  async anonymiseSession(sessionId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [stored] = await tx
+        .select()
+        .from(consultationSessions)
+        .where(eq(consultationSessions.sessionId, sessionId));
+      if (!stored) return false;
+
+      const session = openSession(stored);
+      await tx
+        .update(consultationSessions)
+        .set({
+          ...sealSessionFields({ patientInfo: anonymisePatientInfo(session.patientInfo), symptoms: anonymiseText(session.symptoms) }),
+          userId: null,
+          patientId: null,
+          anonymisedAt: new Date(),
+        })
+        .where(eq(consultationSessions.sessionId, sessionId));
+      await tx.delete(patientProfiles).where(eq(patientProfiles.sessionId, sessionId));
+
+      const entries = await tx
+        .select()
+        .from(conversationEntries)
+        .where(eq(conversationEntries.sessionId, sessionId));
+      for (const entry of entries) {
+        const { message } = openConversationEntry(entry);
+        await tx
+          .update(conversationEntries)
+          .set(sealConversationEntry({ ...entry, message: anonymiseText(message) }))
+          .where(eq(conversationEntries.id, entry.id));
+      }
+
+      const revisions = await tx
+        .select({ id: analysisRevisions.id, inputs: analysisRevisions.inputs })
+        .from(analysisRevisions)
+        .where(eq(analysisRevisions.sessionId, sessionId));
+      for (const revision of revisions) {
+        const inputs = fieldEncryption.decryptJson(revision.inputs, 'analysis_revisions.inputs');
+        await tx
+          .update(analysisRevisions)
+          .set(sealAnalysisRevision({ inputs: anonymiseRevisionInputs(inputs) }))
+          .where(eq(analysisRevisions.id, revision.id));
+      }
+
+      await tx.update(llmUsage).set({ sessionId: null }).where(eq(llmUsage.sessionId, sessionId));
+      return true;
+    });
+  }
+
+  async listExpiredSessionIds(query: ExpiredSessionQuery): Promise<string[]> {
+    const { createdBefore, includeAnonymised, limit } = query;
+    const conditions: SQL[] = [lt(consultationSessions.createdAt, createdBefore)];
+    if (!includeAnonymised) conditions.push(isNull(consultationSessions.anonymisedAt));
+
+    const rows = await db
+      .select({ sessionId: consultationSessions.sessionId })
+      .from(consultationSessions)
+      .where(and(...conditions))
+      .orderBy(asc(consultationSessions.createdAt))
+      .limit(limit);
+    return rows.map((row) => row.sessionId);
+  }
+
+  async listAnonymisedSessions(page: number, pageSize: number): Promise<SessionListResult> {
+    const where = isNotNull(consultationSessions.anonymisedAt);
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(consultationSessions)
+      .where(where);
+
+    const sessions = await db
+      .select()
+      .from(consultationSessions)
+      .where(where)
+      .orderBy(desc(consultationSessions.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return { sessions: sessions.map(openSession), total };
+  }
+
+  async savePatientProfile(insertProfile: InsertPatientProfile): Promise<PatientProfile> {
+    const sealed = sealPatientProfile(insertProfile);
+    const [profile] = await db
+      .insert(patientProfiles)
+      .values(sealed)
+      .onConflictDoUpdate({
+        target: patientProfiles.sessionId,
+        set: {
+          pregnancyStatus: null,
+          weightKg: null,
+          heightCm: null,
+          smokingStatus: null,
+          alcoholUse: null,
+          ...sealed,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return openPatientProfile(profile);
+  }
+
+  async getPatientProfile(sessionId: string): Promise<PatientProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(patientProfiles)
+      .where(eq(patientProfiles.sessionId, sessionId));
+    return profile ? openPatientProfile(profile) : undefined;
+  }
+
+  async createAnalysisRevision(insertRevision: InsertAnalysisRevision): Promise<AnalysisRevision> {
+    // The unique (session_id, revision) constraint rejects a concurrent duplicate number
+    return await db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: max(analysisRevisions.revision) })
+        .from(analysisRevisions)
+        .where(eq(analysisRevisions.sessionId, insertRevision.sessionId));
+
+      const [revision] = await tx
+        .insert(analysisRevisions)
+        .values({ ...sealAnalysisRevision(insertRevision), revision: (latest ?? 0) + 1 })
+        .returning();
+      return openAnalysisRevision(revision);
+    });
+  }
+
+  async listAnalysisRevisions(sessionId: string): Promise<AnalysisRevision[]> {
+    const revisions = await db
+      .select()
+      .from(analysisRevisions)
+      .where(eq(analysisRevisions.sessionId, sessionId))
+      .orderBy(analysisRevisions.revision);
+    return revisions.map(openAnalysisRevision);
   }
 
   async createDiagnosis(insertDiagnosis: InsertDiagnosis): Promise<Diagnosis> {
@@ -199,26 +1819,234 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDiagnosesBySession(sessionId: string): Promise<Diagnosis[]> {
+    const [latest] = await db
+      .select({ id: analysisRevisions.id })
+      .from(analysisRevisions)
+      .where(eq(analysisRevisions.sessionId, sessionId))
+      .orderBy(desc(analysisRevisions.revision))
+      .limit(1);
+
     return await db
       .select()
       .from(diagnoses)
-      .where(eq(diagnoses.sessionId, sessionId));
+      .where(latest
+        ? eq(diagnoses.revisionId, latest.id)
+        : eq(diagnoses.sessionId, sessionId));
   }
 
   async addConversationEntry(insertEntry: InsertConversationEntry): Promise<ConversationEntry> {
     const [entry] = await db
       .insert(conversationEntries)
-      .values(insertEntry)
+      .values(sealConversationEntry(insertEntry))
       .returning();
-    return entry;
+    return openConversationEntry(entry);
   }
 
   async getConversationHistory(sessionId: string): Promise<ConversationEntry[]> {
-    return await db
+    const entries = await db
       .select()
       .from(conversationEntries)
       .where(eq(conversationEntries.sessionId, sessionId))
       .orderBy(conversationEntries.timestamp);
+    return entries.map(openConversationEntry);
+  }
+
+  async saveTreatmentPathway(insertPathway: InsertTreatmentPathway): Promise<TreatmentPathwayRecord> {
+    const [pathway] = await db
+      .insert(treatmentPathways)
+      .values(insertPathway)
+      .onConflictDoUpdate({
+        target: treatmentPathways.sessionId,
+        set: { ...insertPathway, createdAt: new Date() },
+      })
+      .returning();
+    return pathway;
+  }
+
+  async getTreatmentPathway(sessionId: string): Promise<TreatmentPathwayRecord | undefined> {
+    const [pathway] = await db
+      .select()
+      .from(treatmentPathways)
+      .where(eq(treatmentPathways.sessionId, sessionId));
+    return pathway || undefined;
+  }
+
+  async saveRiskAssessment(insertAssessment: InsertRiskAssessment): Promise<RiskAssessmentRecord> {
+    const [assessment] = await db
+      .insert(riskAssessments)
+      .values(insertAssessment)
+      .onConflictDoUpdate({
+        target: riskAssessments.sessionId,
+        set: { ...insertAssessment, createdAt: new Date() },
+      })
+      .returning();
+    return assessment;
+  }
+
+  async getRiskAssessment(sessionId: string): Promise<RiskAssessmentRecord | undefined> {
+    const [assessment] = await db
+      .select()
+      .from(riskAssessments)
+      .where(eq(riskAssessments.sessionId, sessionId));
+    return assessment || undefined;
+  }
+
+  async saveClinicalAlerts(sessionId: string, alerts: Omit<InsertClinicalAlert, 'sessionId'>[]): Promise<ClinicalAlertRecord[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(clinicalAlerts).where(eq(clinicalAlerts.sessionId, sessionId));
+      if (alerts.length === 0) return [];
+      return await tx
+        .insert(clinicalAlerts)
+        .values(alerts.map((alert) => ({ ...alert, sessionId })))
+        .returning();
+    });
+  }
+
+  async getClinicalAlerts(sessionId: string): Promise<ClinicalAlertRecord[]> {
+    return await db
+      .select()
+      .from(clinicalAlerts)
+      .where(eq(clinicalAlerts.sessionId, sessionId))
+      .orderBy(clinicalAlerts.priority);
+  }
+
+  async savePatientEducation(insertEducation: InsertPatientEducation): Promise<PatientEducationRecord> {
+    const [education] = await db
+      .insert(patientEducation)
+      .values(insertEducation)
+      .onConflictDoUpdate({
+        target: patientEducation.sessionId,
+        set: { ...insertEducation, createdAt: new Date() },
+      })
+      .returning();
+    return education;
+  }
+
+  async getPatientEducation(sessionId: string): Promise<PatientEducationRecord | undefined> {
+    const [education] = await db
+      .select()
+      .from(patientEducation)
+      .where(eq(patientEducation.sessionId, sessionId));
+    return education || undefined;
+  }
+
+  async getLLMCacheEntry(key: string): Promise<LLMCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(llmCache)
+      .where(and(eq(llmCache.key, key), gt(llmCache.expiresAt, new Date())));
+    return entry ? openLLMCacheEntry(entry) : undefined;
+  }
+
+  async saveLLMCacheEntry(insertEntry: InsertLLMCacheEntry): Promise<void> {
+    const sealed = sealLLMCacheEntry(insertEntry);
+    await db
+      .insert(llmCache)
+      .values(sealed)
+      .onConflictDoUpdate({
+        target: llmCache.key,
+        set: { ...sealed, createdAt: new Date() },
+      });
+  }
+
+  async deleteLLMCacheEntries(options: { expiredOnly: boolean }): Promise<number> {
+    const deleted = await db
+      .delete(llmCache)
+      .where(options.expiredOnly ? lte(llmCache.expiresAt, new Date()) : undefined)
+      .returning({ key: llmCache.key });
+    return deleted.length;
+  }
+
+  async recordLLMUsage(insertUsage: InsertLLMUsage): Promise<LLMUsageRecord> {
+    const [usage] = await db
+      .insert(llmUsage)
+      .values(insertUsage)
+      .returning();
+    return usage;
+  }
+
+  async listLLMUsage(sessionId: string): Promise<LLMUsageRecord[]> {
+    return await db
+      .select()
+      .from(llmUsage)
+      .where(eq(llmUsage.sessionId, sessionId))
+      .orderBy(asc(llmUsage.createdAt), asc(llmUsage.id));
+  }
+
+  async summarizeLLMUsage(filter: LLMUsageFilter): Promise<LLMUsageSummary> {
+    const where = this.usageConditions(filter);
+    const totals = {
+      calls: count(),
+      cachedCalls: sql<number>`count(*) filter (where ${llmUsage.cached})`.mapWith(Number),
+      promptTokens: sql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)`.mapWith(Number),
+      completionTokens: sql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)`.mapWith(Number),
+      totalTokens: sql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)`.mapWith(Number),
+      costUsd: sql<number>`round(coalesce(sum(${llmUsage.costUsd}), 0)::numeric, 6)`.mapWith(Number),
+      avgLatencyMs: sql<number>`coalesce(round(avg(${llmUsage.latencyMs})), 0)`.mapWith(Number),
+    };
+    const day = sql<string>`to_char(${llmUsage.createdAt}, 'YYYY-MM-DD')`;
+
+    const [overall] = await db.select(totals).from(llmUsage).where(where);
+    const byDay = await db
+      .select({ day, ...totals })
+      .from(llmUsage)
+      .where(where)
+      .groupBy(day)
+      .orderBy(day);
+    const byModel = await db
+      .select({ provider: llmUsage.provider, model: llmUsage.model, ...totals })
+      .from(llmUsage)
+      .where(where)
+      .groupBy(llmUsage.provider, llmUsage.model)
+      .orderBy(desc(totals.totalTokens));
+
+    return { totals: overall, byDay, byModel };
+  }
+
+  async sumLLMTokens(filter: LLMUsageFilter): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: sql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)`.mapWith(Number) })
+      .from(llmUsage)
+      .where(this.usageConditions(filter));
+    return total;
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [entry] = await db
+      .insert(auditLog)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async listAuditEntries(query: AuditLogQuery): Promise<AuditLogResult> {
+    const conditions: SQL[] = [];
+    if (query.userId !== undefined) conditions.push(eq(auditLog.userId, query.userId));
+    if (query.resourceType !== undefined) conditions.push(eq(auditLog.resourceType, query.resourceType));
+    if (query.resourceId !== undefined) conditions.push(eq(auditLog.resourceId, query.resourceId));
+    if (query.action !== undefined) conditions.push(eq(auditLog.action, query.action));
+    if (query.from) conditions.push(gte(auditLog.createdAt, query.from));
+    if (query.to) conditions.push(lt(auditLog.createdAt, query.to));
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(auditLog).where(where);
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { entries, total };
+  }
+
+  private usageConditions(filter: LLMUsageFilter): SQL | undefined {
+    const conditions: SQL[] = [];
+    if (filter.sessionId !== undefined) conditions.push(eq(llmUsage.sessionId, filter.sessionId));
+    if (filter.userId !== undefined) conditions.push(eq(llmUsage.userId, filter.userId));
+    if (filter.from) conditions.push(gte(llmUsage.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(llmUsage.createdAt, filter.to));
+    return conditions.length ? and(...conditions) : undefined;
   }
 }
 
@@ -0,0 +1,43 @@
+import type { NextFunction, Request, Response } from "express";
+import type { ZodIssue, ZodTypeAny } from "zod";
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+/**
+ * Validates the parts of a request that have a schema (see shared/api-schemas)
+ * and answers 400 `{ error, details }` listing every issue, each path prefixed
+ * with "params", "query" or "body". On success `req.body` is replaced by the
+ * parsed body (unknown keys stripped, defaults applied) and the parsed query
+ * and params are left on `res.locals.query` and `res.locals.params`.
+ */
+export function validateRequest(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: ZodIssue[] = [];
+    const parsed: Record<keyof RequestSchemas, unknown> = { params: req.params, query: req.query, body: req.body };
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+      // A request without a JSON body leaves req.body undefined
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) {
+        parsed[part] = result.data;
+      } else {
+        issues.push(...result.error.issues.map((issue) => ({ ...issue, path: [part, ...issue.path] })));
+      }
+    }
+
+    if (issues.length > 0) {
+      return res.status(400).json({ error: "Invalid request", details: issues });
+    }
+
+    req.body = parsed.body;
+    res.locals.query = parsed.query;
+    res.locals.params = parsed.params;
+    next();
+  };
+}
@@ -0,0 +1,561 @@
+import { z } from "zod";
+
+// Request and response shapes of the REST API. The routes validate against
+// these with `validateRequest` and client/src/lib/api.ts checks its requests
+// with the same schemas, so both sides agree on every field. Only zod may be
+// imported here: this file is bundled into the client.
+
+export const appModes = ['doctor', 'patient', 'unified'] as const;
+export const appModeSchema = z.enum(appModes);
+
+const requiredText = z.string().trim().min(1);
+
+// Matches the client's UserType (minus 'not_specified')
+export const userRoles = ['healthcare_professional', 'patient', 'caregiver', 'parent'] as const;
+export type UserRole = typeof userRoles[number];
+// Roles anyone may register with; healthcare_professional is granted by an admin
+export const selfServiceRoles = ['patient', 'caregiver', 'parent'] as const;
+
+// What an audit log entry records being done to a consultation or patient record
+export const auditActions = ['list', 'read', 'export', 'create', 'update', 'delete', 'anonymise'] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const sessionIdSchema = z.string().trim().min(1).max(200);
+
+export const patientInfoSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().max(200).optional(),
+  age: z.number().int().min(0).max(150).optional(),
+  gender: z.string().max(50).optional(),
+  medicalHistory: z.string().max(5000).optional(),
+  // Tailor generated patient education
+  educationLevel: z.string().max(50).optional(),
+  language: z.string().max(50).optional(),
+});
+
+// Structured medical background, stored per session (patient_profiles) and
+// given to every AI prompt alongside the basic patient info
+export const allergyReactions = ['anaphylaxis', 'hives', 'rash', 'swelling', 'respiratory', 'gastrointestinal', 'intolerance', 'other', 'unknown'] as const;
+export const pregnancyStatuses = ['not_pregnant', 'pregnant', 'postpartum', 'unknown', 'not_applicable'] as const;
+export const smokingStatuses = ['never', 'former', 'current'] as const;
+export const alcoholUseLevels = ['none', 'occasional', 'moderate', 'heavy'] as const;
+
+export const medicationSchema = z.object({
+  name: requiredText.max(200),
+  dose: z.string().trim().max(100).optional(), // e.g. '500 mg'
+  frequency: z.string().trim().max(100).optional(), // e.g. 'twice daily'
+});
+
+export const allergySchema = z.object({
+  substance: requiredText.max(200),
+  reaction: z.enum(allergyReactions).default('unknown'),
+});
+
+export const patientProfileSchema = z.object({
+  medications: z.array(medicationSchema).max(50).default([]),
+  allergies: z.array(allergySchema).max(50).default([]),
+  chronicConditions: z.array(requiredText.max(200)).max(50).default([]),
+  pregnancyStatus: z.enum(pregnancyStatuses).nullish(),
+  weightKg: z.number().positive().max(700).nullish(),
+  heightCm: z.number().positive().max(300).nullish(),
+  smokingStatus: z.enum(smokingStatuses).nullish(),
+  alcoholUse: z.enum(alcoholUseLevels).nullish(),
+});
+
+// What the AI routes take as `patientInfo`: the session's patient info plus,
+// optionally, the profile. Session-bound routes fill in the stored profile
+// when it is left out.
+export const patientContextSchema = patientInfoSchema.extend({
+  profile: patientProfileSchema.optional(),
+});
+
+export const followUpAnswerSchema = z.object({
+  question: z.string().max(2000),
+  answer: z.string().max(5000),
+});
+
+// ---- Authentication ----
+
+export const registerBodySchema = z.object({
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8).max(128),
+  role: z.enum(selfServiceRoles).default('patient'),
+});
+
+export const userIdParamsSchema = z.object({
+  userId: z.coerce.number().int().min(1),
+});
+
+export const updateUserRoleBodySchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const loginBodySchema = z.object({
+  username: requiredText,
+  password: z.string().min(1),
+});
+
+// ---- Consultation sessions ----
+
+export const createSessionBodySchema = z.object({
+  sessionId: sessionIdSchema,
+  mode: appModeSchema,
+  patientId: z.number().int().min(1).nullish(),
+  patientInfo: patientInfoSchema.nullish(),
+  symptoms: z.string().max(10000).nullish(),
+});
+
+// Identity, ownership and analysis results are never client-editable
+export const updateSessionBodySchema = z.object({
+  mode: appModeSchema.optional(),
+  // Link to (or, with null, unlink from) one of the user's patient records
+  patientId: z.number().int().min(1).nullable().optional(),
+  patientInfo: patientInfoSchema.nullable().optional(),
+  symptoms: z.string().max(10000).nullable().optional(),
+}).strict();
+
+export const listSessionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  mode: appModeSchema.optional(),
+  diagnosis: requiredText.optional(),
+  q: requiredText.optional(),
+});
+
+// Defaults to the latest revision against the one before it
+export const analysisDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+// `anonymised` leaves out identity, dates and contact details (see services/anonymise)
+export const exportQuerySchema = z.object({
+  mode: z.enum(['full', 'anonymised']).default('full'),
+});
+
+// Defaults to the template matching the session mode
+export const reportQuerySchema = z.object({
+  template: z.enum(['doctor', 'patient']).optional(),
+});
+
+export const savePatientProfileBodySchema = patientProfileSchema;
+
+// ---- Patients ----
+
+// Patient records carry the same details as a session's patientInfo; the
+// name is required so they can be told apart in the picker
+export const patientRecordInfoSchema = patientInfoSchema.omit({ id: true }).extend({
+  name: requiredText.max(200),
+});
+
+export const patientIdParamsSchema = z.object({
+  patientId: z.coerce.number().int().min(1),
+});
+
+export const createPatientBodySchema = z.object({
+  patientInfo: patientRecordInfoSchema,
+  profile: patientProfileSchema.optional(),
+});
+
+export const updatePatientBodySchema = z.object({
+  patientInfo: patientRecordInfoSchema.optional(),
+  profile: patientProfileSchema.nullable().optional(),
+}).strict();
+
+export const listPatientsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  q: requiredText.optional(),
+});
+
+// ---- Symptom log ----
+
+// How a logged symptom has developed; see server/services/symptom-trends
+export const symptomTrends = ['new_onset', 'worsening', 'improving', 'stable'] as const;
+export type SymptomTrendDirection = typeof symptomTrends[number];
+
+// A few minutes of clock skew between client and server is allowed
+const notInFuture = (date: Date) => date.getTime() <= Date.now() + 5 * 60 * 1000;
+
+export const logSymptomBodySchema = z.object({
+  symptom: requiredText.max(200),
+  severity: z.number().int().min(0).max(10),
+  // When the symptom was felt; defaults to now
+  recordedAt: z.coerce.date().refine(notInFuture, 'Cannot be in the future').optional(),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export const listSymptomsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Only entries for this symptom (case-insensitive)
+  symptom: requiredText.optional(),
+});
+
+export const symptomLogEntryParamsSchema = patientIdParamsSchema.extend({
+  entryId: z.coerce.number().int().min(1),
+});
+
+// ---- Medication reminders ----
+
+// A scheduled dose is pending until it is marked taken or skipped; the
+// scheduler marks doses nobody answered as missed
+export const doseStatuses = ['pending', 'taken', 'skipped', 'missed'] as const;
+export type DoseStatus = typeof doseStatuses[number];
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const calendarDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+  .refine((value) => !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), 'Not a valid date');
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const medicationScheduleFields = {
+  drug: requiredText.max(200),
+  dose: requiredText.max(100),
+  instructions: z.string().trim().max(500).optional(), // e.g. 'with food'
+  // Wall-clock times in timeZone; duplicates are dropped
+  times: z.array(timeOfDay).min(1).max(12).transform((times) => Array.from(new Set(times)).sort()),
+  timeZone: z.string().refine(isTimeZone, 'Unknown time zone'),
+  startDate: calendarDate,
+  // Last day, inclusive; null keeps the schedule running until stopped
+  endDate: calendarDate.nullable(),
+};
+
+const endsAfterStart = ({ startDate, endDate }: { startDate?: string; endDate?: string | null }) =>
+  !startDate || !endDate || endDate >= startDate;
+
+export const createMedicationScheduleBodySchema = z.object({
+  ...medicationScheduleFields,
+  timeZone: medicationScheduleFields.timeZone.default('UTC'),
+  endDate: medicationScheduleFields.endDate.optional(),
+}).refine(endsAfterStart, { message: 'Cannot end before it starts', path: ['endDate'] });
+
+export const updateMedicationScheduleBodySchema = z.object(medicationScheduleFields)
+  .partial()
+  .strict()
+  .refine(endsAfterStart, { message: 'Cannot end before it starts', path: ['endDate'] });
+
+export const medicationScheduleParamsSchema = patientIdParamsSchema.extend({
+  scheduleId: z.coerce.number().int().min(1),
+});
+
+export const medicationDoseParamsSchema = patientIdParamsSchema.extend({
+  doseId: z.coerce.number().int().min(1),
+});
+
+export const listMedicationDosesQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  status: z.enum(doseStatuses).optional(),
+  scheduleId: z.coerce.number().int().min(1).optional(),
+});
+
+export const recordDoseBodySchema = z.object({
+  status: z.enum(['taken', 'skipped']),
+  // When it was taken; defaults to now
+  recordedAt: z.coerce.date().refine(notInFuture, 'Cannot be in the future').optional(),
+});
+
+export const medicationAdherenceQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// ---- Vital signs ----
+
+export const vitalTypes = ['heart_rate', 'blood_pressure', 'temperature', 'spo2', 'respiratory_rate', 'glucose'] as const;
+export type VitalType = typeof vitalTypes[number];
+
+// Units each vital is accepted in. Readings are converted to the first one
+// while they are validated, so the server only ever sees canonical units.
+export const vitalUnits = {
+  heart_rate: ['bpm'],
+  blood_pressure: ['mmHg', 'kPa'],
+  temperature: ['C', 'F'],
+  spo2: ['%'],
+  respiratory_rate: ['/min'],
+  glucose: ['mmol/L', 'mg/dL'],
+} as const satisfies Record<VitalType, readonly string[]>;
+
+// Where a reading sits against the patient's normal and critical ranges
+export const vitalStatuses = ['critical_low', 'low', 'normal', 'high', 'critical_high'] as const;
+export type VitalStatus = typeof vitalStatuses[number];
+
+const toCanonicalUnit: Record<string, (value: number) => number> = {
+  kPa: (value) => value * 7.50062,
+  F: (value) => (value - 32) * 5 / 9,
+  'mg/dL': (value) => value / 18.016,
+};
+
+const canonical = (value: number, unit: string) =>
+  Math.round((toCanonicalUnit[unit]?.(value) ?? value) * 10) / 10;
+
+// Values outside these (in canonical units) are taken as entry or device
+// errors rather than readings
+const plausibleVitals = {
+  heart_rate: [20, 300],
+  systolic: [40, 300],
+  diastolic: [20, 200],
+  temperature: [25, 45],
+  spo2: [50, 100],
+  respiratory_rate: [2, 80],
+  glucose: [0.5, 60],
+} as const;
+
+const readingFields = {
+  // When the reading was taken; defaults to now
+  recordedAt: z.coerce.date().refine(notInFuture, 'Cannot be in the future').optional(),
+  source: z.string().trim().max(100).optional(), // e.g. 'manual' or a device name
+};
+
+const measurement = <T extends Exclude<VitalType, 'blood_pressure'>>(type: T) => z.object({
+  type: z.literal(type),
+  value: z.number().finite(),
+  unit: z.enum(vitalUnits[type]).default(vitalUnits[type][0]),
+  ...readingFields,
+});
+
+export const vitalReadingSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('blood_pressure'),
+    systolic: z.number().finite(),
+    diastolic: z.number().finite(),
+    unit: z.enum(vitalUnits.blood_pressure).default('mmHg'),
+    ...readingFields,
+  }),
+  measurement('heart_rate'),
+  measurement('temperature'),
+  measurement('spo2'),
+  measurement('respiratory_rate'),
+  measurement('glucose'),
+]).transform((reading) => reading.type === 'blood_pressure'
+  ? { ...reading, systolic: canonical(reading.systolic, reading.unit), diastolic: canonical(reading.diastolic, reading.unit), unit: vitalUnits.blood_pressure[0] }
+  : { ...reading, value: canonical(reading.value, reading.unit), unit: vitalUnits[reading.type][0] }
+).superRefine((reading, ctx) => {
+  const values = reading.type === 'blood_pressure'
+    ? { systolic: reading.systolic, diastolic: reading.diastolic }
+    : { value: reading.value };
+  for (const [field, value] of Object.entries(values)) {
+    const [min, max] = plausibleVitals[field === 'value' ? reading.type as Exclude<VitalType, 'blood_pressure'> : field as 'systolic' | 'diastolic'];
+    if (value < min || value > max) {
+      ctx.addIssue({ code: 'custom', path: [field], message: `Must be between ${min} and ${max} ${reading.unit}` });
+    }
+  }
+  if (reading.type === 'blood_pressure' && reading.diastolic >= reading.systolic) {
+    ctx.addIssue({ code: 'custom', path: ['diastolic'], message: 'Must be lower than systolic' });
+  }
+});
+
+// One reading, or a batch of them (e.g. a device sync); a single reading is
+// taken as a batch of one
+export const recordVitalsBodySchema = z.preprocess(
+  (body) => (body && typeof body === 'object' && !('readings' in body) ? { readings: [body] } : body),
+  z.object({ readings: z.array(vitalReadingSchema).min(1).max(500) }),
+);
+
+export const listVitalsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  type: z.enum(vitalTypes).optional(),
+});
+
+export const listVitalAlertsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// ---- AI analysis ----
+
+export const generateQuestionsBodySchema = z.object({
+  symptoms: requiredText.max(10000),
+  mode: appModeSchema,
+  sessionId: sessionIdSchema,
+  patientInfo: patientContextSchema.nullish(),
+  questionType: z.enum(['mcq', 'open_ended', 'descriptive']).optional(),
+});
+
+export const analyzeBodySchema = z.object({
+  symptoms: requiredText.max(10000),
+  mode: appModeSchema,
+  sessionId: sessionIdSchema,
+  patientInfo: patientContextSchema.nullish(),
+  followUpAnswers: z.array(followUpAnswerSchema).max(50).optional(),
+  // Skip the server's LLM cache and ask the model again
+  bypassCache: z.boolean().optional(),
+});
+
+// The enhanced analysis (plain and streamed) takes the same input
+export const enhancedAnalysisBodySchema = analyzeBodySchema;
+
+export const submitAnswersBodySchema = z.object({
+  sessionId: sessionIdSchema,
+  answers: z.array(z.object({
+    questionId: z.union([z.string(), z.number()]).optional(),
+    question: z.string().max(2000).optional(),
+    answer: z.string().max(5000),
+  })).max(50),
+});
+
+export const generateMCQBodySchema = z.object({
+  diagnosis: requiredText.max(500),
+  patientInfo: patientContextSchema.nullish(),
+  mode: appModeSchema.optional(),
+});
+
+export const treatmentPathwayBodySchema = z.object({
+  diagnosis: requiredText.max(500),
+  patientInfo: patientContextSchema.nullish(),
+});
+
+// Risk assessment and clinical alerts both need the symptoms behind the diagnosis
+export const diagnosisWithSymptomsBodySchema = z.object({
+  diagnosis: requiredText.max(500),
+  symptoms: requiredText.max(10000),
+  patientInfo: patientContextSchema.nullish(),
+});
+
+export const patientEducationBodySchema = z.object({
+  diagnosis: requiredText.max(500),
+  educationLevel: z.string().trim().min(1).max(50).default('general'),
+  language: z.string().trim().min(1).max(50).default('english'),
+});
+
+export const educationBodySchema = z.object({
+  diagnosis: requiredText.max(500),
+});
+
+export const drugInteractionsBodySchema = z.object({
+  medications: z.array(requiredText).min(1).max(50),
+  allergies: z.array(requiredText).max(50).default([]),
+  conditions: z.array(requiredText).max(50).default([]),
+  mode: appModeSchema.optional(),
+});
+
+export const testAIQuerySchema = z.object({
+  prompt: z.string().max(500).default("Hello, please respond with 'AI service is working'"),
+});
+
+// ---- Admin ----
+
+export const promptVersionParamsSchema = z.object({
+  name: requiredText,
+  version: z.coerce.number().int().min(1),
+});
+
+// Defaults to the last 30 days; days are UTC
+export const usageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  userId: z.coerce.number().int().min(1).optional(),
+});
+
+// Newest first; filter by who, which consultation, what and when
+export const auditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  userId: z.coerce.number().int().min(1).optional(),
+  sessionId: sessionIdSchema.optional(),
+  action: z.enum(auditActions).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const accessLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const anonymisedSessionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// ---- Responses ----
+
+// Every 4xx/5xx body; validation failures carry the zod issues in `details`
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  details: z.unknown().optional(),
+});
+
+export const generateQuestionsResponseSchema = z.object({
+  questions: z.array(z.string()),
+  followUpMCQs: z.array(z.unknown()).optional(),
+});
+
+export const educationResponseSchema = z.object({
+  content: z.unknown(),
+});
+
+export const llmCacheClearResponseSchema = z.object({
+  removed: z.number(),
+});
+
+export type RegisterBody = z.input<typeof registerBodySchema>;
+export type LoginBody = z.infer<typeof loginBodySchema>;
+export type UpdateUserRoleBody = z.infer<typeof updateUserRoleBodySchema>;
+export type PatientInfoInput = z.infer<typeof patientInfoSchema>;
+export type Medication = z.infer<typeof medicationSchema>;
+export type Allergy = z.infer<typeof allergySchema>;
+export type AllergyReaction = typeof allergyReactions[number];
+export type PregnancyStatus = typeof pregnancyStatuses[number];
+export type SmokingStatus = typeof smokingStatuses[number];
+export type AlcoholUse = typeof alcoholUseLevels[number];
+export type PatientProfileInput = z.infer<typeof patientProfileSchema>;
+export type PatientContext = z.infer<typeof patientContextSchema>;
+export type FollowUpAnswer = z.infer<typeof followUpAnswerSchema>;
+export type CreateSessionBody = z.input<typeof createSessionBodySchema>;
+export type UpdateSessionBody = z.input<typeof updateSessionBodySchema>;
+export type ListSessionsQuery = z.infer<typeof listSessionsQuerySchema>;
+export type AnalysisDiffQuery = z.infer<typeof analysisDiffQuerySchema>;
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type SavePatientProfileBody = z.input<typeof savePatientProfileBodySchema>;
+export type PatientRecordInfo = z.infer<typeof patientRecordInfoSchema>;
+export type PatientIdParams = z.infer<typeof patientIdParamsSchema>;
+export type CreatePatientBody = z.input<typeof createPatientBodySchema>;
+export type UpdatePatientBody = z.input<typeof updatePatientBodySchema>;
+export type ListPatientsQuery = z.infer<typeof listPatientsQuerySchema>;
+export type LogSymptomBody = z.input<typeof logSymptomBodySchema>;
+export type ListSymptomsQuery = z.infer<typeof listSymptomsQuerySchema>;
+export type SymptomLogEntryParams = z.infer<typeof symptomLogEntryParamsSchema>;
+export type CreateMedicationScheduleBody = z.input<typeof createMedicationScheduleBodySchema>;
+export type UpdateMedicationScheduleBody = z.input<typeof updateMedicationScheduleBodySchema>;
+export type MedicationScheduleParams = z.infer<typeof medicationScheduleParamsSchema>;
+export type MedicationDoseParams = z.infer<typeof medicationDoseParamsSchema>;
+export type ListMedicationDosesQuery = z.infer<typeof listMedicationDosesQuerySchema>;
+export type RecordDoseBody = z.input<typeof recordDoseBodySchema>;
+export type MedicationAdherenceQuery = z.infer<typeof medicationAdherenceQuerySchema>;
+export type VitalReadingInput = z.input<typeof vitalReadingSchema>;
+export type NormalisedVitalReading = z.infer<typeof vitalReadingSchema>;
+export type RecordVitalsBody = VitalReadingInput | { readings: VitalReadingInput[] };
+export type ListVitalsQuery = z.infer<typeof listVitalsQuerySchema>;
+export type ListVitalAlertsQuery = z.infer<typeof listVitalAlertsQuerySchema>;
+export type GenerateQuestionsBody = z.input<typeof generateQuestionsBodySchema>;
+export type AnalyzeBody = z.input<typeof analyzeBodySchema>;
+export type EnhancedAnalysisBody = z.input<typeof enhancedAnalysisBodySchema>;
+export type SubmitAnswersBody = z.input<typeof submitAnswersBodySchema>;
+export type GenerateMCQBody = z.input<typeof generateMCQBodySchema>;
+export type TreatmentPathwayBody = z.input<typeof treatmentPathwayBodySchema>;
+export type DiagnosisWithSymptomsBody = z.input<typeof diagnosisWithSymptomsBodySchema>;
+export type PatientEducationBody = z.input<typeof patientEducationBodySchema>;
+export type DrugInteractionsBody = z.input<typeof drugInteractionsBodySchema>;
+export type TestAIQuery = z.infer<typeof testAIQuerySchema>;
+export type PromptVersionParams = z.infer<typeof promptVersionParamsSchema>;
+export type UsageQuery = z.infer<typeof usageQuerySchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AccessLogQuery = z.infer<typeof accessLogQuerySchema>;
+export type AnonymisedSessionsQuery = z.infer<typeof anonymisedSessionsQuerySchema>;
+export type ApiError = z.infer<typeof apiErrorSchema>;
+export type GenerateQuestionsResponse = z.infer<typeof generateQuestionsResponseSchema>;
+export type EducationResponse = z.infer<typeof educationResponseSchema>;
@@ -1,28 +1,190 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique, doublePrecision, index, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  auditActions,
+  doseStatuses,
+  patientProfileSchema,
+  registerBodySchema,
+  userRoles,
+  vitalTypes,
+  type Allergy,
+  type AuditAction,
+  type DoseStatus,
+  type Medication,
+  type UserRole,
+  type VitalType
+} from "./api-schemas";
+
+export { auditActions, doseStatuses, userRoles, vitalTypes, type AuditAction, type DoseStatus, type UserRole, type VitalType };
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default('patient'), // see userRoles
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A patient seen in more than one consultation. Details are kept in the same
+// shape as consultation_sessions.patient_info and encrypted the same way.
+export const patients = pgTable("patients", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // who keeps the record
+  patientInfo: jsonb("patient_info").notNull(),
+  profile: jsonb("profile"), // latest structured profile, see patientProfileSchema
+  // Blind index of the name's words while PHI encryption is on (see fieldEncryption.searchTokens)
+  nameSearch: text("name_search").array(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("patients_user_idx").on(table.userId),
+  nameSearchIdx: index("patients_name_search_idx").using("gin", table.nameSearch),
+}));
+
 export const consultationSessions = pgTable("consultation_sessions", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull().unique(),
+  userId: integer("user_id").references(() => users.id),
+  patientId: integer("patient_id").references(() => patients.id), // null for one-off consultations
   mode: text("mode").notNull(), // 'doctor' | 'patient'
   patientInfo: jsonb("patient_info"),
   symptoms: text("symptoms"),
+  // Blind index of the symptoms' words while PHI encryption is on
+  symptomsSearch: text("symptoms_search").array(),
   aiAnalysis: jsonb("ai_analysis"),
   conversationHistory: jsonb("conversation_history"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  // Set by the retention job once identity and contact details are stripped
+  anonymisedAt: timestamp("anonymised_at"),
+}, (table) => ({
+  patientIdx: index("consultation_sessions_patient_idx").on(table.patientId),
+  symptomsSearchIdx: index("consultation_sessions_symptoms_search_idx").using("gin", table.symptomsSearch),
+}));
+
+// Structured medical background for a session, edited in the patient-info
+// step. The list columns are encrypted like patient_info when
+// PHI_ENCRYPTION_KEYS is set.
+export const patientProfiles = pgTable("patient_profiles", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull().unique(),
+  medications: jsonb("medications").$type<Medication[]>().notNull().default([]),
+  allergies: jsonb("allergies").$type<Allergy[]>().notNull().default([]),
+  chronicConditions: jsonb("chronic_conditions").$type<string[]>().notNull().default([]),
+  pregnancyStatus: text("pregnancy_status"), // see pregnancyStatuses
+  weightKg: doublePrecision("weight_kg"),
+  heightCm: doublePrecision("height_cm"),
+  smokingStatus: text("smoking_status"), // 'never' | 'former' | 'current'
+  alcoholUse: text("alcohol_use"), // 'none' | 'occasional' | 'moderate' | 'heavy'
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Symptom diary kept against a patient record, charted over time and
+// summarised as trends for analysis. Symptom and notes are encrypted like
+// patient_info when PHI_ENCRYPTION_KEYS is set.
+export const symptomLogs = pgTable("symptom_logs", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  symptom: text("symptom").notNull(),
+  severity: integer("severity").notNull(), // 0 (none) to 10 (worst imaginable)
+  recordedAt: timestamp("recorded_at").notNull(), // when the symptom was felt, not when it was logged
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  patientRecordedIdx: index("symptom_logs_patient_recorded_idx").on(table.patientId, table.recordedAt),
+}));
+
+// Medication a patient record takes at fixed times of day. Times and dates
+// are wall-clock values in timeZone, so doses follow daylight saving. Drug,
+// dose and instructions are encrypted like patient_info when
+// PHI_ENCRYPTION_KEYS is set.
+export const medicationSchedules = pgTable("medication_schedules", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  drug: text("drug").notNull(),
+  dose: text("dose").notNull(), // e.g. '500 mg'
+  instructions: text("instructions"),
+  times: jsonb("times").$type<string[]>().notNull(), // 'HH:MM', sorted
+  timeZone: text("time_zone").notNull().default('UTC'), // IANA name
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"), // last day, inclusive; null until stopped
+  // Doses up to here have been created by the medication scheduler
+  materialisedUntil: timestamp("materialised_until"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  patientIdx: index("medication_schedules_patient_idx").on(table.patientId),
+}));
+
+// One dose of a schedule, created by the medication scheduler shortly before
+// it is due and then marked taken or skipped (or missed by the scheduler)
+export const medicationDoses = pgTable("medication_doses", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull().references(() => medicationSchedules.id),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  status: text("status").$type<DoseStatus>().notNull().default('pending'), // see doseStatuses
+  recordedAt: timestamp("recorded_at"), // when it was taken or skipped
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  scheduleDose: unique("medication_doses_schedule_time_unique").on(table.scheduleId, table.scheduledFor),
+  patientScheduledIdx: index("medication_doses_patient_scheduled_idx").on(table.patientId, table.scheduledFor),
+}));
+
+// Vital sign readings of a patient record, in the canonical units of
+// vitalUnits (values are converted when they are recorded)
+export const vitalReadings = pgTable("vital_readings", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  type: text("type").$type<VitalType>().notNull(), // see vitalTypes
+  value: doublePrecision("value").notNull(), // systolic for blood pressure
+  diastolic: doublePrecision("diastolic"), // blood pressure only
+  unit: text("unit").notNull(),
+  recordedAt: timestamp("recorded_at").notNull(), // when it was measured, not when it was recorded
+  source: text("source"), // e.g. 'manual' or a device name
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  patientTypeRecordedIdx: index("vital_readings_patient_type_recorded_idx").on(table.patientId, table.type, table.recordedAt),
+}));
+
+// Clinical alerts raised by a vital reading that broke the patient's ranges
+// or changed too quickly; see server/services/vital-signs
+export const vitalAlerts = pgTable("vital_alerts", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  readingId: integer("reading_id").notNull().references(() => vitalReadings.id),
+  code: text("code").notNull(), // e.g. 'heart_rate:critical_high', 'spo2:rapid_fall'
+  type: text("type").notNull(), // 'critical' | 'warning' | 'info', as clinical_alerts
+  priority: integer("priority").notNull(),
+  message: text("message").notNull(),
+  actionRequired: text("action_required").notNull(),
+  timeframe: text("timeframe").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  patientCreatedIdx: index("vital_alerts_patient_created_idx").on(table.patientId, table.createdAt),
+}));
+
+// Every analysis run is kept as an immutable, numbered revision of the session
+export const analysisRevisions = pgTable("analysis_revisions", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull(),
+  revision: integer("revision").notNull(), // 1, 2, 3... per session
+  trigger: text("trigger").notNull(), // 'analyze' | 'enhanced-analysis' | 'submit-answers'
+  inputs: jsonb("inputs").notNull(), // symptoms, follow-up answers, patient info and mode
+  provider: text("provider"),
+  model: text("model"),
+  promptVersion: text("prompt_version"),
+  output: jsonb("output").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  sessionRevision: unique("analysis_revisions_session_revision_unique").on(table.sessionId, table.revision),
+}));
+
 export const diagnoses = pgTable("diagnoses", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull(),
+  revisionId: integer("revision_id").references(() => analysisRevisions.id),
   name: text("name").notNull(),
   description: text("description"),
   confidence: integer("confidence"),
@@ -40,15 +202,181 @@ export const conversationEntries = pgTable("conversation_entries", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+// Enhanced-analysis artifacts. Pathway, risk and education are one per session
+// (re-running the analysis replaces them); alerts are one row per alert.
+export const treatmentPathways = pgTable("treatment_pathways", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull().unique(),
+  diagnosis: text("diagnosis").notNull(),
+  firstLineTherapy: jsonb("first_line_therapy").notNull(),
+  alternativeTreatments: jsonb("alternative_treatments"),
+  monitoringRequirements: jsonb("monitoring_requirements"),
+  followUpSchedule: text("follow_up_schedule"),
+  escalationCriteria: jsonb("escalation_criteria"),
+  source: text("source"), // 'model' | 'repaired' | 'fallback'
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const riskAssessments = pgTable("risk_assessments", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull().unique(),
+  diagnosis: text("diagnosis").notNull(),
+  immediateRisk: text("immediate_risk").notNull(), // 'low' | 'medium' | 'high' | 'critical'
+  shortTermRisk: text("short_term_risk").notNull(),
+  longTermRisk: text("long_term_risk").notNull(),
+  riskFactors: jsonb("risk_factors"),
+  mitigationStrategies: jsonb("mitigation_strategies"),
+  source: text("source"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const clinicalAlerts = pgTable("clinical_alerts", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull(),
+  type: text("type").notNull(), // 'critical' | 'warning' | 'info'
+  priority: integer("priority").notNull(),
+  message: text("message").notNull(),
+  actionRequired: text("action_required"),
+  timeframe: text("timeframe"),
+  source: text("source"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const patientEducation = pgTable("patient_education", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull().unique(),
+  diagnosis: text("diagnosis").notNull(),
+  simpleExplanation: text("simple_explanation").notNull(),
+  lifestyleModifications: jsonb("lifestyle_modifications"),
+  warningSignsToWatch: jsonb("warning_signs_to_watch"),
+  whenToSeekHelp: jsonb("when_to_seek_help"),
+  customizedContent: text("customized_content"),
+  source: text("source"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per LLM call (cache hits included, with zero tokens) for cost accounting
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id"), // null for calls made outside a consultation
+  userId: integer("user_id").references(() => users.id),
+  task: text("task").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  cached: boolean("cached").notNull().default(false),
+  fallback: boolean("fallback").notNull().default(false), // the demo provider stood in
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  sessionIdx: index("llm_usage_session_idx").on(table.sessionId),
+  createdAtIdx: index("llm_usage_created_at_idx").on(table.createdAt),
+}));
+
+// Persistent tier of the server-side LLM response cache (LLM_CACHE_STORE=postgres)
+export const llmCache = pgTable("llm_cache", {
+  key: text("key").primaryKey(), // sha256 of provider, model, sampling settings and normalized prompt
+  task: text("task").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  content: text("content").notNull(),
+  usage: jsonb("usage"),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Append-only record of who read, exported or changed a consultation or
+// patient record. Rows are never updated or deleted (the migration adds a
+// trigger enforcing it) and hold no patient data, only identifiers.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // null when not logged in
+  username: text("username"),
+  action: text("action").notNull(), // see auditActions
+  resourceType: text("resource_type").notNull(), // 'consultation_session' | 'patient'
+  resourceId: text("resource_id"), // session or patient ID; null for listings
+  route: text("route").notNull(), // e.g. 'GET /api/sessions/:sessionId/export'
+  statusCode: integer("status_code").notNull(),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  resourceIdx: index("audit_log_resource_idx").on(table.resourceType, table.resourceId),
+  userIdx: index("audit_log_user_idx").on(table.userId),
+  createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+}));
+
+export const insertUserSchema = createInsertSchema(users, registerBodySchema.shape).pick({
   username: true,
   password: true,
+  role: true,
+});
+
+export const insertPatientSchema = createInsertSchema(patients, {
+  patientInfo: z.custom<object>(),
+  profile: z.custom<object>().nullish(),
+}).omit({
+  id: true,
+  nameSearch: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSymptomLogSchema = createInsertSchema(symptomLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMedicationScheduleSchema = createInsertSchema(medicationSchedules, {
+  times: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMedicationDoseSchema = createInsertSchema(medicationDoses, {
+  status: z.enum(doseStatuses),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVitalReadingSchema = createInsertSchema(vitalReadings, {
+  type: z.enum(vitalTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVitalAlertSchema = createInsertSchema(vitalAlerts).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertConsultationSessionSchema = createInsertSchema(consultationSessions).omit({
   id: true,
+  symptomsSearch: true,
   createdAt: true,
   updatedAt: true,
+  anonymisedAt: true,
+});
+
+export const insertPatientProfileSchema = createInsertSchema(patientProfiles, patientProfileSchema.shape).omit({
+  id: true,
+  updatedAt: true,
+});
+
+// Inputs and output are stored as given; the revision number is assigned by storage
+export const insertAnalysisRevisionSchema = createInsertSchema(analysisRevisions, {
+  inputs: z.custom<object>(),
+  output: z.custom<object>(),
+}).omit({
+  id: true,
+  revision: true,
+  createdAt: true,
 });
 
 export const insertDiagnosisSchema = createInsertSchema(diagnoses).omit({
@@ -61,11 +389,77 @@ export const insertConversationEntrySchema = createInsertSchema(conversationEntr
   timestamp: true,
 });
 
+export const insertTreatmentPathwaySchema = createInsertSchema(treatmentPathways).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRiskAssessmentSchema = createInsertSchema(riskAssessments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertClinicalAlertSchema = createInsertSchema(clinicalAlerts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPatientEducationSchema = createInsertSchema(patientEducation).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLLMUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLLMCacheEntrySchema = createInsertSchema(llmCache, {
+  usage: z.custom<object>().optional(),
+}).omit({
+  createdAt: true,
+});
+
+export const insertAuditLogEntrySchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Patient = typeof patients.$inferSelect;
+export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type SymptomLog = typeof symptomLogs.$inferSelect;
+export type InsertSymptomLog = z.infer<typeof insertSymptomLogSchema>;
+export type MedicationSchedule = typeof medicationSchedules.$inferSelect;
+export type InsertMedicationSchedule = z.infer<typeof insertMedicationScheduleSchema>;
+export type MedicationDose = typeof medicationDoses.$inferSelect;
+export type InsertMedicationDose = z.infer<typeof insertMedicationDoseSchema>;
+export type VitalReading = typeof vitalReadings.$inferSelect;
+export type InsertVitalReading = z.infer<typeof insertVitalReadingSchema>;
+export type VitalAlert = typeof vitalAlerts.$inferSelect;
+export type InsertVitalAlert = z.infer<typeof insertVitalAlertSchema>;
 export type ConsultationSession = typeof consultationSessions.$inferSelect;
 export type InsertConsultationSession = z.infer<typeof insertConsultationSessionSchema>;
+export type PatientProfile = typeof patientProfiles.$inferSelect;
+export type InsertPatientProfile = z.infer<typeof insertPatientProfileSchema>;
+export type AnalysisRevision = typeof analysisRevisions.$inferSelect;
+export type InsertAnalysisRevision = z.infer<typeof insertAnalysisRevisionSchema>;
 export type Diagnosis = typeof diagnoses.$inferSelect;
 export type InsertDiagnosis = z.infer<typeof insertDiagnosisSchema>;
 export type ConversationEntry = typeof conversationEntries.$inferSelect;
 export type InsertConversationEntry = z.infer<typeof insertConversationEntrySchema>;
+export type TreatmentPathwayRecord = typeof treatmentPathways.$inferSelect;
+export type InsertTreatmentPathway = z.infer<typeof insertTreatmentPathwaySchema>;
+export type RiskAssessmentRecord = typeof riskAssessments.$inferSelect;
+export type InsertRiskAssessment = z.infer<typeof insertRiskAssessmentSchema>;
+export type ClinicalAlertRecord = typeof clinicalAlerts.$inferSelect;
+export type InsertClinicalAlert = z.infer<typeof insertClinicalAlertSchema>;
+export type PatientEducationRecord = typeof patientEducation.$inferSelect;
+export type InsertPatientEducation = z.infer<typeof insertPatientEducationSchema>;
+export type LLMCacheEntry = typeof llmCache.$inferSelect;
+export type InsertLLMCacheEntry = z.infer<typeof insertLLMCacheEntrySchema>;
+export type LLMUsageRecord = typeof llmUsage.$inferSelect;
+export type InsertLLMUsage = z.infer<typeof insertLLMUsageSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogEntrySchema>;